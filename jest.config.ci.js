@@ -31,5 +31,37 @@ module.exports = {
     '<rootDir>/src/app/shared/utilities/file.spec.ts',
     '<rootDir>/src/app/shared/services/df-breakpoint.service.spec.ts',
     '<rootDir>/src/app/shared/services/df-theme.service.spec.ts',
+    '<rootDir>/src/app/adf-packages/utilities/package-manifest.spec.ts',
+    '<rootDir>/src/app/shared/utilities/zip.spec.ts',
+    '<rootDir>/src/app/shared/utilities/polling.spec.ts',
+    '<rootDir>/src/app/adf-services/services/df-connection-test.service.spec.ts',
+    '<rootDir>/src/app/adf-services/services/df-service-usage.service.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/service-usage.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/mcp-tools.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/service-history.spec.ts',
+    '<rootDir>/src/app/adf-services/services/df-service-history.service.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/mcp-playground.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/openapi-tools.spec.ts',
+    '<rootDir>/src/app/adf-services/utilities/service-clone.spec.ts',
+    '<rootDir>/src/app/shared/utilities/bulk.spec.ts',
+    '<rootDir>/src/app/shared/utilities/config-rules.spec.ts',
+    '<rootDir>/src/app/adf-api-docs/df-service-health/service-health.spec.ts',
+    '<rootDir>/src/app/adf-api-docs/services/df-service-health.service.spec.ts',
+    '<rootDir>/src/app/adf-roles/utilities/permission-simulator.spec.ts',
+    '<rootDir>/src/app/adf-roles/utilities/access-matrix.spec.ts',
+    '<rootDir>/src/app/adf-roles/utilities/role-template.spec.ts',
+    '<rootDir>/src/app/adf-roles/utilities/filter-groups.spec.ts',
+    '<rootDir>/src/app/adf-limits/df-limit-usage/limit-usage.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/record-changes.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/export-writers.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/view-state.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/search-filter.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/related.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/routine-results.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/local-rows.spec.ts',
+    '<rootDir>/src/app/adf-data-explorer/utilities/aggregate.spec.ts',
+    '<rootDir>/src/app/adf-schema/df-er-diagram/er-diagram.spec.ts',
+    '<rootDir>/src/app/adf-schema/df-schema-compare/schema-diff.spec.ts',
+    '<rootDir>/src/app/adf-schema/utilities/sample-data.spec.ts',
   ],
 };
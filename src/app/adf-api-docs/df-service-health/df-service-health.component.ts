@@ -0,0 +1,160 @@
+import { DOCUMENT, AsyncPipe, DatePipe, NgFor, NgIf } from '@angular/common';
+import { Component, Inject, OnInit } from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faArrowsRotate,
+  faCircleCheck,
+  faCircleQuestion,
+  faCircleXmark,
+  faTriangleExclamation,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { finalize, map, mergeMap, from, startWith } from 'rxjs';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { ROUTES } from 'src/app/shared/types/routes';
+import { Service, ServiceType } from 'src/app/shared/types/service';
+import { pollWhileVisible } from 'src/app/shared/utilities/polling';
+import { DfServiceHealthService } from '../services/df-service-health.service';
+import {
+  ServiceHealth,
+  initialHealth,
+  recordCheck,
+  sparklinePoints,
+} from './service-health';
+
+/** Polling intervals to choose from, in seconds */
+const POLL_INTERVALS = [30, 60, 300];
+
+/** Services probed at the same time */
+const CONCURRENT_CHECKS = 3;
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-service-health',
+  templateUrl: './df-service-health.component.html',
+  styleUrls: ['./df-service-health.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    DatePipe,
+    RouterLink,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfServiceHealthComponent implements OnInit {
+  services: ServiceHealth[] = [];
+  running = false;
+  intervals = POLL_INTERVALS;
+  interval = new FormControl(60, { nonNullable: true });
+  apiDocsRoute = `/${ROUTES.API_CONNECTIONS}/${ROUTES.API_DOCS}`;
+  isDarkMode = this.themeService.darkMode$;
+  faArrowsRotate = faArrowsRotate;
+  faCircleCheck = faCircleCheck;
+  faCircleXmark = faCircleXmark;
+  faCircleQuestion = faCircleQuestion;
+  faTriangleExclamation = faTriangleExclamation;
+  private lastRun = 0;
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private healthService: DfServiceHealthService,
+    private themeService: DfThemeService,
+    @Inject(DOCUMENT) private document: Document
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.data.subscribe(({ data, serviceTypes }) => {
+      const groups = new Map(
+        ((serviceTypes ?? []) as ServiceType[]).map(type => [
+          type.name,
+          type.group,
+        ])
+      );
+      this.services = ((data as GenericListResponse<Service>)?.resource ?? [])
+        .filter(service =>
+          this.healthService.supports(groups.get(service.type))
+        )
+        .map(service =>
+          initialHealth({
+            ...service,
+            group: groups.get(service.type) as string,
+          })
+        );
+    });
+
+    pollWhileVisible(
+      this.document,
+      this.interval.valueChanges.pipe(startWith(this.interval.value)),
+      () => this.lastRun
+    )
+      .pipe(untilDestroyed(this))
+      .subscribe(() => this.checkAll());
+  }
+
+  get failing(): number {
+    return this.services.filter(service => service.status === 'failing').length;
+  }
+
+  get flipped(): ServiceHealth[] {
+    return this.services.filter(service => service.flippedAt);
+  }
+
+  checkAll(): void {
+    if (this.running || !this.services.length) {
+      return;
+    }
+    this.running = true;
+    this.lastRun = Date.now();
+    this.services = this.services.map(service => ({
+      ...service,
+      checking: true,
+    }));
+    from(this.services)
+      .pipe(
+        mergeMap(
+          service =>
+            this.healthService
+              .check(service.name, service.group)
+              .pipe(map(result => ({ name: service.name, result }))),
+          CONCURRENT_CHECKS
+        ),
+        finalize(() => (this.running = false)),
+        untilDestroyed(this)
+      )
+      .subscribe(({ name, result }) => {
+        this.services = this.services.map(service =>
+          service.name === name ? recordCheck(service, result) : service
+        );
+      });
+  }
+
+  lastLatency(service: ServiceHealth): number | null {
+    return service.history[service.history.length - 1] ?? null;
+  }
+
+  sparkline(service: ServiceHealth): string {
+    return sparklinePoints(service.history, 100, 24);
+  }
+
+  trackByName(index: number, service: ServiceHealth): string {
+    return service.name;
+  }
+}
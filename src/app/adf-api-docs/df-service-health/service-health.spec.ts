@@ -0,0 +1,77 @@
+import {
+  HEALTH_HISTORY_SIZE,
+  initialHealth,
+  recordCheck,
+  sparklinePoints,
+} from './service-health';
+
+describe('recordCheck', () => {
+  const health = initialHealth({ name: 'db', group: 'Database' });
+
+  it('flags a service that goes from healthy to failing until it recovers', () => {
+    const healthy = recordCheck(health, {
+      success: true,
+      latency: 40,
+      checkedAt: 1,
+    });
+    expect(healthy.status).toBe('healthy');
+    expect(healthy.flippedAt).toBeUndefined();
+
+    const failing = recordCheck(healthy, {
+      success: false,
+      latency: 10,
+      error: '/_table: refused',
+      checkedAt: 2,
+    });
+    expect(failing).toEqual(
+      expect.objectContaining({
+        status: 'failing',
+        flippedAt: 2,
+        lastError: '/_table: refused',
+        history: [40, null],
+      })
+    );
+
+    const stillFailing = recordCheck(failing, {
+      success: false,
+      latency: 10,
+      error: 'timeout',
+      checkedAt: 3,
+    });
+    expect(stillFailing.flippedAt).toBe(2);
+    expect(
+      recordCheck(stillFailing, { success: true, latency: 5, checkedAt: 4 })
+        .flippedAt
+    ).toBeUndefined();
+  });
+
+  it('does not flag services that fail from the first check', () => {
+    const failing = recordCheck(health, {
+      success: false,
+      latency: 10,
+      error: 'refused',
+      checkedAt: 1,
+    });
+    expect(failing.flippedAt).toBeUndefined();
+  });
+
+  it('keeps a bounded history', () => {
+    let current = health;
+    for (let i = 0; i < HEALTH_HISTORY_SIZE + 5; i++) {
+      current = recordCheck(current, {
+        success: true,
+        latency: i,
+        checkedAt: i,
+      });
+    }
+    expect(current.history.length).toBe(HEALTH_HISTORY_SIZE);
+    expect(current.history[0]).toBe(5);
+  });
+});
+
+describe('sparklinePoints', () => {
+  it('scales latencies to the box and draws failures at the top', () => {
+    expect(sparklinePoints([50, 100, null], 20, 10)).toBe('0,5 10,0 20,0');
+    expect(sparklinePoints([], 20, 10)).toBe('');
+  });
+});
@@ -0,0 +1,87 @@
+/** Number of latencies kept for the sparkline of a service */
+export const HEALTH_HISTORY_SIZE = 20;
+
+export type HealthStatus = 'unknown' | 'healthy' | 'failing';
+
+export interface HealthCheckResult {
+  success: boolean;
+  /** Round trip of all endpoints in milliseconds */
+  latency: number;
+  error?: string;
+  checkedAt: number;
+}
+
+export interface ServiceHealth {
+  name: string;
+  label: string;
+  group: string;
+  status: HealthStatus;
+  checking: boolean;
+  /** Latency of the recent checks, null for the ones that failed */
+  history: Array<number | null>;
+  lastError?: string;
+  lastCheckedAt?: number;
+  /** When the service went from healthy to failing, until it recovers */
+  flippedAt?: number;
+}
+
+export function initialHealth(service: {
+  name: string;
+  label?: string;
+  group: string;
+}): ServiceHealth {
+  return {
+    name: service.name,
+    label: service.label || service.name,
+    group: service.group,
+    status: 'unknown',
+    checking: false,
+    history: [],
+  };
+}
+
+export function recordCheck(
+  health: ServiceHealth,
+  result: HealthCheckResult
+): ServiceHealth {
+  const status: HealthStatus = result.success ? 'healthy' : 'failing';
+  let flippedAt = health.flippedAt;
+  if (status === 'healthy') {
+    flippedAt = undefined;
+  } else if (health.status === 'healthy') {
+    flippedAt = result.checkedAt;
+  }
+  return {
+    ...health,
+    status,
+    checking: false,
+    history: [...health.history, result.success ? result.latency : null].slice(
+      -HEALTH_HISTORY_SIZE
+    ),
+    lastError: result.success ? health.lastError : result.error,
+    lastCheckedAt: result.checkedAt,
+    flippedAt,
+  };
+}
+
+/**
+ * Points of an SVG polyline for the latencies, scaled to the box. Failed
+ * checks are drawn at the top so they stand out as spikes.
+ */
+export function sparklinePoints(
+  history: Array<number | null>,
+  width: number,
+  height: number
+): string {
+  if (!history.length) {
+    return '';
+  }
+  const max = Math.max(1, ...history.map(latency => latency ?? 0));
+  const step = history.length > 1 ? width / (history.length - 1) : 0;
+  return history
+    .map((latency, i) => {
+      const y = latency === null ? 0 : height - (latency / max) * height;
+      return `${Math.round(i * step * 10) / 10},${Math.round(y * 10) / 10}`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { HealthCheckResult } from '../df-service-health/service-health';
+import { DfServiceHealthService } from './df-service-health.service';
+
+describe('DfServiceHealthService', () => {
+  let service: DfServiceHealthService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(DfServiceHealthService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('succeeds when every endpoint of the group responds', () => {
+    let result: HealthCheckResult | undefined;
+    service.check('db', 'Database').subscribe(r => (result = r));
+
+    httpMock.expectOne('/api/v2/db/_schema').flush('{"resource":[]}');
+    httpMock.expectOne('/api/v2/db/_table').flush('{"resource":[]}');
+
+    expect(result?.success).toBe(true);
+    expect(result?.error).toBeUndefined();
+  });
+
+  it('stops at the first failing endpoint and reports its error', () => {
+    let result: HealthCheckResult | undefined;
+    service.check('db', 'Database').subscribe(r => (result = r));
+
+    httpMock
+      .expectOne('/api/v2/db/_schema')
+      .flush(JSON.stringify({ error: { message: 'Connection refused' } }), {
+        status: 500,
+        statusText: 'Server Error',
+      });
+    httpMock.expectNone('/api/v2/db/_table');
+
+    expect(result?.success).toBe(false);
+    expect(result?.error).toBe('/_schema: Connection refused');
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { DfEndpointProbeService } from 'src/app/shared/services/df-endpoint-probe.service';
+import { HealthCheckResult } from '../df-service-health/service-health';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfServiceHealthService {
+  constructor(private probeService: DfEndpointProbeService) {}
+
+  /** Whether there are endpoints to probe for services of the group */
+  supports(group: string | undefined): boolean {
+    return this.probeService.supports(group);
+  }
+
+  /**
+   * Calls the health check endpoints of the service's group in order and
+   * stops at the first one that fails.
+   */
+  check(name: string, group: string): Observable<HealthCheckResult> {
+    return this.probeService.checkGroup(name, group, true).pipe(
+      map(checks => {
+        const failed = checks.find(check => !check.success);
+        return {
+          success: !failed,
+          latency: checks.reduce((sum, check) => sum + check.latency, 0),
+          error: failed && `${failed.endpoint}: ${failed.error}`,
+          checkedAt: Date.now(),
+        };
+      })
+    );
+  }
+}
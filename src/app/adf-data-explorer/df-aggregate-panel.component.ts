@@ -0,0 +1,562 @@
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  Output,
+  SimpleChanges,
+  ViewChild,
+} from '@angular/core';
+import { NgIf, NgFor } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatSelectModule } from '@angular/material/select';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { TranslocoModule } from '@ngneat/transloco';
+import {
+  BarController,
+  BarElement,
+  CategoryScale,
+  Chart,
+  Legend,
+  LineController,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  DataExplorerService,
+  FieldInfo,
+  TableSchemaResponse,
+} from './services/data-explorer.service';
+import {
+  AggregateFunction,
+  AggregateSpec,
+  aggregatableFields,
+  aggregateAlias,
+  aggregatesForField,
+  buildAggregateFields,
+  mapAggregateRows,
+} from './utilities/aggregate';
+
+Chart.register(
+  BarController,
+  BarElement,
+  CategoryScale,
+  Legend,
+  LineController,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip
+);
+
+type ResultView = 'grid' | 'bar' | 'line';
+
+const CHART_COLORS = ['#7b1fa2', '#1565c0', '#ef6c00', '#2e7d32', '#c62828'];
+
+@Component({
+  selector: 'df-aggregate-panel',
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatSelectModule,
+    MatFormFieldModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    TranslocoModule,
+  ],
+  template: `
+    <div class="aggregate-panel" *transloco="let t; scope: 'dataExplorer'">
+      <div class="panel-header">
+        <span class="panel-title">{{ t('dataExplorer.aggregate') }}</span>
+        <button mat-icon-button (click)="closeClicked.emit()" class="close-btn">
+          <mat-icon>close</mat-icon>
+        </button>
+      </div>
+
+      <div class="panel-body">
+        <!-- Group by -->
+        <div class="section-header">{{ t('dataExplorer.groupBy') }}</div>
+        <mat-form-field appearance="outline" class="compact-field">
+          <mat-select
+            multiple
+            [(ngModel)]="groupBy"
+            [placeholder]="t('dataExplorer.noGrouping')">
+            <mat-option *ngFor="let f of groupableFields" [value]="f.name">
+              {{ f.name }}
+            </mat-option>
+          </mat-select>
+        </mat-form-field>
+
+        <!-- Aggregates -->
+        <div class="section-header">
+          {{ t('dataExplorer.aggregates') }}
+        </div>
+        <div class="spec-row" *ngFor="let spec of specs; let i = index">
+          <select
+            class="spec-select"
+            [(ngModel)]="spec.fn"
+            (ngModelChange)="onSpecChange(spec)">
+            <option *ngFor="let fn of functionsFor(spec)" [value]="fn">
+              {{ fn }}
+            </option>
+          </select>
+          <select
+            class="spec-select spec-field"
+            [(ngModel)]="spec.field"
+            (ngModelChange)="onSpecChange(spec)">
+            <option value="*">*</option>
+            <option *ngFor="let f of targetFields" [value]="f.name">
+              {{ f.name }}
+            </option>
+          </select>
+          <button
+            mat-icon-button
+            class="spec-remove"
+            [disabled]="specs.length === 1"
+            (click)="removeSpec(i)">
+            <mat-icon>close</mat-icon>
+          </button>
+        </div>
+        <div class="panel-actions">
+          <button mat-button (click)="addSpec()">
+            <mat-icon>add</mat-icon>
+            {{ t('dataExplorer.addAggregate') }}
+          </button>
+          <button
+            mat-flat-button
+            color="primary"
+            [disabled]="running"
+            (click)="run()">
+            <mat-icon>play_arrow</mat-icon>
+            {{ t('dataExplorer.run') }}
+          </button>
+        </div>
+        <div class="filter-note" *ngIf="filter" [matTooltip]="filter">
+          <mat-icon>filter_list</mat-icon>
+          {{ t('dataExplorer.aggregateUsesFilters') }}
+        </div>
+
+        <div class="panel-state" *ngIf="running">
+          <mat-spinner diameter="28"></mat-spinner>
+        </div>
+        <div class="panel-state error-state" *ngIf="error && !running">
+          <mat-icon color="warn">error_outline</mat-icon>
+          <span>{{ error }}</span>
+        </div>
+
+        <!-- Results -->
+        <ng-container *ngIf="rows.length > 0 && !running && !error">
+          <div class="result-toolbar">
+            <span class="section-header"
+              >{{ t('dataExplorer.results') }} ({{ rows.length }})</span
+            >
+            <mat-button-toggle-group
+              [value]="view"
+              (change)="setView($event.value)">
+              <mat-button-toggle value="grid" matTooltip="Grid">
+                <mat-icon>table_rows</mat-icon>
+              </mat-button-toggle>
+              <mat-button-toggle
+                value="bar"
+                matTooltip="Bar chart"
+                [disabled]="!canChart">
+                <mat-icon>bar_chart</mat-icon>
+              </mat-button-toggle>
+              <mat-button-toggle
+                value="line"
+                matTooltip="Line chart"
+                [disabled]="!canChart">
+                <mat-icon>show_chart</mat-icon>
+              </mat-button-toggle>
+            </mat-button-toggle-group>
+          </div>
+
+          <div class="result-grid" *ngIf="view === 'grid'">
+            <table>
+              <thead>
+                <tr>
+                  <th *ngFor="let col of resultColumns">{{ col }}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr *ngFor="let row of rows">
+                  <td
+                    *ngFor="let col of resultColumns"
+                    [class.null-cell]="row[col] === null">
+                    {{ row[col] === null ? 'NULL' : row[col] }}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div class="result-chart" [hidden]="view === 'grid'">
+            <canvas #chartCanvas></canvas>
+          </div>
+        </ng-container>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .aggregate-panel {
+        display: flex;
+        flex-direction: column;
+        height: 100%;
+        width: 420px;
+        border-left: 1px solid #e0e0e0;
+        background: #fafafa;
+        overflow: hidden;
+      }
+
+      .panel-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 8px 12px;
+        border-bottom: 1px solid #e0e0e0;
+        background: #f5f5f5;
+
+        .panel-title {
+          font-size: 13px;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          color: #616161;
+        }
+
+        .close-btn {
+          width: 28px;
+          height: 28px;
+          line-height: 28px;
+        }
+      }
+
+      .panel-body {
+        flex: 1;
+        overflow-y: auto;
+        padding: 8px 12px;
+      }
+
+      .section-header {
+        font-size: 11px;
+        font-weight: 600;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+        color: #9e9e9e;
+        padding: 8px 0 6px;
+      }
+
+      .compact-field {
+        width: 100%;
+
+        ::ng-deep .mat-mdc-form-field-subscript-wrapper {
+          display: none;
+        }
+      }
+
+      .spec-row {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 6px;
+      }
+
+      .spec-select {
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        padding: 5px 6px;
+        font-size: 13px;
+        background: white;
+
+        &.spec-field {
+          flex: 1;
+        }
+      }
+
+      .spec-remove {
+        width: 28px;
+        height: 28px;
+        padding: 2px;
+      }
+
+      .panel-actions {
+        display: flex;
+        justify-content: space-between;
+        margin-top: 4px;
+      }
+
+      .filter-note {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-top: 8px;
+        font-size: 12px;
+        color: #757575;
+
+        mat-icon {
+          font-size: 16px;
+          width: 16px;
+          height: 16px;
+        }
+      }
+
+      .panel-state {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 8px;
+        padding: 16px;
+        font-size: 13px;
+
+        &.error-state {
+          color: #d32f2f;
+        }
+      }
+
+      .result-toolbar {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-top: 12px;
+      }
+
+      .result-grid {
+        max-height: 360px;
+        overflow: auto;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        margin-top: 6px;
+
+        table {
+          border-collapse: collapse;
+          width: 100%;
+          font-size: 12px;
+        }
+
+        th,
+        td {
+          padding: 4px 8px;
+          text-align: left;
+          white-space: nowrap;
+          border-bottom: 1px solid #f0f0f0;
+        }
+
+        th {
+          position: sticky;
+          top: 0;
+          background: #f5f5f5;
+          font-family: 'Roboto Mono', monospace;
+          color: #616161;
+        }
+
+        .null-cell {
+          color: #bdbdbd;
+          font-style: italic;
+        }
+      }
+
+      .result-chart {
+        position: relative;
+        height: 280px;
+        margin-top: 6px;
+      }
+
+      :host-context(.dark-theme) {
+        .aggregate-panel {
+          background: #1e1e1e;
+          border-left-color: #424242;
+        }
+        .panel-header {
+          background: #2c2c2c;
+          border-bottom-color: #424242;
+          .panel-title {
+            color: #bdbdbd;
+          }
+        }
+        .spec-select {
+          background: #2c2c2c;
+          color: #e0e0e0;
+          border-color: #424242;
+        }
+        .result-grid {
+          border-color: #424242;
+          th {
+            background: #2c2c2c;
+            color: #bdbdbd;
+          }
+          td {
+            border-bottom-color: #2c2c2c;
+            color: #e0e0e0;
+          }
+        }
+      }
+    `,
+  ],
+})
+export class DfAggregatePanelComponent implements OnChanges, OnDestroy {
+  @Input() serviceName = '';
+  @Input() tableName = '';
+  @Input() schema: TableSchemaResponse | null = null;
+  /** Active grid filter the aggregate query is restricted to */
+  @Input() filter = '';
+  @Output() closeClicked = new EventEmitter<void>();
+
+  @ViewChild('chartCanvas') chartCanvas?: ElementRef<HTMLCanvasElement>;
+
+  groupBy: string[] = [];
+  specs: AggregateSpec[] = [{ fn: 'COUNT', field: '*' }];
+  running = false;
+  error: string | null = null;
+  rows: Record<string, any>[] = [];
+  resultColumns: string[] = [];
+  view: ResultView = 'grid';
+
+  private chart: Chart | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(private dataExplorerService: DataExplorerService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['tableName'] || changes['serviceName']) {
+      this.groupBy = [];
+      this.specs = [{ fn: 'COUNT', field: '*' }];
+      this.rows = [];
+      this.error = null;
+      this.destroyChart();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroyChart();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get groupableFields(): FieldInfo[] {
+    return (this.schema?.field || []).filter(f => !f.isVirtual);
+  }
+
+  get targetFields(): FieldInfo[] {
+    return aggregatableFields(this.schema?.field || []);
+  }
+
+  /** Charts need a group column for labels and a numeric series */
+  get canChart(): boolean {
+    return this.groupBy.length > 0 && this.specs.length > 0;
+  }
+
+  functionsFor(spec: AggregateSpec): AggregateFunction[] {
+    return spec.field === '*'
+      ? ['COUNT']
+      : aggregatesForField(this.fieldInfo(spec.field));
+  }
+
+  onSpecChange(spec: AggregateSpec): void {
+    if (!this.functionsFor(spec).includes(spec.fn)) {
+      spec.fn = this.functionsFor(spec)[0];
+    }
+  }
+
+  addSpec(): void {
+    const target = this.targetFields[0];
+    this.specs.push(
+      target ? { fn: 'SUM', field: target.name } : { fn: 'COUNT', field: '*' }
+    );
+    this.onSpecChange(this.specs[this.specs.length - 1]);
+  }
+
+  removeSpec(index: number): void {
+    this.specs.splice(index, 1);
+  }
+
+  run(): void {
+    if (this.running || !this.serviceName || !this.tableName) return;
+    const specs = [...this.specs];
+    const groupBy = [...this.groupBy];
+    const columns = [...groupBy, ...specs.map(aggregateAlias)];
+
+    this.running = true;
+    this.error = null;
+    this.destroyChart();
+    this.dataExplorerService
+      .getAggregates(
+        this.serviceName,
+        this.tableName,
+        buildAggregateFields(groupBy, specs),
+        groupBy,
+        this.filter || undefined
+      )
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: res => {
+          this.resultColumns = columns;
+          this.rows = mapAggregateRows(res.resource || [], columns);
+          this.running = false;
+          if (!this.canChart) this.view = 'grid';
+          // Canvas renders with the results, so draw on the next tick
+          setTimeout(() => this.renderChart());
+        },
+        error: err => {
+          this.error =
+            err?.error?.error?.message || 'Failed to run aggregate query';
+          this.rows = [];
+          this.running = false;
+        },
+      });
+  }
+
+  setView(view: ResultView): void {
+    this.view = view;
+    setTimeout(() => this.renderChart());
+  }
+
+  private renderChart(): void {
+    this.destroyChart();
+    const canvas = this.chartCanvas?.nativeElement;
+    if (!canvas || this.view === 'grid' || !this.canChart) return;
+
+    const labels = this.rows.map(row =>
+      this.groupBy.map(col => String(row[col] ?? 'NULL')).join(' / ')
+    );
+    const datasets = this.specs.map((spec, i) => {
+      const alias = aggregateAlias(spec);
+      const color = CHART_COLORS[i % CHART_COLORS.length];
+      return {
+        label: alias,
+        data: this.rows.map(row => Number(row[alias]) || 0),
+        backgroundColor: color,
+        borderColor: color,
+      };
+    });
+    this.chart = new Chart(canvas, {
+      type: this.view,
+      data: { labels, datasets },
+      options: { responsive: true, maintainAspectRatio: false },
+    });
+  }
+
+  private destroyChart(): void {
+    this.chart?.destroy();
+    this.chart = null;
+  }
+
+  private fieldInfo(name: string): FieldInfo | null {
+    return this.schema?.field.find(f => f.name === name) || null;
+  }
+}
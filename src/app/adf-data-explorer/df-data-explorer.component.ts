@@ -6,25 +6,46 @@ import {
   ElementRef,
   HostBinding,
   NgZone,
+  ViewChild,
 } from '@angular/core';
 import { NgIf, AsyncPipe } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
 import { MatSidenavModule } from '@angular/material/sidenav';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatDialog } from '@angular/material/dialog';
 import { TranslocoModule } from '@ngneat/transloco';
-import { BehaviorSubject, Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { BehaviorSubject, Subject, forkJoin, of } from 'rxjs';
+import { catchError, filter, takeUntil } from 'rxjs/operators';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
 import {
   DataExplorerService,
   DatabaseService,
+  RoutineInfo,
+  RoutineSelection,
   TableInfo,
 } from './services/data-explorer.service';
 import { DfDbSelectorComponent } from './df-db-selector.component';
 import { DfSchemaTreeComponent } from './df-schema-tree.component';
 import { DfDataGridComponent } from './df-data-grid.component';
+import { DfRoutineRunnerComponent } from './df-routine-runner.component';
 import { DfThemeService } from '../shared/services/df-theme.service';
+import { DfConfirmDialogComponent } from '../shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import { SavedViewsService } from './services/saved-views.service';
+import {
+  DataGridViewState,
+  SavedView,
+  decodeViewState,
+  encodeViewState,
+} from './utilities/view-state';
+
+/** Selection requested by the route query string, applied once data loads */
+interface RouteSelection {
+  service?: string;
+  table?: string;
+  view?: string;
+}
 
 @Component({
   selector: 'df-data-explorer',
@@ -43,6 +64,7 @@ import { DfThemeService } from '../shared/services/df-theme.service';
     DfDbSelectorComponent,
     DfSchemaTreeComponent,
     DfDataGridComponent,
+    DfRoutineRunnerComponent,
   ],
 })
 export class DfDataExplorerComponent
@@ -53,7 +75,13 @@ export class DfDataExplorerComponent
   tables: TableInfo[] = [];
   selectedDb: DatabaseService | null = null;
   selectedTable: TableInfo | null = null;
+  procedures: RoutineInfo[] = [];
+  functions: RoutineInfo[] = [];
+  selectedRoutine: RoutineSelection | null = null;
   pendingFilter: string | undefined;
+  pendingView: DataGridViewState | undefined;
+  savedViews: SavedView[] = [];
+  @ViewChild(DfDataGridComponent) grid?: DfDataGridComponent;
 
   loadingDbs = false;
   loadingSchema = false;
@@ -63,6 +91,8 @@ export class DfDataExplorerComponent
   isDarkMode$ = this.themeService.darkMode$;
 
   private destroy$ = new Subject<void>();
+  private allSavedViews: SavedView[] = [];
+  private routeSelection: RouteSelection | null = null;
 
   private resizeObserver: ResizeObserver | null = null;
   private resizeListener = () => this.calculateHeight();
@@ -71,10 +101,28 @@ export class DfDataExplorerComponent
     private dataExplorerService: DataExplorerService,
     private themeService: DfThemeService,
     private elementRef: ElementRef,
-    private ngZone: NgZone
+    private ngZone: NgZone,
+    private route: ActivatedRoute,
+    private router: Router,
+    private savedViewsService: SavedViewsService,
+    private dialog: MatDialog
   ) {}
 
   ngOnInit(): void {
+    const params = this.route.snapshot.queryParamMap;
+    if (params.get('service')) {
+      this.routeSelection = {
+        service: params.get('service') ?? undefined,
+        table: params.get('table') ?? undefined,
+        view: params.get('view') ?? undefined,
+      };
+    }
+    this.savedViewsService.views$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(views => {
+        this.allSavedViews = views;
+        this.updateSavedViews();
+      });
     this.loadDatabases();
   }
 
@@ -119,6 +167,12 @@ export class DfDataExplorerComponent
         next: dbs => {
           this.databases = dbs;
           this.loadingDbs = false;
+          const db = dbs.find(d => d.name === this.routeSelection?.service);
+          if (db) {
+            this.onDatabaseSelected(db);
+          } else {
+            this.routeSelection = null;
+          }
         },
         error: err => {
           this.errorDbs =
@@ -129,9 +183,20 @@ export class DfDataExplorerComponent
   }
 
   onDatabaseSelected(db: DatabaseService): void {
+    this.confirmLeaveTable(() => this.selectDatabase(db));
+  }
+
+  private selectDatabase(db: DatabaseService): void {
     this.selectedDb = db;
     this.selectedTable = null;
+    this.selectedRoutine = null;
     this.tables = [];
+    this.procedures = [];
+    this.functions = [];
+    this.updateSavedViews();
+    if (!this.routeSelection) {
+      this.updateQueryParams({ service: db.name });
+    }
     this.loadSchema(db.name);
   }
 
@@ -145,6 +210,8 @@ export class DfDataExplorerComponent
         next: tables => {
           this.tables = tables;
           this.loadingSchema = false;
+          this.applyRouteSelection();
+          this.loadRoutines(serviceName);
         },
         error: err => {
           this.errorSchema =
@@ -154,30 +221,162 @@ export class DfDataExplorerComponent
       });
   }
 
+  /** Not every database supports procedures or functions, so failures just leave the lists empty */
+  private loadRoutines(serviceName: string): void {
+    forkJoin([
+      this.dataExplorerService
+        .getRoutines(serviceName, 'procedure')
+        .pipe(catchError(() => of([]))),
+      this.dataExplorerService
+        .getRoutines(serviceName, 'function')
+        .pipe(catchError(() => of([]))),
+    ])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([procedures, functions]) => {
+        this.procedures = procedures;
+        this.functions = functions;
+      });
+  }
+
+  onRoutineSelected(selection: RoutineSelection): void {
+    this.confirmLeaveTable(() => this.selectRoutine(selection));
+  }
+
+  private selectRoutine(selection: RoutineSelection): void {
+    this.selectedTable = null;
+    this.pendingFilter = undefined;
+    this.pendingView = undefined;
+    this.selectedRoutine = selection;
+    this.updateQueryParams({ service: this.selectedDb?.name });
+  }
+
   onTableSelected(table: TableInfo): void {
+    this.confirmLeaveTable(() => this.selectTable(table));
+  }
+
+  private selectTable(table: TableInfo): void {
+    this.selectedRoutine = null;
     this.pendingFilter = undefined;
+    this.pendingView = undefined;
     this.selectedTable = table;
+    this.updateQueryParams({
+      service: this.selectedDb?.name,
+      table: table.name,
+    });
+  }
+
+  onViewSelected(view: SavedView): void {
+    const table = this.tables.find(t => t.name === view.tableName);
+    if (!table) return;
+    this.confirmLeaveTable(() => {
+      this.pendingFilter = undefined;
+      this.showTable(table, view.state);
+    });
+  }
+
+  onViewDeleted(view: SavedView): void {
+    this.savedViewsService.deleteView(view);
+  }
+
+  onViewStateChange(state: DataGridViewState): void {
+    if (!this.selectedDb || !this.selectedTable) return;
+    this.updateQueryParams({
+      service: this.selectedDb.name,
+      table: this.selectedTable.name,
+      view: Object.keys(state).length > 0 ? encodeViewState(state) : undefined,
+    });
   }
 
   onTableNavigated(event: { tableName: string; filter?: string }): void {
     // Find the table in the current schema list
     const table = this.tables.find(t => t.name === event.tableName);
     if (table) {
-      this.pendingFilter = event.filter;
-      // If navigating to the same table, briefly null to force ngOnChanges
-      if (this.selectedTable?.name === table.name) {
-        this.selectedTable = null;
-        setTimeout(() => (this.selectedTable = table));
-      } else {
-        this.selectedTable = table;
-      }
+      this.confirmLeaveTable(() => {
+        this.pendingFilter = event.filter;
+        this.showTable(table);
+      });
     }
   }
 
+  private showTable(table: TableInfo, view?: DataGridViewState): void {
+    this.selectedRoutine = null;
+    this.pendingView = view;
+    // If showing the same table, briefly null to force ngOnChanges
+    if (this.selectedTable?.name === table.name) {
+      this.selectedTable = null;
+      setTimeout(() => (this.selectedTable = table));
+    } else {
+      this.selectedTable = table;
+    }
+  }
+
+  /** Open the table and view named in the query string once the schema is in */
+  private applyRouteSelection(): void {
+    const selection = this.routeSelection;
+    this.routeSelection = null;
+    if (!selection?.table) return;
+    const table = this.tables.find(t => t.name === selection.table);
+    if (!table) return;
+    this.pendingFilter = undefined;
+    this.pendingView = selection.view
+      ? (decodeViewState(selection.view) ?? undefined)
+      : undefined;
+    this.selectedTable = table;
+  }
+
+  private updateSavedViews(): void {
+    this.savedViews = this.selectedDb
+      ? this.allSavedViews.filter(v => v.serviceName === this.selectedDb!.name)
+      : [];
+  }
+
+  private updateQueryParams(params: RouteSelection): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        service: params.service ?? null,
+        table: params.table ?? null,
+        view: params.view ?? null,
+      },
+      replaceUrl: true,
+    });
+  }
+
+  /**
+   * Runs the action right away, or once the user agrees to lose the edits
+   * staged in the grid, which are cleared when it shows another table.
+   */
+  private confirmLeaveTable(action: () => void): void {
+    if (!this.grid?.hasPendingChanges) {
+      action();
+      return;
+    }
+    this.dialog
+      .open(DfConfirmDialogComponent, {
+        data: {
+          title: 'dataExplorer.discardChangesTitle',
+          message: 'dataExplorer.discardChangesConfirm',
+        },
+      })
+      .afterClosed()
+      .pipe(filter(Boolean), takeUntil(this.destroy$))
+      .subscribe(() => action());
+  }
+
   onBackToDatabases(): void {
+    this.confirmLeaveTable(() => this.backToDatabases());
+  }
+
+  private backToDatabases(): void {
     this.selectedDb = null;
     this.selectedTable = null;
+    this.selectedRoutine = null;
     this.pendingFilter = undefined;
+    this.pendingView = undefined;
     this.tables = [];
+    this.procedures = [];
+    this.functions = [];
+    this.savedViews = [];
+    this.updateQueryParams({});
   }
 }
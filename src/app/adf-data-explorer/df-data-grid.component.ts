@@ -9,6 +9,7 @@ import {
   ViewChild,
   AfterViewInit,
   ChangeDetectorRef,
+  ElementRef,
 } from '@angular/core';
 import { NgIf, NgFor, NgClass, JsonPipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
@@ -18,7 +19,12 @@ import {
   MatPaginator,
   PageEvent,
 } from '@angular/material/paginator';
-import { MatSortModule, MatSort, Sort } from '@angular/material/sort';
+import {
+  MatSortModule,
+  MatSort,
+  Sort,
+  SortDirection,
+} from '@angular/material/sort';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
@@ -31,6 +37,7 @@ import { MatBadgeModule } from '@angular/material/badge';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatSelectModule } from '@angular/material/select';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { TranslocoModule } from '@ngneat/transloco';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
 import {
@@ -39,26 +46,70 @@ import {
   faFilter,
   faCode,
 } from '@fortawesome/free-solid-svg-icons';
-import { Subject } from 'rxjs';
-import { takeUntil, debounceTime } from 'rxjs/operators';
+import { Observable, Subject, forkJoin, of } from 'rxjs';
+import { takeUntil, debounceTime, map, catchError } from 'rxjs/operators';
 import {
   DataExplorerService,
   TableSchemaResponse,
   FieldInfo,
+  RelatedInfo,
 } from './services/data-explorer.service';
 import { DfSchemaInfoComponent } from './df-schema-info.component';
 import { DfRowDetailComponent } from './df-row-detail.component';
+import { DfRelatedGridComponent } from './df-related-grid.component';
+import { DfAggregatePanelComponent } from './df-aggregate-panel.component';
+import { relatedRecordCount, relatedRecordKey } from './utilities/related';
+import {
+  fieldType,
+  isBooleanType,
+  isDateType,
+  isNumericType,
+  isStringType,
+} from './utilities/field-types';
+import {
+  RecordChange,
+  RecordChangeSet,
+  coerceFieldValue,
+  validateChange,
+} from './utilities/record-changes';
+import {
+  ExportFormat,
+  ExportWriter,
+  createExportWriter,
+} from './utilities/export-writers';
+import {
+  ColumnFilter,
+  DataGridViewState,
+  SavedView,
+} from './utilities/view-state';
+import { likeFilter, searchFilter } from './utilities/search-filter';
+import { queryLocalRows, rowColumns } from './utilities/local-rows';
+import { SavedViewsService } from './services/saved-views.service';
+import { snakeToCamelString } from '../shared/utilities/case';
+import { saveAsFile } from '../shared/utilities/file';
 
 interface FilterOp {
   value: string;
   label: string;
 }
 
-interface ColumnFilter {
-  op: string;
-  value: string;
+interface EditingCell {
+  row: Record<string, any>;
+  col: string;
+}
+
+interface CommitResult {
+  change: RecordChange;
+  response: any;
+  error: string | null;
 }
 
+const SELECT_COLUMN = '_select';
+const RELATED_COLUMN = '_related';
+const RELATED_DETAIL_COLUMN = '_relatedDetail';
+
+const EXPORT_CHUNK_SIZE = 1000;
+
 @Component({
   selector: 'df-data-grid',
   standalone: true,
@@ -83,10 +134,13 @@ interface ColumnFilter {
     MatMenuModule,
     MatCheckboxModule,
     MatSelectModule,
+    MatProgressBarModule,
     TranslocoModule,
     FontAwesomeModule,
     DfSchemaInfoComponent,
     DfRowDetailComponent,
+    DfRelatedGridComponent,
+    DfAggregatePanelComponent,
   ],
   template: `
     <div class="data-grid-container" *transloco="let t; scope: 'dataExplorer'">
@@ -96,25 +150,50 @@ interface ColumnFilter {
           <div class="toolbar-left">
             <fa-icon [icon]="faTable" class="toolbar-icon"></fa-icon>
             <span class="table-title">{{ tableName }}</span>
-            <mat-chip-set class="readonly-chip">
+            <mat-chip-set
+              class="readonly-chip"
+              *ngIf="cachedSchema && !canEdit">
               <mat-chip
                 disabled
-                matTooltip="Data Explorer is currently read-only. Use the API call to build write operations.">
+                matTooltip="Records can only be edited in tables with a single-column primary key.">
                 <fa-icon [icon]="faLock" class="lock-icon"></fa-icon>
                 {{ t('dataExplorer.readOnly') }}
               </mat-chip>
             </mat-chip-set>
+            <button
+              mat-stroked-button
+              *ngIf="canEdit"
+              class="edit-toggle"
+              [class.active]="editMode"
+              (click)="toggleEditMode()"
+              matTooltip="Edit cells in place, add new rows and delete selected rows. Changes are staged until you commit them.">
+              <mat-icon>{{ editMode ? 'edit_off' : 'edit' }}</mat-icon>
+              {{
+                editMode
+                  ? t('dataExplorer.doneEditing')
+                  : t('dataExplorer.editRecords')
+              }}
+            </button>
           </div>
           <div class="toolbar-right">
             <!-- Quick search -->
             <div
               class="quick-search"
+              [class.server-mode]="serverSearch"
               *ngIf="!initialLoading && columns.length > 0"
-              matTooltip="Search within the current page of results. Filters rows client-side across all visible columns.">
+              [matTooltip]="
+                serverSearch
+                  ? 'Search every record in the table. Matches any of the selected text columns on the server and combines with the column filters.'
+                  : 'Search within the current page of results. Filters rows client-side across all visible columns.'
+              ">
               <mat-icon class="search-icon">search</mat-icon>
               <input
                 class="search-input"
-                [placeholder]="t('dataExplorer.quickSearch')"
+                [placeholder]="
+                  serverSearch
+                    ? t('dataExplorer.searchAllRows')
+                    : t('dataExplorer.quickSearch')
+                "
                 [value]="quickSearchTerm"
                 (input)="onQuickSearch($event)" />
               <button
@@ -123,7 +202,41 @@ interface ColumnFilter {
                 (click)="clearQuickSearch()">
                 <mat-icon>close</mat-icon>
               </button>
+              <button
+                class="search-mode"
+                [class.active]="serverSearch"
+                [disabled]="searchableFields.length === 0"
+                (click)="toggleServerSearch()"
+                [matTooltip]="
+                  serverSearch
+                    ? 'Searching all rows on the server. Click to search the current page only.'
+                    : 'Searching the current page only. Click to search all rows on the server.'
+                ">
+                <mat-icon>{{ serverSearch ? 'cloud' : 'cloud_off' }}</mat-icon>
+              </button>
+              <button
+                *ngIf="serverSearch"
+                class="search-mode"
+                [matMenuTriggerFor]="searchColumnsMenu"
+                matTooltip="Choose which text columns take part in the search">
+                <mat-icon>tune</mat-icon>
+              </button>
             </div>
+            <mat-menu #searchColumnsMenu="matMenu" class="column-menu">
+              <div class="views-menu-header">
+                {{ t('dataExplorer.searchColumns') }}
+              </div>
+              <div
+                *ngFor="let field of searchableFields"
+                class="column-menu-item">
+                <mat-checkbox
+                  [checked]="searchColumns.has(field.name)"
+                  (click)="$event.stopPropagation()"
+                  (change)="toggleSearchColumn(field.name)">
+                  {{ field.name }}
+                </mat-checkbox>
+              </div>
+            </mat-menu>
 
             <!-- Filter count badge -->
             <button
@@ -143,12 +256,87 @@ interface ColumnFilter {
             <!-- Show API call -->
             <button
               mat-icon-button
+              *ngIf="!localMode"
               (click)="showApiCall = !showApiCall"
               matTooltip="Show the DreamFactory REST API call that matches your current view. Copy it to use in your own apps."
               [class.active]="showApiCall">
               <mat-icon>code</mat-icon>
             </button>
 
+            <!-- Saved views -->
+            <button
+              mat-icon-button
+              *ngIf="!localMode"
+              [matMenuTriggerFor]="viewsMenu"
+              (menuOpened)="refreshSavedViews()"
+              matTooltip="Save the current filters, sort, page size and columns as a named view, or copy a link to it">
+              <mat-icon>bookmarks</mat-icon>
+            </button>
+            <mat-menu #viewsMenu="matMenu" class="views-menu">
+              <div class="save-view-form">
+                <input
+                  #viewNameInput
+                  class="view-name-input"
+                  [placeholder]="t('dataExplorer.viewName')"
+                  (click)="$event.stopPropagation()"
+                  (keydown)="$event.stopPropagation()"
+                  (keydown.enter)="saveView(viewNameInput.value)" />
+                <button
+                  mat-stroked-button
+                  (click)="saveView(viewNameInput.value)">
+                  {{ t('dataExplorer.saveView') }}
+                </button>
+              </div>
+              <button mat-menu-item (click)="copyViewLink()">
+                <mat-icon>link</mat-icon>
+                {{ t('dataExplorer.copyViewLink') }}
+              </button>
+              <ng-container *ngIf="savedViews.length > 0">
+                <div class="views-menu-header">
+                  {{ t('dataExplorer.savedViews') }}
+                </div>
+                <div class="saved-view-item" *ngFor="let view of savedViews">
+                  <button mat-menu-item (click)="restoreView(view.state)">
+                    <mat-icon>bookmark</mat-icon>
+                    {{ view.name }}
+                  </button>
+                  <button
+                    mat-icon-button
+                    class="delete-view-btn"
+                    (click)="deleteView(view, $event)"
+                    matTooltip="Delete this view">
+                    <mat-icon>delete_outline</mat-icon>
+                  </button>
+                </div>
+              </ng-container>
+            </mat-menu>
+
+            <!-- Export -->
+            <button
+              mat-icon-button
+              [matMenuTriggerFor]="exportMenu"
+              [disabled]="exporting"
+              matTooltip="Export every record matching the current filters and sort. Only visible columns are included.">
+              <mat-icon>download</mat-icon>
+            </button>
+            <mat-menu #exportMenu="matMenu">
+              <button
+                mat-menu-item
+                *ngFor="let format of exportFormats"
+                (click)="exportData(format.value)">
+                {{ format.label }}
+              </button>
+              <label class="export-limit">
+                {{ t('dataExplorer.exportRowLimit') }}
+                <input
+                  type="number"
+                  min="1"
+                  [value]="exportMaxRows"
+                  (click)="$event.stopPropagation()"
+                  (change)="onExportMaxRowsChange($event)" />
+              </label>
+            </mat-menu>
+
             <!-- Column visibility -->
             <button
               mat-icon-button
@@ -169,9 +357,20 @@ interface ColumnFilter {
               </div>
             </mat-menu>
 
+            <!-- Aggregate panel toggle -->
+            <button
+              mat-icon-button
+              *ngIf="cachedSchema"
+              (click)="toggleAggregatePanel()"
+              matTooltip="Group rows and compute COUNT, SUM, AVG, MIN or MAX on the server, using the active filters"
+              [class.active]="showAggregatePanel">
+              <mat-icon>functions</mat-icon>
+            </button>
+
             <!-- Schema info toggle -->
             <button
               mat-icon-button
+              *ngIf="!localMode"
               (click)="toggleSchemaPanel()"
               matTooltip="View column types, primary keys, foreign keys, and table relationships"
               [class.active]="showSchemaPanel">
@@ -195,6 +394,129 @@ interface ColumnFilter {
           </button>
         </div>
 
+        <!-- Export progress -->
+        <div class="export-bar" *ngIf="exporting || exportNotice">
+          <mat-icon class="export-icon">download</mat-icon>
+          <ng-container *ngIf="exporting">
+            <span class="export-status">
+              {{ t('dataExplorer.exporting') }} {{ exportFetched }} /
+              {{ exportTarget || '…' }}
+            </span>
+            <mat-progress-bar
+              class="export-progress"
+              [mode]="exportTarget ? 'determinate' : 'indeterminate'"
+              [value]="exportProgress"></mat-progress-bar>
+            <button mat-button (click)="cancelExport()">
+              {{ t('dataExplorer.cancel') }}
+            </button>
+          </ng-container>
+          <ng-container *ngIf="!exporting">
+            <span class="export-status">{{ exportNotice }}</span>
+            <button
+              mat-icon-button
+              class="export-dismiss"
+              (click)="exportNotice = null">
+              <mat-icon>close</mat-icon>
+            </button>
+          </ng-container>
+        </div>
+
+        <!-- Edit bar -->
+        <div class="edit-bar" *ngIf="editMode">
+          <button mat-button (click)="addRow()" [disabled]="committing">
+            <mat-icon>add</mat-icon>
+            {{ t('dataExplorer.addRow') }}
+          </button>
+          <button
+            mat-button
+            color="warn"
+            (click)="deleteSelectedRows()"
+            [disabled]="selectedRows.size === 0 || committing">
+            <mat-icon>delete</mat-icon>
+            {{ t('dataExplorer.deleteSelected') }}
+            <ng-container *ngIf="selectedRows.size > 0"
+              >({{ selectedRows.size }})</ng-container
+            >
+          </button>
+          <span class="edit-hint">{{ t('dataExplorer.editHint') }}</span>
+          <div class="edit-bar-right">
+            <span class="pending-count" *ngIf="changeSet.size > 0">
+              {{ changeSet.size }} {{ t('dataExplorer.pendingChanges') }}
+            </span>
+            <button
+              mat-button
+              (click)="showChangesPreview = !showChangesPreview"
+              [class.active]="showChangesPreview"
+              [disabled]="changeSet.size === 0">
+              <mat-icon>difference</mat-icon>
+              {{ t('dataExplorer.previewChanges') }}
+            </button>
+            <button
+              mat-button
+              (click)="discardChanges()"
+              [disabled]="changeSet.size === 0 || committing">
+              {{ t('dataExplorer.discardChanges') }}
+            </button>
+            <button
+              mat-flat-button
+              color="primary"
+              (click)="commitChanges()"
+              [disabled]="changeSet.size === 0 || committing">
+              {{ t('dataExplorer.commitChanges') }}
+            </button>
+          </div>
+        </div>
+
+        <!-- Pending changes preview -->
+        <div
+          class="changes-preview"
+          *ngIf="editMode && showChangesPreview && changeSet.size > 0">
+          <div
+            class="change-entry"
+            *ngFor="let change of changeSet.list()"
+            [ngClass]="'change-' + change.kind"
+            [class.has-error]="change.error || hasFieldErrors(change)">
+            <div class="change-header">
+              <span class="change-kind">{{ change.kind }}</span>
+              <span class="change-target">{{ describeChange(change) }}</span>
+              <button
+                mat-icon-button
+                class="change-revert"
+                (click)="revertChange(change)"
+                matTooltip="Revert this change">
+                <mat-icon>undo</mat-icon>
+              </button>
+            </div>
+            <div class="change-diff" *ngFor="let d of changeSet.diff(change)">
+              <span class="diff-col">{{ d.column }}</span>
+              <ng-container *ngIf="change.kind === 'update'">
+                <span class="diff-from">{{ formatCellValue(d.from) }}</span>
+                <mat-icon class="diff-arrow">arrow_forward</mat-icon>
+              </ng-container>
+              <span class="diff-to">{{ formatCellValue(d.to) }}</span>
+              <span
+                class="diff-error"
+                *ngIf="change.fieldErrors[d.column] as error"
+                >{{ t(error.key, error.params) }}</span
+              >
+            </div>
+            <div
+              class="change-diff"
+              *ngFor="let col of missingRequiredColumns(change)">
+              <span class="diff-col">{{ col }}</span>
+              <span
+                class="diff-error"
+                *ngIf="change.fieldErrors[col] as error"
+                >{{ t(error.key, error.params) }}</span
+              >
+            </div>
+            <div class="change-error" *ngIf="change.error">
+              <mat-icon>error_outline</mat-icon>
+              {{ change.error }}
+            </div>
+          </div>
+        </div>
+
         <!-- Top pagination bar -->
         <div
           class="top-pagination"
@@ -389,9 +711,101 @@ interface ColumnFilter {
             <table
               mat-table
               [dataSource]="dataSource"
+              multiTemplateDataRows
               matSort
+              [matSortActive]="sortActive"
+              [matSortDirection]="sortDirection"
               (matSortChange)="onSortChange($event)"
               class="data-table">
+              <!-- Row selection (edit mode) -->
+              <ng-container [matColumnDef]="selectColumn">
+                <th mat-header-cell *matHeaderCellDef class="select-cell">
+                  <mat-checkbox
+                    [checked]="allRowsSelected()"
+                    [indeterminate]="
+                      selectedRows.size > 0 && !allRowsSelected()
+                    "
+                    (change)="toggleAllRows()"></mat-checkbox>
+                </th>
+                <td
+                  mat-cell
+                  *matCellDef="let row"
+                  class="select-cell"
+                  (click)="$event.stopPropagation()">
+                  <mat-checkbox
+                    [checked]="selectedRows.has(row)"
+                    (change)="toggleRowSelection(row)"></mat-checkbox>
+                  <mat-icon
+                    *ngIf="changeSet.get(row)?.error as rowError"
+                    class="row-error-icon"
+                    [matTooltip]="rowError"
+                    >error</mat-icon
+                  >
+                </td>
+              </ng-container>
+              <ng-container [matColumnDef]="'filter_' + selectColumn">
+                <th
+                  mat-header-cell
+                  *matHeaderCellDef
+                  class="filter-cell select-cell"></th>
+              </ng-container>
+
+              <!-- Related records toggle -->
+              <ng-container [matColumnDef]="relatedColumn">
+                <th mat-header-cell *matHeaderCellDef class="related-cell">
+                  <mat-icon
+                    class="related-header-icon"
+                    [matTooltip]="selectedRelated.join(', ')"
+                    >account_tree</mat-icon
+                  >
+                </th>
+                <td
+                  mat-cell
+                  *matCellDef="let row"
+                  class="related-cell"
+                  (click)="$event.stopPropagation()">
+                  <button
+                    class="related-toggle"
+                    [class.expanded]="expandedRows.has(row)"
+                    (click)="toggleRelatedRow(row)"
+                    [matTooltip]="t('dataExplorer.relatedRecords')">
+                    <mat-icon>{{
+                      expandedRows.has(row) ? 'expand_less' : 'expand_more'
+                    }}</mat-icon>
+                    <span>{{ relatedTotal(row) }}</span>
+                  </button>
+                </td>
+              </ng-container>
+              <ng-container [matColumnDef]="'filter_' + relatedColumn">
+                <th
+                  mat-header-cell
+                  *matHeaderCellDef
+                  class="filter-cell related-cell"></th>
+              </ng-container>
+              <ng-container [matColumnDef]="relatedDetailColumn">
+                <td
+                  mat-cell
+                  *matCellDef="let row"
+                  class="related-detail-cell"
+                  [attr.colspan]="displayedColumns.length">
+                  <div class="related-detail" *ngIf="expandedRows.has(row)">
+                    <div
+                      class="related-section"
+                      *ngFor="let rel of selectedRelations">
+                      <div class="related-title">
+                        <span class="related-name">{{ rel.name }}</span>
+                        <span class="related-type">{{ rel.type }}</span>
+                        <span class="related-count">{{
+                          relatedCount(row, rel)
+                        }}</span>
+                      </div>
+                      <df-related-grid
+                        [records]="relatedValue(row, rel)"></df-related-grid>
+                    </div>
+                  </div>
+                </td>
+              </ng-container>
+
               <ng-container *ngFor="let col of columns" [matColumnDef]="col">
                 <th
                   mat-header-cell
@@ -420,21 +834,36 @@ interface ColumnFilter {
                   [style.min-width.px]="columnWidths[col]"
                   [style.max-width.px]="columnWidths[col]"
                   [class.null-cell]="
-                    row[col] === null || row[col] === undefined
+                    cellValue(row, col) === null ||
+                    cellValue(row, col) === undefined
                   "
-                  [class.fk-cell]="isForeignKey(col) && row[col] != null">
-                  <span
-                    *ngIf="isForeignKey(col) && row[col] != null"
-                    class="fk-link"
-                    (click)="onFkClick($event, col, row[col])"
-                    [matTooltip]="'Go to ' + getFkRefTable(col)">
-                    {{ formatCellValue(row[col]) }}
-                    <mat-icon class="fk-nav-icon">open_in_new</mat-icon>
-                  </span>
-                  <ng-container
-                    *ngIf="!(isForeignKey(col) && row[col] != null)">
-                    {{ formatCellValue(row[col]) }}
-                  </ng-container>
+                  [class.fk-cell]="isForeignKeyLink(row, col)"
+                  [class.dirty-cell]="changeSet.isDirty(row, col)"
+                  [class.invalid-cell]="changeSet.get(row)?.fieldErrors?.[col]"
+                  [matTooltip]="cellErrorText(row, col, t)"
+                  (dblclick)="startCellEdit(row, col)">
+                  <input
+                    #cellEditor
+                    *ngIf="isEditingCell(row, col); else cellDisplay"
+                    class="cell-editor"
+                    [value]="editingValue"
+                    (click)="$event.stopPropagation()"
+                    (keydown.enter)="commitCellEdit($event)"
+                    (keydown.escape)="cancelCellEdit()"
+                    (blur)="commitCellEdit($event)" />
+                  <ng-template #cellDisplay>
+                    <span
+                      *ngIf="isForeignKeyLink(row, col)"
+                      class="fk-link"
+                      (click)="onFkClick($event, col, cellValue(row, col))"
+                      [matTooltip]="'Go to ' + getFkRefTable(col)">
+                      {{ formatCellValue(cellValue(row, col)) }}
+                      <mat-icon class="fk-nav-icon">open_in_new</mat-icon>
+                    </span>
+                    <ng-container *ngIf="!isForeignKeyLink(row, col)">
+                      {{ formatCellValue(cellValue(row, col)) }}
+                    </ng-container>
+                  </ng-template>
                 </td>
               </ng-container>
 
@@ -470,19 +899,37 @@ interface ColumnFilter {
                 </th>
               </ng-container>
 
-              <tr mat-header-row *matHeaderRowDef="columns; sticky: true"></tr>
+              <tr
+                mat-header-row
+                *matHeaderRowDef="displayedColumns; sticky: true"></tr>
               <tr
                 mat-header-row
                 *matHeaderRowDef="filterColumns; sticky: true"
                 class="filter-row"></tr>
               <tr
                 mat-row
-                *matRowDef="let row; columns: columns"
+                *matRowDef="let row; columns: displayedColumns"
                 (click)="onRowClick(row)"
                 [class.selected-row]="row === selectedRow"
+                [class.pending-insert]="changeSet.get(row)?.kind === 'insert'"
+                [class.pending-delete]="changeSet.get(row)?.kind === 'delete'"
+                [class.error-row]="changeSet.get(row)?.error"
                 class="clickable-row"
-                matTooltip="Click to view full record details"
+                [matTooltip]="
+                  editMode
+                    ? 'Double-click a cell to edit it'
+                    : 'Click to view full record details'
+                "
                 [matTooltipShowDelay]="800"></tr>
+              <tr
+                mat-row
+                *matRowDef="
+                  let row;
+                  columns: [relatedDetailColumn];
+                  when: hasRelatedDetail
+                "
+                class="related-detail-row"
+                [class.expanded]="expandedRows.has(row)"></tr>
             </table>
           </div>
         </div>
@@ -495,7 +942,7 @@ interface ColumnFilter {
             class="footer-info"
             matTooltip="Total records matching current server-side filters">
             {{ totalRecords }} records
-            <ng-container *ngIf="activeFilterCount > 0">
+            <ng-container *ngIf="activeFilterCount > 0 || buildSearchFilter()">
               (filtered)</ng-container
             >
           </span>
@@ -547,15 +994,28 @@ interface ColumnFilter {
         *ngIf="showSchemaPanel"
         [serviceName]="serviceName"
         [tableName]="tableName"
+        [selectedRelated]="selectedRelated"
         (closeClicked)="showSchemaPanel = false"
-        (navigateToTable)="tableNavigated.emit({ tableName: $event })">
+        (navigateToTable)="tableNavigated.emit({ tableName: $event })"
+        (relatedChange)="onRelatedChange($event)">
       </df-schema-info>
 
+      <!-- Aggregate Side Panel -->
+      <df-aggregate-panel
+        *ngIf="showAggregatePanel"
+        [serviceName]="serviceName"
+        [tableName]="tableName"
+        [schema]="cachedSchema"
+        [filter]="buildCombinedFilter()"
+        (closeClicked)="showAggregatePanel = false">
+      </df-aggregate-panel>
+
       <!-- Record Detail Side Panel -->
       <df-row-detail
         *ngIf="selectedRow"
         [row]="selectedRow"
         [schema]="cachedSchema"
+        [related]="selectedRelations"
         (closeClicked)="selectedRow = null"
         (navigateToTable)="tableNavigated.emit({ tableName: $event })">
       </df-row-detail>
@@ -1106,7 +1566,8 @@ interface ColumnFilter {
           }
         }
 
-        .search-clear {
+        .search-clear,
+        .search-mode {
           display: flex;
           align-items: center;
           justify-content: center;
@@ -1124,6 +1585,20 @@ interface ColumnFilter {
             color: #616161;
           }
         }
+
+        .search-mode {
+          &.active {
+            color: #7b1fa2;
+          }
+          &:disabled {
+            cursor: default;
+            opacity: 0.4;
+          }
+        }
+
+        &.server-mode {
+          border-color: #ce93d8;
+        }
       }
 
       :host-context(.dark-theme) .quick-search {
@@ -1383,104 +1858,642 @@ interface ColumnFilter {
         }
       }
 
-      /* Quick search highlight */
-      .search-no-match {
-        display: none !important;
-      }
-    `,
-  ],
-})
-export class DfDataGridComponent
-  implements OnChanges, OnDestroy, AfterViewInit
-{
-  @Input() serviceName = '';
-  @Input() tableName = '';
-  @Input() initialFilter: string | undefined;
-  @Output() tableNavigated = new EventEmitter<{
-    tableName: string;
-    filter?: string;
-  }>();
+      /* Saved views */
+      .save-view-form {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 8px 12px;
 
-  @ViewChild(MatPaginator) paginator!: MatPaginator;
-  @ViewChild(MatSort) sort!: MatSort;
-  @ViewChild(DfSchemaInfoComponent) schemaInfoComponent?: DfSchemaInfoComponent;
+        .view-name-input {
+          flex: 1;
+          min-width: 140px;
+          border: 1px solid #e0e0e0;
+          border-radius: 4px;
+          padding: 5px 8px;
+          font-size: 12px;
+          outline: none;
 
-  dataSource = new MatTableDataSource<any>([]);
-  allColumns: string[] = [];
-  columns: string[] = [];
-  filterColumns: string[] = [];
-  hiddenColumns = new Set<string>();
-  totalRecords = 0;
-  pageSize = 50;
-  pageSizeOptions = [25, 50, 100, 250, 500];
-  pageIndex = 0;
-  currentOffset = 0;
-  loading = false;
-  initialLoading = false;
-  error: string | null = null;
-  currentSort: string | undefined;
+          &:focus {
+            border-color: #7b1fa2;
+          }
+        }
 
-  // Filter state
-  columnFilters: Record<string, ColumnFilter> = {};
-  activeFilterCount = 0;
-  private filterSubject$ = new Subject<void>();
+        button {
+          font-size: 12px;
+          height: 30px;
+        }
+      }
 
-  // Column resize state
-  columnWidths: Record<string, number> = {};
-  private resizeRafId = 0;
+      .views-menu-header {
+        padding: 8px 16px 4px;
+        font-size: 11px;
+        font-weight: 600;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+        color: #9e9e9e;
+      }
 
-  // Panel state
-  showSchemaPanel = false;
-  showApiCall = false;
-  apiCopied = false;
-  apiIncludeLimit = true;
-  apiIncludeOffset = true;
-  apiIncludeCount = true;
-  apiSelectedRelated: Record<string, boolean> = {};
-  selectedRow: Record<string, any> | null = null;
-  cachedSchema: TableSchemaResponse | null = null;
+      .saved-view-item {
+        display: flex;
+        align-items: center;
 
-  // Navigation filter (from FK click)
-  navigationFilter: string | null = null;
+        .delete-view-btn {
+          flex-shrink: 0;
+          margin-right: 4px;
+          mat-icon {
+            font-size: 18px;
+          }
+        }
+      }
 
-  // Quick search
-  quickSearchTerm = '';
+      /* Export */
+      .export-limit {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 16px;
+        font-size: 12px;
+        color: #757575;
 
-  faTable = faTable;
-  faLock = faLock;
-  faFilter = faFilter;
-  faCode = faCode;
+        input {
+          width: 90px;
+          border: 1px solid #e0e0e0;
+          border-radius: 4px;
+          padding: 3px 6px;
+          font-size: 12px;
+        }
+      }
 
-  private destroy$ = new Subject<void>();
+      .export-bar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 2px 12px;
+        border-bottom: 1px solid #e0e0e0;
+        background: #e3f2fd;
+        flex-shrink: 0;
+        font-size: 12px;
+        color: #0d47a1;
 
-  // Operator sets by column type
-  private readonly textOperators: FilterOp[] = [
-    { value: 'contains', label: 'contains' },
-    { value: 'eq', label: '=' },
-    { value: 'neq', label: '≠' },
-    { value: 'starts', label: 'starts with' },
-    { value: 'ends', label: 'ends with' },
-    { value: 'is_null', label: 'is null' },
-    { value: 'is_not_null', label: 'is not null' },
-  ];
+        .export-icon {
+          font-size: 16px;
+          width: 16px;
+          height: 16px;
+        }
 
-  private readonly numericOperators: FilterOp[] = [
-    { value: 'eq', label: '=' },
-    { value: 'neq', label: '≠' },
-    { value: 'gt', label: '>' },
-    { value: 'lt', label: '<' },
-    { value: 'gte', label: '≥' },
-    { value: 'lte', label: '≤' },
-    { value: 'is_null', label: 'is null' },
-    { value: 'is_not_null', label: 'is not null' },
-  ];
+        .export-status {
+          white-space: nowrap;
+        }
 
-  private readonly dateOperators: FilterOp[] = [
-    { value: 'eq', label: '=' },
-    { value: 'neq', label: '≠' },
-    { value: 'gt', label: 'after' },
-    { value: 'lt', label: 'before' },
-    { value: 'gte', label: 'on/after' },
+        .export-progress {
+          flex: 1;
+        }
+
+        button {
+          font-size: 12px;
+          height: 30px;
+        }
+
+        .export-dismiss {
+          margin-left: auto;
+          width: 24px;
+          height: 24px;
+          line-height: 24px;
+          mat-icon {
+            font-size: 16px;
+          }
+        }
+      }
+
+      :host-context(.dark-theme) .export-bar {
+        background: #1a2332;
+        border-bottom-color: #424242;
+        color: #90caf9;
+      }
+
+      /* Edit mode */
+      .edit-toggle {
+        height: 30px;
+        font-size: 12px;
+
+        mat-icon {
+          font-size: 16px;
+          width: 16px;
+          height: 16px;
+        }
+
+        &.active {
+          color: #7b1fa2;
+          border-color: #7b1fa2;
+        }
+      }
+
+      :host-context(.dark-theme) .edit-toggle.active {
+        color: #ce93d8;
+        border-color: #ce93d8;
+      }
+
+      .edit-bar {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 2px 12px;
+        border-bottom: 1px solid #e0e0e0;
+        background: #fff8e1;
+        flex-shrink: 0;
+        font-size: 12px;
+
+        button {
+          font-size: 12px;
+          height: 30px;
+
+          mat-icon {
+            font-size: 16px;
+            width: 16px;
+            height: 16px;
+          }
+
+          &.active {
+            color: #7b1fa2;
+          }
+        }
+
+        .edit-hint {
+          color: #9e9e9e;
+          font-style: italic;
+          margin-left: 8px;
+          white-space: nowrap;
+        }
+
+        .edit-bar-right {
+          margin-left: auto;
+          display: flex;
+          align-items: center;
+          gap: 4px;
+
+          .pending-count {
+            color: #ef6c00;
+            font-weight: 500;
+            white-space: nowrap;
+            margin-right: 4px;
+          }
+        }
+      }
+
+      :host-context(.dark-theme) .edit-bar {
+        background: #3a3220;
+        border-bottom-color: #424242;
+        .edit-hint {
+          color: #757575;
+        }
+        .pending-count {
+          color: #ffb74d;
+        }
+      }
+
+      .changes-preview {
+        max-height: 220px;
+        overflow-y: auto;
+        padding: 4px 12px;
+        border-bottom: 1px solid #e0e0e0;
+        background: #fafafa;
+        flex-shrink: 0;
+        font-size: 12px;
+
+        .change-entry {
+          padding: 4px 8px;
+          margin: 4px 0;
+          border-left: 3px solid #9e9e9e;
+          background: white;
+
+          &.change-insert {
+            border-left-color: #43a047;
+          }
+
+          &.change-update {
+            border-left-color: #ef6c00;
+          }
+
+          &.change-delete {
+            border-left-color: #e53935;
+          }
+
+          &.has-error {
+            background: #ffebee;
+          }
+        }
+
+        .change-header {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+
+          .change-kind {
+            font-weight: 700;
+            font-size: 10px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            color: #616161;
+          }
+
+          .change-target {
+            flex: 1;
+            font-family: 'Roboto Mono', monospace;
+          }
+
+          .change-revert {
+            width: 24px;
+            height: 24px;
+            line-height: 24px;
+            mat-icon {
+              font-size: 16px;
+            }
+          }
+        }
+
+        .change-diff {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          padding-left: 12px;
+          font-family: 'Roboto Mono', monospace;
+
+          .diff-col {
+            color: #616161;
+            font-weight: 500;
+          }
+
+          .diff-from {
+            color: #c62828;
+            text-decoration: line-through;
+          }
+
+          .diff-arrow {
+            font-size: 12px;
+            width: 12px;
+            height: 12px;
+            color: #9e9e9e;
+          }
+
+          .diff-to {
+            color: #2e7d32;
+          }
+
+          .diff-error {
+            color: #c62828;
+            font-family: inherit;
+            font-style: italic;
+          }
+        }
+
+        .change-error {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          color: #c62828;
+          padding-left: 12px;
+
+          mat-icon {
+            font-size: 14px;
+            width: 14px;
+            height: 14px;
+          }
+        }
+      }
+
+      :host-context(.dark-theme) .changes-preview {
+        background: #252525;
+        border-bottom-color: #424242;
+        .change-entry {
+          background: #2c2c2c;
+          &.has-error {
+            background: #3b2224;
+          }
+        }
+        .change-header .change-kind,
+        .change-diff .diff-col {
+          color: #bdbdbd;
+        }
+        .change-diff .diff-from {
+          color: #ef9a9a;
+        }
+        .change-diff .diff-to {
+          color: #a5d6a7;
+        }
+      }
+
+      .data-table {
+        .select-cell {
+          flex: none;
+          width: 56px;
+          min-width: 56px;
+          padding: 0 4px 0 8px;
+          white-space: nowrap;
+
+          .row-error-icon {
+            font-size: 16px;
+            width: 16px;
+            height: 16px;
+            color: #e53935;
+            vertical-align: middle;
+          }
+        }
+
+        .data-cell {
+          &.dirty-cell {
+            background: #fff3e0;
+          }
+
+          &.invalid-cell {
+            box-shadow: inset 0 0 0 1px #e53935;
+          }
+
+          .cell-editor {
+            width: 100%;
+            box-sizing: border-box;
+            border: 1px solid #7b1fa2;
+            border-radius: 3px;
+            padding: 3px 6px;
+            font-family: inherit;
+            font-size: 13px;
+            outline: none;
+          }
+        }
+
+        tr.pending-insert {
+          background: #e8f5e9;
+        }
+
+        tr.pending-delete .data-cell {
+          text-decoration: line-through;
+          color: #9e9e9e;
+        }
+
+        tr.error-row {
+          background: #ffebee;
+        }
+      }
+
+      :host-context(.dark-theme) .data-table {
+        .data-cell {
+          &.dirty-cell {
+            background: #3e2f1c;
+          }
+          .cell-editor {
+            background: #2c2c2c;
+            color: #e0e0e0;
+            border-color: #ce93d8;
+          }
+        }
+        tr.pending-insert {
+          background: #1f3322;
+        }
+        tr.error-row {
+          background: #3b2224;
+        }
+      }
+
+      .data-table {
+        .related-cell {
+          flex: none;
+          width: 56px;
+          min-width: 56px;
+          padding: 0 4px;
+          white-space: nowrap;
+        }
+
+        .related-header-icon {
+          font-size: 16px;
+          width: 16px;
+          height: 16px;
+          color: #9e9e9e;
+          vertical-align: middle;
+        }
+
+        .related-toggle {
+          display: inline-flex;
+          align-items: center;
+          gap: 2px;
+          border: none;
+          background: none;
+          cursor: pointer;
+          padding: 0;
+          font-size: 12px;
+          color: #616161;
+
+          mat-icon {
+            font-size: 18px;
+            width: 18px;
+            height: 18px;
+          }
+
+          &.expanded {
+            color: #7b1fa2;
+          }
+        }
+
+        tr.related-detail-row {
+          height: 0;
+
+          &:not(.expanded) td {
+            border-bottom-width: 0;
+          }
+        }
+
+        .related-detail-cell {
+          padding: 0 16px;
+        }
+
+        .related-detail {
+          padding: 8px 0 12px;
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .related-title {
+          display: flex;
+          align-items: baseline;
+          gap: 8px;
+          margin-bottom: 4px;
+
+          .related-name {
+            font-size: 12px;
+            font-weight: 600;
+            font-family: 'Roboto Mono', monospace;
+          }
+
+          .related-type,
+          .related-count {
+            font-size: 10px;
+            text-transform: uppercase;
+            color: #9e9e9e;
+          }
+        }
+      }
+
+      :host-context(.dark-theme) .data-table {
+        .related-toggle {
+          color: #bdbdbd;
+          &.expanded {
+            color: #ce93d8;
+          }
+        }
+        .related-title .related-name {
+          color: #e0e0e0;
+        }
+      }
+
+      /* Quick search highlight */
+      .search-no-match {
+        display: none !important;
+      }
+    `,
+  ],
+})
+export class DfDataGridComponent
+  implements OnChanges, OnDestroy, AfterViewInit
+{
+  @Input() serviceName = '';
+  /** Service type, which decides how like patterns are escaped */
+  @Input() serviceType = '';
+  @Input() tableName = '';
+  @Input() initialFilter: string | undefined;
+  @Input() initialView: DataGridViewState | undefined;
+  /**
+   * Rows to show instead of loading the table, such as the result set of a
+   * stored procedure. Filters, sort, paging and export then run locally.
+   */
+  @Input() rows: Record<string, any>[] | null = null;
+  @Output() tableNavigated = new EventEmitter<{
+    tableName: string;
+    filter?: string;
+  }>();
+  @Output() viewStateChange = new EventEmitter<DataGridViewState>();
+
+  @ViewChild(MatPaginator) paginator!: MatPaginator;
+  @ViewChild(MatSort) sort!: MatSort;
+  @ViewChild(DfSchemaInfoComponent) schemaInfoComponent?: DfSchemaInfoComponent;
+  @ViewChild('cellEditor') set cellEditor(
+    el: ElementRef<HTMLInputElement> | undefined
+  ) {
+    el?.nativeElement.focus();
+  }
+
+  dataSource = new MatTableDataSource<any>([]);
+  allColumns: string[] = [];
+  columns: string[] = [];
+  displayedColumns: string[] = [];
+  filterColumns: string[] = [];
+  hiddenColumns = new Set<string>();
+  totalRecords = 0;
+  pageSize = 50;
+  pageSizeOptions = [25, 50, 100, 250, 500];
+  pageIndex = 0;
+  currentOffset = 0;
+  loading = false;
+  initialLoading = false;
+  error: string | null = null;
+  currentSort: string | undefined;
+  sortActive = '';
+  sortDirection: SortDirection = '';
+  savedViews: SavedView[] = [];
+
+  // Filter state
+  columnFilters: Record<string, ColumnFilter> = {};
+  activeFilterCount = 0;
+  private filterSubject$ = new Subject<void>();
+
+  // Column resize state
+  columnWidths: Record<string, number> = {};
+  private resizeRafId = 0;
+
+  // Panel state
+  showSchemaPanel = false;
+  showAggregatePanel = false;
+  showApiCall = false;
+  apiCopied = false;
+  apiIncludeLimit = true;
+  apiIncludeOffset = true;
+  apiIncludeCount = true;
+  apiSelectedRelated: Record<string, boolean> = {};
+  selectedRow: Record<string, any> | null = null;
+  cachedSchema: TableSchemaResponse | null = null;
+
+  // Navigation filter (from FK click)
+  navigationFilter: string | null = null;
+
+  // Quick search
+  quickSearchTerm = '';
+  serverSearch = false;
+  searchColumns = new Set<string>();
+
+  // Inline editing
+  readonly selectColumn = SELECT_COLUMN;
+  readonly relatedColumn = RELATED_COLUMN;
+  readonly relatedDetailColumn = RELATED_DETAIL_COLUMN;
+
+  // Relationships fetched with each record via the related parameter
+  selectedRelated: string[] = [];
+  expandedRows = new Set<Record<string, any>>();
+  editMode = false;
+  committing = false;
+  showChangesPreview = false;
+  changeSet = new RecordChangeSet();
+  selectedRows = new Set<Record<string, any>>();
+  editingCell: EditingCell | null = null;
+  editingValue = '';
+
+  // Export
+  readonly exportFormats: { value: ExportFormat; label: string }[] = [
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'JSON' },
+    { value: 'ndjson', label: 'NDJSON' },
+    { value: 'xlsx', label: 'Excel (XLSX)' },
+  ];
+  exporting = false;
+  exportFetched = 0;
+  exportTarget = 0;
+  exportMaxRows = 100000;
+  exportNotice: string | null = null;
+  private exportCancel$ = new Subject<void>();
+
+  faTable = faTable;
+  faLock = faLock;
+  faFilter = faFilter;
+  faCode = faCode;
+
+  private destroy$ = new Subject<void>();
+
+  // Operator sets by column type
+  private readonly textOperators: FilterOp[] = [
+    { value: 'contains', label: 'contains' },
+    { value: 'eq', label: '=' },
+    { value: 'neq', label: '≠' },
+    { value: 'starts', label: 'starts with' },
+    { value: 'ends', label: 'ends with' },
+    { value: 'is_null', label: 'is null' },
+    { value: 'is_not_null', label: 'is not null' },
+  ];
+
+  private readonly numericOperators: FilterOp[] = [
+    { value: 'eq', label: '=' },
+    { value: 'neq', label: '≠' },
+    { value: 'gt', label: '>' },
+    { value: 'lt', label: '<' },
+    { value: 'gte', label: '≥' },
+    { value: 'lte', label: '≤' },
+    { value: 'is_null', label: 'is null' },
+    { value: 'is_not_null', label: 'is not null' },
+  ];
+
+  private readonly dateOperators: FilterOp[] = [
+    { value: 'eq', label: '=' },
+    { value: 'neq', label: '≠' },
+    { value: 'gt', label: 'after' },
+    { value: 'lt', label: 'before' },
+    { value: 'gte', label: 'on/after' },
     { value: 'lte', label: 'on/before' },
     { value: 'is_null', label: 'is null' },
     { value: 'is_not_null', label: 'is not null' },
@@ -1494,6 +2507,7 @@ export class DfDataGridComponent
 
   constructor(
     private dataExplorerService: DataExplorerService,
+    private savedViewsService: SavedViewsService,
     private cdr: ChangeDetectorRef
   ) {
     this.filterSubject$
@@ -1510,17 +2524,28 @@ export class DfDataGridComponent
   }
 
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['tableName'] || changes['serviceName']) {
+    if (changes['tableName'] || changes['serviceName'] || changes['rows']) {
       this.resetAndLoad();
     }
   }
 
   ngOnDestroy(): void {
+    this.exportCancel$.next();
     this.destroy$.next();
     this.destroy$.complete();
     cancelAnimationFrame(this.resizeRafId);
   }
 
+  /** Staged edits that switching tables would throw away */
+  get hasPendingChanges(): boolean {
+    return this.changeSet.size > 0;
+  }
+
+  /** Whether the grid shows the rows it was given rather than a table */
+  get localMode(): boolean {
+    return this.rows !== null;
+  }
+
   get totalPages(): number {
     return Math.max(1, Math.ceil(this.totalRecords / this.pageSize));
   }
@@ -1535,43 +2560,74 @@ export class DfDataGridComponent
     this.pageIndex = 0;
     this.currentOffset = 0;
     this.currentSort = undefined;
+    this.sortActive = '';
+    this.sortDirection = '';
     this.columnFilters = {};
     this.activeFilterCount = 0;
     this.selectedRow = null;
     this.cachedSchema = null;
     this.columnWidths = {};
+    this.quickSearchTerm = '';
+    this.searchColumns = new Set<string>();
+    this.applyQuickSearch();
+    this.selectedRelated = [];
+    this.expandedRows.clear();
+    this.cancelExport();
+    this.exportNotice = null;
+    this.editMode = false;
+    this.showChangesPreview = false;
+    this.changeSet.clear();
+    this.selectedRows.clear();
+    this.editingCell = null;
     this.navigationFilter = this.initialFilter || null;
     this.initialLoading = true;
-    this.loadData();
-    this.loadSchemaForTable();
+    if (this.initialView) {
+      this.applyViewState(this.initialView);
+      // Restored filters are keyed by grid column and need the schema to be
+      // mapped back to DB column names, so fetch it before the data
+      this.loadSchemaForTable(() => this.loadData());
+    } else {
+      this.loadData();
+      this.loadSchemaForTable();
+    }
   }
 
-  loadSchemaForTable(): void {
-    if (!this.serviceName || !this.tableName) return;
+  loadSchemaForTable(onLoaded?: () => void): void {
+    if (this.localMode || !this.serviceName || !this.tableName) return;
     this.dataExplorerService
       .getTableSchema(this.serviceName, this.tableName)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: schema => {
           this.cachedSchema = schema;
-          this.apiSelectedRelated = {};
+          this.apiSelectedRelated = Object.fromEntries(
+            this.selectedRelated.map(n => [n, true])
+          );
+          if (this.searchColumns.size === 0) {
+            this.searchColumns = new Set(
+              this.searchableFields.map(f => f.name)
+            );
+          }
           // Force mat-table to re-render cells so FK/PK indicators and type-aware filters appear
           this.dataSource.data = [...this.dataSource.data];
           this.cdr.detectChanges();
+          onLoaded?.();
         },
-        error: () => {},
+        error: () => onLoaded?.(),
       });
   }
 
   loadData(): void {
+    if (this.localMode) {
+      this.loadLocalData();
+      return;
+    }
     if (!this.serviceName || !this.tableName) return;
 
     this.loading = true;
     this.error = null;
 
-    const colFilter = this.buildFilterString();
-    const filterParts = [this.navigationFilter, colFilter].filter(Boolean);
-    const combinedFilter = filterParts.join(' AND ') || undefined;
+    const combinedFilter = this.buildCombinedFilter() || undefined;
 
     this.dataExplorerService
       .getTableData(
@@ -1580,24 +2636,32 @@ export class DfDataGridComponent
         this.pageSize,
         this.currentOffset,
         this.currentSort,
-        combinedFilter
+        combinedFilter,
+        this.selectedRelated
       )
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: res => {
           const records = res.resource || [];
           if (records.length > 0 && this.allColumns.length === 0) {
-            this.allColumns = Object.keys(records[0]);
+            // Related records are shown in the expandable detail row
+            const relatedKeys = this.selectedRelated.map(relatedRecordKey);
+            this.allColumns = Object.keys(records[0]).filter(
+              k => !relatedKeys.includes(k)
+            );
             this.updateVisibleColumns();
-            // Initialize default column widths
+            // Initialize default column widths, keeping restored ones
             for (const col of this.allColumns) {
-              this.columnWidths[col] = 150;
+              this.columnWidths[col] ??= 150;
             }
           }
-          this.dataSource.data = records;
+          this.selectedRows.clear();
+          this.expandedRows.clear();
+          this.dataSource.data = this.reattachPendingChanges(records);
           this.totalRecords = res.meta?.count ?? records.length;
           this.loading = false;
           this.initialLoading = false;
+          this.emitViewState();
         },
         error: err => {
           this.error =
@@ -1608,6 +2672,32 @@ export class DfDataGridComponent
       });
   }
 
+  private loadLocalData(): void {
+    if (this.allColumns.length === 0) {
+      this.allColumns = rowColumns(this.rows ?? []);
+      this.updateVisibleColumns();
+      for (const col of this.allColumns) {
+        this.columnWidths[col] ??= 150;
+      }
+    }
+    const rows = this.queryLocalRows();
+    this.dataSource.data = rows.slice(
+      this.currentOffset,
+      this.currentOffset + this.pageSize
+    );
+    this.totalRecords = rows.length;
+    this.initialLoading = false;
+    this.emitViewState();
+  }
+
+  private queryLocalRows(): Record<string, any>[] {
+    return queryLocalRows(this.rows ?? [], {
+      filters: this.columnFilters,
+      sortActive: this.sortActive,
+      sortDirection: this.sortDirection,
+    });
+  }
+
   // --- Column visibility ---
 
   toggleColumn(col: string): void {
@@ -1620,11 +2710,58 @@ export class DfDataGridComponent
       }
     }
     this.updateVisibleColumns();
+    this.emitViewState();
   }
 
   private updateVisibleColumns(): void {
     this.columns = this.allColumns.filter(c => !this.hiddenColumns.has(c));
-    this.filterColumns = this.columns.map(c => 'filter_' + c);
+    this.displayedColumns = [
+      ...(this.editMode ? [SELECT_COLUMN] : []),
+      ...(this.selectedRelated.length > 0 ? [RELATED_COLUMN] : []),
+      ...this.columns,
+    ];
+    this.filterColumns = this.displayedColumns.map(c => 'filter_' + c);
+  }
+
+  // --- Related records ---
+
+  get selectedRelations(): RelatedInfo[] {
+    return (this.cachedSchema?.related || []).filter(rel =>
+      this.selectedRelated.includes(rel.name)
+    );
+  }
+
+  onRelatedChange(names: string[]): void {
+    this.selectedRelated = names;
+    this.apiSelectedRelated = Object.fromEntries(names.map(n => [n, true]));
+    this.updateVisibleColumns();
+    this.loadData();
+  }
+
+  /** Row predicate for the detail row holding the related sub-grids */
+  hasRelatedDetail = (): boolean => this.selectedRelated.length > 0;
+
+  toggleRelatedRow(row: Record<string, any>): void {
+    if (this.expandedRows.has(row)) {
+      this.expandedRows.delete(row);
+    } else {
+      this.expandedRows.add(row);
+    }
+  }
+
+  relatedValue(row: Record<string, any>, rel: RelatedInfo): any {
+    return row[relatedRecordKey(rel)] ?? null;
+  }
+
+  relatedCount(row: Record<string, any>, rel: RelatedInfo): number {
+    return relatedRecordCount(this.relatedValue(row, rel));
+  }
+
+  relatedTotal(row: Record<string, any>): number {
+    return this.selectedRelated.reduce(
+      (sum, name) => sum + relatedRecordCount(row[relatedRecordKey(name)]),
+      0
+    );
   }
 
   // --- Pagination ---
@@ -1679,6 +2816,8 @@ export class DfDataGridComponent
   }
 
   onSortChange(sortState: Sort): void {
+    this.sortActive = sortState.active;
+    this.sortDirection = sortState.direction;
     if (sortState.direction) {
       // The column ID from the JSON response may be camelCased, but the DB
       // needs the real column name. Use schema to map back if available.
@@ -1740,6 +2879,7 @@ export class DfDataGridComponent
       document.removeEventListener('mousemove', onMouseMove);
       document.removeEventListener('mouseup', onMouseUp);
       this.cdr.detectChanges();
+      this.emitViewState();
     };
 
     document.addEventListener('mousemove', onMouseMove);
@@ -1751,10 +2891,10 @@ export class DfDataGridComponent
   getOperatorsForColumn(col: string): FilterOp[] {
     const fieldInfo = this.getFieldInfo(col);
     if (!fieldInfo) return this.textOperators;
-    const type = (fieldInfo.type || fieldInfo.dbType).toLowerCase();
-    if (this.isNumericType(type)) return this.numericOperators;
-    if (this.isDateType(type)) return this.dateOperators;
-    if (this.isBooleanType(type)) return this.booleanOperators;
+    const type = fieldType(fieldInfo);
+    if (isNumericType(type)) return this.numericOperators;
+    if (isDateType(type)) return this.dateOperators;
+    if (isBooleanType(type)) return this.booleanOperators;
     return this.textOperators;
   }
 
@@ -1843,15 +2983,8 @@ export class DfDataGridComponent
       }
       if (!value) continue;
 
-      if (op === 'contains') {
-        const escaped = value.replace(/'/g, "''");
-        parts.push(`(${dbCol} like '%${escaped}%')`);
-      } else if (op === 'starts') {
-        const escaped = value.replace(/'/g, "''");
-        parts.push(`(${dbCol} like '${escaped}%')`);
-      } else if (op === 'ends') {
-        const escaped = value.replace(/'/g, "''");
-        parts.push(`(${dbCol} like '%${escaped}')`);
+      if (op === 'contains' || op === 'starts' || op === 'ends') {
+        parts.push(likeFilter(dbCol, value, op, this.serviceType));
       } else {
         const opMap: Record<string, string> = {
           eq: '=',
@@ -1863,8 +2996,8 @@ export class DfDataGridComponent
         };
         const sqlOp = opMap[op] || '=';
         const fieldInfo = this.getFieldInfo(col);
-        const type = (fieldInfo?.type || fieldInfo?.dbType || '').toLowerCase();
-        if (this.isNumericType(type) && !isNaN(Number(value))) {
+        const type = fieldType(fieldInfo);
+        if (isNumericType(type) && !isNaN(Number(value))) {
           parts.push(`(${dbCol} ${sqlOp} ${value})`);
         } else {
           const escaped = value.replace(/'/g, "''");
@@ -1875,48 +3008,9 @@ export class DfDataGridComponent
     return parts.join(' AND ');
   }
 
-  private isNumericType(type: string): boolean {
-    const numericTypes = [
-      'integer',
-      'int',
-      'smallint',
-      'bigint',
-      'tinyint',
-      'float',
-      'double',
-      'decimal',
-      'numeric',
-      'real',
-      'serial',
-      'bigserial',
-      'int2',
-      'int4',
-      'int8',
-      'float4',
-      'float8',
-      'money',
-    ];
-    return numericTypes.some(t => type.toLowerCase().includes(t));
-  }
-
-  private isDateType(type: string): boolean {
-    const dateTypes = [
-      'date',
-      'datetime',
-      'timestamp',
-      'time',
-      'timestamptz',
-      'timetz',
-    ];
-    return dateTypes.some(t => type.toLowerCase().includes(t));
-  }
-
-  private isBooleanType(type: string): boolean {
-    const boolTypes = ['boolean', 'bool', 'bit'];
-    return boolTypes.some(t => type.toLowerCase().includes(t));
-  }
-
   onRowClick(row: Record<string, any>): void {
+    // In edit mode clicks belong to cell editing, not the detail panel
+    if (this.editMode) return;
     if (this.selectedRow === row) {
       this.selectedRow = null;
     } else {
@@ -1928,6 +3022,10 @@ export class DfDataGridComponent
     this.showSchemaPanel = !this.showSchemaPanel;
   }
 
+  toggleAggregatePanel(): void {
+    this.showAggregatePanel = !this.showAggregatePanel;
+  }
+
   // --- Primary key detection ---
 
   isPrimaryKey(col: string): boolean {
@@ -1950,7 +3048,7 @@ export class DfDataGridComponent
     const fi = this.getFieldInfo(col);
     if (!fi?.refTable || !fi?.refField) return;
 
-    const isNumeric = this.isNumericType((fi.type || fi.dbType).toLowerCase());
+    const isNumeric = isNumericType(fieldType(fi));
     const filterValue = isNumeric
       ? `(${fi.refField} = ${value})`
       : `(${fi.refField} = '${String(value).replace(/'/g, "''")}')`;
@@ -1968,6 +3066,14 @@ export class DfDataGridComponent
     this.loadData();
   }
 
+  /** Navigation (FK) filter, column filters and server search joined into one API filter */
+  buildCombinedFilter(): string {
+    const colFilter = this.buildFilterString();
+    return [this.navigationFilter, colFilter, this.buildSearchFilter()]
+      .filter(Boolean)
+      .join(' AND ');
+  }
+
   // --- API URL builder ---
 
   buildApiUrl(): string {
@@ -1985,9 +3091,7 @@ export class DfDataGridComponent
     if (this.currentSort) {
       params.set('order', this.currentSort);
     }
-    const colFilter = this.buildFilterString();
-    const apiFilterParts = [this.navigationFilter, colFilter].filter(Boolean);
-    const apiFilter = apiFilterParts.join(' AND ');
+    const apiFilter = this.buildCombinedFilter();
     if (apiFilter) {
       params.set('filter', apiFilter);
     }
@@ -2009,20 +3113,67 @@ export class DfDataGridComponent
     });
   }
 
-  // --- Quick search (client-side) ---
+  // --- Quick search ---
+
+  /** Text columns that can take part in a server-side search */
+  get searchableFields(): FieldInfo[] {
+    return (this.cachedSchema?.field || []).filter(
+      f => !f.isVirtual && isStringType(fieldType(f))
+    );
+  }
 
   onQuickSearch(event: Event): void {
     this.quickSearchTerm = (event.target as HTMLInputElement).value;
-    this.applyQuickSearch();
+    if (this.serverSearch) {
+      this.filterSubject$.next();
+    } else {
+      this.applyQuickSearch();
+    }
   }
 
   clearQuickSearch(): void {
     this.quickSearchTerm = '';
+    if (this.serverSearch) {
+      this.filterSubject$.next();
+    } else {
+      this.applyQuickSearch();
+    }
+  }
+
+  toggleServerSearch(): void {
+    this.serverSearch = !this.serverSearch;
     this.applyQuickSearch();
+    if (this.quickSearchTerm) {
+      this.pageIndex = 0;
+      this.currentOffset = 0;
+      this.loadData();
+    }
+  }
+
+  toggleSearchColumn(name: string): void {
+    if (this.searchColumns.has(name)) {
+      this.searchColumns.delete(name);
+    } else {
+      this.searchColumns.add(name);
+    }
+    if (this.quickSearchTerm) {
+      this.filterSubject$.next();
+    }
+  }
+
+  /** OR'd like filter for the quick search term across the chosen columns */
+  buildSearchFilter(): string {
+    const term = this.quickSearchTerm.trim();
+    if (!this.serverSearch || !term) return '';
+    const columns = this.searchableFields
+      .map(f => f.name)
+      .filter(name => this.searchColumns.has(name));
+    return searchFilter(columns, term, this.serviceType);
   }
 
   private applyQuickSearch(): void {
-    if (!this.quickSearchTerm) {
+    // In server mode the search is part of the API filter instead
+    if (!this.quickSearchTerm || this.serverSearch) {
       this.dataSource.filter = '';
     } else {
       this.dataSource.filter = this.quickSearchTerm.trim().toLowerCase();
@@ -2039,6 +3190,480 @@ export class DfDataGridComponent
     };
   }
 
+  // --- Saved views ---
+
+  getViewState(): DataGridViewState {
+    const state: DataGridViewState = {};
+    const filters = Object.entries(this.columnFilters).filter(
+      ([, f]) => f.value || this.isNullOp(f.op)
+    );
+    if (filters.length > 0) state.filters = Object.fromEntries(filters);
+    if (this.sortActive && this.sortDirection) {
+      state.sortActive = this.sortActive;
+      state.sortDirection = this.sortDirection;
+      state.order = this.currentSort;
+    }
+    if (this.pageSize !== 50) state.pageSize = this.pageSize;
+    if (this.pageIndex > 0) state.page = this.pageIndex;
+    if (this.hiddenColumns.size > 0) {
+      state.hiddenColumns = Array.from(this.hiddenColumns);
+    }
+    const widths = Object.entries(this.columnWidths).filter(
+      ([, w]) => w !== 150
+    );
+    if (widths.length > 0) state.columnWidths = Object.fromEntries(widths);
+    if (this.navigationFilter) state.navigationFilter = this.navigationFilter;
+    if (this.selectedRelated.length > 0) {
+      state.related = [...this.selectedRelated];
+    }
+    if (this.serverSearch && this.quickSearchTerm) {
+      state.search = this.quickSearchTerm;
+      state.searchColumns = Array.from(this.searchColumns);
+    }
+    return state;
+  }
+
+  private applyViewState(state: DataGridViewState): void {
+    this.columnFilters = { ...(state.filters || {}) };
+    this.updateActiveFilterCount();
+    this.sortActive = state.sortActive || '';
+    this.sortDirection = state.sortDirection || '';
+    this.currentSort = state.order;
+    this.pageSize = state.pageSize || 50;
+    this.pageIndex = state.page || 0;
+    this.currentOffset = this.pageIndex * this.pageSize;
+    this.hiddenColumns = new Set(state.hiddenColumns || []);
+    this.columnWidths = { ...(state.columnWidths || {}) };
+    this.navigationFilter = state.navigationFilter || null;
+    this.selectedRelated = [...(state.related || [])];
+    this.apiSelectedRelated = Object.fromEntries(
+      this.selectedRelated.map(n => [n, true])
+    );
+    this.serverSearch = !!state.search;
+    this.quickSearchTerm = state.search || '';
+    this.searchColumns = new Set(state.searchColumns || []);
+    this.applyQuickSearch();
+  }
+
+  /** Apply a saved view to the table that is already loaded */
+  restoreView(state: DataGridViewState): void {
+    this.applyViewState(state);
+    for (const col of this.allColumns) {
+      this.columnWidths[col] ??= 150;
+    }
+    this.updateVisibleColumns();
+    this.loadData();
+  }
+
+  private emitViewState(): void {
+    this.viewStateChange.emit(this.getViewState());
+  }
+
+  refreshSavedViews(): void {
+    this.savedViews = this.savedViewsService.getViews(
+      this.serviceName,
+      this.tableName
+    );
+  }
+
+  saveView(name: string): void {
+    name = name.trim();
+    if (!name) return;
+    this.savedViewsService.saveView(
+      this.serviceName,
+      this.tableName,
+      name,
+      this.getViewState()
+    );
+    this.refreshSavedViews();
+  }
+
+  deleteView(view: SavedView, event: MouseEvent): void {
+    event.stopPropagation();
+    this.savedViewsService.deleteView(view);
+    this.refreshSavedViews();
+  }
+
+  copyViewLink(): void {
+    // The explorer keeps the current view encoded in the route query string
+    navigator.clipboard.writeText(window.location.href);
+  }
+
+  // --- Export ---
+
+  get exportProgress(): number {
+    return this.exportTarget
+      ? (this.exportFetched / this.exportTarget) * 100
+      : 0;
+  }
+
+  onExportMaxRowsChange(event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (value > 0) {
+      this.exportMaxRows = Math.floor(value);
+    }
+  }
+
+  exportData(format: ExportFormat): void {
+    const writer = createExportWriter(
+      format,
+      this.columns.map(col => ({ key: col, header: this.getDbColumnName(col) }))
+    );
+    if (this.localMode) {
+      writer.write(this.queryLocalRows().slice(0, this.exportMaxRows));
+      this.saveExport(writer);
+      return;
+    }
+    const filter = this.buildCombinedFilter() || undefined;
+    this.exporting = true;
+    this.exportNotice = null;
+    this.exportFetched = 0;
+    this.exportTarget = 0;
+    let total = 0;
+
+    this.dataExplorerService
+      .streamTableData(
+        this.serviceName,
+        this.tableName,
+        { order: this.currentSort, filter },
+        EXPORT_CHUNK_SIZE,
+        this.exportMaxRows
+      )
+      .pipe(takeUntil(this.exportCancel$), takeUntil(this.destroy$))
+      .subscribe({
+        next: chunk => {
+          writer.write(chunk.records);
+          total = chunk.total;
+          this.exportFetched = chunk.fetched;
+          this.exportTarget = Math.min(total, this.exportMaxRows);
+        },
+        error: err => {
+          this.exporting = false;
+          this.exportNotice = err?.error?.error?.message || 'Export failed';
+        },
+        complete: () => {
+          if (!this.exporting) return;
+          this.exporting = false;
+          this.saveExport(writer);
+          if (total > this.exportFetched) {
+            this.exportNotice = `Exported the first ${this.exportFetched} of ${total} records (row limit reached).`;
+          }
+        },
+      });
+  }
+
+  cancelExport(): void {
+    if (!this.exporting) return;
+    // Flag first so the completion triggered by takeUntil does not save a file
+    this.exporting = false;
+    this.exportCancel$.next();
+    this.exportNotice = 'Export cancelled.';
+  }
+
+  private saveExport(writer: ExportWriter): void {
+    saveAsFile(writer.finish(), `${this.tableName}.${writer.extension}`);
+  }
+
+  // --- Inline editing ---
+
+  /** Editing needs a single-column primary key to address records by id */
+  get canEdit(): boolean {
+    return this.primaryKeyFields.length === 1;
+  }
+
+  private get primaryKeyFields(): FieldInfo[] {
+    return (this.cachedSchema?.field || []).filter(f => f.isPrimaryKey);
+  }
+
+  /** JSON key of the primary key column in loaded records */
+  private get primaryKeyColumn(): string | null {
+    const pk = this.primaryKeyFields[0];
+    if (!pk) return null;
+    return (
+      this.allColumns.find(c => this.getDbColumnName(c) === pk.name) ?? null
+    );
+  }
+
+  toggleEditMode(): void {
+    this.editMode = !this.editMode;
+    this.selectedRow = null;
+    this.selectedRows.clear();
+    this.editingCell = null;
+    this.updateVisibleColumns();
+  }
+
+  cellValue(row: Record<string, any>, col: string): any {
+    return this.changeSet.valueOf(row, col);
+  }
+
+  /** Foreign key cells with a value link to the referenced row */
+  isForeignKeyLink(row: Record<string, any>, col: string): boolean {
+    const value = this.cellValue(row, col);
+    return this.isForeignKey(col) && value !== null && value !== undefined;
+  }
+
+  isEditingCell(row: Record<string, any>, col: string): boolean {
+    return this.editingCell?.row === row && this.editingCell.col === col;
+  }
+
+  startCellEdit(row: Record<string, any>, col: string): void {
+    if (!this.editMode || this.committing) return;
+    const change = this.changeSet.get(row);
+    if (change?.kind === 'delete') return;
+    const fi = this.getFieldInfo(col);
+    if (fi?.autoIncrement && change?.kind !== 'insert') return;
+    const value = this.cellValue(row, col);
+    // Nested objects (related data, JSON columns) are not editable inline
+    if (value !== null && typeof value === 'object') return;
+    this.editingValue =
+      value === null || value === undefined ? '' : String(value);
+    this.editingCell = { row, col };
+  }
+
+  commitCellEdit(event: Event): void {
+    if (!this.editingCell) return;
+    const { row, col } = this.editingCell;
+    this.editingCell = null;
+    const raw = (event.target as HTMLInputElement).value;
+    const value = coerceFieldValue(this.getFieldInfo(col), raw);
+    this.changeSet.stageEdit(row, col, value);
+    const change = this.changeSet.get(row);
+    if (change) {
+      change.error = null;
+      this.validate(change);
+    }
+  }
+
+  cancelCellEdit(): void {
+    this.editingCell = null;
+  }
+
+  addRow(): void {
+    if (this.allColumns.length === 0 && this.cachedSchema) {
+      // Empty table: derive the columns from the schema instead of a record
+      this.allColumns = this.cachedSchema.field.map(f =>
+        snakeToCamelString(f.name)
+      );
+      for (const col of this.allColumns) {
+        this.columnWidths[col] = 150;
+      }
+      this.updateVisibleColumns();
+    }
+    const row: Record<string, any> = {};
+    for (const col of this.allColumns) {
+      row[col] = null;
+    }
+    this.changeSet.stageInsert(row);
+    this.validate(this.changeSet.get(row)!);
+    this.dataSource.data = [row, ...this.dataSource.data];
+  }
+
+  allRowsSelected(): boolean {
+    return (
+      this.dataSource.data.length > 0 &&
+      this.selectedRows.size === this.dataSource.data.length
+    );
+  }
+
+  toggleAllRows(): void {
+    if (this.allRowsSelected()) {
+      this.selectedRows.clear();
+    } else {
+      this.dataSource.data.forEach(row => this.selectedRows.add(row));
+    }
+  }
+
+  toggleRowSelection(row: Record<string, any>): void {
+    if (this.selectedRows.has(row)) {
+      this.selectedRows.delete(row);
+    } else {
+      this.selectedRows.add(row);
+    }
+  }
+
+  deleteSelectedRows(): void {
+    const unsaved = new Set<Record<string, any>>();
+    this.selectedRows.forEach(row => {
+      if (this.changeSet.get(row)?.kind === 'insert') {
+        unsaved.add(row);
+      }
+      this.changeSet.stageDelete(row);
+    });
+    if (unsaved.size > 0) {
+      this.dataSource.data = this.dataSource.data.filter(r => !unsaved.has(r));
+    }
+    this.selectedRows.clear();
+  }
+
+  revertChange(change: RecordChange): void {
+    this.changeSet.revert(change.row);
+    if (change.kind === 'insert') {
+      this.dataSource.data = this.dataSource.data.filter(r => r !== change.row);
+    }
+  }
+
+  discardChanges(): void {
+    const inserted = new Set(
+      this.changeSet
+        .list()
+        .filter(c => c.kind === 'insert')
+        .map(c => c.row)
+    );
+    this.changeSet.clear();
+    this.editingCell = null;
+    this.showChangesPreview = false;
+    this.dataSource.data = this.dataSource.data.filter(r => !inserted.has(r));
+  }
+
+  hasFieldErrors(change: RecordChange): boolean {
+    return Object.keys(change.fieldErrors).length > 0;
+  }
+
+  cellErrorText(
+    row: Record<string, any>,
+    column: string,
+    translate: (key: string, params?: Record<string, unknown>) => string
+  ): string {
+    const error = this.changeSet.get(row)?.fieldErrors?.[column];
+    return error ? translate(error.key, error.params) : '';
+  }
+
+  /** Required columns an insert left empty (they have no diff line of their own) */
+  missingRequiredColumns(change: RecordChange): string[] {
+    return Object.keys(change.fieldErrors).filter(
+      col => !(col in change.values)
+    );
+  }
+
+  describeChange(change: RecordChange): string {
+    if (change.kind === 'insert') return 'new row';
+    const pkCol = this.primaryKeyColumn;
+    return pkCol ? `${this.getDbColumnName(pkCol)} = ${change.row[pkCol]}` : '';
+  }
+
+  commitChanges(): void {
+    const changes = this.changeSet.list();
+    const valid = changes.map(c => this.validate(c)).every(Boolean);
+    if (!valid) {
+      this.showChangesPreview = true;
+      return;
+    }
+    this.committing = true;
+    this.editingCell = null;
+    forkJoin(
+      changes.map(change =>
+        this.saveChange(change).pipe(
+          map(response => ({ change, response, error: null }) as CommitResult),
+          catchError(err =>
+            of({
+              change,
+              response: null,
+              error: err?.error?.error?.message || 'Request failed',
+            } as CommitResult)
+          )
+        )
+      )
+    )
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(results => this.onCommitted(results));
+  }
+
+  private onCommitted(results: CommitResult[]): void {
+    this.committing = false;
+    const failed = results.filter(r => r.error);
+    if (failed.length === 0) {
+      this.changeSet.clear();
+      this.showChangesPreview = false;
+      this.loadData();
+      return;
+    }
+    // Keep the failed changes staged with their errors and apply the rest
+    // locally, so the rows that failed keep their place in the grid.
+    let data = this.dataSource.data;
+    for (const { change, response, error } of results) {
+      if (error) {
+        change.error = error;
+        continue;
+      }
+      this.changeSet.revert(change.row);
+      if (change.kind === 'delete') {
+        data = data.filter(r => r !== change.row);
+        this.totalRecords--;
+      } else {
+        Object.assign(change.row, change.values, response?.resource?.[0]);
+        if (change.kind === 'insert') this.totalRecords++;
+      }
+    }
+    this.dataSource.data = data;
+    this.showChangesPreview = true;
+  }
+
+  private saveChange(change: RecordChange): Observable<any> {
+    const pkCol = this.primaryKeyColumn;
+    const id = pkCol ? change.row[pkCol] : null;
+    switch (change.kind) {
+      case 'insert':
+        return this.dataExplorerService.createRecord(
+          this.serviceName,
+          this.tableName,
+          this.toDbRecord(change.values)
+        );
+      case 'update':
+        return this.dataExplorerService.updateRecord(
+          this.serviceName,
+          this.tableName,
+          id,
+          this.toDbRecord(change.values)
+        );
+      case 'delete':
+        return this.dataExplorerService.deleteRecord(
+          this.serviceName,
+          this.tableName,
+          id
+        );
+    }
+  }
+
+  /** Re-key staged values from JSON keys to real DB column names */
+  private toDbRecord(values: Record<string, any>): Record<string, any> {
+    const record: Record<string, any> = {};
+    for (const [col, value] of Object.entries(values)) {
+      record[this.getDbColumnName(col)] = value;
+    }
+    return record;
+  }
+
+  private validate(change: RecordChange): boolean {
+    return validateChange(change, this.allColumns, col =>
+      this.getFieldInfo(col)
+    );
+  }
+
+  /**
+   * After a reload, move staged changes onto the freshly fetched objects for
+   * the same records and keep unsaved new rows at the top of the page.
+   */
+  private reattachPendingChanges(
+    records: Record<string, any>[]
+  ): Record<string, any>[] {
+    if (this.changeSet.size === 0) return records;
+    const pkCol = this.primaryKeyColumn;
+    const inserted: Record<string, any>[] = [];
+    for (const change of this.changeSet.list()) {
+      if (change.kind === 'insert') {
+        inserted.push(change.row);
+        continue;
+      }
+      const match = pkCol
+        ? records.find(r => r[pkCol] === change.row[pkCol])
+        : undefined;
+      if (match) {
+        this.changeSet.rebind(change.row, match);
+      }
+    }
+    return [...inserted, ...records];
+  }
+
   formatCellValue(value: any): string {
     if (value === null || value === undefined) return 'NULL';
     if (typeof value === 'object') return JSON.stringify(value);
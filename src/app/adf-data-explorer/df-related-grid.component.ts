@@ -0,0 +1,140 @@
+import { Component, Input } from '@angular/core';
+import { NgIf, NgFor } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { TranslocoModule } from '@ngneat/transloco';
+
+/**
+ * Compact read-only table for records fetched through the `related`
+ * parameter. A belongs_to relationship returns a single object and
+ * has_many/many_many an array; both are shown as rows.
+ */
+@Component({
+  selector: 'df-related-grid',
+  standalone: true,
+  imports: [NgIf, NgFor, MatTooltipModule, TranslocoModule],
+  template: `
+    <div class="related-grid" *transloco="let t; scope: 'dataExplorer'">
+      <div class="related-empty" *ngIf="rows.length === 0">
+        {{ t('dataExplorer.noRelatedRecords') }}
+      </div>
+      <div class="related-scroll" *ngIf="rows.length > 0">
+        <table>
+          <thead>
+            <tr>
+              <th *ngFor="let col of columns">{{ col }}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr *ngFor="let row of rows">
+              <td
+                *ngFor="let col of columns"
+                [class.null-cell]="row[col] === null || row[col] === undefined"
+                [matTooltip]="isObject(row[col]) ? stringify(row[col]) : ''">
+                {{ formatValue(row[col]) }}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .related-grid {
+        font-size: 12px;
+      }
+
+      .related-empty {
+        padding: 4px 0;
+        color: #9e9e9e;
+        font-style: italic;
+      }
+
+      .related-scroll {
+        overflow-x: auto;
+        max-height: 240px;
+        overflow-y: auto;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+      }
+
+      table {
+        border-collapse: collapse;
+        width: 100%;
+      }
+
+      th,
+      td {
+        padding: 4px 8px;
+        text-align: left;
+        white-space: nowrap;
+        max-width: 240px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        border-bottom: 1px solid #f0f0f0;
+      }
+
+      th {
+        position: sticky;
+        top: 0;
+        background: #f5f5f5;
+        font-weight: 600;
+        color: #616161;
+        font-family: 'Roboto Mono', monospace;
+      }
+
+      td.null-cell {
+        color: #bdbdbd;
+        font-style: italic;
+      }
+
+      :host-context(.dark-theme) {
+        .related-scroll {
+          border-color: #424242;
+        }
+        th {
+          background: #2c2c2c;
+          color: #bdbdbd;
+        }
+        td {
+          border-bottom-color: #2c2c2c;
+          color: #e0e0e0;
+        }
+      }
+    `,
+  ],
+})
+export class DfRelatedGridComponent {
+  rows: Record<string, any>[] = [];
+  columns: string[] = [];
+
+  @Input() set records(
+    value: Record<string, any>[] | Record<string, any> | null
+  ) {
+    if (Array.isArray(value)) {
+      this.rows = value;
+    } else {
+      this.rows = value && typeof value === 'object' ? [value] : [];
+    }
+    const keys = new Set<string>();
+    for (const row of this.rows) {
+      Object.keys(row).forEach(k => keys.add(k));
+    }
+    this.columns = Array.from(keys);
+  }
+
+  isObject(value: any): boolean {
+    return value !== null && typeof value === 'object';
+  }
+
+  stringify(value: any): string {
+    return JSON.stringify(value);
+  }
+
+  formatValue(value: any): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (Array.isArray(value)) return `[${value.length}]`;
+    if (typeof value === 'object') return '{…}';
+    return String(value);
+  }
+}
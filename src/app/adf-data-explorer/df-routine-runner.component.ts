@@ -0,0 +1,466 @@
+import {
+  Component,
+  Input,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+} from '@angular/core';
+import { NgIf, NgFor } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { TranslocoModule } from '@ngneat/transloco';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faCode, faGears } from '@fortawesome/free-solid-svg-icons';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  DataExplorerService,
+  RoutineInfo,
+  RoutineKind,
+  RoutineParam,
+} from './services/data-explorer.service';
+import { DfDataGridComponent } from './df-data-grid.component';
+import { isNumericType } from './utilities/field-types';
+import {
+  RoutineResult,
+  isInputParam,
+  normalizeRoutineResult,
+} from './utilities/routine-results';
+
+/** Parameter row of the call form; ad-hoc rows are added by the user */
+interface ParamInput {
+  param: RoutineParam;
+  value: string;
+  adHoc: boolean;
+}
+
+@Component({
+  selector: 'df-routine-runner',
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    TranslocoModule,
+    FontAwesomeModule,
+    DfDataGridComponent,
+  ],
+  template: `
+    <div class="routine-runner" *transloco="let t; scope: 'dataExplorer'">
+      <!-- Toolbar -->
+      <div class="runner-toolbar">
+        <fa-icon
+          [icon]="kind === 'procedure' ? faGears : faCode"
+          class="toolbar-icon"></fa-icon>
+        <span class="routine-title">{{ routine.name }}</span>
+        <span class="routine-kind">{{
+          kind === 'procedure'
+            ? t('dataExplorer.procedure')
+            : t('dataExplorer.function')
+        }}</span>
+        <span class="routine-returns" *ngIf="routine.returnType">
+          → {{ routine.returnType }}
+        </span>
+      </div>
+
+      <!-- Parameters -->
+      <div class="param-form">
+        <div class="section-header">{{ t('dataExplorer.parameters') }}</div>
+        <div class="param-hint" *ngIf="!hasParamMetadata">
+          {{ t('dataExplorer.noParamMetadata') }}
+        </div>
+        <div class="param-row" *ngFor="let input of inputs">
+          <ng-container *ngIf="!input.adHoc">
+            <span class="param-name">{{ input.param.name }}</span>
+            <span class="param-mode">{{ input.param.paramType || 'IN' }}</span>
+            <span class="param-type">{{
+              input.param.dbType || input.param.type
+            }}</span>
+          </ng-container>
+          <input
+            *ngIf="input.adHoc"
+            class="param-input param-name-input"
+            [placeholder]="t('dataExplorer.paramName')"
+            [(ngModel)]="input.param.name" />
+          <input
+            *ngIf="isInput(input.param); else outParam"
+            class="param-input"
+            [placeholder]="input.param.default ?? t('dataExplorer.paramValue')"
+            [(ngModel)]="input.value"
+            (keydown.enter)="run()" />
+          <ng-template #outParam>
+            <span class="param-out">{{ t('dataExplorer.outputParam') }}</span>
+          </ng-template>
+          <button
+            *ngIf="input.adHoc"
+            mat-icon-button
+            class="param-remove"
+            (click)="removeParam(input)">
+            <mat-icon>close</mat-icon>
+          </button>
+        </div>
+        <div class="param-actions">
+          <button mat-button (click)="addParam()">
+            <mat-icon>add</mat-icon>
+            {{ t('dataExplorer.addParameter') }}
+          </button>
+          <button
+            mat-flat-button
+            color="primary"
+            [disabled]="running"
+            (click)="run()">
+            <mat-icon>play_arrow</mat-icon>
+            {{ t('dataExplorer.run') }}
+          </button>
+        </div>
+      </div>
+
+      <!-- Running -->
+      <div class="runner-state" *ngIf="running">
+        <mat-spinner diameter="32"></mat-spinner>
+      </div>
+
+      <!-- Error -->
+      <div class="runner-state error-state" *ngIf="error && !running">
+        <mat-icon color="warn">error_outline</mat-icon>
+        <span>{{ error }}</span>
+      </div>
+
+      <ng-container *ngIf="result && !running && !error">
+        <!-- Output values -->
+        <div class="outputs" *ngIf="outputKeys.length > 0">
+          <div class="section-header">{{ t('dataExplorer.outputs') }}</div>
+          <div class="output-row" *ngFor="let key of outputKeys">
+            <span class="param-name">{{ key }}</span>
+            <span class="output-value">{{
+              formatValue(result.outputs[key])
+            }}</span>
+          </div>
+        </div>
+
+        <!-- Result sets -->
+        <div class="result-header" *ngIf="result.resultSets.length > 1">
+          <mat-button-toggle-group
+            [value]="selectedSet"
+            (change)="showResultSet($event.value)">
+            <mat-button-toggle
+              *ngFor="let set of result.resultSets; let i = index"
+              [value]="i">
+              {{ t('dataExplorer.resultSet') }} {{ i + 1 }} ({{ set.length }})
+            </mat-button-toggle>
+          </mat-button-toggle-group>
+        </div>
+
+        <div
+          class="runner-state"
+          *ngIf="result.resultSets.length === 0 && outputKeys.length === 0">
+          <mat-icon>check_circle_outline</mat-icon>
+          <span>{{ t('dataExplorer.noResults') }}</span>
+        </div>
+
+        <div class="result-grid" *ngIf="result.resultSets.length > 0">
+          <df-data-grid
+            [serviceName]="serviceName"
+            [tableName]="routine.name"
+            [rows]="result.resultSets[selectedSet]"></df-data-grid>
+        </div>
+      </ng-container>
+    </div>
+  `,
+  styles: [
+    `
+      :host {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        display: flex;
+        flex-direction: column;
+        overflow: hidden;
+      }
+
+      .routine-runner {
+        display: flex;
+        flex-direction: column;
+        height: 100%;
+        overflow: hidden;
+      }
+
+      .runner-toolbar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 0 16px;
+        height: 49px;
+        flex-shrink: 0;
+        border-bottom: 1px solid #e0e0e0;
+
+        .toolbar-icon {
+          color: #7b1fa2;
+        }
+
+        .routine-title {
+          font-weight: 500;
+          font-size: 15px;
+        }
+
+        .routine-kind,
+        .routine-returns {
+          font-size: 11px;
+          color: #9e9e9e;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+        }
+      }
+
+      .section-header {
+        font-size: 11px;
+        font-weight: 600;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+        color: #9e9e9e;
+        padding: 4px 0 8px;
+      }
+
+      .param-form,
+      .outputs {
+        padding: 12px 16px;
+        border-bottom: 1px solid #e0e0e0;
+        flex-shrink: 0;
+      }
+
+      .param-hint {
+        font-size: 12px;
+        color: #757575;
+        margin-bottom: 8px;
+      }
+
+      .param-row,
+      .output-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 6px;
+        font-size: 13px;
+      }
+
+      .param-name {
+        min-width: 140px;
+        font-weight: 500;
+        font-family: 'Roboto Mono', monospace;
+      }
+
+      .param-mode {
+        font-size: 10px;
+        padding: 1px 6px;
+        border-radius: 4px;
+        background: #f3e5f5;
+        color: #7b1fa2;
+      }
+
+      .param-type {
+        min-width: 90px;
+        font-size: 11px;
+        color: #9e9e9e;
+        font-family: 'Roboto Mono', monospace;
+      }
+
+      .param-input {
+        flex: 1;
+        max-width: 360px;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        padding: 6px 8px;
+        font-size: 13px;
+        outline: none;
+
+        &:focus {
+          border-color: #7b1fa2;
+        }
+
+        &.param-name-input {
+          flex: none;
+          width: 140px;
+        }
+      }
+
+      .param-out {
+        font-size: 12px;
+        font-style: italic;
+        color: #9e9e9e;
+      }
+
+      .param-remove {
+        width: 28px;
+        height: 28px;
+        padding: 2px;
+      }
+
+      .param-actions {
+        display: flex;
+        justify-content: space-between;
+        margin-top: 8px;
+      }
+
+      .output-value {
+        font-family: 'Roboto Mono', monospace;
+        word-break: break-all;
+      }
+
+      .result-header {
+        padding: 8px 16px;
+        flex-shrink: 0;
+      }
+
+      .runner-state {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 8px;
+        padding: 24px;
+        color: #757575;
+        font-size: 13px;
+
+        &.error-state {
+          color: #d32f2f;
+        }
+      }
+
+      .result-grid {
+        position: relative;
+        flex: 1;
+        min-height: 240px;
+      }
+
+      :host-context(.dark-theme) {
+        .runner-toolbar,
+        .param-form,
+        .outputs {
+          border-color: #424242;
+          color: #e0e0e0;
+        }
+        .runner-toolbar .toolbar-icon {
+          color: #ce93d8;
+        }
+        .param-mode {
+          background: #4a148c;
+          color: #e1bee7;
+        }
+        .param-input {
+          background: #2c2c2c;
+          color: #e0e0e0;
+          border-color: #424242;
+        }
+      }
+    `,
+  ],
+})
+export class DfRoutineRunnerComponent implements OnChanges, OnDestroy {
+  @Input() serviceName = '';
+  @Input() kind: RoutineKind = 'procedure';
+  @Input() routine!: RoutineInfo;
+
+  faGears = faGears;
+  faCode = faCode;
+
+  inputs: ParamInput[] = [];
+  hasParamMetadata = false;
+  running = false;
+  error: string | null = null;
+  result: RoutineResult | null = null;
+  outputKeys: string[] = [];
+  selectedSet = 0;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private dataExplorerService: DataExplorerService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['routine'] || changes['serviceName']) {
+      const params = [...(this.routine?.params || [])].sort(
+        (a, b) => (a.position ?? 0) - (b.position ?? 0)
+      );
+      this.hasParamMetadata = !!this.routine?.params;
+      this.inputs = params.map(param => ({
+        param,
+        value: '',
+        adHoc: false,
+      }));
+      this.result = null;
+      this.error = null;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  isInput(param: RoutineParam): boolean {
+    return isInputParam(param);
+  }
+
+  addParam(): void {
+    this.inputs.push({ param: { name: '' }, value: '', adHoc: true });
+  }
+
+  removeParam(input: ParamInput): void {
+    this.inputs = this.inputs.filter(i => i !== input);
+  }
+
+  run(): void {
+    if (this.running) return;
+    const params = this.inputs
+      .filter(i => i.param.name && isInputParam(i.param))
+      .map(i => ({ name: i.param.name, value: this.coerce(i) }));
+
+    this.running = true;
+    this.error = null;
+    this.dataExplorerService
+      .callRoutine(this.serviceName, this.kind, this.routine.name, params)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: res => {
+          this.result = normalizeRoutineResult(res);
+          this.outputKeys = Object.keys(this.result.outputs);
+          this.running = false;
+          this.selectedSet = 0;
+        },
+        error: err => {
+          this.error =
+            err?.error?.error?.message || `Failed to call ${this.routine.name}`;
+          this.running = false;
+        },
+      });
+  }
+
+  showResultSet(index: number): void {
+    this.selectedSet = index;
+  }
+
+  formatValue(value: any): string {
+    if (value === null || value === undefined) return 'NULL';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  /** Empty input means NULL; numeric parameters are sent as numbers */
+  private coerce(input: ParamInput): any {
+    if (input.value === '') return null;
+    const type = input.param.type || input.param.dbType || '';
+    if (isNumericType(type) && !isNaN(Number(input.value))) {
+      return Number(input.value);
+    }
+    return input.value;
+  }
+}
@@ -7,8 +7,11 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { TranslocoModule } from '@ngneat/transloco';
 import {
   FieldInfo,
+  RelatedInfo,
   TableSchemaResponse,
 } from './services/data-explorer.service';
+import { DfRelatedGridComponent } from './df-related-grid.component';
+import { relatedRecordCount, relatedRecordKey } from './utilities/related';
 
 @Component({
   selector: 'df-row-detail',
@@ -22,6 +25,7 @@ import {
     MatChipsModule,
     MatTooltipModule,
     TranslocoModule,
+    DfRelatedGridComponent,
   ],
   template: `
     <div class="row-detail-panel" *transloco="let t; scope: 'dataExplorer'">
@@ -33,7 +37,7 @@ import {
       </div>
 
       <div class="detail-body" *ngIf="row">
-        <div class="field-entry" *ngFor="let key of objectKeys(row)">
+        <div class="field-entry" *ngFor="let key of fieldKeys()">
           <div class="field-label">
             <span class="field-key">{{ key }}</span>
             <span class="field-type-badge" *ngIf="getFieldInfo(key) as fi">{{
@@ -82,6 +86,22 @@ import {
             </a>
           </div>
         </div>
+
+        <!-- Related records -->
+        <div class="related-entry" *ngFor="let rel of related">
+          <button class="related-header" (click)="toggleRelated(rel.name)">
+            <mat-icon>{{
+              collapsedRelated.has(rel.name) ? 'chevron_right' : 'expand_more'
+            }}</mat-icon>
+            <span class="field-key">{{ rel.name }}</span>
+            <span class="field-type-badge"
+              >{{ rel.type }} · {{ relatedCount(rel) }}</span
+            >
+          </button>
+          <df-related-grid
+            *ngIf="!collapsedRelated.has(rel.name)"
+            [records]="row[relatedKey(rel)] ?? null"></df-related-grid>
+        </div>
       </div>
     </div>
   `,
@@ -223,6 +243,42 @@ import {
         }
       }
 
+      .related-entry {
+        padding: 8px 12px;
+        border-bottom: 1px solid #f0f0f0;
+
+        .related-header {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          border: none;
+          background: none;
+          padding: 0;
+          margin-bottom: 4px;
+          cursor: pointer;
+
+          mat-icon {
+            font-size: 18px;
+            width: 18px;
+            height: 18px;
+            color: #9e9e9e;
+          }
+
+          .field-key {
+            font-size: 12px;
+            font-weight: 600;
+            color: #424242;
+            font-family: 'Roboto Mono', monospace;
+          }
+
+          .field-type-badge {
+            font-size: 10px;
+            color: #9e9e9e;
+            font-family: 'Roboto Mono', monospace;
+          }
+        }
+      }
+
       .ref-link {
         color: #1565c0;
         cursor: pointer;
@@ -263,6 +319,12 @@ import {
             }
           }
         }
+        .related-entry {
+          border-bottom-color: #2c2c2c;
+          .related-header .field-key {
+            color: #e0e0e0;
+          }
+        }
         .ref-link {
           color: #64b5f6;
         }
@@ -273,10 +335,32 @@ import {
 export class DfRowDetailComponent {
   @Input() row: Record<string, any> | null = null;
   @Input() schema: TableSchemaResponse | null = null;
+  @Input() related: RelatedInfo[] = [];
   @Output() closeClicked = new EventEmitter<void>();
   @Output() navigateToTable = new EventEmitter<string>();
 
   objectKeys = Object.keys;
+  relatedKey = relatedRecordKey;
+  collapsedRelated = new Set<string>();
+
+  /** Record keys, leaving out related records which get their own section */
+  fieldKeys(): string[] {
+    if (!this.row) return [];
+    const relatedKeys = this.related.map(relatedRecordKey);
+    return Object.keys(this.row).filter(k => !relatedKeys.includes(k));
+  }
+
+  relatedCount(rel: RelatedInfo): number {
+    return relatedRecordCount(this.row?.[relatedRecordKey(rel)]);
+  }
+
+  toggleRelated(name: string): void {
+    if (this.collapsedRelated.has(name)) {
+      this.collapsedRelated.delete(name);
+    } else {
+      this.collapsedRelated.add(name);
+    }
+  }
 
   isObject(value: any): boolean {
     return value !== null && typeof value === 'object';
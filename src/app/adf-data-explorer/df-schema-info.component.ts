@@ -11,6 +11,7 @@ import { NgIf, NgFor } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 import { MatChipsModule } from '@angular/material/chips';
+import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { TranslocoModule } from '@ngneat/transloco';
@@ -32,6 +33,7 @@ import {
     MatIconModule,
     MatButtonModule,
     MatChipsModule,
+    MatCheckboxModule,
     MatProgressSpinnerModule,
     MatTooltipModule,
     TranslocoModule,
@@ -103,8 +105,15 @@ import {
           <div class="section-header">
             {{ t('dataExplorer.relationships') }} ({{ schema.related!.length }})
           </div>
+          <div class="rel-hint">{{ t('dataExplorer.includeRelatedHint') }}</div>
           <div class="rel-list">
             <div class="rel-row" *ngFor="let rel of schema.related">
+              <mat-checkbox
+                class="rel-include"
+                [checked]="selectedRelated.includes(rel.name)"
+                (change)="toggleRelated(rel.name)"
+                [matTooltip]="'Fetch ' + rel.name + ' with each record'">
+              </mat-checkbox>
               <mat-icon class="rel-icon">{{
                 rel.type === 'belongs_to' ? 'arrow_back' : 'arrow_forward'
               }}</mat-icon>
@@ -278,6 +287,12 @@ import {
         }
       }
 
+      .rel-hint {
+        font-size: 11px;
+        color: #9e9e9e;
+        padding: 6px 12px 0;
+      }
+
       .rel-list {
         .rel-row {
           display: flex;
@@ -286,6 +301,10 @@ import {
           padding: 6px 12px;
           border-bottom: 1px solid #f5f5f5;
 
+          .rel-include {
+            margin: -10px -6px -10px -10px;
+          }
+
           .rel-icon {
             font-size: 16px;
             width: 16px;
@@ -357,7 +376,9 @@ export class DfSchemaInfoComponent implements OnChanges, OnDestroy {
   @Input() serviceName = '';
   @Input() tableName = '';
   @Output() closeClicked = new EventEmitter<void>();
+  @Input() selectedRelated: string[] = [];
   @Output() navigateToTable = new EventEmitter<string>();
+  @Output() relatedChange = new EventEmitter<string[]>();
 
   schema: TableSchemaResponse | null = null;
   loading = false;
@@ -407,6 +428,14 @@ export class DfSchemaInfoComponent implements OnChanges, OnDestroy {
       });
   }
 
+  toggleRelated(name: string): void {
+    this.relatedChange.emit(
+      this.selectedRelated.includes(name)
+        ? this.selectedRelated.filter(n => n !== name)
+        : [...this.selectedRelated, name]
+    );
+  }
+
   getSchema(): TableSchemaResponse | null {
     return this.schema;
   }
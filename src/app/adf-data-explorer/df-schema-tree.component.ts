@@ -17,8 +17,27 @@ import { MatInputModule } from '@angular/material/input';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { TranslocoModule } from '@ngneat/transloco';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
-import { faTable, faDatabase } from '@fortawesome/free-solid-svg-icons';
-import { TableInfo } from './services/data-explorer.service';
+import {
+  faTable,
+  faDatabase,
+  faGears,
+  faCode,
+  IconDefinition,
+} from '@fortawesome/free-solid-svg-icons';
+import {
+  RoutineInfo,
+  RoutineKind,
+  RoutineSelection,
+  TableInfo,
+} from './services/data-explorer.service';
+import { SavedView } from './utilities/view-state';
+
+interface RoutineGroup {
+  kind: RoutineKind;
+  label: string;
+  icon: IconDefinition;
+  items: RoutineInfo[];
+}
 
 @Component({
   selector: 'df-schema-tree',
@@ -51,7 +70,7 @@ import { TableInfo } from './services/data-explorer.service';
       </div>
 
       <!-- Search -->
-      <div class="search-box" *ngIf="!loading && !error && tables.length > 0">
+      <div class="search-box" *ngIf="!loading && !error && hasEntries">
         <mat-form-field appearance="outline" class="search-field">
           <mat-icon matPrefix>search</mat-icon>
           <input
@@ -86,9 +105,7 @@ import { TableInfo } from './services/data-explorer.service';
       </div>
 
       <!-- Empty -->
-      <div
-        class="empty-state"
-        *ngIf="!loading && !error && tables.length === 0">
+      <div class="empty-state" *ngIf="!loading && !error && !hasEntries">
         <mat-icon>info_outline</mat-icon>
         <span>{{ t('dataExplorer.noTables') }}</span>
         <small>{{ t('dataExplorer.noTablesHint') }}</small>
@@ -108,6 +125,63 @@ import { TableInfo } from './services/data-explorer.service';
           <span class="table-name">{{ table.name }}</span>
         </a>
       </mat-nav-list>
+
+      <!-- Procedures and functions -->
+      <ng-container *ngIf="!loading && !error">
+        <ng-container *ngFor="let group of routineGroups">
+          <ng-container *ngIf="group.items.length > 0">
+            <div class="tables-header">
+              <span class="tables-label">{{ t(group.label) }}</span>
+              <span class="tables-count">{{ group.items.length }}</span>
+            </div>
+            <mat-nav-list class="routine-list">
+              <a
+                mat-list-item
+                *ngFor="let routine of group.items"
+                tabindex="0"
+                (click)="onRoutineClick(group.kind, routine)"
+                (keydown.enter)="onRoutineClick(group.kind, routine)"
+                [class.selected]="
+                  selectedRoutine?.kind === group.kind &&
+                  selectedRoutine?.routine?.name === routine.name
+                "
+                class="table-item">
+                <fa-icon [icon]="group.icon" class="table-icon"></fa-icon>
+                <span class="table-name">{{ routine.name }}</span>
+              </a>
+            </mat-nav-list>
+          </ng-container>
+        </ng-container>
+      </ng-container>
+
+      <!-- Saved views -->
+      <ng-container *ngIf="!loading && !error && savedViews.length > 0">
+        <div class="tables-header">
+          <span class="tables-label">{{ t('dataExplorer.savedViews') }}</span>
+          <span class="tables-count">{{ savedViews.length }}</span>
+        </div>
+        <mat-nav-list class="view-list">
+          <a
+            mat-list-item
+            *ngFor="let view of savedViews"
+            tabindex="0"
+            (click)="viewSelected.emit(view)"
+            (keydown.enter)="viewSelected.emit(view)"
+            class="table-item view-item"
+            [matTooltip]="view.tableName + ' — ' + view.name">
+            <mat-icon class="view-icon">bookmark</mat-icon>
+            <span class="table-name"
+              >{{ view.tableName }} · {{ view.name }}</span
+            >
+            <button
+              mat-icon-button
+              class="view-delete"
+              (click)="onDeleteView($event, view)">
+              <mat-icon>close</mat-icon>
+            </button>
+          </a>
+        </mat-nav-list>
+      </ng-container>
     </div>
   `,
   styles: [
@@ -285,6 +359,58 @@ import { TableInfo } from './services/data-explorer.service';
         }
       }
 
+      .routine-list,
+      .view-list {
+        flex-shrink: 0;
+        max-height: 35%;
+        overflow-y: auto;
+        padding-top: 0;
+        border-top: 1px solid #e0e0e0;
+      }
+
+      .view-item {
+        .view-icon {
+          font-size: 15px;
+          width: 15px;
+          height: 15px;
+          margin-right: 8px;
+          color: #ef6c00;
+          flex-shrink: 0;
+          pointer-events: none;
+        }
+
+        .table-name {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .view-delete {
+          width: 24px;
+          height: 24px;
+          padding: 0;
+          flex-shrink: 0;
+          visibility: hidden;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+
+          mat-icon {
+            font-size: 14px;
+            width: 14px;
+            height: 14px;
+          }
+        }
+
+        &:hover .view-delete {
+          visibility: visible;
+        }
+      }
+
+      :host-context(.dark-theme) .routine-list,
+      :host-context(.dark-theme) .view-list {
+        border-top-color: #424242;
+      }
+
       :host-context(.dark-theme) .table-item {
         .table-icon {
           color: #ce93d8;
@@ -303,7 +429,14 @@ export class DfSchemaTreeComponent implements OnChanges {
   @Input() loading = false;
   @Input() error: string | null = null;
   @Input() selectedTable: TableInfo | null = null;
+  @Input() savedViews: SavedView[] = [];
+  @Input() procedures: RoutineInfo[] = [];
+  @Input() functions: RoutineInfo[] = [];
+  @Input() selectedRoutine: RoutineSelection | null = null;
   @Output() tableSelected = new EventEmitter<TableInfo>();
+  @Output() routineSelected = new EventEmitter<RoutineSelection>();
+  @Output() viewSelected = new EventEmitter<SavedView>();
+  @Output() viewDeleted = new EventEmitter<SavedView>();
   @Output() backClicked = new EventEmitter<void>();
   @Output() retry = new EventEmitter<void>();
 
@@ -312,13 +445,29 @@ export class DfSchemaTreeComponent implements OnChanges {
 
   searchQuery = '';
   filteredTables: TableInfo[] = [];
+  routineGroups: RoutineGroup[] = [];
 
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['tables']) {
+    if (changes['tables'] || changes['procedures'] || changes['functions']) {
       this.filterTables();
     }
   }
 
+  get hasEntries(): boolean {
+    return (
+      this.tables.length + this.procedures.length + this.functions.length > 0
+    );
+  }
+
+  onRoutineClick(kind: RoutineKind, routine: RoutineInfo): void {
+    this.routineSelected.emit({ kind, routine });
+  }
+
+  onDeleteView(event: MouseEvent, view: SavedView): void {
+    event.stopPropagation();
+    this.viewDeleted.emit(view);
+  }
+
   filterTables(): void {
     if (!this.searchQuery) {
       this.filteredTables = this.tables;
@@ -328,5 +477,21 @@ export class DfSchemaTreeComponent implements OnChanges {
         t.name.toLowerCase().includes(q)
       );
     }
+    const q = this.searchQuery.toLowerCase();
+    const matches = (r: RoutineInfo) => r.name.toLowerCase().includes(q);
+    this.routineGroups = [
+      {
+        kind: 'procedure',
+        label: 'dataExplorer.procedures',
+        icon: faGears,
+        items: this.procedures.filter(matches),
+      },
+      {
+        kind: 'function',
+        label: 'dataExplorer.functions',
+        icon: faCode,
+        items: this.functions.filter(matches),
+      },
+    ];
   }
 }
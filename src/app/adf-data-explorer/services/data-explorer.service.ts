@@ -1,7 +1,7 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, forkJoin } from 'rxjs';
-import { map, switchMap } from 'rxjs/operators';
+import { EMPTY, Observable, forkJoin } from 'rxjs';
+import { expand, map, switchMap } from 'rxjs/operators';
 import { BASE_URL } from '../../shared/constants/urls';
 
 export interface DatabaseService {
@@ -34,6 +34,19 @@ export interface TableDataResponse {
   };
 }
 
+export interface TableDataQuery {
+  order?: string;
+  filter?: string;
+}
+
+export interface TableDataChunk {
+  records: any[];
+  /** Records fetched so far, including this chunk */
+  fetched: number;
+  /** Total matching records reported by the first request */
+  total: number;
+}
+
 export interface FieldInfo {
   name: string;
   label: string;
@@ -74,6 +87,43 @@ export interface TableSchemaResponse {
   related?: RelatedInfo[];
 }
 
+export type RoutineKind = 'procedure' | 'function';
+
+export interface RoutineParam {
+  name: string;
+  position?: number;
+  /** IN, OUT or INOUT */
+  paramType?: string;
+  type?: string;
+  dbType?: string;
+  length?: number;
+  default?: any;
+}
+
+/** A stored procedure or function as listed by `_proc` / `_func` */
+export interface RoutineInfo {
+  name: string;
+  label?: string;
+  params?: RoutineParam[];
+  returnType?: string;
+  returnSchema?: { name: string; type: string }[];
+}
+
+export interface RoutineSelection {
+  kind: RoutineKind;
+  routine: RoutineInfo;
+}
+
+export interface RoutineCallParam {
+  name: string;
+  value: any;
+}
+
+const ROUTINE_RESOURCES: Record<RoutineKind, string> = {
+  procedure: '_proc',
+  function: '_func',
+};
+
 const DB_GROUPS = ['Database', 'Big Data'];
 
 @Injectable({ providedIn: 'root' })
@@ -136,6 +186,45 @@ export class DataExplorerService {
       );
   }
 
+  /** Procedures or functions of a service; empty when the service has none */
+  getRoutines(
+    serviceName: string,
+    kind: RoutineKind
+  ): Observable<RoutineInfo[]> {
+    return this.http
+      .get<{
+        resource: RoutineInfo[];
+      }>(`${BASE_URL}/${serviceName}/${ROUTINE_RESOURCES[kind]}`, {
+        params: { refresh: 'true' },
+        // Services without routine support answer 4xx; stay on the page
+        headers: { 'skip-error': 'true' },
+      })
+      .pipe(
+        map(res =>
+          (res.resource || []).sort((a, b) => a.name.localeCompare(b.name))
+        )
+      );
+  }
+
+  /**
+   * Call a procedure or function. Result sets come back under `resource`
+   * and OUT/INOUT parameter values as sibling keys.
+   */
+  callRoutine(
+    serviceName: string,
+    kind: RoutineKind,
+    name: string,
+    params: RoutineCallParam[]
+  ): Observable<any> {
+    return this.http.post<any>(
+      `${BASE_URL}/${serviceName}/${ROUTINE_RESOURCES[kind]}/${encodeURIComponent(
+        name
+      )}`,
+      { params, wrapper: 'resource' },
+      { headers: { 'show-loading': '', 'skip-error': 'true' } }
+    );
+  }
+
   getTableSchema(
     serviceName: string,
     tableName: string
@@ -155,7 +244,8 @@ export class DataExplorerService {
     limit = 50,
     offset = 0,
     order?: string,
-    filter?: string
+    filter?: string,
+    related?: string[]
   ): Observable<TableDataResponse> {
     const params: any = {
       limit: limit.toString(),
@@ -168,6 +258,93 @@ export class DataExplorerService {
     if (filter) {
       params.filter = filter;
     }
+    if (related?.length) {
+      params.related = related.join(',');
+    }
+    return this.http.get<TableDataResponse>(
+      `${BASE_URL}/${serviceName}/_table/${tableName}`,
+      {
+        params,
+        headers: { 'show-loading': '' },
+      }
+    );
+  }
+
+  /**
+   * Page through every record matching the query, one request per chunk,
+   * stopping once maxRows records have been fetched. Requests run one after
+   * another; unsubscribing cancels the remaining pages.
+   */
+  streamTableData(
+    serviceName: string,
+    tableName: string,
+    query: TableDataQuery,
+    chunkSize = 500,
+    maxRows = Infinity
+  ): Observable<TableDataChunk> {
+    const fetchChunk = (fetched: number, total: number) => {
+      const limit = Math.min(chunkSize, maxRows - fetched);
+      const params: any = {
+        limit: limit.toString(),
+        offset: fetched.toString(),
+      };
+      if (fetched === 0) {
+        params.include_count = 'true';
+      }
+      if (query.order) {
+        params.order = query.order;
+      }
+      if (query.filter) {
+        params.filter = query.filter;
+      }
+      return this.http
+        .get<TableDataResponse>(
+          `${BASE_URL}/${serviceName}/_table/${tableName}`,
+          { params }
+        )
+        .pipe(
+          map(res => {
+            const records = res.resource || [];
+            return {
+              records,
+              fetched: fetched + records.length,
+              total:
+                fetched === 0 ? (res.meta?.count ?? records.length) : total,
+              done: records.length < limit,
+            };
+          })
+        );
+    };
+    return fetchChunk(0, 0).pipe(
+      expand(chunk =>
+        chunk.done || chunk.fetched >= Math.min(maxRows, chunk.total)
+          ? EMPTY
+          : fetchChunk(chunk.fetched, chunk.total)
+      ),
+      map(({ records, fetched, total }) => ({ records, fetched, total }))
+    );
+  }
+
+  /** Grouped aggregate query, e.g. `fields=category,SUM(total) AS sum_total&group=category` */
+  getAggregates(
+    serviceName: string,
+    tableName: string,
+    fields: string[],
+    group: string[],
+    filter?: string,
+    limit = 500
+  ): Observable<TableDataResponse> {
+    const params: any = {
+      fields: fields.join(','),
+      limit: limit.toString(),
+    };
+    if (group.length) {
+      params.group = group.join(',');
+      params.order = group.join(',');
+    }
+    if (filter) {
+      params.filter = filter;
+    }
     return this.http.get<TableDataResponse>(
       `${BASE_URL}/${serviceName}/_table/${tableName}`,
       {
@@ -176,4 +353,44 @@ export class DataExplorerService {
       }
     );
   }
+
+  createRecord(
+    serviceName: string,
+    tableName: string,
+    record: Record<string, any>
+  ): Observable<TableDataResponse> {
+    return this.http.post<TableDataResponse>(
+      `${BASE_URL}/${serviceName}/_table/${tableName}`,
+      { resource: [record] },
+      { headers: { 'show-loading': '' } }
+    );
+  }
+
+  updateRecord(
+    serviceName: string,
+    tableName: string,
+    id: string | number,
+    record: Record<string, any>
+  ): Observable<Record<string, any>> {
+    return this.http.patch<Record<string, any>>(
+      `${BASE_URL}/${serviceName}/_table/${tableName}/${encodeURIComponent(
+        id
+      )}`,
+      record,
+      { headers: { 'show-loading': '' } }
+    );
+  }
+
+  deleteRecord(
+    serviceName: string,
+    tableName: string,
+    id: string | number
+  ): Observable<Record<string, any>> {
+    return this.http.delete<Record<string, any>>(
+      `${BASE_URL}/${serviceName}/_table/${tableName}/${encodeURIComponent(
+        id
+      )}`,
+      { headers: { 'show-loading': '' } }
+    );
+  }
 }
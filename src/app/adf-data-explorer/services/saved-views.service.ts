@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { DataGridViewState, SavedView } from '../utilities/view-state';
+
+const SAVED_VIEWS_KEY = 'dataExplorerSavedViews';
+
+@Injectable({ providedIn: 'root' })
+export class SavedViewsService {
+  private viewsSubject = new BehaviorSubject<SavedView[]>(this.read());
+  views$ = this.viewsSubject.asObservable();
+
+  getViews(serviceName: string, tableName?: string): SavedView[] {
+    return this.viewsSubject.value.filter(
+      v =>
+        v.serviceName === serviceName &&
+        (tableName === undefined || v.tableName === tableName)
+    );
+  }
+
+  /** Save a view, replacing an existing one with the same name on the table */
+  saveView(
+    serviceName: string,
+    tableName: string,
+    name: string,
+    state: DataGridViewState
+  ): void {
+    const views = this.viewsSubject.value.filter(
+      v => !this.matches(v, serviceName, tableName, name)
+    );
+    views.push({
+      name,
+      serviceName,
+      tableName,
+      state,
+      savedAt: new Date().toISOString(),
+    });
+    this.write(views);
+  }
+
+  deleteView(view: SavedView): void {
+    this.write(
+      this.viewsSubject.value.filter(
+        v => !this.matches(v, view.serviceName, view.tableName, view.name)
+      )
+    );
+  }
+
+  private matches(
+    view: SavedView,
+    serviceName: string,
+    tableName: string,
+    name: string
+  ): boolean {
+    return (
+      view.serviceName === serviceName &&
+      view.tableName === tableName &&
+      view.name === name
+    );
+  }
+
+  private read(): SavedView[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SAVED_VIEWS_KEY) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (_) {
+      return [];
+    }
+  }
+
+  private write(views: SavedView[]): void {
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(views));
+    this.viewsSubject.next(views);
+  }
+}
@@ -0,0 +1,54 @@
+import { FieldInfo } from '../services/data-explorer.service';
+import {
+  aggregateAlias,
+  aggregatesForField,
+  buildAggregateFields,
+  mapAggregateRows,
+} from './aggregate';
+
+const field = (type: string): FieldInfo =>
+  ({ name: 'col', type, dbType: type }) as FieldInfo;
+
+describe('aggregatesForField', () => {
+  it('should offer every function for numeric columns', () => {
+    expect(aggregatesForField(field('decimal'))).toContain('AVG');
+  });
+
+  it('should only offer COUNT, MIN and MAX for dates', () => {
+    expect(aggregatesForField(field('timestamp'))).toEqual([
+      'COUNT',
+      'MIN',
+      'MAX',
+    ]);
+  });
+});
+
+describe('buildAggregateFields', () => {
+  it('should list group columns followed by aliased aggregates', () => {
+    expect(
+      buildAggregateFields(
+        ['category'],
+        [
+          { fn: 'COUNT', field: '*' },
+          { fn: 'SUM', field: 'unit_price' },
+        ]
+      )
+    ).toEqual([
+      'category',
+      'COUNT(*) AS count_all',
+      'SUM(unit_price) AS sum_unit_price',
+    ]);
+  });
+});
+
+describe('mapAggregateRows', () => {
+  it('should read camel cased response keys back by column name', () => {
+    const alias = aggregateAlias({ fn: 'SUM', field: 'unit_price' });
+    expect(
+      mapAggregateRows(
+        [{ categoryId: 3, sumUnitPrice: 10 }],
+        ['category_id', alias]
+      )
+    ).toEqual([{ category_id: 3, sum_unit_price: 10 }]);
+  });
+});
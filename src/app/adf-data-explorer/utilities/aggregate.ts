@@ -0,0 +1,71 @@
+import { snakeToCamelString } from '../../shared/utilities/case';
+import { FieldInfo } from '../services/data-explorer.service';
+import { fieldType, isDateType, isNumericType } from './field-types';
+
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  /** DB column name, or '*' for COUNT(*) */
+  field: string;
+}
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = [
+  'COUNT',
+  'SUM',
+  'AVG',
+  'MIN',
+  'MAX',
+];
+
+/** Functions that make sense for a column: sums need numbers, ranges need an order */
+export function aggregatesForField(
+  field: FieldInfo | null
+): AggregateFunction[] {
+  if (!field) return ['COUNT'];
+  const type = fieldType(field);
+  if (isNumericType(type)) return AGGREGATE_FUNCTIONS;
+  if (isDateType(type)) return ['COUNT', 'MIN', 'MAX'];
+  return ['COUNT'];
+}
+
+/** Fields offered as aggregate targets: numeric and date columns */
+export function aggregatableFields(fields: FieldInfo[]): FieldInfo[] {
+  return fields.filter(f => {
+    const type = fieldType(f);
+    return !f.isVirtual && (isNumericType(type) || isDateType(type));
+  });
+}
+
+export function aggregateAlias(spec: AggregateSpec): string {
+  const target = spec.field === '*' ? 'all' : spec.field;
+  return `${spec.fn.toLowerCase()}_${target}`;
+}
+
+/** `fields` entries for a grouped aggregate query */
+export function buildAggregateFields(
+  groupBy: string[],
+  specs: AggregateSpec[]
+): string[] {
+  return [
+    ...groupBy,
+    ...specs.map(s => `${s.fn}(${s.field}) AS ${aggregateAlias(s)}`),
+  ];
+}
+
+/**
+ * Re-key aggregate rows by DB column name and alias. Response keys are
+ * camel cased on the way in, so `sum_total` arrives as `sumTotal`.
+ */
+export function mapAggregateRows(
+  rows: Record<string, any>[],
+  columns: string[]
+): Record<string, any>[] {
+  return rows.map(row => {
+    const out: Record<string, any> = {};
+    for (const col of columns) {
+      out[col] = row[col] ?? row[snakeToCamelString(col)] ?? null;
+    }
+    return out;
+  });
+}
@@ -0,0 +1,65 @@
+import { readAsText } from '../../shared/utilities/file';
+import { createExportWriter, csvEscape } from './export-writers';
+
+const columns = [
+  { key: 'firstName', header: 'first_name' },
+  { key: 'age', header: 'age' },
+];
+
+describe('csvEscape', () => {
+  it('should leave plain values untouched', () => {
+    expect(csvEscape('abc')).toBe('abc');
+    expect(csvEscape(42)).toBe('42');
+  });
+
+  it('should quote values containing separators, quotes or newlines', () => {
+    expect(csvEscape('a,b')).toBe('"a,b"');
+    expect(csvEscape('say "hi"')).toBe('"say ""hi"""');
+    expect(csvEscape('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should write null as an empty value', () => {
+    expect(csvEscape(null)).toBe('');
+  });
+});
+
+describe('createExportWriter', () => {
+  it('should write CSV with DB column headers across chunks', done => {
+    const writer = createExportWriter('csv', columns);
+    writer.write([{ firstName: 'Ann', age: 30, hidden: 'x' }]);
+    writer.write([{ firstName: 'Bob', age: null }]);
+    readAsText(writer.finish()).subscribe(text => {
+      expect(text.replace(/^\ufeff/, '')).toBe(
+        'first_name,age\r\nAnn,30\r\nBob,\r\n'
+      );
+      done();
+    });
+  });
+
+  it('should write a JSON array of the visible columns only', done => {
+    const writer = createExportWriter('json', columns);
+    writer.write([{ firstName: 'Ann', age: 30, hidden: 'x' }]);
+    writer.write([{ firstName: 'Bob', age: 31 }]);
+    readAsText(writer.finish()).subscribe(text => {
+      expect(JSON.parse(text)).toEqual([
+        { first_name: 'Ann', age: 30 },
+        { first_name: 'Bob', age: 31 },
+      ]);
+      done();
+    });
+  });
+
+  it('should write one JSON document per line for NDJSON', done => {
+    const writer = createExportWriter('ndjson', columns);
+    writer.write([
+      { firstName: 'Ann', age: 30 },
+      { firstName: 'Bob', age: 31 },
+    ]);
+    readAsText(writer.finish()).subscribe(text => {
+      const lines = text.trim().split('\n');
+      expect(lines.length).toBe(2);
+      expect(JSON.parse(lines[1])).toEqual({ first_name: 'Bob', age: 31 });
+      done();
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { createZip } from 'src/app/shared/utilities/zip';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+
+export interface ExportColumn {
+  /** Key of the value in the loaded record */
+  key: string;
+  /** Column name written to the file */
+  header: string;
+}
+
+/**
+ * Serializes records chunk by chunk as they are fetched, so an export never
+ * has to keep every record object in memory at once.
+ */
+export interface ExportWriter {
+  readonly extension: string;
+  write(rows: Record<string, any>[]): void;
+  finish(): Blob;
+}
+
+export function createExportWriter(
+  format: ExportFormat,
+  columns: ExportColumn[]
+): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvWriter(columns);
+    case 'json':
+      return new JsonWriter(columns);
+    case 'ndjson':
+      return new NdjsonWriter(columns);
+    case 'xlsx':
+      return new XlsxWriter(columns);
+  }
+}
+
+function pick(
+  row: Record<string, any>,
+  columns: ExportColumn[]
+): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const col of columns) {
+    out[col.header] = row[col.key] ?? null;
+  }
+  return out;
+}
+
+export function csvEscape(value: any): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+class CsvWriter implements ExportWriter {
+  readonly extension = 'csv';
+  // BOM so spreadsheet apps detect UTF-8
+  private parts: string[] = ['\ufeff'];
+
+  constructor(private columns: ExportColumn[]) {
+    this.parts.push(columns.map(c => csvEscape(c.header)).join(',') + '\r\n');
+  }
+
+  write(rows: Record<string, any>[]): void {
+    this.parts.push(
+      rows
+        .map(
+          row => this.columns.map(c => csvEscape(row[c.key])).join(',') + '\r\n'
+        )
+        .join('')
+    );
+  }
+
+  finish(): Blob {
+    return new Blob(this.parts, { type: 'text/csv' });
+  }
+}
+
+class JsonWriter implements ExportWriter {
+  readonly extension = 'json';
+  private parts: string[] = ['['];
+  private count = 0;
+
+  constructor(private columns: ExportColumn[]) {}
+
+  write(rows: Record<string, any>[]): void {
+    for (const row of rows) {
+      this.parts.push(
+        (this.count++ ? ',\n' : '\n') + JSON.stringify(pick(row, this.columns))
+      );
+    }
+  }
+
+  finish(): Blob {
+    return new Blob([...this.parts, '\n]\n'], { type: 'application/json' });
+  }
+}
+
+class NdjsonWriter implements ExportWriter {
+  readonly extension = 'ndjson';
+  private parts: string[] = [];
+
+  constructor(private columns: ExportColumn[]) {}
+
+  write(rows: Record<string, any>[]): void {
+    this.parts.push(
+      rows.map(row => JSON.stringify(pick(row, this.columns)) + '\n').join('')
+    );
+  }
+
+  finish(): Blob {
+    return new Blob(this.parts, { type: 'application/x-ndjson' });
+  }
+}
+
+function xmlEscape(value: string): string {
+  return (
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  );
+}
+
+function xlsxCell(value: any): string {
+  if (value === null || value === undefined) return '<c/>';
+  if (typeof value === 'number' && isFinite(value)) {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c t="inlineStr"><is><t xml:space="preserve">${xmlEscape(
+    str
+  )}</t></is></c>`;
+}
+
+const XLSX_MIME =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+class XlsxWriter implements ExportWriter {
+  readonly extension = 'xlsx';
+  private rows: string[] = [];
+
+  constructor(private columns: ExportColumn[]) {
+    this.rows.push(
+      `<row>${columns.map(c => xlsxCell(c.header)).join('')}</row>`
+    );
+  }
+
+  write(rows: Record<string, any>[]): void {
+    for (const row of rows) {
+      this.rows.push(
+        `<row>${this.columns.map(c => xlsxCell(row[c.key])).join('')}</row>`
+      );
+    }
+  }
+
+  finish(): Blob {
+    const encoder = new TextEncoder();
+    const xml = (body: string) =>
+      encoder.encode(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`
+      );
+    return createZip(
+      [
+        {
+          name: '[Content_Types].xml',
+          data: xml(
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+              '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+              '<Default Extension="xml" ContentType="application/xml"/>' +
+              '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+              '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+              '</Types>'
+          ),
+        },
+        {
+          name: '_rels/.rels',
+          data: xml(
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+              '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+              '</Relationships>'
+          ),
+        },
+        {
+          name: 'xl/workbook.xml',
+          data: xml(
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+              '<sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets>' +
+              '</workbook>'
+          ),
+        },
+        {
+          name: 'xl/_rels/workbook.xml.rels',
+          data: xml(
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+              '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+              '</Relationships>'
+          ),
+        },
+        {
+          name: 'xl/worksheets/sheet1.xml',
+          data: xml(
+            '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+              this.rows.join('') +
+              '</sheetData></worksheet>'
+          ),
+        },
+      ],
+      XLSX_MIME
+    );
+  }
+}
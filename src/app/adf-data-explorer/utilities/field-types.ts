@@ -0,0 +1,103 @@
+import { FieldInfo } from '../services/data-explorer.service';
+
+/**
+ * Types are matched exactly against the DreamFactory type, or the native
+ * type stripped of its size and modifiers, so `interval` or `point` columns
+ * aren't mistaken for numbers.
+ */
+const INTEGER_TYPES = [
+  'id',
+  'reference',
+  'user_id',
+  'user_id_on_create',
+  'user_id_on_update',
+  'integer',
+  'int',
+  'smallint',
+  'mediumint',
+  'bigint',
+  'tinyint',
+  'serial',
+  'smallserial',
+  'bigserial',
+  'int2',
+  'int4',
+  'int8',
+];
+
+const NUMERIC_TYPES = [
+  ...INTEGER_TYPES,
+  'float',
+  'double',
+  'decimal',
+  'numeric',
+  'real',
+  'float4',
+  'float8',
+  'money',
+  'smallmoney',
+];
+
+const DATE_TYPES = [
+  'date',
+  'datetime',
+  'datetime2',
+  'datetimeoffset',
+  'smalldatetime',
+  'timestamp',
+  'timestamp_on_create',
+  'timestamp_on_update',
+  'time',
+  'timestamptz',
+  'timetz',
+];
+
+const BOOLEAN_TYPES = ['boolean', 'bool', 'bit'];
+
+const STRING_TYPES = [
+  'string',
+  'text',
+  'char',
+  'character',
+  'varchar',
+  'nchar',
+  'nvarchar',
+  'tinytext',
+  'mediumtext',
+  'longtext',
+  'ntext',
+  'uuid',
+  'uniqueidentifier',
+  'clob',
+  'citext',
+];
+
+/** Lower-cased DreamFactory type of a field, falling back to the native db type */
+export function fieldType(field: FieldInfo | null | undefined): string {
+  return (field?.type || field?.dbType || '').toLowerCase();
+}
+
+/** `int(11) unsigned` -> `int`, `double precision` -> `double` */
+function baseType(type: string): string {
+  return type.toLowerCase().replace(/\(.*$/, '').trim().split(/\s+/)[0];
+}
+
+export function isIntegerType(type: string): boolean {
+  return INTEGER_TYPES.includes(baseType(type));
+}
+
+export function isNumericType(type: string): boolean {
+  return NUMERIC_TYPES.includes(baseType(type));
+}
+
+export function isDateType(type: string): boolean {
+  return DATE_TYPES.includes(baseType(type));
+}
+
+export function isBooleanType(type: string): boolean {
+  return BOOLEAN_TYPES.includes(baseType(type));
+}
+
+export function isStringType(type: string): boolean {
+  return STRING_TYPES.includes(baseType(type));
+}
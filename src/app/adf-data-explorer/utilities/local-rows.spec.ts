@@ -0,0 +1,50 @@
+import { queryLocalRows, rowColumns } from './local-rows';
+
+const rows = [
+  { id: 1, name: 'Alpha', total: '10' },
+  { id: 2, name: 'beta', total: '9' },
+  { id: 3, name: null, total: '100' },
+];
+
+describe('queryLocalRows', () => {
+  it('applies column filters like the API would', () => {
+    expect(
+      queryLocalRows(rows, {
+        filters: { name: { op: 'contains', value: 'A' } },
+      }).map(row => row.id)
+    ).toEqual([1, 2]);
+    expect(
+      queryLocalRows(rows, {
+        filters: { total: { op: 'gt', value: '9' } },
+      }).map(row => row.id)
+    ).toEqual([1, 3]);
+    expect(
+      queryLocalRows(rows, {
+        filters: { name: { op: 'is_null', value: '' } },
+      }).map(row => row.id)
+    ).toEqual([3]);
+  });
+
+  it('sorts numbers numerically and nulls first', () => {
+    expect(
+      queryLocalRows(rows, {
+        filters: {},
+        sortActive: 'total',
+        sortDirection: 'desc',
+      }).map(row => row.id)
+    ).toEqual([3, 1, 2]);
+    expect(
+      queryLocalRows(rows, {
+        filters: {},
+        sortActive: 'name',
+        sortDirection: 'asc',
+      }).map(row => row.id)
+    ).toEqual([3, 1, 2]);
+  });
+});
+
+describe('rowColumns', () => {
+  it('collects the keys of every row', () => {
+    expect(rowColumns([{ a: 1 }, { b: 2, a: 3 }])).toEqual(['a', 'b']);
+  });
+});
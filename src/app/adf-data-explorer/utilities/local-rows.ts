@@ -0,0 +1,89 @@
+import { SortDirection } from '@angular/material/sort';
+import { ColumnFilter } from './view-state';
+
+export interface LocalRowsQuery {
+  filters: Record<string, ColumnFilter>;
+  sortActive?: string;
+  sortDirection?: SortDirection;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+/** Numbers compare as numbers, everything else as case-insensitive text */
+function compare(a: unknown, b: unknown): number {
+  const left = asNumber(a);
+  const right = asNumber(b);
+  if (left !== null && right !== null) return left - right;
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+function matches(value: unknown, { op, value: term }: ColumnFilter): boolean {
+  if (op === 'is_null') return isBlank(value);
+  if (op === 'is_not_null') return !isBlank(value);
+  if (!term) return true;
+  if (isBlank(value)) return false;
+  const text = String(value).toLowerCase();
+  const lower = term.toLowerCase();
+  switch (op) {
+    case 'contains':
+      return text.includes(lower);
+    case 'starts':
+      return text.startsWith(lower);
+    case 'ends':
+      return text.endsWith(lower);
+    case 'neq':
+      return compare(value, term) !== 0;
+    case 'gt':
+      return compare(value, term) > 0;
+    case 'lt':
+      return compare(value, term) < 0;
+    case 'gte':
+      return compare(value, term) >= 0;
+    case 'lte':
+      return compare(value, term) <= 0;
+    default:
+      return compare(value, term) === 0;
+  }
+}
+
+/**
+ * Applies the grid's column filters and sort to rows held in memory, the
+ * way the API applies them to a table. Nulls sort first.
+ */
+export function queryLocalRows<T extends Record<string, any>>(
+  rows: T[],
+  { filters, sortActive, sortDirection }: LocalRowsQuery
+): T[] {
+  const active = Object.entries(filters);
+  const filtered = rows.filter(row =>
+    active.every(([column, filter]) => matches(row[column], filter))
+  );
+  if (!sortActive || !sortDirection) return filtered;
+  const sign = sortDirection === 'asc' ? 1 : -1;
+  return [...filtered].sort((a, b) => {
+    const left = a[sortActive];
+    const right = b[sortActive];
+    if (isBlank(left) || isBlank(right)) {
+      return sign * (Number(!isBlank(left)) - Number(!isBlank(right)));
+    }
+    return sign * compare(left, right);
+  });
+}
+
+/** Every key used by any of the rows, in the order they first appear */
+export function rowColumns(rows: Record<string, any>[]): string[] {
+  const keys = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => keys.add(key)));
+  return Array.from(keys);
+}
@@ -0,0 +1,153 @@
+import { FieldInfo } from '../services/data-explorer.service';
+import {
+  RecordChangeSet,
+  coerceFieldValue,
+  validateChange,
+  validateFieldValue,
+} from './record-changes';
+
+const field = (overrides: Partial<FieldInfo>): FieldInfo => ({
+  name: 'col',
+  label: 'Col',
+  type: 'string',
+  dbType: 'varchar',
+  isPrimaryKey: false,
+  isForeignKey: false,
+  isUnique: false,
+  isIndex: false,
+  allowNull: true,
+  isVirtual: false,
+  isAggregate: false,
+  autoIncrement: false,
+  ...overrides,
+});
+
+describe('coerceFieldValue', () => {
+  it('should turn empty input into null', () => {
+    expect(coerceFieldValue(field({}), '')).toBeNull();
+  });
+
+  it('should convert numeric input for numeric columns', () => {
+    expect(coerceFieldValue(field({ type: 'integer' }), '42')).toBe(42);
+    expect(coerceFieldValue(field({ type: 'decimal' }), '1.5')).toBe(1.5);
+  });
+
+  it('should leave non-numeric input untouched so validation can flag it', () => {
+    expect(coerceFieldValue(field({ type: 'integer' }), 'abc')).toBe('abc');
+  });
+
+  it('should convert input for id and reference columns', () => {
+    expect(coerceFieldValue(field({ type: 'reference' }), '7')).toBe(7);
+    expect(coerceFieldValue(field({ type: 'id' }), '3')).toBe(3);
+  });
+
+  it('should leave columns that only contain a numeric type name alone', () => {
+    expect(coerceFieldValue(field({ type: '', dbType: 'interval' }), '1')).toBe(
+      '1'
+    );
+    expect(coerceFieldValue(field({ type: '', dbType: 'point' }), '2')).toBe(
+      '2'
+    );
+  });
+
+  it('should convert boolean input for boolean columns', () => {
+    expect(coerceFieldValue(field({ type: 'boolean' }), 'true')).toBe(true);
+    expect(coerceFieldValue(field({ type: 'boolean' }), '0')).toBe(false);
+  });
+});
+
+describe('validateFieldValue', () => {
+  it('should require a value for non-nullable columns', () => {
+    expect(
+      validateFieldValue(field({ allowNull: false }), null, false)
+    ).not.toBeNull();
+  });
+
+  it('should accept a missing value on insert when the column has a default', () => {
+    expect(
+      validateFieldValue(field({ allowNull: false, default: 'x' }), null, true)
+    ).toBeNull();
+  });
+
+  it('should reject edits to auto-increment columns', () => {
+    const id = field({ type: 'id', autoIncrement: true });
+    expect(validateFieldValue(id, 5, false)).not.toBeNull();
+    expect(validateFieldValue(id, null, true)).toBeNull();
+  });
+
+  it('should enforce integer and numeric types', () => {
+    expect(validateFieldValue(field({ type: 'integer' }), 1.5, false)).toEqual({
+      key: 'dataExplorer.validation.integer',
+    });
+    expect(validateFieldValue(field({ type: 'float' }), 'x', false)).toEqual({
+      key: 'dataExplorer.validation.number',
+    });
+    expect(validateFieldValue(field({ type: 'integer' }), 3, false)).toBeNull();
+  });
+
+  it('should accept edited reference and id columns', () => {
+    const reference = field({ type: 'reference', isForeignKey: true });
+    expect(
+      validateFieldValue(reference, coerceFieldValue(reference, '12'), false)
+    ).toBeNull();
+    const id = field({ type: 'id', dbType: 'int(11) unsigned' });
+    expect(validateFieldValue(id, coerceFieldValue(id, '5'), false)).toBeNull();
+  });
+
+  it('should enforce the column length', () => {
+    expect(validateFieldValue(field({ length: 3 }), 'abcd', false)).toEqual({
+      key: 'dataExplorer.validation.maxLength',
+      params: { length: 3 },
+    });
+    expect(validateFieldValue(field({ length: 3 }), 'abc', false)).toBeNull();
+  });
+});
+
+describe('RecordChangeSet', () => {
+  it('should stage an update and drop it when the value is reverted', () => {
+    const set = new RecordChangeSet();
+    const row = { id: 1, name: 'a' };
+    set.stageEdit(row, 'name', 'b');
+    expect(set.get(row)?.kind).toBe('update');
+    expect(set.valueOf(row, 'name')).toBe('b');
+    expect(set.diff(set.get(row)!)).toEqual([
+      { column: 'name', from: 'a', to: 'b' },
+    ]);
+
+    set.stageEdit(row, 'name', 'a');
+    expect(set.size).toBe(0);
+  });
+
+  it('should forget a new row when it is deleted before being committed', () => {
+    const set = new RecordChangeSet();
+    const row = { id: null };
+    set.stageInsert(row);
+    set.stageDelete(row);
+    expect(set.size).toBe(0);
+  });
+
+  it('should move a change to a reloaded copy of the record', () => {
+    const set = new RecordChangeSet();
+    const row = { id: 1, name: 'a' };
+    const reloaded = { id: 1, name: 'a' };
+    set.stageEdit(row, 'name', 'b');
+    set.rebind(row, reloaded);
+    expect(set.has(row)).toBe(false);
+    expect(set.valueOf(reloaded, 'name')).toBe('b');
+  });
+});
+
+describe('validateChange', () => {
+  it('should flag required columns an insert left empty', () => {
+    const set = new RecordChangeSet();
+    const row = { id: null, name: null };
+    set.stageInsert(row);
+    const fields: Record<string, FieldInfo> = {
+      id: field({ name: 'id', type: 'id', autoIncrement: true }),
+      name: field({ name: 'name', allowNull: false }),
+    };
+    const change = set.get(row)!;
+    expect(validateChange(change, ['id', 'name'], c => fields[c])).toBe(false);
+    expect(Object.keys(change.fieldErrors)).toEqual(['name']);
+  });
+});
@@ -0,0 +1,242 @@
+import { FieldInfo } from '../services/data-explorer.service';
+import {
+  fieldType,
+  isBooleanType,
+  isDateType,
+  isIntegerType,
+  isNumericType,
+} from './field-types';
+
+export type RecordChangeKind = 'insert' | 'update' | 'delete';
+
+/** Transloco key of a validation message, with its parameters */
+export interface FieldError {
+  key: string;
+  params?: Record<string, unknown>;
+}
+
+export interface RecordChange {
+  kind: RecordChangeKind;
+  row: Record<string, any>;
+  /** Staged column values keyed by the grid (JSON) column name */
+  values: Record<string, any>;
+  /** Validation messages keyed by column */
+  fieldErrors: Record<string, FieldError>;
+  /** Error returned by the API the last time this change was committed */
+  error: string | null;
+}
+
+export interface FieldDiff {
+  column: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Convert raw cell input into the value that should be sent to the API,
+ * based on the column's schema. Empty input becomes null.
+ */
+export function coerceFieldValue(field: FieldInfo | null, raw: string): any {
+  if (raw === '') return null;
+  const type = fieldType(field);
+  if (isBooleanType(type)) {
+    const lower = raw.trim().toLowerCase();
+    if (lower === 'true' || lower === '1') return true;
+    if (lower === 'false' || lower === '0') return false;
+    return raw;
+  }
+  if (isNumericType(type) && raw.trim() !== '' && !isNaN(Number(raw))) {
+    return Number(raw);
+  }
+  return raw;
+}
+
+const error = (name: string, params?: Record<string, unknown>): FieldError => ({
+  key: `dataExplorer.validation.${name}`,
+  params,
+});
+
+/**
+ * Validate a staged value against its FieldInfo. Returns the message to show,
+ * or null when the value is acceptable.
+ */
+export function validateFieldValue(
+  field: FieldInfo | null,
+  value: any,
+  isInsert: boolean
+): FieldError | null {
+  if (!field) return null;
+  if (field.autoIncrement) {
+    return isInsert || value === null || value === undefined
+      ? null
+      : error('autoIncrement');
+  }
+  if (value === null || value === undefined || value === '') {
+    if (field.allowNull) return null;
+    // On insert the database may fill in a default
+    if (isInsert && field.default !== null && field.default !== undefined) {
+      return null;
+    }
+    return error('required');
+  }
+  const type = fieldType(field);
+  if (isBooleanType(type)) {
+    return typeof value === 'boolean' ? null : error('boolean');
+  }
+  if (isIntegerType(type)) {
+    return Number.isInteger(value) ? null : error('integer');
+  }
+  if (isNumericType(type)) {
+    return typeof value === 'number' && isFinite(value)
+      ? null
+      : error('number');
+  }
+  if (isDateType(type)) {
+    return isNaN(Date.parse(String(value))) ? error('date') : null;
+  }
+  if (field.length && String(value).length > field.length) {
+    return error('maxLength', { length: field.length });
+  }
+  return null;
+}
+
+/**
+ * Validate every staged value of a change, storing the messages on
+ * change.fieldErrors. Inserts are also checked for required columns that
+ * were left empty. Returns true when the change is valid.
+ */
+export function validateChange(
+  change: RecordChange,
+  columns: string[],
+  getField: (column: string) => FieldInfo | null
+): boolean {
+  change.fieldErrors = {};
+  if (change.kind === 'delete') return true;
+  const isInsert = change.kind === 'insert';
+  const toCheck = isInsert ? columns : Object.keys(change.values);
+  for (const column of toCheck) {
+    const message = validateFieldValue(
+      getField(column),
+      change.values[column],
+      isInsert
+    );
+    if (message) {
+      change.fieldErrors[column] = message;
+    }
+  }
+  return Object.keys(change.fieldErrors).length === 0;
+}
+
+/**
+ * Pending inserts, updates and deletes for the rows of a grid. Rows are
+ * tracked by object identity so a change stays attached to the row that is
+ * rendered for it.
+ */
+export class RecordChangeSet {
+  private changes = new Map<Record<string, any>, RecordChange>();
+
+  get size(): number {
+    return this.changes.size;
+  }
+
+  list(): RecordChange[] {
+    return Array.from(this.changes.values());
+  }
+
+  get(row: Record<string, any>): RecordChange | undefined {
+    return this.changes.get(row);
+  }
+
+  has(row: Record<string, any>): boolean {
+    return this.changes.has(row);
+  }
+
+  stageInsert(row: Record<string, any>): void {
+    this.changes.set(row, newChange('insert', row));
+  }
+
+  stageEdit(row: Record<string, any>, column: string, value: any): void {
+    const change = this.changes.get(row);
+    if (change?.kind === 'delete') return;
+    if (change) {
+      change.values[column] = value;
+      if (change.kind === 'update' && valuesEqual(row[column], value)) {
+        delete change.values[column];
+        if (Object.keys(change.values).length === 0) {
+          this.changes.delete(row);
+        }
+      }
+      return;
+    }
+    if (valuesEqual(row[column], value)) return;
+    const update = newChange('update', row);
+    update.values[column] = value;
+    this.changes.set(row, update);
+  }
+
+  stageDelete(row: Record<string, any>): void {
+    if (this.changes.get(row)?.kind === 'insert') {
+      // Nothing to delete server-side for a row that was never created
+      this.changes.delete(row);
+      return;
+    }
+    this.changes.set(row, newChange('delete', row));
+  }
+
+  revert(row: Record<string, any>): void {
+    this.changes.delete(row);
+  }
+
+  /**
+   * Move a change to another object representing the same record, e.g. after
+   * the page was reloaded from the server.
+   */
+  rebind(from: Record<string, any>, to: Record<string, any>): void {
+    const change = this.changes.get(from);
+    if (!change) return;
+    this.changes.delete(from);
+    change.row = to;
+    this.changes.set(to, change);
+  }
+
+  clear(): void {
+    this.changes.clear();
+  }
+
+  /** Value to display for a cell, taking staged edits into account */
+  valueOf(row: Record<string, any>, column: string): any {
+    const change = this.changes.get(row);
+    if (change && column in change.values) {
+      return change.values[column];
+    }
+    return row[column];
+  }
+
+  isDirty(row: Record<string, any>, column: string): boolean {
+    const change = this.changes.get(row);
+    return !!change && change.kind !== 'delete' && column in change.values;
+  }
+
+  diff(change: RecordChange): FieldDiff[] {
+    return Object.entries(change.values).map(([column, to]) => ({
+      column,
+      from: change.kind === 'insert' ? null : change.row[column],
+      to,
+    }));
+  }
+}
+
+function newChange(
+  kind: RecordChangeKind,
+  row: Record<string, any>
+): RecordChange {
+  return { kind, row, values: {}, fieldErrors: {}, error: null };
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if ((a === null || a === undefined) && (b === null || b === undefined)) {
+    return true;
+  }
+  return String(a) === String(b) && typeof a === typeof b;
+}
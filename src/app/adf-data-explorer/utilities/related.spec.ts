@@ -0,0 +1,17 @@
+import { relatedRecordCount, relatedRecordKey } from './related';
+
+describe('relatedRecordKey', () => {
+  it('should camel case the relationship name like the response keys', () => {
+    expect(relatedRecordKey('orders_by_customer_id')).toBe(
+      'ordersByCustomerId'
+    );
+  });
+});
+
+describe('relatedRecordCount', () => {
+  it('should count has_many arrays and belongs_to objects', () => {
+    expect(relatedRecordCount([{ id: 1 }, { id: 2 }])).toBe(2);
+    expect(relatedRecordCount({ id: 1 })).toBe(1);
+    expect(relatedRecordCount(null)).toBe(0);
+  });
+});
@@ -0,0 +1,19 @@
+import { snakeToCamelString } from '../../shared/utilities/case';
+import { RelatedInfo } from '../services/data-explorer.service';
+
+/**
+ * Key a relationship's records are returned under. Response keys go
+ * through the case interceptor, so `orders_by_customer_id` arrives as
+ * `ordersByCustomerId`.
+ */
+export function relatedRecordKey(relation: RelatedInfo | string): string {
+  return snakeToCamelString(
+    typeof relation === 'string' ? relation : relation.name
+  );
+}
+
+/** Number of related records in a fetched value (belongs_to is 0 or 1) */
+export function relatedRecordCount(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  return value && typeof value === 'object' ? 1 : 0;
+}
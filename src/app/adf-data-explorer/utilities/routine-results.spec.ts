@@ -0,0 +1,33 @@
+import { isInputParam, normalizeRoutineResult } from './routine-results';
+
+describe('normalizeRoutineResult', () => {
+  it('should read a single result set and OUT values', () => {
+    expect(
+      normalizeRoutineResult({ resource: [{ id: 1 }, { id: 2 }], total: 2 })
+    ).toEqual({ resultSets: [[{ id: 1 }, { id: 2 }]], outputs: { total: 2 } });
+  });
+
+  it('should split multiple result sets', () => {
+    const result = normalizeRoutineResult({
+      resource: [[{ id: 1 }], [{ name: 'a' }, { name: 'b' }]],
+    });
+    expect(result.resultSets.length).toBe(2);
+    expect(result.resultSets[1].length).toBe(2);
+  });
+
+  it('should treat a scalar function result as an output', () => {
+    expect(normalizeRoutineResult({ resource: 42 })).toEqual({
+      resultSets: [],
+      outputs: { result: 42 },
+    });
+  });
+});
+
+describe('isInputParam', () => {
+  it('should skip OUT parameters only', () => {
+    expect(isInputParam({ name: 'a', paramType: 'IN' })).toBe(true);
+    expect(isInputParam({ name: 'b', paramType: 'INOUT' })).toBe(true);
+    expect(isInputParam({ name: 'c', paramType: 'out' })).toBe(false);
+    expect(isInputParam({ name: 'd' })).toBe(true);
+  });
+});
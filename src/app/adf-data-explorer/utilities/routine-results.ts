@@ -0,0 +1,49 @@
+import { RoutineParam } from '../services/data-explorer.service';
+
+export interface RoutineResult {
+  /** Each result set returned by the call, as grid rows */
+  resultSets: Record<string, any>[][];
+  /** OUT/INOUT parameter values and scalar return values */
+  outputs: Record<string, any>;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toRows(value: unknown[]): Record<string, any>[] {
+  return value.map(row => (isRecord(row) ? row : { value: row }));
+}
+
+/**
+ * Split a `_proc`/`_func` response into result sets and output values.
+ * A single result set arrives as an array of records, several as an array
+ * of arrays, and a scalar function result as a bare value.
+ */
+export function normalizeRoutineResult(response: unknown): RoutineResult {
+  const result: RoutineResult = { resultSets: [], outputs: {} };
+  if (response === null || response === undefined) return result;
+
+  let body: unknown = response;
+  if (isRecord(response)) {
+    const { resource, ...outputs } = response;
+    result.outputs = outputs;
+    body = resource;
+  }
+
+  if (Array.isArray(body)) {
+    if (body.length > 0 && body.every(Array.isArray)) {
+      result.resultSets = (body as unknown[][]).map(toRows);
+    } else {
+      result.resultSets = [toRows(body)];
+    }
+  } else if (body !== undefined) {
+    result.outputs = { ...result.outputs, result: body };
+  }
+  return result;
+}
+
+/** Whether a parameter takes a value from the caller */
+export function isInputParam(param: RoutineParam): boolean {
+  return (param.paramType || 'IN').toUpperCase() !== 'OUT';
+}
@@ -0,0 +1,38 @@
+import { escapeLike, likeFilter, searchFilter } from './search-filter';
+
+describe('escapeLike', () => {
+  it('escapes wildcards, the escape character and quotes', () => {
+    expect(escapeLike("50%_a\\b'c")).toBe("50\\%\\_a\\\\b''c");
+  });
+
+  it('wraps wildcards in brackets for SQL Server', () => {
+    expect(escapeLike('50%_[x]', 'sqlsrv')).toBe('50[%][_][[]x]');
+  });
+
+  it('leaves wildcards alone where like has no escape character', () => {
+    expect(escapeLike("50%_a\\b'c", 'sqlite')).toBe("50%_a\\b''c");
+    expect(escapeLike('50%', 'oracle')).toBe('50%');
+  });
+});
+
+describe('likeFilter', () => {
+  it('builds starts, ends and contains patterns', () => {
+    expect(likeFilter('name', 'a_b', 'starts')).toBe("(name like 'a\\_b%')");
+    expect(likeFilter('name', 'a_b', 'ends')).toBe("(name like '%a\\_b')");
+    expect(likeFilter('name', 'a_b', 'contains')).toBe("(name like '%a\\_b%')");
+  });
+});
+
+describe('searchFilter', () => {
+  it('ORs the term across columns', () => {
+    expect(searchFilter(['name', 'email'], ' 50% ')).toBe(
+      "((name like '%50\\%%') OR (email like '%50\\%%'))"
+    );
+    expect(searchFilter(['name'], 'x')).toBe("(name like '%x%')");
+  });
+
+  it('returns nothing without a term or columns', () => {
+    expect(searchFilter(['name'], '  ')).toBe('');
+    expect(searchFilter([], 'x')).toBe('');
+  });
+});
@@ -0,0 +1,53 @@
+export type LikeMatch = 'contains' | 'starts' | 'ends';
+
+/** Drivers whose like has no escape character unless the query names one */
+const NO_LIKE_ESCAPE = ['sqlite', 'oracle'];
+
+/**
+ * Escapes a term for use in a like pattern, so `%` and `_` match themselves.
+ * MySQL and PostgreSQL escape with a backslash by default; SQL Server has no
+ * default escape character, so wildcards are wrapped in brackets there.
+ * SQLite and Oracle have neither, and the API's filter parser isn't known
+ * to pass an `ESCAPE` clause through, so wildcards stay wildcards there
+ * rather than matching a backslash.
+ */
+export function escapeLike(term: string, serviceType = ''): string {
+  const escaped =
+    serviceType === 'sqlsrv'
+      ? term.replace(/[[%_]/g, char => `[${char}]`)
+      : NO_LIKE_ESCAPE.includes(serviceType)
+        ? term
+        : term.replace(/[\\%_]/g, char => `\\${char}`);
+  return escaped.replace(/'/g, "''");
+}
+
+/** A like condition matching the term, literally where the driver allows */
+export function likeFilter(
+  column: string,
+  term: string,
+  match: LikeMatch,
+  serviceType = ''
+): string {
+  const escaped = escapeLike(term, serviceType);
+  const pattern =
+    match === 'starts'
+      ? `${escaped}%`
+      : match === 'ends'
+        ? `%${escaped}`
+        : `%${escaped}%`;
+  return `(${column} like '${pattern}')`;
+}
+
+/** OR'd like filter for a quick search term across the given columns */
+export function searchFilter(
+  columns: string[],
+  term: string,
+  serviceType = ''
+): string {
+  const trimmed = term.trim();
+  if (!trimmed || columns.length === 0) return '';
+  const parts = columns.map(column =>
+    likeFilter(column, trimmed, 'contains', serviceType)
+  );
+  return parts.length === 1 ? parts[0] : `(${parts.join(' OR ')})`;
+}
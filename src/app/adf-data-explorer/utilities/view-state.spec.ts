@@ -0,0 +1,21 @@
+import { decodeViewState, encodeViewState } from './view-state';
+
+describe('view state encoding', () => {
+  it('should round-trip a view state through a URL-safe string', () => {
+    const state = {
+      filters: { name: { op: 'contains', value: 'Zoë & co' } },
+      sortActive: 'createdDate',
+      sortDirection: 'desc' as const,
+      order: 'created_date DESC',
+      hiddenColumns: ['notes'],
+      columnWidths: { name: 220 },
+    };
+    const encoded = encodeViewState(state);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeViewState(encoded)).toEqual(state);
+  });
+
+  it('should return null for malformed input', () => {
+    expect(decodeViewState('not valid!')).toBeNull();
+  });
+});
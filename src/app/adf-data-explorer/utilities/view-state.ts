@@ -0,0 +1,60 @@
+export interface ColumnFilter {
+  op: string;
+  value: string;
+}
+
+/** Everything needed to reproduce what the data grid is showing */
+export interface DataGridViewState {
+  filters?: Record<string, ColumnFilter>;
+  sortActive?: string;
+  sortDirection?: 'asc' | 'desc';
+  /** DreamFactory order clause matching sortActive/sortDirection */
+  order?: string;
+  pageSize?: number;
+  page?: number;
+  hiddenColumns?: string[];
+  columnWidths?: Record<string, number>;
+  navigationFilter?: string;
+  /** Relationships fetched with each record */
+  related?: string[];
+  /** Server-side quick search term and the DB columns it matches against */
+  search?: string;
+  searchColumns?: string[];
+}
+
+export interface SavedView {
+  name: string;
+  serviceName: string;
+  tableName: string;
+  state: DataGridViewState;
+  savedAt: string;
+}
+
+/** Encode a view state as a URL-safe base64 string for the query string */
+export function encodeViewState(state: DataGridViewState): string {
+  // Percent-encode first so non-Latin1 characters survive btoa
+  const binary = encodeURIComponent(JSON.stringify(state)).replace(
+    /%([0-9A-F]{2})/g,
+    (_, hex) => String.fromCharCode(parseInt(hex, 16))
+  );
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeViewState(encoded: string): DataGridViewState | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = decodeURIComponent(
+      Array.from(
+        binary,
+        c => '%' + c.charCodeAt(0).toString(16).padStart(2, '0')
+      ).join('')
+    );
+    const state = JSON.parse(json);
+    return state && typeof state === 'object' ? state : null;
+  } catch (_) {
+    return null;
+  }
+}
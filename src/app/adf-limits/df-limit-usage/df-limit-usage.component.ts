@@ -0,0 +1,180 @@
+import { DOCUMENT, AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { Component, Inject, OnInit } from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialog } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { ActivatedRoute } from '@angular/router';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faArrowsRotate,
+  faRotateLeft,
+  faTriangleExclamation,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { filter, finalize, startWith, switchMap, timer } from 'rxjs';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import {
+  LIMIT_CACHE_SERVICE_TOKEN,
+  LIMIT_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { LimitType } from 'src/app/shared/types/limit';
+import { pollWhileVisible } from 'src/app/shared/utilities/polling';
+import {
+  KeyUsage,
+  LimitUsage,
+  formatDuration,
+  resetsIn,
+  toLimitUsage,
+} from './limit-usage';
+
+/** Refresh intervals to choose from, in seconds */
+const REFRESH_INTERVALS = [10, 30, 60];
+
+/** Parts of a cache key that have a label of their own */
+const KNOWN_KINDS = ['user', 'service', 'role', 'endpoint', 'verb'];
+
+/** Attempts and time to reset for every key of every limit */
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-limit-usage',
+  templateUrl: './df-limit-usage.component.html',
+  styleUrls: ['./df-limit-usage.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatProgressBarModule,
+    MatSelectModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfLimitUsageComponent implements OnInit {
+  limits: LimitUsage[] = [];
+  loading = false;
+  now = Date.now();
+  intervals = REFRESH_INTERVALS;
+  knownKinds = KNOWN_KINDS;
+  interval = new FormControl(30, { nonNullable: true });
+  isDarkMode = this.themeService.darkMode$;
+  faArrowsRotate = faArrowsRotate;
+  faRotateLeft = faRotateLeft;
+  faTriangleExclamation = faTriangleExclamation;
+  private lastRun = 0;
+
+  constructor(
+    @Inject(LIMIT_SERVICE_TOKEN) private limitService: DfBaseCrudService,
+    @Inject(LIMIT_CACHE_SERVICE_TOKEN)
+    private limitCacheService: DfBaseCrudService,
+    private activatedRoute: ActivatedRoute,
+    private themeService: DfThemeService,
+    private dialog: MatDialog,
+    @Inject(DOCUMENT) private document: Document
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.data.subscribe(({ data }) => {
+      if (data && data !== 'paywall') {
+        this.update((data as GenericListResponse<LimitType>).resource);
+        this.lastRun = Date.now();
+      }
+    });
+
+    pollWhileVisible(
+      this.document,
+      this.interval.valueChanges.pipe(startWith(this.interval.value)),
+      () => this.lastRun
+    )
+      .pipe(untilDestroyed(this))
+      .subscribe(() => this.refresh());
+
+    timer(0, 1000)
+      .pipe(untilDestroyed(this))
+      .subscribe(() => (this.now = Date.now()));
+  }
+
+  get exhausted(): LimitUsage[] {
+    return this.limits.filter(limit => limit.exhausted);
+  }
+
+  refresh(): void {
+    if (this.loading) {
+      return;
+    }
+    this.loading = true;
+    this.lastRun = Date.now();
+    this.limitService
+      .getAll<GenericListResponse<LimitType>>({
+        limit: 0,
+        sort: 'name',
+        related: 'limit_cache_by_limit_id',
+        includeCount: false,
+        showSpinner: false,
+        snackbarError: undefined,
+        additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+      })
+      .pipe(
+        finalize(() => (this.loading = false)),
+        untilDestroyed(this)
+      )
+      .subscribe(data => this.update(data.resource));
+  }
+
+  resetKey(key: KeyUsage): void {
+    this.dialog
+      .open(DfConfirmDialogComponent, {
+        data: {
+          title: 'limits.usage.resetTitle',
+          message: 'limits.usage.resetConfirm',
+        },
+      })
+      .afterClosed()
+      .pipe(
+        filter(Boolean),
+        switchMap(() =>
+          this.limitCacheService.delete(key.id, {
+            snackbarSuccess: 'limits.usage.resetSuccess',
+          })
+        ),
+        untilDestroyed(this)
+      )
+      .subscribe(() => this.refresh());
+  }
+
+  resetLabel(limit: LimitUsage, key: KeyUsage): string {
+    const left = resetsIn(key, limit.period, this.now);
+    if (left === null) {
+      return '-';
+    }
+    return key.observed ? formatDuration(left) : `≤ ${formatDuration(left)}`;
+  }
+
+  trackById(index: number, limit: LimitUsage): number {
+    return limit.id;
+  }
+
+  trackByKey(index: number, key: KeyUsage): string {
+    return key.key;
+  }
+
+  private update(limits: LimitType[]): void {
+    const now = Date.now();
+    const previous = new Map(this.limits.map(limit => [limit.id, limit]));
+    this.limits = limits.map(limit =>
+      toLimitUsage(limit, previous.get(limit.id), now)
+    );
+  }
+}
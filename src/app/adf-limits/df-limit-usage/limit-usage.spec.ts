@@ -0,0 +1,81 @@
+import { LimitType } from 'src/app/shared/types/limit';
+import {
+  formatDuration,
+  keyParts,
+  resetsIn,
+  toLimitUsage,
+} from './limit-usage';
+
+const limit = (attempts: number[]): LimitType =>
+  ({
+    id: 4,
+    name: 'per user',
+    type: 'service.each_user',
+    rate: 10,
+    period: 'minute',
+    isActive: true,
+    limitCacheByLimitId: attempts.map((count, index) => ({
+      id: 4,
+      key: `service:5.user:${index + 1}.minute`,
+      max: 10,
+      attempts: count,
+      remaining: 10 - count,
+    })),
+  }) as unknown as LimitType;
+
+describe('keyParts', () => {
+  it('reads what a key counts for', () => {
+    expect(keyParts('service:5.user:3.minute')).toEqual([
+      { kind: 'service', value: '5' },
+      { kind: 'user', value: '3' },
+    ]);
+    expect(
+      keyParts('service:5.endpoint:_table/todo.v1.verb:GET.7-day')
+    ).toEqual([
+      { kind: 'service', value: '5' },
+      { kind: 'endpoint', value: '_table/todo.v1' },
+      { kind: 'verb', value: 'GET' },
+    ]);
+    expect(keyParts('instance.day')).toEqual([]);
+  });
+});
+
+describe('toLimitUsage', () => {
+  it('flags exhausted keys and the limits that have them', () => {
+    const usage = toLimitUsage(limit([10, 3, 0]), undefined, 0);
+    expect(usage.exhausted).toBe(true);
+    expect(usage.keys.map(key => [key.percent, key.exhausted])).toEqual([
+      [100, true],
+      [30, false],
+      [0, false],
+    ]);
+  });
+
+  it('estimates when each period resets from the refreshes that saw it', () => {
+    const first = toLimitUsage(limit([3, 0]), undefined, 1000);
+    expect(first.keys.map(key => [key.windowStart, key.observed])).toEqual([
+      [1000, false],
+      [null, false],
+    ]);
+
+    const second = toLimitUsage(limit([5, 2]), first, 11000);
+    expect(second.keys.map(key => [key.windowStart, key.observed])).toEqual([
+      [1000, false],
+      [11000, true],
+    ]);
+    expect(resetsIn(second.keys[1], 'minute', 41000)).toBe(30000);
+
+    const third = toLimitUsage(limit([1, 0]), second, 71000);
+    expect(third.keys[0]).toEqual(
+      expect.objectContaining({ windowStart: 71000, observed: true })
+    );
+    expect(resetsIn(third.keys[1], 'minute', 71000)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows days only when there are some', () => {
+    expect(formatDuration(61500)).toBe('00:01:02');
+    expect(formatDuration(90061000)).toBe('1d 01:01:01');
+  });
+});
@@ -0,0 +1,131 @@
+import { CacheLimitType, LimitType } from 'src/app/shared/types/limit';
+
+/** Length of each limit period, in milliseconds */
+export const PERIOD_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  '7-day': 7 * 24 * 60 * 60 * 1000,
+  '30-day': 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface KeyPart {
+  kind: string;
+  value: string;
+}
+
+export interface KeyUsage extends CacheLimitType {
+  parts: KeyPart[];
+  percent: number;
+  exhausted: boolean;
+  /** When the current period was first seen running, null while idle */
+  windowStart: number | null;
+  /** Whether the period was seen starting, rather than already running */
+  observed: boolean;
+}
+
+export interface LimitUsage {
+  id: number;
+  name: string;
+  type: string;
+  rate: number;
+  period: string;
+  active: boolean;
+  keys: KeyUsage[];
+  exhausted: boolean;
+}
+
+/**
+ * Splits a cache key such as `service:5.user:3.minute` into the user,
+ * service, endpoint and verb it counts for.
+ */
+export function keyParts(key: string): KeyPart[] {
+  return key
+    .replace(/\.[^.:]+$/, '')
+    .split(/\.(?=[a-z_]+:)/)
+    .filter(part => part.includes(':'))
+    .map(part => {
+      const index = part.indexOf(':');
+      return { kind: part.slice(0, index), value: part.slice(index + 1) };
+    });
+}
+
+/**
+ * The server starts a period on the first attempt and doesn't report when,
+ * so the start is taken from the refresh that first sees the counter move.
+ */
+function trackWindow(
+  entry: CacheLimitType,
+  previous: KeyUsage | undefined,
+  now: number
+): Pick<KeyUsage, 'windowStart' | 'observed'> {
+  if (entry.attempts === 0) {
+    return { windowStart: null, observed: false };
+  }
+  if (!previous) {
+    return { windowStart: now, observed: false };
+  }
+  if (previous.windowStart === null || entry.attempts < previous.attempts) {
+    return { windowStart: now, observed: true };
+  }
+  return { windowStart: previous.windowStart, observed: previous.observed };
+}
+
+export function toLimitUsage(
+  limit: LimitType,
+  previous: LimitUsage | undefined,
+  now: number
+): LimitUsage {
+  const keys = (limit.limitCacheByLimitId ?? []).map(entry => ({
+    ...entry,
+    parts: keyParts(entry.key),
+    percent: entry.max
+      ? Math.min(100, Math.round((entry.attempts / entry.max) * 100))
+      : 0,
+    exhausted: entry.max > 0 && entry.remaining <= 0,
+    ...trackWindow(
+      entry,
+      previous?.keys.find(key => key.key === entry.key),
+      now
+    ),
+  }));
+  return {
+    id: limit.id,
+    name: limit.name,
+    type: limit.type,
+    rate: limit.rate,
+    period: limit.period,
+    active: limit.isActive,
+    keys,
+    exhausted: keys.some(key => key.exhausted),
+  };
+}
+
+/**
+ * Time left until a key's counter resets, null while it is idle. For a
+ * period that was already running when first seen this is an upper bound.
+ */
+export function resetsIn(
+  key: KeyUsage,
+  period: string,
+  now: number
+): number | null {
+  if (key.windowStart === null || !PERIOD_MS[period]) {
+    return null;
+  }
+  return Math.max(0, key.windowStart + PERIOD_MS[period] - now);
+}
+
+/** Formats a duration as `1d 02:03:04`, leaving out days when there are none */
+export function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  const days = Math.floor(seconds / 86400);
+  const time = [
+    Math.floor((seconds % 86400) / 3600),
+    Math.floor((seconds % 3600) / 60),
+    seconds % 60,
+  ]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  return days ? `${days}d ${time}` : time;
+}
@@ -9,6 +9,7 @@ import { MatMenuModule } from '@angular/material/menu';
 import { ActivatedRoute } from '@angular/router';
 import { DfPaywallComponent } from 'src/app/shared/components/df-paywall/df-paywall.component';
 import { UntilDestroy } from '@ngneat/until-destroy';
+import { DfLimitUsageComponent } from '../df-limit-usage/df-limit-usage.component';
 
 @UntilDestroy({ checkProperties: true })
 @Component({
@@ -25,6 +26,7 @@ import { UntilDestroy } from '@ngneat/until-destroy';
     MatButtonModule,
     MatMenuModule,
     DfPaywallComponent,
+    DfLimitUsageComponent,
   ],
 })
 export class DfManageLimitsComponent {
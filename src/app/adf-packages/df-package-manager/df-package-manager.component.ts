@@ -0,0 +1,305 @@
+import { Component, OnInit } from '@angular/core';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import {
+  FormControl,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTabsModule } from '@angular/material/tabs';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faBoxArchive,
+  faDownload,
+  faUpload,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { map, switchMap } from 'rxjs';
+import { DfSystemConfigDataService } from 'src/app/shared/services/df-system-config-data.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { saveAsFile } from 'src/app/shared/utilities/file';
+import { DfPackageService } from '../services/df-package.service';
+import {
+  ImportAction,
+  ImportPreviewItem,
+  PackageGroup,
+  PackageItem,
+  PACKAGE_MANIFEST_FILE,
+  PackageManifest,
+  SYSTEM_RESOURCES,
+  SYSTEM_SERVICE,
+  buildExportManifest,
+  manifestGroups,
+  previewImport,
+} from '../utilities/package-manifest';
+import { readZipText } from 'src/app/shared/utilities/zip';
+
+/** System resources with a translated label besides the listed ones */
+const LABELLED_RESOURCES = [
+  ...SYSTEM_RESOURCES,
+  'user',
+  'admin',
+  'cors',
+  'app_group',
+  'custom',
+];
+
+const IMPORT_ACTIONS: ImportAction[] = ['create', 'overwrite', 'conflict'];
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-package-manager',
+  templateUrl: './df-package-manager.component.html',
+  styleUrls: ['./df-package-manager.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSlideToggleModule,
+    MatTabsModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfPackageManagerComponent implements OnInit {
+  faBoxArchive = faBoxArchive;
+  faDownload = faDownload;
+  faUpload = faUpload;
+  importActions = IMPORT_ACTIONS;
+  isDarkMode = this.themeService.darkMode$;
+  securedExport$ = this.systemConfigDataService.environment$.pipe(
+    map(environment => !!environment.platform?.securedPackageExport)
+  );
+
+  manifest: PackageManifest = { service: {} };
+  groups: PackageGroup[] = [];
+  selected = new Set<string>();
+
+  exportForm = new FormGroup({
+    filter: new FormControl('', { nonNullable: true }),
+    secured: new FormControl(false, { nonNullable: true }),
+    password: new FormControl('', { nonNullable: true }),
+  });
+
+  importForm = new FormGroup({
+    password: new FormControl('', { nonNullable: true }),
+    overwrite: new FormControl(false, { nonNullable: true }),
+  });
+  importFile: File | null = null;
+  importManifest: PackageManifest | null = null;
+  importError: string | null = null;
+  preview: ImportPreviewItem[] = [];
+  importLog: string[] = [];
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private packageService: DfPackageService,
+    private systemConfigDataService: DfSystemConfigDataService,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.data
+      .pipe(untilDestroyed(this))
+      .subscribe(({ data }) => this.setManifest(data));
+    this.exportForm.controls.secured.valueChanges
+      .pipe(untilDestroyed(this))
+      .subscribe(secured => {
+        const password = this.exportForm.controls.password;
+        password.setValidators(
+          secured ? [Validators.required, Validators.minLength(6)] : []
+        );
+        password.updateValueAndValidity();
+      });
+    this.importForm.controls.overwrite.valueChanges
+      .pipe(untilDestroyed(this))
+      .subscribe(() => this.updatePreview());
+  }
+
+  get visibleGroups(): PackageGroup[] {
+    const filter = this.exportForm.controls.filter.value.trim().toLowerCase();
+    if (!filter) return this.groups;
+    return this.groups
+      .map(group => ({
+        ...group,
+        items: group.items.filter(item =>
+          `${item.label} ${item.name}`.toLowerCase().includes(filter)
+        ),
+      }))
+      .filter(group => group.items.length);
+  }
+
+  get selectedItems(): PackageItem[] {
+    return this.groups.flatMap(group =>
+      group.items.filter(item => this.selected.has(item.key))
+    );
+  }
+
+  get canExport(): boolean {
+    return this.selected.size > 0 && this.exportForm.valid;
+  }
+
+  get importSecured(): boolean {
+    return !!this.importManifest?.secured;
+  }
+
+  get canImport(): boolean {
+    return (
+      !!this.importFile &&
+      !!this.importManifest &&
+      (!this.importSecured || !!this.importForm.value.password)
+    );
+  }
+
+  /** Translation key for a group heading, the service and resource are params */
+  groupLabel(group: { service: string; resource: string }): string {
+    if (group.service === SYSTEM_SERVICE) {
+      return LABELLED_RESOURCES.includes(group.resource)
+        ? `packages.resources.${group.resource}`
+        : 'packages.groups.system';
+    }
+    if (!group.resource) return 'packages.groups.files';
+    return group.resource === '_schema'
+      ? 'packages.groups.schema'
+      : 'packages.groups.other';
+  }
+
+  groupChecked(group: PackageGroup): boolean {
+    return group.items.every(item => this.selected.has(item.key));
+  }
+
+  groupIndeterminate(group: PackageGroup): boolean {
+    return (
+      group.items.some(item => this.selected.has(item.key)) &&
+      !this.groupChecked(group)
+    );
+  }
+
+  toggleGroup(group: PackageGroup): void {
+    const checked = this.groupChecked(group);
+    group.items.forEach(item =>
+      checked ? this.selected.delete(item.key) : this.selected.add(item.key)
+    );
+  }
+
+  toggle(item: PackageItem): void {
+    if (this.selected.has(item.key)) {
+      this.selected.delete(item.key);
+    } else {
+      this.selected.add(item.key);
+    }
+  }
+
+  selectAll(select: boolean): void {
+    this.visibleGroups.forEach(group =>
+      group.items.forEach(item =>
+        select ? this.selected.add(item.key) : this.selected.delete(item.key)
+      )
+    );
+  }
+
+  exportPackage(): void {
+    if (!this.canExport) return;
+    const { secured, password } = this.exportForm.getRawValue();
+    this.packageService
+      .exportPackage(
+        buildExportManifest(this.selectedItems),
+        secured ? password : undefined
+      )
+      .pipe(
+        switchMap(response =>
+          this.packageService
+            .downloadExport(response.path)
+            .pipe(map(blob => ({ blob, path: response.path })))
+        )
+      )
+      .subscribe(({ blob, path }) =>
+        saveAsFile(
+          blob,
+          decodeURIComponent(path.split('/').pop() || 'package.zip')
+        )
+      );
+  }
+
+  onImportFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    input.value = '';
+    this.importFile = file;
+    this.importManifest = null;
+    this.importError = null;
+    this.importLog = [];
+    this.preview = [];
+    readZipText(file, PACKAGE_MANIFEST_FILE).subscribe({
+      next: text => {
+        try {
+          if (text === null) throw new Error();
+          const manifest = JSON.parse(text);
+          if (!manifest?.service) throw new Error();
+          this.importManifest = manifest;
+          this.updatePreview();
+        } catch (e) {
+          this.importError = 'packages.import.invalidPackage';
+        }
+      },
+      error: () => (this.importError = 'packages.import.invalidPackage'),
+    });
+  }
+
+  countOf(action: ImportAction): number {
+    return this.preview.filter(item => item.action === action).length;
+  }
+
+  importPackage(): void {
+    if (!this.canImport || !this.importFile) return;
+    const { password, overwrite } = this.importForm.getRawValue();
+    this.packageService
+      .importPackage(this.importFile, password, overwrite)
+      .pipe(
+        switchMap(response => {
+          this.importLog = Object.values(response?.log ?? {}).flat();
+          return this.packageService.getManifest();
+        })
+      )
+      .subscribe(manifest => {
+        this.setManifest(manifest);
+        this.importFile = null;
+        this.importManifest = null;
+        this.preview = [];
+        this.importForm.reset();
+      });
+  }
+
+  private setManifest(manifest: PackageManifest): void {
+    this.manifest = manifest ?? { service: {} };
+    this.groups = manifestGroups(this.manifest);
+    const keys = new Set(this.groups.flatMap(g => g.items.map(i => i.key)));
+    this.selected = new Set(
+      Array.from(this.selected).filter(key => keys.has(key))
+    );
+  }
+
+  private updatePreview(): void {
+    this.preview = this.importManifest
+      ? previewImport(
+          this.importManifest,
+          this.manifest,
+          this.importForm.controls.overwrite.value
+        )
+      : [];
+  }
+}
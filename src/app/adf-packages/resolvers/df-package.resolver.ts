@@ -0,0 +1,7 @@
+import { inject } from '@angular/core';
+import { ResolveFn } from '@angular/router';
+import { DfPackageService } from '../services/df-package.service';
+import { PackageManifest } from '../utilities/package-manifest';
+
+export const packageManifestResolver: ResolveFn<PackageManifest> = () =>
+  inject(DfPackageService).getManifest();
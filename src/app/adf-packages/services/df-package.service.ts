@@ -0,0 +1,73 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { BASE_URL, URLS } from 'src/app/shared/constants/urls';
+import { SHOW_LOADING_HEADER } from 'src/app/shared/constants/http-headers';
+import {
+  ExportSelection,
+  PackageManifest,
+} from '../utilities/package-manifest';
+
+export interface PackageExportResponse {
+  success: boolean;
+  /** Full URL of the generated archive */
+  path: string;
+  is_public?: boolean;
+}
+
+export interface PackageImportResponse {
+  success: boolean;
+  log?: Record<string, string[]>;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfPackageService {
+  constructor(private http: HttpClient) {}
+
+  /** Everything on this instance that can go into a package */
+  getManifest() {
+    return this.http.get<PackageManifest>(URLS.PACKAGE, {
+      headers: SHOW_LOADING_HEADER,
+    });
+  }
+
+  exportPackage(service: ExportSelection, password?: string) {
+    return this.http.post<PackageExportResponse>(
+      URLS.PACKAGE,
+      {
+        secured: !!password,
+        ...(password ? { password } : {}),
+        service,
+      },
+      {
+        headers: { ...SHOW_LOADING_HEADER, 'snackbar-error': 'server' },
+      }
+    );
+  }
+
+  /** Fetches an exported archive through the API so the session applies */
+  downloadExport(path: string) {
+    const index = path.indexOf(BASE_URL);
+    return this.http.get(index < 0 ? path : path.slice(index), {
+      headers: { ...SHOW_LOADING_HEADER, 'snackbar-error': 'server' },
+      responseType: 'blob',
+    });
+  }
+
+  importPackage(file: File, password: string, overwrite: boolean) {
+    const data = new FormData();
+    data.append('files', file);
+    if (password) {
+      data.append('password', password);
+    }
+    return this.http.post<PackageImportResponse>(URLS.PACKAGE, data, {
+      headers: {
+        ...SHOW_LOADING_HEADER,
+        'snackbar-success': 'packages.import.success',
+        'snackbar-error': 'server',
+      },
+      params: { overwrite },
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  PackageManifest,
+  buildExportManifest,
+  manifestGroups,
+  previewImport,
+} from './package-manifest';
+
+const manifest: PackageManifest = {
+  version: '0.1',
+  service: {
+    system: {
+      email_template: [{ id: 1, name: 'welcome' }],
+      role: [
+        { id: 2, name: 'reader', label: 'Read only' },
+        { id: 3, name: 'writer' },
+      ],
+      user: [{ id: 4, email: 'jane@example.com' }],
+      service: [{ id: 5, name: 'db' }],
+    },
+    db: { _schema: ['orders', 'customers'] },
+    files: ['images/', 'docs/readme.md'],
+  },
+};
+
+describe('manifestGroups', () => {
+  it('lists system resources first in a fixed order, then other services', () => {
+    expect(
+      manifestGroups(manifest).map(g => `${g.service}/${g.resource}`)
+    ).toEqual([
+      'system/service',
+      'system/role',
+      'system/email_template',
+      'system/user',
+      'db/_schema',
+      'files/',
+    ]);
+  });
+
+  it('names entries by name, then email, and keeps labels', () => {
+    const groups = manifestGroups(manifest);
+    const roles = groups.find(g => g.resource === 'role')!.items;
+    expect(roles.map(i => [i.name, i.label])).toEqual([
+      ['reader', 'Read only'],
+      ['writer', 'writer'],
+    ]);
+    expect(groups.find(g => g.resource === 'user')!.items[0].name).toBe(
+      'jane@example.com'
+    );
+  });
+
+  it('skips empty resources and unusable entries', () => {
+    const groups = manifestGroups({
+      service: { system: { role: [], app: [{ label: 'no id' }] } },
+    });
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('buildExportManifest', () => {
+  it('lays out the selected items like the manifest', () => {
+    const items = manifestGroups(manifest).flatMap(g => g.items);
+    const selected = items.filter(i =>
+      ['reader', 'orders', 'images/', 'db'].includes(i.name)
+    );
+    expect(buildExportManifest(selected)).toEqual({
+      system: { service: ['db'], role: ['reader'] },
+      db: { _schema: ['orders'] },
+      files: ['images/'],
+    });
+  });
+});
+
+describe('previewImport', () => {
+  const pkg: PackageManifest = {
+    service: {
+      system: { role: ['reader', 'auditor'] },
+      db: { _schema: ['orders'] },
+    },
+  };
+
+  it('marks existing items as conflicts unless overwriting', () => {
+    expect(
+      previewImport(pkg, manifest, false).map(i => [i.name, i.action])
+    ).toEqual([
+      ['reader', 'conflict'],
+      ['auditor', 'create'],
+      ['orders', 'conflict'],
+    ]);
+  });
+
+  it('marks existing items as overwritten when allowed', () => {
+    expect(
+      previewImport(pkg, manifest, true).map(i => [i.name, i.action])
+    ).toEqual([
+      ['reader', 'overwrite'],
+      ['auditor', 'create'],
+      ['orders', 'overwrite'],
+    ]);
+  });
+});
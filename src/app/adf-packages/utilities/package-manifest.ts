@@ -0,0 +1,184 @@
+/** Name of the manifest inside a DreamFactory package archive */
+export const PACKAGE_MANIFEST_FILE = 'package.json';
+
+/**
+ * An entry listed in a package manifest. System resources are listed as
+ * records, tables and file paths as plain strings.
+ */
+export type ManifestEntry =
+  | string
+  | {
+      id?: number;
+      name?: string;
+      label?: string;
+      email?: string;
+    };
+
+/** File services list paths, other services list entries per resource */
+export type ManifestService = ManifestEntry[] | Record<string, ManifestEntry[]>;
+
+/**
+ * Manifest returned by and sent to `/system/package`. Keys are service and
+ * resource names, so the case interceptor leaves it untouched.
+ */
+export interface PackageManifest {
+  version?: string;
+  df_version?: string;
+  secured?: boolean;
+  description?: string;
+  created_date?: string;
+  service: Record<string, ManifestService>;
+}
+
+/** Identifiers of the selected items, laid out like the manifest */
+export type ExportSelection = Record<
+  string,
+  Array<string | number> | Record<string, Array<string | number>>
+>;
+
+export interface PackageItem {
+  key: string;
+  service: string;
+  /** Empty for file services, which list paths directly */
+  resource: string;
+  name: string;
+  label: string;
+  /** Identifier sent back when exporting the item */
+  value: string | number;
+}
+
+export interface PackageGroup {
+  key: string;
+  service: string;
+  resource: string;
+  items: PackageItem[];
+}
+
+export type ImportAction = 'create' | 'conflict' | 'overwrite';
+
+export interface ImportPreviewItem extends PackageItem {
+  action: ImportAction;
+}
+
+export const SYSTEM_SERVICE = 'system';
+
+/** System resources in the order they are listed, others follow by name */
+export const SYSTEM_RESOURCES = [
+  'service',
+  'role',
+  'app',
+  'event_script',
+  'limit',
+  'email_template',
+  'lookup',
+];
+
+export function itemKey(
+  service: string,
+  resource: string,
+  name: string
+): string {
+  return [service, resource, name].join('/');
+}
+
+function toItem(
+  service: string,
+  resource: string,
+  entry: ManifestEntry
+): PackageItem | null {
+  const value =
+    typeof entry === 'string'
+      ? entry
+      : (entry.name ?? entry.email ?? entry.id ?? null);
+  if (value === null || value === '') return null;
+  const name = String(value);
+  return {
+    key: itemKey(service, resource, name),
+    service,
+    resource,
+    name,
+    label: (typeof entry === 'string' ? null : entry.label) || name,
+    value,
+  };
+}
+
+function groupOrder(group: PackageGroup): [number, number, string] {
+  if (group.service !== SYSTEM_SERVICE) {
+    return [1, 0, `${group.service}/${group.resource}`];
+  }
+  const index = SYSTEM_RESOURCES.indexOf(group.resource);
+  return [0, index < 0 ? SYSTEM_RESOURCES.length : index, group.resource];
+}
+
+/** Every exportable item in the manifest, grouped by service and resource */
+export function manifestGroups(manifest: PackageManifest): PackageGroup[] {
+  const groups: PackageGroup[] = [];
+  Object.entries(manifest?.service ?? {}).forEach(([service, content]) => {
+    const resources: Array<[string, ManifestEntry[]]> = Array.isArray(content)
+      ? [['', content]]
+      : Object.entries(content ?? {}).filter(([, entries]) =>
+          Array.isArray(entries)
+        );
+    resources.forEach(([resource, entries]) => {
+      const items = entries
+        .map(entry => toItem(service, resource, entry))
+        .filter((item): item is PackageItem => item !== null);
+      if (items.length) {
+        groups.push({
+          key: itemKey(service, resource, ''),
+          service,
+          resource,
+          items,
+        });
+      }
+    });
+  });
+  return groups.sort((a, b) => {
+    const [ga, ia, na] = groupOrder(a);
+    const [gb, ib, nb] = groupOrder(b);
+    return ga - gb || ia - ib || na.localeCompare(nb);
+  });
+}
+
+/** The `service` section of an export request for the selected items */
+export function buildExportManifest(items: PackageItem[]): ExportSelection {
+  const service: ExportSelection = {};
+  items.forEach(item => {
+    if (!item.resource) {
+      const paths = (service[item.service] ??= []) as string[];
+      paths.push(item.name);
+      return;
+    }
+    const resources = (service[item.service] ??= {}) as Record<
+      string,
+      Array<string | number>
+    >;
+    (resources[item.resource] ??= []).push(item.value);
+  });
+  return service;
+}
+
+/**
+ * What importing the package would do to each item: items missing from the
+ * instance are created, existing ones are overwritten when allowed and
+ * conflict otherwise.
+ */
+export function previewImport(
+  pkg: PackageManifest,
+  current: PackageManifest,
+  overwrite: boolean
+): ImportPreviewItem[] {
+  const existing = new Set(
+    manifestGroups(current).flatMap(group => group.items.map(i => i.key))
+  );
+  return manifestGroups(pkg).flatMap(group =>
+    group.items.map(item => ({
+      ...item,
+      action: existing.has(item.key)
+        ? overwrite
+          ? 'overwrite'
+          : 'conflict'
+        : 'create',
+    }))
+  );
+}
@@ -6,7 +6,10 @@ import {
 } from 'src/app/shared/components/df-manage-table/df-manage-table.component';
 import { Component, Inject } from '@angular/core';
 import { RoleRow, RoleType } from 'src/app/shared/types/role';
-import { ROLE_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import {
+  ROLE_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
 import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
 import { GenericListResponse } from 'src/app/shared/types/generic-http';
 import { TranslocoService } from '@ngneat/transloco';
@@ -20,9 +23,20 @@ import {
   animate,
   transition,
 } from '@angular/animations';
-import { DfDuplicateDialogComponent } from 'src/app/shared/components/df-duplicate-dialog/df-duplicate-dialog.component';
-import { faCopy } from '@fortawesome/free-solid-svg-icons';
-import { catchError, throwError } from 'rxjs';
+import { faCopy, faFileExport } from '@fortawesome/free-solid-svg-icons';
+import { Observable, filter, forkJoin, map, switchMap } from 'rxjs';
+import { DfSnackbarService } from 'src/app/shared/services/df-snackbar.service';
+import { DfRoleTemplatesService } from '../services/df-role-templates.service';
+import {
+  DfRoleTemplateDialogComponent,
+  RoleTemplateDialogData,
+} from '../df-role-template-dialog/df-role-template-dialog.component';
+import {
+  RoleCreatePayload,
+  TemplateService,
+  TemplateSourceRole,
+  toRoleTemplate,
+} from '../utilities/role-template';
 @UntilDestroy({ checkProperties: true })
 @Component({
   selector: 'df-manage-roles-table',
@@ -49,6 +63,10 @@ export class DfManageRolesTableComponent extends DfManageTableComponent<RoleRow>
   constructor(
     @Inject(ROLE_SERVICE_TOKEN)
     private roleService: DfBaseCrudService,
+    @Inject(SERVICES_SERVICE_TOKEN)
+    private servicesService: DfBaseCrudService,
+    private templatesService: DfRoleTemplatesService,
+    private snackbarService: DfSnackbarService,
     router: Router,
     activatedRoute: ActivatedRoute,
     liveAnnouncer: LiveAnnouncer,
@@ -67,16 +85,30 @@ export class DfManageRolesTableComponent extends DfManageTableComponent<RoleRow>
       },
       icon: faCopy,
     };
+    const saveTemplateAction = {
+      label: 'roles.templates.saveAction',
+      function: (row: RoleRow) => this.saveAsTemplate(row),
+      ariaLabel: {
+        key: 'roles.templates.saveAriaLabel',
+        param: 'name',
+      },
+      icon: faFileExport,
+    };
 
     if (this.actions.additional) {
-      // Insert duplicate action before delete action
+      // Insert duplicate actions before delete action
       const deleteIndex = this.actions.additional.findIndex(
         action => action.label === 'delete'
       );
       if (deleteIndex !== -1) {
-        this.actions.additional.splice(deleteIndex, 0, duplicateAction);
+        this.actions.additional.splice(
+          deleteIndex,
+          0,
+          duplicateAction,
+          saveTemplateAction
+        );
       } else {
-        this.actions.additional.push(duplicateAction);
+        this.actions.additional.push(duplicateAction, saveTemplateAction);
       }
     }
   }
@@ -130,104 +162,90 @@ export class DfManageRolesTableComponent extends DfManageTableComponent<RoleRow>
       });
   }
 
-  duplicateRole(row: RoleRow): void {
-    // First, get the full role details with related data
-    this.roleService
-      .get<any>(row.id, {
-        related: 'role_service_access_by_role_id,lookup_by_role_id',
+  saveAsTemplate(row: RoleRow): void {
+    forkJoin({
+      role: this.fetchRole(row.id),
+      services: this.fetchServices(),
+    }).subscribe(({ role, services }) => {
+      this.templatesService.save(toRoleTemplate(role, services));
+      this.snackbarService.openSnackBar(
+        this._translateService.translate('roles.templates.saveSuccess', {
+          name: role.name,
+        }),
+        'success'
+      );
+    });
+  }
+
+  private fetchRole(id: number): Observable<TemplateSourceRole> {
+    return this.roleService.get<TemplateSourceRole>(id, {
+      related: 'role_service_access_by_role_id,lookup_by_role_id',
+    });
+  }
+
+  private fetchServices(): Observable<TemplateService[]> {
+    return this.servicesService
+      .getAll<GenericListResponse<TemplateService>>({
+        fields: 'id,name,type',
+        limit: 0,
+        includeCount: false,
       })
-      .pipe(
-        catchError(error => {
-          console.error('Failed to fetch role details:', error);
-          return throwError(() => error);
-        })
-      )
-      .subscribe(roleData => {
-        // Get all existing role names for validation
-        this.roleService
-          .getAll<GenericListResponse<RoleType>>({ limit: 1000 })
-          .subscribe(allRoles => {
-            const existingNames = allRoles.resource.map(r => r.name);
+      .pipe(map(services => services.resource));
+  }
 
-            const dialogRef = this.dialog.open(DfDuplicateDialogComponent, {
-              width: '400px',
+  /**
+   * Copies the role with its access rules and lookup keys, letting the
+   * user point the rules at other services on the way.
+   */
+  duplicateRole(row: RoleRow): void {
+    forkJoin({
+      role: this.fetchRole(row.id),
+      services: this.fetchServices(),
+      names: this.roleService
+        .getAll<GenericListResponse<RoleType>>({
+          fields: 'name',
+          limit: 0,
+          includeCount: false,
+        })
+        .pipe(map(roles => roles.resource.map(role => role.name))),
+    })
+      .pipe(
+        switchMap(({ role, services, names }) => {
+          const template = toRoleTemplate(role, services);
+          return this.dialog
+            .open<
+              DfRoleTemplateDialogComponent,
+              RoleTemplateDialogData,
+              RoleCreatePayload
+            >(DfRoleTemplateDialogComponent, {
+              width: '500px',
               data: {
                 title: 'roles.duplicate.title',
-                message: 'roles.duplicate.message',
-                label: 'roles.duplicate.nameLabel',
-                originalName: roleData.name,
-                existingNames: existingNames,
+                template: {
+                  ...template,
+                  description: `${template.description} (copy)`.trim(),
+                },
+                services,
+                existingNames: names,
               },
-            });
-
-            dialogRef.afterClosed().subscribe(newName => {
-              if (newName) {
-                // Create a copy of the role with all its configurations
-                // Using snake_case for the API payload
-                const duplicatedRole = {
-                  name: newName,
-                  description: `${roleData.description || ''} (copy)`,
-                  is_active: roleData.isActive || roleData.is_active,
-                  // Copy service access permissions - check both camelCase and snake_case
-                  role_service_access_by_role_id:
-                    (
-                      roleData.roleServiceAccessByRoleId ||
-                      roleData.role_service_access_by_role_id
-                    )?.map((access: any) => ({
-                      service_id: access.serviceId || access.service_id,
-                      component: access.component,
-                      verb_mask: access.verbMask || access.verb_mask,
-                      requestor_mask:
-                        access.requestorMask || access.requestor_mask,
-                      filters:
-                        access.filters?.map((filter: any) => ({
-                          name: filter.name || filter.field,
-                          operator: filter.operator,
-                          value: filter.value,
-                        })) || [],
-                      filter_op: access.filterOp || access.filter_op || 'AND',
-                    })) || [],
-                  // Copy lookup keys - check both camelCase and snake_case
-                  lookup_by_role_id:
-                    (
-                      roleData.lookupByRoleId || roleData.lookup_by_role_id
-                    )?.map((lookup: any) => ({
-                      name: lookup.name,
-                      value: lookup.value,
-                      private: lookup.private,
-                      description: lookup.description,
-                    })) || [],
-                };
-
-                // Wrap in resource array as expected by the API
-                const payload = {
-                  resource: [duplicatedRole],
-                };
-
-                console.log(
-                  'Sending payload:',
-                  JSON.stringify(payload, null, 2)
-                );
-
-                // Create the new role
-                this.roleService
-                  .create(payload, {
-                    snackbarSuccess: 'roles.alerts.duplicateSuccess',
-                    fields: '*',
-                    related: 'role_service_access_by_role_id,lookup_by_role_id',
-                  })
-                  .pipe(
-                    catchError(error => {
-                      console.error('Failed to duplicate role:', error);
-                      return throwError(() => error);
-                    })
-                  )
-                  .subscribe(() => {
-                    this.refreshTable();
-                  });
-              }
-            });
-          });
-      });
+            })
+            .afterClosed()
+            .pipe(
+              filter((payload): payload is RoleCreatePayload => !!payload),
+              map(payload => ({ ...payload, isActive: !!role.isActive }))
+            );
+        }),
+        switchMap(payload =>
+          this.roleService.create(
+            { resource: [payload] },
+            {
+              snackbarSuccess: 'roles.alerts.duplicateSuccess',
+              fields: '*',
+              related: 'role_service_access_by_role_id,lookup_by_role_id',
+            }
+          )
+        )
+      )
+      .subscribe(() => this.refreshTable());
   }
 }
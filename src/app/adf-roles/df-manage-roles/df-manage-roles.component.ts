@@ -1,13 +1,14 @@
 import { Component } from '@angular/core';
 import { DfManageRolesTableComponent } from './df-manage-roles-table.component';
 import { DfSnackbarService } from 'src/app/shared/services/df-snackbar.service';
+import { DfRoleTemplatesComponent } from '../df-role-templates/df-role-templates.component';
 
 @Component({
   selector: 'df-manage-roles',
   templateUrl: './df-manage-roles.component.html',
   styleUrls: ['./df-manage-roles.component.scss'],
   standalone: true,
-  imports: [DfManageRolesTableComponent],
+  imports: [DfManageRolesTableComponent, DfRoleTemplatesComponent],
 })
 export class DfManageRolesComponent {
   constructor(private snackbarService: DfSnackbarService) {}
@@ -25,6 +25,7 @@ import { MatInputModule } from '@angular/material/input';
 import { MatSlideToggleModule } from '@angular/material/slide-toggle';
 import { MatButtonModule } from '@angular/material/button';
 import { DfRolesAccessComponent } from '../df-roles-access/df-roles-access.component';
+import { DfRoleSimulatorComponent } from '../df-role-simulator/df-role-simulator.component';
 import { UntilDestroy } from '@ngneat/until-destroy';
 import {
   AlertType,
@@ -50,6 +51,7 @@ import { DfSnackbarService } from 'src/app/shared/services/df-snackbar.service';
     MatSlideToggleModule,
     MatButtonModule,
     DfRolesAccessComponent,
+    DfRoleSimulatorComponent,
     NgIf,
     DfAlertComponent,
     AsyncPipe,
@@ -0,0 +1,96 @@
+import { NgFor, NgIf } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { MatAutocompleteModule } from '@angular/material/autocomplete';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faPlus, faTrashCan } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import {
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  condition,
+  group,
+  hasValue,
+} from '../utilities/filter-groups';
+
+/** Groups can't be nested deeper than this */
+const MAX_DEPTH = 3;
+
+/** One AND/OR group of the filter builder, rendering nested groups itself */
+@Component({
+  selector: 'df-filter-group',
+  templateUrl: './df-filter-group.component.html',
+  styleUrls: ['./df-filter-group.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    FormsModule,
+    MatAutocompleteModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfFilterGroupComponent {
+  @Input() group: FilterGroup;
+  @Input() fields: string[] = [];
+  @Input() placeholders: string[] = [];
+  @Input() depth = 0;
+  @Output() changed = new EventEmitter<void>();
+  @Output() removed = new EventEmitter<void>();
+
+  operators = FILTER_OPERATORS;
+  hasValue = hasValue;
+  faPlus = faPlus;
+  faTrashCan = faTrashCan;
+
+  get canNest(): boolean {
+    return this.depth + 1 < MAX_DEPTH;
+  }
+
+  isGroup(node: FilterNode): node is FilterGroup {
+    return node.kind === 'group';
+  }
+
+  asCondition(node: FilterNode): FilterCondition {
+    return node as FilterCondition;
+  }
+
+  asGroup(node: FilterNode): FilterGroup {
+    return node as FilterGroup;
+  }
+
+  matching(options: string[], text: string): string[] {
+    const search = (text ?? '').toLowerCase();
+    return options.filter(option => option.toLowerCase().includes(search));
+  }
+
+  addCondition(): void {
+    this.group.children.push(condition());
+    this.changed.emit();
+  }
+
+  addGroup(): void {
+    this.group.children.push(
+      group(this.group.logic === 'AND' ? 'OR' : 'AND', [condition()])
+    );
+    this.changed.emit();
+  }
+
+  remove(index: number): void {
+    this.group.children.splice(index, 1);
+    this.changed.emit();
+  }
+}
@@ -0,0 +1,113 @@
+import { NgIf } from '@angular/common';
+import { Component, Inject, Input, OnInit } from '@angular/core';
+import { FormArray, FormControl, FormGroup } from '@angular/forms';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { catchError, map, of } from 'rxjs';
+import { BASE_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import {
+  FilterGroup,
+  USER_PLACEHOLDERS,
+  fromApiFilters,
+  previewFilter,
+  toApiFilters,
+} from '../utilities/filter-groups';
+import { DfFilterGroupComponent } from './df-filter-group.component';
+
+/** Table a component like `_table/orders/*` refers to, if any */
+function tableOf(component: string): string | null {
+  return /^_table\/([^/*]+)/.exec(component ?? '')?.[1] ?? null;
+}
+
+/**
+ * Edits the advanced filters of an access rule as nested AND/OR groups and
+ * writes them back to the rule's `advancedFilters` rows.
+ */
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-role-filter-builder',
+  templateUrl: './df-role-filter-builder.component.html',
+  styleUrls: ['./df-role-filter-builder.component.scss'],
+  standalone: true,
+  imports: [NgIf, TranslocoPipe, DfFilterGroupComponent],
+})
+export class DfRoleFilterBuilderComponent implements OnInit {
+  @Input() formArray: FormArray;
+  @Input() serviceName = '';
+  @Input() component = '';
+  @Input() lookupKeys: string[] = [];
+
+  root: FilterGroup;
+  fields: string[] = [];
+  placeholders: string[] = [];
+  preview = '';
+  error = false;
+
+  constructor(
+    @Inject(BASE_SERVICE_TOKEN) private baseService: DfBaseCrudService
+  ) {}
+
+  ngOnInit(): void {
+    const rows = this.formArray.value as Array<{
+      expandField: string;
+      expandOperator: string;
+      expandValue: string;
+      filterOp: string;
+    }>;
+    this.root = fromApiFilters(
+      rows.map(row => ({
+        name: row.expandField,
+        operator: row.expandOperator,
+        value: row.expandValue,
+      })),
+      rows[0]?.filterOp
+    );
+    this.preview = previewFilter(this.root);
+    this.placeholders = [
+      ...USER_PLACEHOLDERS,
+      ...this.lookupKeys.filter(key => key).map(key => `{${key}}`),
+    ];
+
+    const table = tableOf(this.component);
+    if (this.serviceName && table) {
+      this.baseService
+        .get<{ field?: Array<{ name: string }> }>(
+          `${this.serviceName}/_schema/${table}`,
+          {
+            snackbarError: undefined,
+            additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+          }
+        )
+        .pipe(
+          map(schema => (schema.field ?? []).map(field => field.name)),
+          catchError(() => of([])),
+          untilDestroyed(this)
+        )
+        .subscribe(fields => (this.fields = fields));
+    }
+  }
+
+  /** Rewrites the rule's filter rows from the groups */
+  update(): void {
+    try {
+      const { filters, filterOp } = toApiFilters(this.root);
+      this.error = false;
+      this.preview = previewFilter(this.root);
+      this.formArray.clear();
+      filters.forEach(filter =>
+        this.formArray.push(
+          new FormGroup({
+            expandField: new FormControl(filter.name),
+            expandOperator: new FormControl(filter.operator),
+            expandValue: new FormControl(filter.value),
+            filterOp: new FormControl(filterOp),
+          })
+        )
+      );
+      this.formArray.markAsDirty();
+    } catch (e) {
+      this.error = true;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { Component, Input, OnChanges, OnInit } from '@angular/core';
+import {
+  FormArray,
+  FormControl,
+  FormGroup,
+  ReactiveFormsModule,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatDialog } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { ActivatedRoute } from '@angular/router';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faCircleCheck,
+  faCircleXmark,
+  faPaperPlane,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { filter, finalize, merge, of, startWith, switchMap } from 'rxjs';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { ApiKeyInfo } from 'src/app/shared/types/api-keys';
+import { AccessForm, ServiceResponseObj } from 'src/app/shared/types/roles';
+import {
+  LiveAccessResult,
+  DfRoleSimulatorService,
+} from '../services/df-role-simulator.service';
+import {
+  REQUESTOR_MASKS,
+  SimulatedRequestor,
+  SimulatedVerb,
+  SimulationResult,
+  VERB_MASKS,
+  accessFromForm,
+  maskVerbs,
+  simulateAccess,
+} from '../utilities/permission-simulator';
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-role-simulator',
+  templateUrl: './df-role-simulator.component.html',
+  styleUrls: ['./df-role-simulator.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfRoleSimulatorComponent implements OnInit, OnChanges {
+  /** The role's access rows, simulated as currently edited */
+  @Input() formArray: FormArray;
+  @Input() visible: boolean[];
+  /** Saved roles can also be tried with a live request */
+  @Input() roleId: number | null = null;
+
+  form = new FormGroup({
+    service: new FormControl<number | null>(null),
+    path: new FormControl('', { nonNullable: true }),
+    verb: new FormControl<SimulatedVerb>('GET', { nonNullable: true }),
+    requestor: new FormControl<SimulatedRequestor>('API', {
+      nonNullable: true,
+    }),
+  });
+  apiKey = new FormControl<string | null>(null);
+
+  services: ServiceResponseObj[] = [];
+  verbs = Object.keys(VERB_MASKS) as SimulatedVerb[];
+  requestors = Object.keys(REQUESTOR_MASKS) as SimulatedRequestor[];
+  result: SimulationResult | null = null;
+  apiKeys: ApiKeyInfo[] = [];
+  live: LiveAccessResult | null = null;
+  sending = false;
+  isDarkMode = this.themeService.darkMode$;
+  faCircleCheck = faCircleCheck;
+  faCircleXmark = faCircleXmark;
+  faPaperPlane = faPaperPlane;
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private simulatorService: DfRoleSimulatorService,
+    private themeService: DfThemeService,
+    private dialog: MatDialog
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.data.subscribe(({ services }) => {
+      this.services = [...(services?.resource ?? [])].sort(
+        (a: ServiceResponseObj, b: ServiceResponseObj) =>
+          a.name.localeCompare(b.name)
+      );
+    });
+
+    merge(this.form.valueChanges, this.formArray.valueChanges)
+      .pipe(startWith(null), untilDestroyed(this))
+      .subscribe(() => this.simulate());
+  }
+
+  ngOnChanges(): void {
+    if (this.roleId) {
+      this.simulatorService
+        .appKeys(this.roleId)
+        .pipe(untilDestroyed(this))
+        .subscribe(keys => {
+          this.apiKeys = keys;
+          this.apiKey.setValue(keys[0]?.apiKey ?? null);
+        });
+    }
+  }
+
+  simulate(): void {
+    const { service, path, verb, requestor } = this.form.getRawValue();
+    this.live = null;
+    if (!service) {
+      this.result = null;
+      return;
+    }
+    const access = (this.formArray.getRawValue() as AccessForm[])
+      .filter((row, index) => this.visible[index] !== false)
+      .map(accessFromForm);
+    this.result = simulateAccess(access, {
+      serviceId: service,
+      path,
+      verb,
+      requestor,
+    });
+  }
+
+  serviceName(id: number | null): string {
+    return this.services.find(service => service.id === id)?.name ?? '';
+  }
+
+  verbNames(mask: number): string {
+    return maskVerbs(mask).join(', ');
+  }
+
+  requestorNames(mask: number): string {
+    return this.requestors
+      .filter(requestor => mask & REQUESTOR_MASKS[requestor])
+      .join(', ');
+  }
+
+  /**
+   * Sends the request as the app holding the selected key. Anything but GET
+   * may change data, so those are confirmed first.
+   */
+  sendLive(): void {
+    const { service, path, verb } = this.form.getRawValue();
+    const apiKey = this.apiKey.value;
+    if (!service || !apiKey) {
+      return;
+    }
+    const confirmed$ =
+      verb === 'GET'
+        ? of(true)
+        : this.dialog
+            .open(DfConfirmDialogComponent, {
+              data: {
+                title: 'roles.simulator.liveConfirmTitle',
+                message: 'roles.simulator.liveConfirm',
+              },
+            })
+            .afterClosed();
+    confirmed$
+      .pipe(
+        filter(Boolean),
+        switchMap(() => {
+          this.sending = true;
+          return this.simulatorService
+            .send(apiKey, this.serviceName(service), path, verb)
+            .pipe(finalize(() => (this.sending = false)));
+        }),
+        untilDestroyed(this)
+      )
+      .subscribe(live => (this.live = live));
+  }
+}
@@ -0,0 +1,119 @@
+import { Component, Inject } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+import {
+  AbstractControl,
+  FormControl,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { TranslocoPipe } from '@ngneat/transloco';
+import {
+  RoleCreatePayload,
+  RoleTemplate,
+  TemplateService,
+  defaultMapping,
+  instantiateTemplate,
+} from '../utilities/role-template';
+
+export interface RoleTemplateDialogData {
+  title: string;
+  template: RoleTemplate;
+  services: TemplateService[];
+  existingNames: string[];
+  name?: string;
+}
+
+@Component({
+  selector: 'df-role-template-dialog',
+  templateUrl: './df-role-template-dialog.component.html',
+  styleUrls: ['./df-role-template-dialog.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    TranslocoPipe,
+  ],
+})
+export class DfRoleTemplateDialogComponent {
+  nameControl = new FormControl(this.data.name ?? '', {
+    nonNullable: true,
+    validators: [
+      Validators.required,
+      (control: AbstractControl): ValidationErrors | null =>
+        this.data.existingNames.includes(control.value)
+          ? { nameExists: true }
+          : null,
+    ],
+  });
+  mapping = new FormGroup<Record<string, FormControl<number | null>>>({});
+  privateLookups = this.data.template.lookups.filter(lookup => lookup.private);
+  /** Private values can't be read back, so the new role gets them empty */
+  privateLookupNames = this.privateLookups
+    .map(lookup => lookup.name)
+    .join(', ');
+
+  constructor(
+    public dialogRef: MatDialogRef<
+      DfRoleTemplateDialogComponent,
+      RoleCreatePayload
+    >,
+    @Inject(MAT_DIALOG_DATA) public data: RoleTemplateDialogData
+  ) {
+    const defaults = defaultMapping(data.template, data.services);
+    data.template.placeholders.forEach(({ key }) =>
+      this.mapping.addControl(key, new FormControl(defaults[key] ?? null))
+    );
+  }
+
+  /** Services of the same type are listed first for each placeholder */
+  servicesFor(type?: string): TemplateService[] {
+    return [...this.data.services].sort(
+      (a, b) =>
+        Number(b.type === type) - Number(a.type === type) ||
+        a.name.localeCompare(b.name)
+    );
+  }
+
+  ruleCount(key: string): number {
+    return this.data.template.access.filter(rule => rule.placeholder === key)
+      .length;
+  }
+
+  get skipped(): number {
+    const mapping = this.mapping.getRawValue();
+    return this.data.template.access.filter(
+      rule => rule.placeholder && !mapping[rule.placeholder]
+    ).length;
+  }
+
+  onCreate(): void {
+    if (this.nameControl.invalid) return;
+    const mapping = this.mapping.getRawValue();
+    this.dialogRef.close(
+      instantiateTemplate(
+        this.data.template,
+        this.nameControl.value,
+        Object.fromEntries(
+          Object.entries(mapping).filter(([, id]) => id !== null)
+        ) as Record<string, number>
+      )
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { AsyncPipe, DatePipe, NgFor, NgIf } from '@angular/common';
+import { Component, Inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialog } from '@angular/material/dialog';
+import { ActivatedRoute, Router } from '@angular/router';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faPlus, faTrashCan } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { filter, forkJoin, map, switchMap } from 'rxjs';
+import {
+  ROLE_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import {
+  GenericCreateResponse,
+  GenericListResponse,
+} from 'src/app/shared/types/generic-http';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import {
+  DfRoleTemplateDialogComponent,
+  RoleTemplateDialogData,
+} from '../df-role-template-dialog/df-role-template-dialog.component';
+import { DfRoleTemplatesService } from '../services/df-role-templates.service';
+import {
+  RoleCreatePayload,
+  RoleTemplate,
+  TemplateService,
+} from '../utilities/role-template';
+
+/** Saved role templates, each of which can be turned into a new role */
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-role-templates',
+  templateUrl: './df-role-templates.component.html',
+  styleUrls: ['./df-role-templates.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    DatePipe,
+    MatButtonModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfRoleTemplatesComponent {
+  templates$ = this.templatesService.templates$;
+  isDarkMode = this.themeService.darkMode$;
+  faPlus = faPlus;
+  faTrashCan = faTrashCan;
+
+  constructor(
+    @Inject(ROLE_SERVICE_TOKEN) private roleService: DfBaseCrudService,
+    @Inject(SERVICES_SERVICE_TOKEN)
+    private servicesService: DfBaseCrudService,
+    private templatesService: DfRoleTemplatesService,
+    private themeService: DfThemeService,
+    private dialog: MatDialog,
+    private router: Router,
+    private activatedRoute: ActivatedRoute
+  ) {}
+
+  createRole(template: RoleTemplate): void {
+    forkJoin({
+      services: this.servicesService
+        .getAll<GenericListResponse<TemplateService>>({
+          fields: 'id,name,type',
+          limit: 0,
+          includeCount: false,
+        })
+        .pipe(map(services => services.resource)),
+      names: this.roleService
+        .getAll<GenericListResponse<{ name: string }>>({
+          fields: 'name',
+          limit: 0,
+          includeCount: false,
+        })
+        .pipe(map(roles => roles.resource.map(role => role.name))),
+    })
+      .pipe(
+        switchMap(({ services, names }) =>
+          this.dialog
+            .open<
+              DfRoleTemplateDialogComponent,
+              RoleTemplateDialogData,
+              RoleCreatePayload
+            >(DfRoleTemplateDialogComponent, {
+              width: '500px',
+              data: {
+                title: 'roles.templates.useTitle',
+                template,
+                services,
+                existingNames: names,
+              },
+            })
+            .afterClosed()
+        ),
+        filter((payload): payload is RoleCreatePayload => !!payload),
+        switchMap(payload =>
+          this.roleService.create<GenericCreateResponse>(
+            { resource: [payload] },
+            { snackbarSuccess: 'roles.templates.createSuccess' }
+          )
+        ),
+        untilDestroyed(this)
+      )
+      .subscribe(response =>
+        this.router.navigate([response.resource[0].id], {
+          relativeTo: this.activatedRoute,
+        })
+      );
+  }
+
+  deleteTemplate(template: RoleTemplate): void {
+    this.dialog
+      .open(DfConfirmDialogComponent, {
+        data: {
+          title: 'roles.templates.deleteTitle',
+          message: 'roles.templates.deleteConfirm',
+        },
+      })
+      .afterClosed()
+      .pipe(filter(Boolean))
+      .subscribe(() => this.templatesService.delete(template));
+  }
+}
@@ -0,0 +1,195 @@
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { Component, Inject, Input, OnInit } from '@angular/core';
+import {
+  AbstractControl,
+  FormArray,
+  FormControl,
+  ReactiveFormsModule,
+} from '@angular/forms';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faFilter } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { map, merge, of, startWith, switchMap } from 'rxjs';
+import { ROLE_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { AccessForm, RoleServiceAccessType } from 'src/app/shared/types/roles';
+import {
+  AccessComparison,
+  MaskPair,
+  compareAccess,
+  toggleBit,
+} from '../utilities/access-matrix';
+import {
+  REQUESTOR_MASKS,
+  SimulatedAccess,
+  VERB_MASKS,
+  accessFromForm,
+} from '../utilities/permission-simulator';
+
+interface CompareRole {
+  id: number;
+  name: string;
+  roleServiceAccessByRoleId?: RoleServiceAccessType[];
+}
+
+interface MatrixColumn {
+  label: string;
+  bit: number;
+  control: 'access' | 'requester';
+  mask: keyof MaskPair;
+}
+
+const COLUMNS: MatrixColumn[] = [
+  ...Object.entries(VERB_MASKS).map(([label, bit]) => ({
+    label,
+    bit,
+    control: 'access' as const,
+    mask: 'verbMask' as const,
+  })),
+  ...Object.entries(REQUESTOR_MASKS).map(([label, bit]) => ({
+    label,
+    bit,
+    control: 'requester' as const,
+    mask: 'requestorMask' as const,
+  })),
+];
+
+/**
+ * Shows a role's access rows as a grid of verbs and requestors. The
+ * checkboxes edit the same controls as the list view, and compare mode
+ * lines the rows up against another saved role.
+ */
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-roles-access-matrix',
+  templateUrl: './df-roles-access-matrix.component.html',
+  styleUrls: ['./df-roles-access-matrix.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    ReactiveFormsModule,
+    MatCheckboxModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfRolesAccessMatrixComponent implements OnInit {
+  @Input() formArray: FormArray;
+  @Input() visible: boolean[];
+  @Input() serviceOptions: Array<{ id: number; name: string }> = [];
+  /** The role being edited, left out of the roles to compare with */
+  @Input() roleId: number | null = null;
+
+  columns = COLUMNS;
+  verbColumns = COLUMNS.filter(column => column.control === 'access');
+  requestorColumns = COLUMNS.filter(column => column.control === 'requester');
+  compare = new FormControl(false, { nonNullable: true });
+  compareWith = new FormControl<number | null>(null);
+  roles: CompareRole[] = [];
+  comparison: AccessComparison[] = [];
+  isDarkMode = this.themeService.darkMode$;
+  faFilter = faFilter;
+
+  constructor(
+    @Inject(ROLE_SERVICE_TOKEN) private roleService: DfBaseCrudService,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnInit(): void {
+    this.compare.valueChanges
+      .pipe(
+        switchMap(compare =>
+          compare && !this.roles.length
+            ? this.roleService
+                .getAll<GenericListResponse<CompareRole>>({
+                  fields: 'id,name',
+                  related: 'role_service_access_by_role_id',
+                  limit: 0,
+                  includeCount: false,
+                })
+                .pipe(map(response => response.resource ?? []))
+            : of(this.roles)
+        ),
+        untilDestroyed(this)
+      )
+      .subscribe(roles => {
+        this.roles = roles.filter(role => role.id !== this.roleId);
+      });
+
+    merge(this.compareWith.valueChanges, this.formArray.valueChanges)
+      .pipe(startWith(null), untilDestroyed(this))
+      .subscribe(() => this.updateComparison());
+  }
+
+  /** Indexes into the form array of the rows that haven't been removed */
+  get rows(): number[] {
+    return this.formArray.controls
+      .map((control, index) => index)
+      .filter(index => this.visible[index] !== false);
+  }
+
+  row(index: number): AbstractControl {
+    return this.formArray.at(index);
+  }
+
+  serviceName(id: number | null): string {
+    return (
+      (id && this.serviceOptions.find(option => option.id === id)?.name) || ''
+    );
+  }
+
+  hasFilters(index: number): boolean {
+    return (this.row(index).get('advancedFilters')?.value ?? []).length > 0;
+  }
+
+  isChecked(index: number, column: MatrixColumn): boolean {
+    const bits = this.row(index).get(column.control)?.value;
+    return Array.isArray(bits) && bits.includes(column.bit);
+  }
+
+  toggle(index: number, column: MatrixColumn, on: boolean): void {
+    const control = this.row(index).get(column.control);
+    control?.setValue(toggleBit(control.value, column.bit, on));
+    control?.markAsDirty();
+  }
+
+  hasBit(pair: MaskPair | null, column: MatrixColumn): boolean {
+    return !!pair && (pair[column.mask] & column.bit) !== 0;
+  }
+
+  private updateComparison(): void {
+    const other = this.roles.find(role => role.id === this.compareWith.value);
+    if (!other) {
+      this.comparison = [];
+      return;
+    }
+    const current = this.rows.map(index =>
+      accessFromForm(this.row(index).value as AccessForm)
+    );
+    const saved: SimulatedAccess[] = (
+      other.roleServiceAccessByRoleId ?? []
+    ).map(access => ({
+      serviceId: access.serviceId,
+      component: access.component,
+      verbMask: access.verbMask,
+      requestorMask: access.requestorMask,
+      filters: access.filters ?? [],
+      filterOp: access.filterOp,
+    }));
+    this.comparison = compareAccess(current, saved);
+  }
+}
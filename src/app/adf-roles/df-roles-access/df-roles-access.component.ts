@@ -33,6 +33,8 @@ import {
   trigger,
 } from '@angular/animations';
 import { CommonModule } from '@angular/common';
+import { DfRolesAccessMatrixComponent } from '../df-roles-access-matrix/df-roles-access-matrix.component';
+import { DfRoleFilterBuilderComponent } from '../df-role-filter-builder/df-role-filter-builder.component';
 
 @UntilDestroy({ checkProperties: true })
 @Component({
@@ -54,6 +56,8 @@ import { CommonModule } from '@angular/common';
     CommonModule,
     MatButtonToggleModule,
     FormsModule,
+    DfRolesAccessMatrixComponent,
+    DfRoleFilterBuilderComponent,
   ],
   animations: [
     trigger('detailExpand', [
@@ -72,6 +76,7 @@ export class DfRolesAccessComponent implements OnInit {
   @Input() visible: boolean[];
   rootForm: FormGroup;
   serviceAccess: FormArray;
+  view: 'list' | 'matrix' = 'list';
   dataSource: MatTableDataSource<any>;
   displayedColumns = [
     'service',
@@ -103,21 +108,6 @@ export class DfRolesAccessComponent implements OnInit {
     { value: 2, label: 'SCRIPT' },
   ];
 
-  operatorOptions = [
-    { value: '=', label: '=' },
-    { value: '!=', label: '!=' },
-    { value: '>', label: '>' },
-    { value: '<', label: '<' },
-    { value: '>=', label: '>=' },
-    { value: '<=', label: '<=' },
-    { value: 'in', label: 'in' },
-    { value: 'not in', label: 'not in' },
-    { value: 'start with', label: 'start with' },
-    { value: 'end with', label: 'end with' },
-    { value: 'contains', label: 'contains' },
-    { value: 'is null', label: 'is null' },
-    { value: 'is not null', label: 'is not null' },
-  ];
   form: FormGroup;
   constructor(
     private activatedRoute: ActivatedRoute,
@@ -269,13 +259,22 @@ export class DfRolesAccessComponent implements OnInit {
 
   expandedElement$ = new BehaviorSubject<number | 1>(1);
   expandedElement: number | null = null;
-  toggleRow(element: any, index: number) {
+  toggleRow(element: any) {
     this.expandedElement = this.expandedElement === element ? null : element;
-    if (this.expandedElement) {
-      if (this.getAdvancedFilters(index).length === 0) {
-        this.addAdvancedFilter(index);
-      }
-    }
+  }
+
+  serviceName(index: number): string {
+    const serviceId = this.formArray.at(index).get('service')?.value;
+    return (
+      this.serviceOptions.find(service => service.id === serviceId)?.name || ''
+    );
+  }
+
+  /** Lookup keys of the role, offered as filter values */
+  get lookupKeyNames(): string[] {
+    return (this.roleForm.get('lookupKeys')?.value ?? []).map(
+      (lookup: { name: string }) => lookup.name
+    );
   }
 
   accessChange(index: number, value: number[]) {
@@ -315,27 +314,6 @@ export class DfRolesAccessComponent implements OnInit {
     return this.formArray.controls[index].get('advancedFilters') as FormArray;
   }
 
-  addAdvancedFilter(index: number) {
-    const advancedFilters = this.getAdvancedFilters(index);
-    advancedFilters.push(
-      new FormGroup({
-        expandField: new FormControl('', Validators.required),
-        expandOperator: new FormControl('', Validators.required),
-        expandValue: new FormControl('', Validators.required),
-        filterOp: new FormControl('AND'),
-      })
-    );
-    this.updateDataSource();
-  }
-
-  removeAdvancedFilter(serviceAccessIdx: number, filterIdx: number) {
-    this.getAdvancedFilters(serviceAccessIdx).removeAt(filterIdx);
-    if (this.getAdvancedFilters(serviceAccessIdx).length === 0) {
-      this.expandedElement = null;
-    }
-    this.updateDataSource();
-  }
-
   remove(index: number) {
     if (index >= 0 && index < this.formArray.length) {
       // Find the actual form array index for the nth visible item BEFORE updating visible array
@@ -409,12 +387,6 @@ export class DfRolesAccessComponent implements OnInit {
       .get('advancedFilters') as FormArray;
     filters.removeAt(filterIndex);
   }
-
-  filterOpChange(event: any, i: number) {
-    this.getAdvancedFilters(i).controls.forEach(filters => {
-      filters.get('filterOp')?.setValue(event.value);
-    });
-  }
 }
 
 interface ComponentOption {
@@ -0,0 +1,93 @@
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+} from '@angular/common/http';
+import { Inject, Injectable } from '@angular/core';
+import { Observable, catchError, map, of } from 'rxjs';
+import { API_KEY_HEADER } from 'src/app/shared/constants/http-headers';
+import { APP_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { BASE_URL } from 'src/app/shared/constants/urls';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { ApiKeyInfo } from 'src/app/shared/types/api-keys';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { SimulatedVerb } from '../utilities/permission-simulator';
+
+/** Longest part of a response body kept for display */
+const MAX_BODY_LENGTH = 2000;
+
+export interface LiveAccessResult {
+  status: number;
+  /** Round trip in milliseconds */
+  duration: number;
+  body: string;
+}
+
+/**
+ * Backs the role simulator with real requests. These go to an absolute URL
+ * with only an app's API key, so the interceptors don't add the admin's
+ * session and the server applies the role bound to the app.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DfRoleSimulatorService {
+  constructor(
+    private http: HttpClient,
+    @Inject(APP_SERVICE_TOKEN) private appService: DfBaseCrudService
+  ) {}
+
+  /** Keys of the apps whose default role is `roleId` */
+  appKeys(roleId: number): Observable<ApiKeyInfo[]> {
+    return this.appService
+      .getAll<GenericListResponse<ApiKeyInfo>>({
+        filter: `role_id=${roleId}`,
+        fields: 'name,api_key',
+        limit: 0,
+        includeCount: false,
+        snackbarError: undefined,
+        additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+      })
+      .pipe(
+        map(response => (response.resource ?? []).filter(app => app.apiKey)),
+        catchError(() => of([]))
+      );
+  }
+
+  send(
+    apiKey: string,
+    serviceName: string,
+    path: string,
+    verb: SimulatedVerb
+  ): Observable<LiveAccessResult> {
+    const url = `${window.location.origin}${BASE_URL}/${serviceName}/${path.replace(/^\/+/, '')}`;
+    const start = performance.now();
+    const result = (status: number, body: string) => ({
+      status,
+      duration: Math.round(performance.now() - start),
+      body: body.slice(0, MAX_BODY_LENGTH),
+    });
+    return this.http
+      .request(verb, url, {
+        headers: new HttpHeaders({ [API_KEY_HEADER]: apiKey }),
+        observe: 'response',
+        responseType: 'text',
+      })
+      .pipe(
+        map((response: HttpResponse<string>) =>
+          result(response.status, response.body ?? '')
+        ),
+        catchError((err: HttpErrorResponse) =>
+          of(
+            result(
+              err.status,
+              typeof err.error === 'string'
+                ? err.error
+                : JSON.stringify(err.error ?? err.message)
+            )
+          )
+        )
+      );
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { RoleTemplate } from '../utilities/role-template';
+
+const ROLE_TEMPLATES_KEY = 'roleTemplates';
+
+/** Role templates saved in local storage, by name */
+@Injectable({ providedIn: 'root' })
+export class DfRoleTemplatesService {
+  private templatesSubject = new BehaviorSubject<RoleTemplate[]>(this.read());
+  templates$ = this.templatesSubject.asObservable();
+
+  /** Saves a template, replacing an existing one with the same name */
+  save(template: RoleTemplate): void {
+    this.write(
+      [
+        ...this.templatesSubject.value.filter(t => t.name !== template.name),
+        template,
+      ].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }
+
+  delete(template: RoleTemplate): void {
+    this.write(
+      this.templatesSubject.value.filter(t => t.name !== template.name)
+    );
+  }
+
+  private read(): RoleTemplate[] {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(ROLE_TEMPLATES_KEY) || '[]'
+      );
+      return Array.isArray(stored) ? stored : [];
+    } catch (_) {
+      return [];
+    }
+  }
+
+  private write(templates: RoleTemplate[]): void {
+    localStorage.setItem(ROLE_TEMPLATES_KEY, JSON.stringify(templates));
+    this.templatesSubject.next(templates);
+  }
+}
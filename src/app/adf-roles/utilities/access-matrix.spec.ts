@@ -0,0 +1,54 @@
+import { compareAccess, toggleBit } from './access-matrix';
+import { SimulatedAccess } from './permission-simulator';
+
+const rule = (access: Partial<SimulatedAccess>): SimulatedAccess => ({
+  serviceId: 5,
+  component: '*',
+  verbMask: 1,
+  requestorMask: 1,
+  filters: [],
+  filterOp: 'AND',
+  ...access,
+});
+
+describe('toggleBit', () => {
+  it('adds and removes a bit from the list the form stores', () => {
+    expect(toggleBit([16, 1], 4, true)).toEqual([16, 4, 1]);
+    expect(toggleBit([16, 4, 1], 4, true)).toEqual([16, 4, 1]);
+    expect(toggleBit([16, 4, 1], 16, false)).toEqual([4, 1]);
+    expect(toggleBit('' as unknown as number[], 1, true)).toEqual([1]);
+  });
+});
+
+describe('compareAccess', () => {
+  it('lines up the rules of two roles', () => {
+    const rows = compareAccess(
+      [
+        rule({ component: '_table/*', verbMask: 1 }),
+        rule({ component: '_table/*', verbMask: 2 }),
+        rule({
+          serviceId: null,
+          component: '*',
+          verbMask: 31,
+          requestorMask: 3,
+        }),
+      ],
+      [
+        rule({ component: '_table/*', verbMask: 3 }),
+        rule({
+          serviceId: 6,
+          filters: [{ name: 'owner', operator: '=', value: '1' }],
+        }),
+      ]
+    );
+    expect(
+      rows.map(row => [row.serviceId, row.component, row.differs, row.filtered])
+    ).toEqual([
+      [5, '_table/*', false, false],
+      [null, '*', true, false],
+      [6, '*', true, true],
+    ]);
+    expect(rows[0].left).toEqual({ verbMask: 3, requestorMask: 1 });
+    expect(rows[1].right).toBeNull();
+  });
+});
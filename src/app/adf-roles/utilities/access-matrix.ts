@@ -0,0 +1,65 @@
+import { SimulatedAccess } from './permission-simulator';
+
+/** Bits of `verbMask` or `requestorMask` set for an access row */
+export type MaskPair = Pick<SimulatedAccess, 'verbMask' | 'requestorMask'>;
+
+export interface AccessComparison {
+  serviceId: number | null;
+  component: string;
+  /** Missing when the role has no rule for the service and component */
+  left: MaskPair | null;
+  right: MaskPair | null;
+  filtered: boolean;
+  differs: boolean;
+}
+
+/** The form stores masks as the list of bits that are set */
+export function toggleBit(bits: number[], bit: number, on: boolean): number[] {
+  const rest = (Array.isArray(bits) ? bits : []).filter(value => value !== bit);
+  return on ? [...rest, bit].sort((a, b) => b - a) : rest;
+}
+
+function key(access: Pick<SimulatedAccess, 'serviceId' | 'component'>) {
+  return `${access.serviceId ?? 0}|${access.component ?? ''}`;
+}
+
+function merge(pair: MaskPair | null, access: SimulatedAccess): MaskPair {
+  return {
+    verbMask: (pair?.verbMask ?? 0) | access.verbMask,
+    requestorMask: (pair?.requestorMask ?? 0) | access.requestorMask,
+  };
+}
+
+/**
+ * Lines up the access rules of two roles by service and component. Rules
+ * repeated within a role are combined, and rows are flagged when the roles
+ * grant different verbs or requestors.
+ */
+export function compareAccess(
+  left: SimulatedAccess[],
+  right: SimulatedAccess[]
+): AccessComparison[] {
+  const rows = new Map<string, AccessComparison>();
+  const add = (access: SimulatedAccess, side: 'left' | 'right') => {
+    const row = rows.get(key(access)) ?? {
+      serviceId: access.serviceId || null,
+      component: access.component ?? '',
+      left: null,
+      right: null,
+      filtered: false,
+      differs: false,
+    };
+    row[side] = merge(row[side], access);
+    row.filtered = row.filtered || !!access.filters?.length;
+    rows.set(key(access), row);
+  };
+  left.forEach(access => add(access, 'left'));
+  right.forEach(access => add(access, 'right'));
+
+  return [...rows.values()].map(row => ({
+    ...row,
+    differs:
+      row.left?.verbMask !== row.right?.verbMask ||
+      row.left?.requestorMask !== row.right?.requestorMask,
+  }));
+}
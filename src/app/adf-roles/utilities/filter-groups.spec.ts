@@ -0,0 +1,99 @@
+import {
+  condition,
+  fromApiFilters,
+  group,
+  previewFilter,
+  toApiFilters,
+} from './filter-groups';
+
+const nested = group('OR', [
+  condition('owner', '=', '{user.id}'),
+  group('AND', [
+    condition('region', 'in', "('eu', 'us')"),
+    condition('status', '=', "'public'"),
+    condition('deleted_at', 'is null'),
+  ]),
+]);
+
+describe('toApiFilters', () => {
+  it('keeps flat groups as plain filters', () => {
+    expect(
+      toApiFilters(
+        group('AND', [
+          condition('owner', '=', '{user.id}'),
+          condition('', '=', ''),
+          group('OR'),
+        ])
+      )
+    ).toEqual({
+      filterOp: 'AND',
+      filters: [{ name: 'owner', operator: '=', value: '{user.id}' }],
+    });
+  });
+
+  it('stores nested groups so the server builds the same expression', () => {
+    const { filters, filterOp } = toApiFilters(nested);
+    expect(filterOp).toBe('OR');
+    expect(filters).toEqual([
+      { name: 'owner', operator: '=', value: '{user.id}' },
+      {
+        name: 'region',
+        operator: 'in',
+        value: "('eu', 'us') AND status = 'public' AND deleted_at is null",
+      },
+    ]);
+    expect(previewFilter(nested)).toBe(
+      "(owner = {user.id}) OR (region in ('eu', 'us') AND status = 'public' AND deleted_at is null)"
+    );
+  });
+
+  it('keeps deeper groups in parentheses', () => {
+    expect(
+      previewFilter(
+        group('AND', [
+          condition('tenant', '=', '{user.tenant}'),
+          group('OR', [
+            condition('owner', '=', '{user.id}'),
+            group('AND', [
+              condition('shared', '=', 'true'),
+              condition('archived', '=', 'false'),
+            ]),
+          ]),
+        ])
+      )
+    ).toBe(
+      '(tenant = {user.tenant}) AND (owner = {user.id} OR (shared = true AND archived = false))'
+    );
+  });
+
+  it('rejects nested groups that do not start with a compared condition', () => {
+    expect(() =>
+      toApiFilters(
+        group('OR', [
+          condition('owner', '=', '{user.id}'),
+          group('AND', [
+            condition('deleted_at', 'is null'),
+            condition('status', '=', "'public'"),
+          ]),
+        ])
+      )
+    ).toThrow();
+  });
+});
+
+describe('fromApiFilters', () => {
+  it('reads nested groups back', () => {
+    const { filters, filterOp } = toApiFilters(nested);
+    const parsed = fromApiFilters(filters, filterOp);
+    expect(parsed.logic).toBe('OR');
+    expect(parsed.children[1]).toEqual(nested.children[1]);
+    expect(toApiFilters(parsed)).toEqual({ filters, filterOp });
+  });
+
+  it('keeps filters it cannot parse as they are', () => {
+    const filters = [{ name: 'lower(name)', operator: '=', value: "'a'" }];
+    expect(fromApiFilters(filters, 'AND').children).toEqual([
+      condition('lower(name)', '=', "'a'"),
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+import { AccessFilter, filterString } from './permission-simulator';
+
+export type FilterLogic = 'AND' | 'OR';
+
+export interface FilterCondition {
+  kind: 'condition';
+  field: string;
+  operator: string;
+  value: string;
+}
+
+export interface FilterGroup {
+  kind: 'group';
+  logic: FilterLogic;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const FILTER_OPERATORS = [
+  '=',
+  '!=',
+  '>',
+  '<',
+  '>=',
+  '<=',
+  'in',
+  'not in',
+  'start with',
+  'end with',
+  'contains',
+  'is null',
+  'is not null',
+];
+
+/** Session values the server substitutes into filter values */
+export const USER_PLACEHOLDERS = [
+  '{user.id}',
+  '{user.name}',
+  '{user.email}',
+  '{user.first_name}',
+  '{user.last_name}',
+  '{user.display_name}',
+];
+
+export function hasValue(operator: string): boolean {
+  return !/^is (not )?null$/i.test(operator);
+}
+
+export function isComplete(condition: FilterCondition): boolean {
+  return (
+    !!condition.field &&
+    !!condition.operator &&
+    (!hasValue(condition.operator) || condition.value !== '')
+  );
+}
+
+export function condition(
+  field = '',
+  operator = '=',
+  value = ''
+): FilterCondition {
+  return { kind: 'condition', field, operator, value };
+}
+
+export function group(
+  logic: FilterLogic = 'AND',
+  children: FilterNode[] = []
+): FilterGroup {
+  return { kind: 'group', logic, children };
+}
+
+/**
+ * Drops incomplete conditions and empty groups, and unwraps groups left
+ * with a single child.
+ */
+function prune(node: FilterNode): FilterNode | null {
+  if (node.kind === 'condition') {
+    return isComplete(node) ? node : null;
+  }
+  const children = node.children
+    .map(prune)
+    .filter((child): child is FilterNode => !!child);
+  if (!children.length) return null;
+  return children.length === 1 ? children[0] : { ...node, children };
+}
+
+function conditionText(condition: FilterCondition): string {
+  return hasValue(condition.operator)
+    ? `${condition.field} ${condition.operator} ${condition.value}`
+    : `${condition.field} ${condition.operator}`;
+}
+
+/** The children of a group joined by its logic, with subgroups in parentheses */
+function groupText(node: FilterGroup): string {
+  return node.children
+    .map(child =>
+      child.kind === 'condition'
+        ? conditionText(child)
+        : `(${groupText(child)})`
+    )
+    .join(` ${node.logic} `);
+}
+
+/**
+ * The server only joins the filters of an access rule with one `filterOp`,
+ * building `(name operator value) filterOp (name operator value)` and then
+ * parsing that as a record filter. A nested group is therefore stored as one
+ * filter that holds its filter text: `name` and `operator` are those of the
+ * group's first condition, and `value` is the value of that condition
+ * followed by the rest of the group, e.g. `region in ('eu') AND status = 1`
+ * becomes `region`, `in` and `('eu') AND status = 1`. The name stays a real
+ * field and lookups stay in the value, where the server substitutes them.
+ * This needs the group to start with a condition that has a value.
+ */
+function encodeGroup(node: FilterGroup): AccessFilter {
+  const [first] = node.children;
+  if (first.kind !== 'condition' || !hasValue(first.operator)) {
+    throw new Error('A nested group has to start with a compared condition');
+  }
+  const text = groupText(node);
+  return {
+    name: first.field,
+    operator: first.operator,
+    value: text.slice(`${first.field} ${first.operator} `.length),
+  };
+}
+
+export function toApiFilters(root: FilterGroup): {
+  filters: AccessFilter[];
+  filterOp: FilterLogic;
+} {
+  const pruned = prune(root);
+  const top =
+    !pruned || pruned.kind === 'condition'
+      ? group(root.logic, pruned ? [pruned] : [])
+      : pruned;
+  return {
+    filterOp: top.logic,
+    filters: top.children.map(child =>
+      child.kind === 'condition'
+        ? {
+            name: child.field,
+            operator: child.operator,
+            value: hasValue(child.operator) ? child.value : '',
+          }
+        : encodeGroup(child)
+    ),
+  };
+}
+
+/** The record filter the server builds from a group */
+export function previewFilter(root: FilterGroup): string {
+  const { filters, filterOp } = toApiFilters(root);
+  return filterString(filters, filterOp);
+}
+
+/** Splits text at top level logical operators, outside parentheses and quotes */
+function splitTopLevel(text: string): { parts: string[]; ops: string[] } {
+  const parts: string[] = [];
+  const ops: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0) {
+      const match = /^\s+(AND|OR)\s+/i.exec(text.slice(i));
+      if (match) {
+        parts.push(text.slice(start, i).trim());
+        ops.push(match[1].toUpperCase());
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return { parts, ops };
+}
+
+/** Whether the opening parenthesis at the start closes at the very end */
+function isWrapped(text: string): boolean {
+  if (!text.startsWith('(') || !text.endsWith(')')) return false;
+  let depth = 0;
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i === text.length - 1;
+    }
+  }
+  return false;
+}
+
+function parseCondition(text: string): FilterCondition | null {
+  const lower = text.toLowerCase();
+  let best: { index: number; operator: string } | null = null;
+  for (const operator of FILTER_OPERATORS) {
+    const token = ` ${operator} `;
+    let index = lower.indexOf(token);
+    if (index === -1 && !hasValue(operator) && lower.endsWith(` ${operator}`)) {
+      index = lower.length - operator.length - 1;
+    }
+    if (
+      index > 0 &&
+      (!best ||
+        index < best.index ||
+        (index === best.index && operator.length > best.operator.length))
+    ) {
+      best = { index, operator };
+    }
+  }
+  if (!best) return null;
+  return condition(
+    text.slice(0, best.index).trim(),
+    best.operator,
+    text.slice(best.index + best.operator.length + 2).trim()
+  );
+}
+
+function parseNode(text: string): FilterNode | null {
+  const { parts, ops } = splitTopLevel(text.trim());
+  if (parts.length === 1) {
+    return isWrapped(parts[0])
+      ? parseNode(parts[0].slice(1, -1))
+      : parseCondition(parts[0]);
+  }
+  // Groups written by the builder never mix operators on one level
+  if (new Set(ops).size > 1) return null;
+  const children = parts.map(parseNode);
+  return children.every(child => child)
+    ? group(ops[0] as FilterLogic, children as FilterNode[])
+    : null;
+}
+
+/**
+ * Reads the filters of an access rule back into groups. A filter is only
+ * read as a group when its text parses as one, other filters stay as they
+ * are, so saving them again doesn't change them.
+ */
+export function fromApiFilters(
+  filters: AccessFilter[],
+  filterOp?: string
+): FilterGroup {
+  return group(
+    filterOp?.toUpperCase() === 'OR' ? 'OR' : 'AND',
+    filters.map(filter => {
+      const raw = condition(filter.name, filter.operator, filter.value ?? '');
+      const parsed = parseNode(filterString([filter], 'AND').slice(1, -1));
+      return parsed?.kind === 'group' ? parsed : raw;
+    })
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  SimulatedAccess,
+  filterString,
+  matchComponent,
+  simulateAccess,
+} from './permission-simulator';
+
+const rule = (access: Partial<SimulatedAccess>): SimulatedAccess => ({
+  serviceId: 5,
+  component: '*',
+  verbMask: 31,
+  requestorMask: 3,
+  filters: [],
+  filterOp: 'AND',
+  ...access,
+});
+
+describe('matchComponent', () => {
+  it('ranks exact matches over wildcards over *', () => {
+    expect(matchComponent('_table/orders/5', '/_table/orders/5')).toEqual({
+      kind: 'exact',
+      length: 15,
+    });
+    expect(matchComponent('_table/orders/*', '_table/orders/5')).toEqual({
+      kind: 'wildcard',
+      length: 14,
+    });
+    expect(matchComponent('_table/*', '_table/orders/5')?.kind).toBe(
+      'wildcard'
+    );
+    expect(matchComponent('*', '_table/orders/5')?.kind).toBe('service');
+    expect(matchComponent('_table/customers/*', '_table/orders/5')).toBeNull();
+  });
+});
+
+describe('simulateAccess', () => {
+  it('lets the most specific rule decide the verbs', () => {
+    const access = [
+      rule({ component: '*' }),
+      rule({ component: '_table/orders/*', verbMask: 1 }),
+    ];
+    const request = {
+      serviceId: 5,
+      path: '_table/orders/5',
+      requestor: 'API' as const,
+    };
+    expect(simulateAccess(access, { ...request, verb: 'GET' }).allowed).toBe(
+      true
+    );
+    const patch = simulateAccess(access, { ...request, verb: 'PATCH' });
+    expect(patch.allowed).toBe(false);
+    expect(patch.kind).toBe('wildcard');
+    expect(patch.matches.map(match => [match.index, match.decisive])).toEqual([
+      [1, true],
+      [0, false],
+    ]);
+  });
+
+  it('ignores rules for other requestors and services', () => {
+    const access = [
+      rule({ component: '_table/*', requestorMask: 1 }),
+      rule({ serviceId: 6 }),
+      rule({ serviceId: null, verbMask: 1, requestorMask: 2 }),
+    ];
+    const result = simulateAccess(access, {
+      serviceId: 5,
+      path: '_table/orders',
+      verb: 'GET',
+      requestor: 'SCRIPT',
+    });
+    expect(result.allowed).toBe(true);
+    expect(result.kind).toBe('allServices');
+    expect(result.matches.map(match => match.index)).toEqual([0, 2]);
+  });
+
+  it('returns the filters of the granting rules', () => {
+    const filters = [
+      { name: 'owner', operator: '=', value: '{user.id}' },
+      { name: 'deleted_at', operator: 'is null', value: '' },
+    ];
+    const result = simulateAccess(
+      [rule({ component: '_table/orders', filters, filterOp: 'OR' })],
+      { serviceId: 5, path: '_table/orders', verb: 'GET', requestor: 'API' }
+    );
+    expect(result.filters).toEqual(filters);
+    expect(result.filterString).toBe(
+      '(owner = {user.id}) OR (deleted_at is null)'
+    );
+    expect(filterString([], 'AND')).toBe('');
+  });
+});
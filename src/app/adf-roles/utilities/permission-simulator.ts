@@ -0,0 +1,206 @@
+import { AccessForm } from 'src/app/shared/types/roles';
+
+export const VERB_MASKS = {
+  GET: 1,
+  POST: 2,
+  PUT: 4,
+  PATCH: 8,
+  DELETE: 16,
+} as const;
+
+export const REQUESTOR_MASKS = {
+  API: 1,
+  SCRIPT: 2,
+} as const;
+
+export type SimulatedVerb = keyof typeof VERB_MASKS;
+export type SimulatedRequestor = keyof typeof REQUESTOR_MASKS;
+
+export interface AccessFilter {
+  name: string;
+  operator: string;
+  value: string;
+}
+
+/** An access rule of the role, as saved in `roleServiceAccessByRoleId` */
+export interface SimulatedAccess {
+  /** null grants the component on every service */
+  serviceId: number | null;
+  component: string;
+  verbMask: number;
+  requestorMask: number;
+  filters: AccessFilter[];
+  filterOp: string;
+}
+
+/**
+ * How closely a rule matches, from most to least specific. Only the rules
+ * of the most specific match decide the verbs, so an exact rule without
+ * DELETE denies it even when a `*` rule grants it.
+ */
+export type MatchKind = 'exact' | 'wildcard' | 'service' | 'allServices';
+
+export interface AccessMatch {
+  /** Position of the rule in the role's access list */
+  index: number;
+  access: SimulatedAccess;
+  kind: MatchKind | null;
+  requestorAllowed: boolean;
+  verbAllowed: boolean;
+  /** True for the rules of the most specific match */
+  decisive: boolean;
+}
+
+export interface SimulationRequest {
+  serviceId: number;
+  path: string;
+  verb: SimulatedVerb;
+  requestor: SimulatedRequestor;
+}
+
+export interface SimulationResult {
+  allowed: boolean;
+  kind: MatchKind | null;
+  matches: AccessMatch[];
+  filters: AccessFilter[];
+  filterOp: string;
+  /** The record filter the server adds to the request, if any */
+  filterString: string;
+}
+
+const KIND_RANK: Record<MatchKind, number> = {
+  exact: 3,
+  wildcard: 2,
+  service: 1,
+  allServices: 0,
+};
+
+function normalizePath(path: string): string {
+  return path
+    .trim()
+    .replace(/^\/+|\/+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Matches a rule's component against a request path, returning how specific
+ * the match is. Wildcard components like `_table/*` match anything below
+ * them, and longer wildcards win over shorter ones.
+ */
+export function matchComponent(
+  component: string,
+  path: string
+): { kind: 'exact' | 'wildcard' | 'service'; length: number } | null {
+  const rule = normalizePath(component ?? '');
+  const target = normalizePath(path);
+  if (rule === '*') {
+    return { kind: 'service', length: 0 };
+  }
+  if (rule === target) {
+    return { kind: 'exact', length: rule.length };
+  }
+  if (rule.endsWith('/*')) {
+    const prefix = rule.slice(0, -1);
+    if (target.startsWith(prefix) || target === prefix.slice(0, -1)) {
+      return { kind: 'wildcard', length: prefix.length };
+    }
+  }
+  return null;
+}
+
+export function filterString(
+  filters: AccessFilter[],
+  filterOp: string
+): string {
+  return filters
+    .filter(filter => filter.name && filter.operator)
+    .map(filter =>
+      /^is (not )?null$/i.test(filter.operator)
+        ? `(${filter.name} ${filter.operator})`
+        : `(${filter.name} ${filter.operator} ${filter.value ?? ''})`
+    )
+    .join(` ${filterOp || 'AND'} `);
+}
+
+/**
+ * Resolves what a role allows for a request the way the server does: rules
+ * for other requestors are ignored, then the verbs of the most specific
+ * matching rules decide. Rules for the service itself beat rules that
+ * apply to all services.
+ */
+export function simulateAccess(
+  access: SimulatedAccess[],
+  request: SimulationRequest
+): SimulationResult {
+  const verb = VERB_MASKS[request.verb];
+  const requestor = REQUESTOR_MASKS[request.requestor];
+  const ranked = access.map((rule, index) => {
+    const component = matchComponent(rule.component, request.path);
+    let kind: MatchKind | null = null;
+    if (component && rule.serviceId === request.serviceId) {
+      kind = component.kind;
+    } else if (component?.kind === 'service' && !rule.serviceId) {
+      kind = 'allServices';
+    }
+    return {
+      index,
+      access: rule,
+      kind,
+      rank: kind ? KIND_RANK[kind] * 10000 + (component?.length ?? 0) : -1,
+      requestorAllowed: (rule.requestorMask & requestor) !== 0,
+      verbAllowed: (rule.verbMask & verb) !== 0,
+    };
+  });
+
+  const best = Math.max(
+    -1,
+    ...ranked.filter(rule => rule.requestorAllowed).map(rule => rule.rank)
+  );
+  const matches: AccessMatch[] = ranked
+    .filter(rule => rule.kind)
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .map(({ rank, ...rule }) => ({
+      ...rule,
+      decisive: best >= 0 && rank === best && rule.requestorAllowed,
+    }));
+  const granting = matches.filter(match => match.decisive && match.verbAllowed);
+  const filters = granting.flatMap(match => match.access.filters ?? []);
+  const filterOp = granting.find(match => match.access.filters?.length)?.access
+    .filterOp;
+
+  return {
+    allowed: granting.length > 0,
+    kind: matches.find(match => match.decisive)?.kind ?? null,
+    matches,
+    filters,
+    filterOp: filterOp || 'AND',
+    filterString: filterString(filters, filterOp || 'AND'),
+  };
+}
+
+// New rows start with an empty string until verbs are picked
+const sum = (values: number[] | string) =>
+  Array.isArray(values) ? values.reduce((acc, cur) => acc + cur, 0) : 0;
+
+/** Turns a row of the role form into the rule it saves as */
+export function accessFromForm(row: AccessForm): SimulatedAccess {
+  return {
+    serviceId: row.service || null,
+    component: String(row.component ?? ''),
+    verbMask: sum(row.access),
+    requestorMask: sum(row.requester),
+    filters: (row.advancedFilters ?? []).map(filter => ({
+      name: filter.expandField,
+      operator: filter.expandOperator,
+      value: filter.expandValue,
+    })),
+    filterOp: row.advancedFilters?.[0]?.filterOp ?? 'AND',
+  };
+}
+
+/** Names of the verbs set in a verb mask */
+export function maskVerbs(mask: number): SimulatedVerb[] {
+  return (Object.keys(VERB_MASKS) as SimulatedVerb[]).filter(
+    verb => mask & VERB_MASKS[verb]
+  );
+}
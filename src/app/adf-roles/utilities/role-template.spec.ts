@@ -0,0 +1,76 @@
+import { RoleServiceAccessType } from 'src/app/shared/types/roles';
+import {
+  defaultMapping,
+  instantiateTemplate,
+  toRoleTemplate,
+} from './role-template';
+
+const services = [
+  { id: 5, name: 'tenant_a_db', type: 'mysql' },
+  { id: 6, name: 'files', type: 'local_file' },
+  { id: 9, name: 'tenant_b_db', type: 'mysql' },
+];
+
+const role = {
+  name: 'analyst',
+  description: 'Read-only analyst',
+  roleServiceAccessByRoleId: [
+    {
+      serviceId: 5,
+      component: '_table/*',
+      verbMask: 1,
+      requestorMask: 1,
+      filters: [{ name: 'tenant', operator: '=', value: 'a' }],
+      filterOp: 'AND',
+    },
+    { serviceId: 6, component: '*', verbMask: 1, requestorMask: 3 },
+    { serviceId: null, component: '*', verbMask: 1, requestorMask: 2 },
+  ] as unknown as RoleServiceAccessType[],
+  lookupByRoleId: [
+    { name: 'region', value: 'eu', private: false },
+    { name: 'secret', value: '**********', private: true },
+  ],
+};
+
+describe('toRoleTemplate', () => {
+  it('refers to services by placeholder and drops private values', () => {
+    const template = toRoleTemplate(role, services);
+    expect(template.placeholders).toEqual([
+      { key: 'tenant_a_db', type: 'mysql' },
+      { key: 'files', type: 'local_file' },
+    ]);
+    expect(template.access.map(rule => rule.placeholder)).toEqual([
+      'tenant_a_db',
+      'files',
+      null,
+    ]);
+    expect(template.lookups.map(lookup => lookup.value)).toEqual(['eu', '']);
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('points the rules at the mapped services', () => {
+    const template = toRoleTemplate(role, services);
+    expect(defaultMapping(template, services)).toEqual({
+      tenant_a_db: 5,
+      files: 6,
+    });
+    const payload = instantiateTemplate(template, 'analyst_b', {
+      tenant_a_db: 9,
+    });
+    expect(payload.name).toBe('analyst_b');
+    expect(
+      payload.roleServiceAccessByRoleId.map(rule => [
+        rule.serviceId,
+        rule.component,
+      ])
+    ).toEqual([
+      [9, '_table/*'],
+      [null, '*'],
+    ]);
+    expect(payload.roleServiceAccessByRoleId[0].filters).toEqual([
+      { name: 'tenant', operator: '=', value: 'a' },
+    ]);
+    expect(payload.lookupByRoleId).toHaveLength(2);
+  });
+});
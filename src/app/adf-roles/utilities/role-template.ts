@@ -0,0 +1,141 @@
+import { RolePayload, RoleServiceAccessType } from 'src/app/shared/types/roles';
+import { AccessFilter } from './permission-simulator';
+
+/** What a role needs to know about the services its rules point at */
+export interface TemplateService {
+  id: number;
+  name: string;
+  type?: string;
+}
+
+export interface TemplateAccess {
+  /** Name of the service the rule was saved with, null for all services */
+  placeholder: string | null;
+  component: string;
+  verbMask: number;
+  requestorMask: number;
+  filters: AccessFilter[];
+  filterOp: string;
+}
+
+export interface TemplateLookup {
+  name: string;
+  /** Private values can't be read back, so they are left empty */
+  value: string;
+  private: boolean;
+  description?: string;
+}
+
+export interface RoleTemplate {
+  name: string;
+  description: string;
+  savedAt: string;
+  /** One entry for every service the access rules refer to */
+  placeholders: Array<{ key: string; type?: string }>;
+  access: TemplateAccess[];
+  lookups: TemplateLookup[];
+}
+
+export interface TemplateSourceRole {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  roleServiceAccessByRoleId?: RoleServiceAccessType[];
+  lookupByRoleId?: TemplateLookup[];
+}
+
+/** Maps each placeholder of a template to the id of a real service */
+export type ServiceMapping = Record<string, number>;
+
+export type RoleCreatePayload = Omit<
+  RolePayload,
+  'id' | 'roleServiceAccessByRoleId' | 'lookupByRoleId'
+> & {
+  roleServiceAccessByRoleId: Array<
+    Omit<TemplateAccess, 'placeholder'> & { serviceId: number | null }
+  >;
+  lookupByRoleId: TemplateLookup[];
+};
+
+/**
+ * Turns a role into a template whose access rules refer to services by a
+ * placeholder instead of an id, so it can be pointed at other services.
+ */
+export function toRoleTemplate(
+  role: TemplateSourceRole,
+  services: TemplateService[],
+  name = role.name
+): RoleTemplate {
+  const byId = new Map(services.map(service => [service.id, service]));
+  const placeholderOf = (serviceId: number | null) =>
+    serviceId ? (byId.get(serviceId)?.name ?? `service_${serviceId}`) : null;
+  const access = (role.roleServiceAccessByRoleId ?? []).map(rule => ({
+    placeholder: placeholderOf(rule.serviceId),
+    component: rule.component,
+    verbMask: rule.verbMask,
+    requestorMask: rule.requestorMask,
+    filters: (rule.filters ?? []).map(filter => ({
+      name: filter.name,
+      operator: filter.operator,
+      value: filter.value,
+    })),
+    filterOp: rule.filterOp || 'AND',
+  }));
+  const keys = [
+    ...new Set(
+      access.map(rule => rule.placeholder).filter((key): key is string => !!key)
+    ),
+  ];
+  return {
+    name,
+    description: role.description ?? '',
+    savedAt: new Date().toISOString(),
+    placeholders: keys.map(key => ({
+      key,
+      type: services.find(service => service.name === key)?.type,
+    })),
+    access,
+    lookups: (role.lookupByRoleId ?? []).map(lookup => ({
+      name: lookup.name,
+      value: lookup.private ? '' : lookup.value,
+      private: lookup.private,
+      description: lookup.description,
+    })),
+  };
+}
+
+/** Suggests the service with the placeholder's name, if it still exists */
+export function defaultMapping(
+  template: RoleTemplate,
+  services: TemplateService[]
+): Partial<ServiceMapping> {
+  return Object.fromEntries(
+    template.placeholders.map(({ key }) => [
+      key,
+      services.find(service => service.name === key)?.id,
+    ])
+  );
+}
+
+/**
+ * Builds a new role from a template. Rules whose placeholder isn't mapped
+ * are left out rather than granted on the wrong service.
+ */
+export function instantiateTemplate(
+  template: RoleTemplate,
+  name: string,
+  mapping: Partial<ServiceMapping>
+): RoleCreatePayload {
+  return {
+    name,
+    description: template.description,
+    isActive: true,
+    roleServiceAccessByRoleId: template.access
+      .filter(rule => !rule.placeholder || mapping[rule.placeholder])
+      .map(({ placeholder, ...rule }) => ({
+        ...rule,
+        serviceId: placeholder ? (mapping[placeholder] as number) : null,
+      })),
+    lookupByRoleId: template.lookups.map(lookup => ({ ...lookup })),
+  };
+}
@@ -0,0 +1,324 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  OnInit,
+  ViewChild,
+} from '@angular/core';
+import { AsyncPipe, DecimalPipe, NgFor, NgIf } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faArrowLeft,
+  faDownload,
+  faExpand,
+  faMagnifyingGlassMinus,
+  faMagnifyingGlassPlus,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { saveAsFile, saveRawAsFile } from 'src/app/shared/utilities/file';
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+import {
+  ErBox,
+  ErColumn,
+  ErDiagram,
+  ErEdge,
+  HEADER_HEIGHT,
+  ROW_HEIGHT,
+  edgePath,
+  layoutDiagram,
+  toMermaid,
+} from './er-diagram';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2;
+/** Pointer travel, in pixels, below which a drag still counts as a click */
+const CLICK_TOLERANCE = 4;
+
+interface DiagramColors {
+  background: string;
+  box: string;
+  header: string;
+  headerText: string;
+  text: string;
+  muted: string;
+  border: string;
+  belongsTo: string;
+  manyMany: string;
+}
+
+const LIGHT_COLORS: DiagramColors = {
+  background: '#ffffff',
+  box: '#ffffff',
+  header: '#3f51b5',
+  headerText: '#ffffff',
+  text: '#212121',
+  muted: '#9e9e9e',
+  border: '#c5cae9',
+  belongsTo: '#5c6bc0',
+  manyMany: '#ef6c00',
+};
+
+const DARK_COLORS: DiagramColors = {
+  background: '#1e1e1e',
+  box: '#2c2c2c',
+  header: '#5c6bc0',
+  headerText: '#ffffff',
+  text: '#e0e0e0',
+  muted: '#9e9e9e',
+  border: '#424242',
+  belongsTo: '#9fa8da',
+  manyMany: '#ffb74d',
+};
+
+interface DrawnEdge extends ErEdge {
+  path: string;
+}
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-er-diagram',
+  templateUrl: './df-er-diagram.component.html',
+  styleUrls: ['./df-er-diagram.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    DecimalPipe,
+    MatButtonModule,
+    MatMenuModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfErDiagramComponent implements OnInit, AfterViewInit {
+  @ViewChild('canvas') canvas: ElementRef<SVGSVGElement>;
+
+  faArrowLeft = faArrowLeft;
+  faDownload = faDownload;
+  faExpand = faExpand;
+  faMagnifyingGlassMinus = faMagnifyingGlassMinus;
+  faMagnifyingGlassPlus = faMagnifyingGlassPlus;
+
+  headerHeight = HEADER_HEIGHT;
+  rowHeight = ROW_HEIGHT;
+
+  serviceName = '';
+  tables: TableDetailsType[] = [];
+  diagram: ErDiagram = { boxes: [], edges: [], width: 0, height: 0 };
+  edges: DrawnEdge[] = [];
+  colors = LIGHT_COLORS;
+  isDarkMode = this.themeService.darkMode$;
+
+  scale = 1;
+  translateX = 0;
+  translateY = 0;
+
+  private dragStart: { x: number; y: number } | null = null;
+  private dragOrigin = { x: 0, y: 0 };
+  private dragged = false;
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private router: Router,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnInit(): void {
+    this.serviceName = this.activatedRoute.snapshot.paramMap.get('name') ?? '';
+    this.activatedRoute.data
+      .pipe(untilDestroyed(this))
+      .subscribe(({ data }) => {
+        this.tables = data ?? [];
+        this.diagram = layoutDiagram(this.tables);
+        const boxes = new Map(this.diagram.boxes.map(box => [box.name, box]));
+        this.edges = this.diagram.edges.map(edge => ({
+          ...edge,
+          path: edgePath(boxes.get(edge.from)!, boxes.get(edge.to)!, edge),
+        }));
+      });
+    this.isDarkMode
+      .pipe(untilDestroyed(this))
+      .subscribe(dark => (this.colors = dark ? DARK_COLORS : LIGHT_COLORS));
+  }
+
+  ngAfterViewInit(): void {
+    // Wait a tick so the container has its final size
+    setTimeout(() => this.fit());
+  }
+
+  get dragging(): boolean {
+    return !!this.dragStart && this.dragged;
+  }
+
+  get transform(): string {
+    return `translate(${this.translateX} ${this.translateY}) scale(${this.scale})`;
+  }
+
+  fit(): void {
+    const rect = this.canvas?.nativeElement.getBoundingClientRect();
+    if (!rect?.width || !this.diagram.width) return;
+    this.scale = this.clampScale(
+      Math.min(
+        rect.width / this.diagram.width,
+        rect.height / this.diagram.height,
+        1
+      )
+    );
+    this.translateX = (rect.width - this.diagram.width * this.scale) / 2;
+    this.translateY = (rect.height - this.diagram.height * this.scale) / 2;
+  }
+
+  zoomIn(): void {
+    this.zoomAtCenter(ZOOM_STEP);
+  }
+
+  zoomOut(): void {
+    this.zoomAtCenter(1 / ZOOM_STEP);
+  }
+
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    const rect = this.canvas.nativeElement.getBoundingClientRect();
+    this.zoomAt(
+      event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+      event.clientX - rect.left,
+      event.clientY - rect.top
+    );
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    if (event.button !== 0) return;
+    this.dragStart = { x: event.clientX, y: event.clientY };
+    this.dragOrigin = { x: this.translateX, y: this.translateY };
+    this.dragged = false;
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (!this.dragStart) return;
+    const dx = event.clientX - this.dragStart.x;
+    const dy = event.clientY - this.dragStart.y;
+    if (!this.dragged && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+    if (!this.dragged) {
+      this.dragged = true;
+      this.canvas.nativeElement.setPointerCapture?.(event.pointerId);
+    }
+    this.translateX = this.dragOrigin.x + dx;
+    this.translateY = this.dragOrigin.y + dy;
+  }
+
+  onPointerUp(): void {
+    this.dragStart = null;
+  }
+
+  openTable(box: ErBox): void {
+    // A pan that ended over a table shouldn't navigate away
+    if (this.dragged) {
+      this.dragged = false;
+      return;
+    }
+    this.router.navigate(['..', box.name], {
+      relativeTo: this.activatedRoute,
+    });
+  }
+
+  goBack(): void {
+    this.router.navigate(['..'], { relativeTo: this.activatedRoute });
+  }
+
+  keyLabel(column: ErColumn): string {
+    return [column.isPrimaryKey ? 'PK' : '', column.isForeignKey ? 'FK' : '']
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  truncate(text: string, length: number): string {
+    return text && text.length > length
+      ? `${text.slice(0, length - 1)}…`
+      : text;
+  }
+
+  trackByName(index: number, box: ErBox): string {
+    return box.name;
+  }
+
+  exportSvg(): void {
+    saveAsFile(
+      new Blob([this.serializeSvg()], { type: 'image/svg+xml' }),
+      `${this.serviceName}-er-diagram.svg`
+    );
+  }
+
+  exportPng(): void {
+    const url = URL.createObjectURL(
+      new Blob([this.serializeSvg()], { type: 'image/svg+xml' })
+    );
+    const image = new Image();
+    image.onload = () => {
+      const ratio = 2;
+      const canvas = document.createElement('canvas');
+      canvas.width = this.diagram.width * ratio;
+      canvas.height = this.diagram.height * ratio;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      context.scale(ratio, ratio);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) {
+          saveAsFile(blob, `${this.serviceName}-er-diagram.png`);
+        }
+      }, 'image/png');
+    };
+    image.src = url;
+  }
+
+  exportMermaid(): void {
+    saveRawAsFile(
+      toMermaid(this.tables),
+      `${this.serviceName}-er-diagram.mmd`,
+      'text'
+    );
+  }
+
+  /** Standalone copy of the whole diagram, independent of the current zoom and pan */
+  private serializeSvg(): string {
+    const clone = this.canvas.nativeElement.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(this.diagram.width));
+    clone.setAttribute('height', String(this.diagram.height));
+    clone.setAttribute(
+      'viewBox',
+      `0 0 ${this.diagram.width} ${this.diagram.height}`
+    );
+    clone.removeAttribute('class');
+    clone.querySelector('.viewport')?.removeAttribute('transform');
+    return new XMLSerializer().serializeToString(clone);
+  }
+
+  private zoomAtCenter(factor: number): void {
+    const rect = this.canvas.nativeElement.getBoundingClientRect();
+    this.zoomAt(factor, rect.width / 2, rect.height / 2);
+  }
+
+  /** Zoom keeping the diagram point under (x, y) in place */
+  private zoomAt(factor: number, x: number, y: number): void {
+    const scale = this.clampScale(this.scale * factor);
+    const applied = scale / this.scale;
+    this.translateX = x - (x - this.translateX) * applied;
+    this.translateY = y - (y - this.translateY) * applied;
+    this.scale = scale;
+  }
+
+  private clampScale(scale: number): number {
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+  }
+}
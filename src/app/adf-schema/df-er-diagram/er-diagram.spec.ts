@@ -0,0 +1,147 @@
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+import { buildEdges, layoutDiagram, toMermaid } from './er-diagram';
+
+function table(
+  name: string,
+  fields: Array<{ name: string; pk?: boolean; fk?: boolean }>,
+  related: Array<Record<string, string>> = []
+): TableDetailsType {
+  return {
+    name,
+    label: name,
+    field: fields.map(f => ({
+      name: f.name,
+      type: 'integer',
+      dbType: 'int',
+      isPrimaryKey: !!f.pk,
+      isForeignKey: !!f.fk,
+    })),
+    related,
+  } as unknown as TableDetailsType;
+}
+
+const customers = table(
+  'customers',
+  [{ name: 'id', pk: true }, { name: 'email' }],
+  [
+    {
+      type: 'has_many',
+      field: 'id',
+      refTable: 'orders',
+      refField: 'customer_id',
+    },
+  ]
+);
+const orders = table(
+  'orders',
+  [
+    { name: 'id', pk: true },
+    { name: 'customer_id', fk: true },
+  ],
+  [
+    {
+      type: 'belongs_to',
+      field: 'customer_id',
+      refTable: 'customers',
+      refField: 'id',
+    },
+    {
+      type: 'many_many',
+      field: 'id',
+      refTable: 'products',
+      refField: 'id',
+      junctionTable: 'order_items',
+    },
+  ]
+);
+const products = table(
+  'products',
+  [{ name: 'id', pk: true }],
+  [
+    {
+      type: 'many_many',
+      field: 'id',
+      refTable: 'orders',
+      refField: 'id',
+      junctionTable: 'order_items',
+    },
+    {
+      type: 'belongs_to',
+      field: 'vendor_id',
+      refTable: 'vendors',
+      refField: 'id',
+    },
+  ]
+);
+const settings = table('settings', [{ name: 'key', pk: true }]);
+
+describe('buildEdges', () => {
+  it('merges both sides of a relationship into one edge', () => {
+    const edges = buildEdges([customers, orders, products]);
+    expect(edges).toEqual([
+      {
+        kind: 'belongs_to',
+        from: 'orders',
+        fromField: 'customer_id',
+        to: 'customers',
+        toField: 'id',
+      },
+      {
+        kind: 'many_many',
+        from: 'orders',
+        fromField: 'id',
+        to: 'products',
+        toField: 'id',
+        junctionTable: 'order_items',
+      },
+    ]);
+  });
+
+  it('skips relationships to tables outside the diagram', () => {
+    expect(buildEdges([products])).toEqual([]);
+  });
+});
+
+describe('layoutDiagram', () => {
+  it('places referenced tables left of the tables pointing at them', () => {
+    const { boxes } = layoutDiagram([orders, customers]);
+    const x = (name: string) => boxes.find(b => b.name === name)!.x;
+    expect(x('customers')).toBeLessThan(x('orders'));
+  });
+
+  it('shows key columns and counts the rest', () => {
+    const { boxes } = layoutDiagram([customers]);
+    expect(boxes[0].columns.map(c => c.name)).toEqual(['id']);
+    expect(boxes[0].hiddenCount).toBe(1);
+  });
+
+  it('puts unrelated tables after the related ones', () => {
+    const { boxes } = layoutDiagram([settings, customers, orders]);
+    const x = (name: string) => boxes.find(b => b.name === name)!.x;
+    expect(x('settings')).toBeGreaterThan(x('orders'));
+  });
+
+  it('does not loop on circular references', () => {
+    const a = table(
+      'a',
+      [{ name: 'b_id', fk: true }],
+      [{ type: 'belongs_to', field: 'b_id', refTable: 'b', refField: 'id' }]
+    );
+    const b = table(
+      'b',
+      [{ name: 'a_id', fk: true }],
+      [{ type: 'belongs_to', field: 'a_id', refTable: 'a', refField: 'id' }]
+    );
+    expect(layoutDiagram([a, b]).boxes.length).toBe(2);
+  });
+});
+
+describe('toMermaid', () => {
+  it('writes entities and relationships', () => {
+    const text = toMermaid([customers, orders, products]);
+    expect(text).toContain('erDiagram');
+    expect(text).toContain('    integer customer_id FK');
+    expect(text).toContain('  orders }o--|| customers : "customer_id"');
+    expect(text).toContain('  orders }o--o{ products : "order_items"');
+  });
+});
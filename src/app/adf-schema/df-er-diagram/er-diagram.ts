@@ -0,0 +1,272 @@
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+
+export const BOX_WIDTH = 220;
+export const HEADER_HEIGHT = 30;
+export const ROW_HEIGHT = 20;
+const BOX_PADDING = 8;
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+
+export interface ErColumn {
+  name: string;
+  type: string;
+  isPrimaryKey: boolean;
+  isForeignKey: boolean;
+}
+
+export interface ErBox {
+  name: string;
+  label: string;
+  /** Key columns drawn in the box */
+  columns: ErColumn[];
+  /** Number of other columns left out */
+  hiddenCount: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ErEdgeKind = 'belongs_to' | 'many_many';
+
+/**
+ * One relationship line. has_many/has_one entries are the reverse side of
+ * a belongs_to and are normalized to it, so each foreign key is drawn once.
+ */
+export interface ErEdge {
+  kind: ErEdgeKind;
+  from: string;
+  fromField: string;
+  to: string;
+  toField: string;
+  junctionTable?: string;
+}
+
+export interface ErDiagram {
+  boxes: ErBox[];
+  edges: ErEdge[];
+  width: number;
+  height: number;
+}
+
+export function buildEdges(tables: TableDetailsType[]): ErEdge[] {
+  const names = new Set(tables.map(t => t.name));
+  const edges = new Map<string, ErEdge>();
+
+  for (const table of tables) {
+    for (const rel of table.related || []) {
+      if (!names.has(rel.refTable)) continue;
+      let edge: ErEdge;
+      if (rel.type === 'belongs_to') {
+        edge = {
+          kind: 'belongs_to',
+          from: table.name,
+          fromField: rel.field,
+          to: rel.refTable,
+          toField: rel.refField,
+        };
+      } else if (rel.type === 'has_many' || rel.type === 'has_one') {
+        edge = {
+          kind: 'belongs_to',
+          from: rel.refTable,
+          fromField: rel.refField,
+          to: table.name,
+          toField: rel.field,
+        };
+      } else if (rel.type === 'many_many') {
+        // Draw each junction once regardless of which side lists it
+        const [a, b] = [table.name, rel.refTable].sort();
+        const forward = a === table.name;
+        edge = {
+          kind: 'many_many',
+          from: a,
+          fromField: forward ? rel.field : rel.refField,
+          to: b,
+          toField: forward ? rel.refField : rel.field,
+          junctionTable: rel.junctionTable,
+        };
+      } else {
+        continue;
+      }
+      const key =
+        edge.kind === 'many_many'
+          ? `mm:${edge.from}:${edge.to}:${edge.junctionTable}`
+          : `bt:${edge.from}.${edge.fromField}:${edge.to}.${edge.toField}`;
+      if (!edges.has(key)) edges.set(key, edge);
+    }
+  }
+  return Array.from(edges.values());
+}
+
+/**
+ * Layered layout: referenced tables sit to the left of the tables that
+ * point at them, and each column is ordered by its neighbours' positions
+ * to keep lines short.
+ */
+export function layoutDiagram(tables: TableDetailsType[]): ErDiagram {
+  const edges = buildEdges(tables);
+  const parents = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.kind !== 'belongs_to' || edge.from === edge.to) continue;
+    parents.set(edge.from, [...(parents.get(edge.from) || []), edge.to]);
+  }
+
+  // Longest path to a root, ignoring cycles
+  const rank = new Map<string, number>();
+  const visiting = new Set<string>();
+  const rankOf = (name: string): number => {
+    if (rank.has(name)) return rank.get(name)!;
+    if (visiting.has(name)) return 0;
+    visiting.add(name);
+    const r = Math.max(-1, ...(parents.get(name) || []).map(rankOf)) + 1;
+    visiting.delete(name);
+    rank.set(name, r);
+    return r;
+  };
+  tables.forEach(t => rankOf(t.name));
+
+  // Unrelated tables go into a grid after the connected ones
+  const connected = new Set(edges.flatMap(e => [e.from, e.to]));
+  const columns: string[][] = [];
+  const loose: string[] = [];
+  for (const table of [...tables].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  )) {
+    if (!connected.has(table.name)) {
+      loose.push(table.name);
+      continue;
+    }
+    const r = rank.get(table.name) ?? 0;
+    (columns[r] ||= []).push(table.name);
+  }
+  const start = columns.length;
+  const perColumn = Math.max(1, Math.ceil(Math.sqrt(loose.length)));
+  loose.forEach((name, i) =>
+    (columns[start + Math.floor(i / perColumn)] ||= []).push(name)
+  );
+
+  const neighbours = new Map<string, string[]>();
+  for (const edge of edges) {
+    neighbours.set(edge.from, [...(neighbours.get(edge.from) || []), edge.to]);
+    neighbours.set(edge.to, [...(neighbours.get(edge.to) || []), edge.from]);
+  }
+  const position = new Map<string, number>();
+  columns.forEach((col, ci) => {
+    if (ci > 0) {
+      const weight = (name: string) => {
+        const placed = (neighbours.get(name) || [])
+          .map(n => position.get(n))
+          .filter((p): p is number => p !== undefined);
+        return placed.length
+          ? placed.reduce((a, b) => a + b, 0) / placed.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      col.sort((a, b) => weight(a) - weight(b));
+    }
+    col.forEach((name, i) => position.set(name, i));
+  });
+
+  const byName = new Map(tables.map(t => [t.name, t]));
+  const boxes: ErBox[] = [];
+  let height = 0;
+  columns.forEach((col, ci) => {
+    let y = ROW_GAP;
+    for (const name of col) {
+      const box = toBox(byName.get(name)!, ci * (BOX_WIDTH + COLUMN_GAP), y);
+      box.x += COLUMN_GAP / 2;
+      boxes.push(box);
+      y += box.height + ROW_GAP;
+    }
+    height = Math.max(height, y);
+  });
+
+  return {
+    boxes,
+    edges,
+    width: columns.length * (BOX_WIDTH + COLUMN_GAP),
+    height,
+  };
+}
+
+function toBox(table: TableDetailsType, x: number, y: number): ErBox {
+  const fields = table.field || [];
+  const columns = fields
+    .filter(f => f.isPrimaryKey || f.isForeignKey)
+    .map(f => ({
+      name: f.name,
+      type: f.dbType || f.type,
+      isPrimaryKey: f.isPrimaryKey,
+      isForeignKey: f.isForeignKey,
+    }));
+  const hiddenCount = fields.length - columns.length;
+  const rows = columns.length + (hiddenCount > 0 ? 1 : 0);
+  return {
+    name: table.name,
+    label: table.label || table.name,
+    columns,
+    hiddenCount,
+    x,
+    y,
+    width: BOX_WIDTH,
+    height: HEADER_HEIGHT + rows * ROW_HEIGHT + BOX_PADDING,
+  };
+}
+
+/** Vertical centre of a column row in a box, or of the header if not shown */
+export function anchorY(box: ErBox, field: string): number {
+  const index = box.columns.findIndex(c => c.name === field);
+  return index < 0
+    ? box.y + HEADER_HEIGHT / 2
+    : box.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+}
+
+/** Bezier path between the facing sides of two boxes */
+export function edgePath(from: ErBox, to: ErBox, edge: ErEdge): string {
+  const y1 = anchorY(from, edge.fromField);
+  const y2 = anchorY(to, edge.toField);
+  if (from === to) {
+    const x = from.x + from.width;
+    return `M ${x} ${y1} C ${x + 40} ${y1}, ${x + 40} ${y2}, ${x} ${y2}`;
+  }
+  const leftToRight = from.x + from.width / 2 <= to.x + to.width / 2;
+  const x1 = leftToRight ? from.x + from.width : from.x;
+  const x2 = leftToRight ? to.x : to.x + to.width;
+  const bend = Math.max(40, Math.abs(x2 - x1) / 2) * (leftToRight ? 1 : -1);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+function mermaidName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/** Mermaid `erDiagram` source for the tables and their relationships */
+export function toMermaid(tables: TableDetailsType[]): string {
+  const lines = ['erDiagram'];
+  for (const table of tables) {
+    lines.push(`  ${mermaidName(table.name)} {`);
+    for (const field of table.field || []) {
+      const keys = [
+        field.isPrimaryKey ? 'PK' : '',
+        field.isForeignKey ? 'FK' : '',
+      ]
+        .filter(Boolean)
+        .join(',');
+      lines.push(
+        `    ${mermaidName(field.type || 'string')} ${mermaidName(field.name)}${
+          keys ? ' ' + keys : ''
+        }`
+      );
+    }
+    lines.push('  }');
+  }
+  for (const edge of buildEdges(tables)) {
+    const from = mermaidName(edge.from);
+    const to = mermaidName(edge.to);
+    lines.push(
+      edge.kind === 'many_many'
+        ? `  ${from} }o--o{ ${to} : "${edge.junctionTable ?? ''}"`
+        : `  ${from} }o--|| ${to} : "${edge.fromField}"`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
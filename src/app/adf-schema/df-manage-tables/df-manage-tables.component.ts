@@ -0,0 +1,57 @@
+import { Component, inject } from '@angular/core';
+import { AsyncPipe } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faCodeCompare,
+  faDiagramProject,
+  faFileImport,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { ROUTES } from 'src/app/shared/types/routes';
+import { DfManageTablesTableComponent } from '../df-manage-tables-table/df-manage-tables-table.component';
+
+@Component({
+  selector: 'df-manage-tables',
+  templateUrl: './df-manage-tables.component.html',
+  styleUrls: ['./df-manage-tables.component.scss'],
+  standalone: true,
+  imports: [
+    DfManageTablesTableComponent,
+    MatButtonModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+    AsyncPipe,
+  ],
+})
+export class DfManageTablesComponent {
+  themeService = inject(DfThemeService);
+  router = inject(Router);
+  activatedRoute = inject(ActivatedRoute);
+  faDiagramProject = faDiagramProject;
+  faCodeCompare = faCodeCompare;
+  faFileImport = faFileImport;
+  isDarkMode = this.themeService.darkMode$;
+
+  openImport() {
+    this.router.navigate([ROUTES.IMPORT], {
+      relativeTo: this.activatedRoute,
+    });
+  }
+
+  openDiagram() {
+    this.router.navigate([ROUTES.ER_DIAGRAM], {
+      relativeTo: this.activatedRoute,
+    });
+  }
+
+  openCompare() {
+    this.router.navigate([ROUTES.SCHEMA_COMPARE], {
+      relativeTo: this.activatedRoute,
+    });
+  }
+}
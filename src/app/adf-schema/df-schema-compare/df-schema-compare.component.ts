@@ -0,0 +1,364 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { AsyncPipe, JsonPipe, NgFor, NgIf } from '@angular/common';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faArrowLeft,
+  faArrowRightArrowLeft,
+  faCamera,
+  faCheck,
+  faXmark,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { Observable, forkJoin, of } from 'rxjs';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import { BASE_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { Service } from 'src/app/shared/types/service';
+import { readAsText, saveRawAsFile } from 'src/app/shared/utilities/file';
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+import { fetchFullSchema } from '../utilities/full-schema';
+import {
+  MigrationStep,
+  PropertyChange,
+  TableDiff,
+  buildMigration,
+  diffSchemas,
+  selectableKeys,
+} from './schema-diff';
+
+/** Source option that compares against a previously downloaded snapshot */
+const SNAPSHOT_SOURCE = '__snapshot__';
+
+interface SchemaSnapshot {
+  service: string;
+  createdAt: string;
+  tables: TableDetailsType[];
+}
+
+interface StepResult {
+  status: 'pending' | 'done' | 'failed';
+  error?: string;
+}
+
+/** Outcome of a step of the last applied migration, kept across re-diffs */
+interface AppliedStep {
+  step: MigrationStep;
+  status: 'done' | 'failed' | 'skipped';
+  error?: string;
+}
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-schema-compare',
+  templateUrl: './df-schema-compare.component.html',
+  styleUrls: ['./df-schema-compare.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    JsonPipe,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatDialogModule,
+    MatExpansionModule,
+    MatFormFieldModule,
+    MatMenuModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfSchemaCompareComponent implements OnInit {
+  faArrowLeft = faArrowLeft;
+  faArrowRightArrowLeft = faArrowRightArrowLeft;
+  faCamera = faCamera;
+  faCheck = faCheck;
+  faXmark = faXmark;
+  snapshotSource = SNAPSHOT_SOURCE;
+  isDarkMode = this.themeService.darkMode$;
+
+  compareForm = new FormGroup({
+    source: new FormControl('', { nonNullable: true }),
+    target: new FormControl('', { nonNullable: true }),
+  });
+
+  services: Array<Partial<Service>> = [];
+  snapshot: SchemaSnapshot | null = null;
+  diffs: TableDiff[] | null = null;
+  selected = new Set<string>();
+  steps: MigrationStep[] = [];
+  results: StepResult[] = [];
+  applied: AppliedStep[] | null = null;
+  loading = false;
+  applying = false;
+  error: string | null = null;
+  invalidSnapshot = false;
+
+  constructor(
+    @Inject(BASE_SERVICE_TOKEN)
+    private crudService: DfBaseCrudService,
+    private activatedRoute: ActivatedRoute,
+    private router: Router,
+    private dialog: MatDialog,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.data
+      .pipe(untilDestroyed(this))
+      .subscribe(({ services }) => {
+        this.services = services?.resource ?? [];
+      });
+    const name = this.activatedRoute.snapshot.paramMap.get('name') ?? '';
+    this.compareForm.patchValue({
+      source: name,
+      target: this.services.find(s => s.name !== name)?.name ?? '',
+    });
+    this.compareForm.valueChanges
+      .pipe(untilDestroyed(this))
+      .subscribe(() => this.reset());
+  }
+
+  get canCompare(): boolean {
+    const { source, target } = this.compareForm.getRawValue();
+    return (
+      !!source &&
+      !!target &&
+      source !== target &&
+      (source !== SNAPSHOT_SOURCE || !!this.snapshot)
+    );
+  }
+
+  goBack(): void {
+    this.router.navigate(['..'], { relativeTo: this.activatedRoute });
+  }
+
+  swap(): void {
+    const { source, target } = this.compareForm.getRawValue();
+    if (source === SNAPSHOT_SOURCE) return;
+    this.compareForm.setValue({ source: target, target: source });
+  }
+
+  compare(): void {
+    if (!this.canCompare) return;
+    const { source, target } = this.compareForm.getRawValue();
+    const source$: Observable<TableDetailsType[]> =
+      source === SNAPSHOT_SOURCE && this.snapshot
+        ? of(this.snapshot.tables)
+        : fetchFullSchema(this.crudService, source, true);
+    this.loading = true;
+    this.error = null;
+    forkJoin([source$, fetchFullSchema(this.crudService, target, true)])
+      .pipe(untilDestroyed(this))
+      .subscribe({
+        next: ([sourceTables, targetTables]) => {
+          this.loading = false;
+          this.diffs = diffSchemas(sourceTables, targetTables);
+          this.selected = new Set();
+          this.updateSteps();
+        },
+        error: err => {
+          this.loading = false;
+          this.error = err?.error?.error?.message || 'Failed to load schema';
+        },
+      });
+  }
+
+  downloadSnapshot(): void {
+    const { source } = this.compareForm.getRawValue();
+    if (!source || source === SNAPSHOT_SOURCE) return;
+    this.error = null;
+    fetchFullSchema(this.crudService, source, true)
+      .pipe(untilDestroyed(this))
+      .subscribe({
+        next: tables => {
+          const snapshot: SchemaSnapshot = {
+            service: source,
+            createdAt: new Date().toISOString(),
+            tables,
+          };
+          saveRawAsFile(
+            JSON.stringify(snapshot, null, 2),
+            `${source}-schema-${snapshot.createdAt.slice(0, 10)}.json`,
+            'json'
+          );
+        },
+        error: err => {
+          this.error = err?.error?.error?.message || 'Failed to load schema';
+        },
+      });
+  }
+
+  loadSnapshot(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    readAsText(file).subscribe(text => {
+      input.value = '';
+      try {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed?.tables)) throw new Error();
+        this.snapshot = parsed;
+        this.invalidSnapshot = false;
+        this.compareForm.patchValue({ source: SNAPSHOT_SOURCE });
+      } catch (e) {
+        this.snapshot = null;
+        this.invalidSnapshot = true;
+      }
+    });
+  }
+
+  isSelected(key: string): boolean {
+    return this.selected.has(key);
+  }
+
+  toggle(key: string): void {
+    if (this.selected.has(key)) {
+      this.selected.delete(key);
+    } else {
+      this.selected.add(key);
+    }
+    this.updateSteps();
+  }
+
+  tableKeys(diff: TableDiff): string[] {
+    return selectableKeys([diff]);
+  }
+
+  tableChecked(diff: TableDiff): boolean {
+    const keys = this.tableKeys(diff);
+    return keys.length > 0 && keys.every(key => this.selected.has(key));
+  }
+
+  tableIndeterminate(diff: TableDiff): boolean {
+    const keys = this.tableKeys(diff);
+    return keys.some(key => this.selected.has(key)) && !this.tableChecked(diff);
+  }
+
+  toggleTable(diff: TableDiff): void {
+    const checked = this.tableChecked(diff);
+    this.tableKeys(diff).forEach(key =>
+      checked ? this.selected.delete(key) : this.selected.add(key)
+    );
+    this.updateSteps();
+  }
+
+  selectAll(select: boolean): void {
+    this.selected = new Set(select ? selectableKeys(this.diffs ?? []) : []);
+    this.updateSteps();
+  }
+
+  formatChange(change: PropertyChange): string {
+    const format = (value: unknown) =>
+      value === null ? 'null' : JSON.stringify(value);
+    return `${change.property}: ${format(change.target)} → ${format(
+      change.source
+    )}`;
+  }
+
+  apply(): void {
+    if (!this.steps.length) return;
+    this.dialog
+      .open(DfConfirmDialogComponent, {
+        data: {
+          title: 'schema.compare.applyTitle',
+          message: 'schema.compare.applyConfirm',
+        },
+      })
+      .afterClosed()
+      .subscribe(result => {
+        if (result) {
+          this.applying = true;
+          this.applied = null;
+          this.results = this.steps.map(() => ({ status: 'pending' }));
+          this.runStep(0);
+        }
+      });
+  }
+
+  dismissApplied(): void {
+    this.applied = null;
+  }
+
+  /** Steps run one at a time and stop at the first failure */
+  private runStep(index: number): void {
+    if (index >= this.steps.length) {
+      this.finishApply();
+      return;
+    }
+    this.request(this.steps[index]).subscribe({
+      next: () => {
+        this.results[index] = { status: 'done' };
+        this.runStep(index + 1);
+      },
+      error: err => {
+        this.results[index] = {
+          status: 'failed',
+          error: err?.error?.error?.message || 'Request failed',
+        };
+        this.finishApply();
+      },
+    });
+  }
+
+  /** Keeps the outcome of every step, then diffs again to show what is left */
+  private finishApply(): void {
+    this.applied = this.steps.map((step, index) => {
+      const result = this.results[index];
+      return {
+        step,
+        status: result?.status === 'pending' ? 'skipped' : result.status,
+        error: result?.error,
+      };
+    });
+    this.applying = false;
+    this.compare();
+  }
+
+  get appliedCount(): number {
+    return (this.applied ?? []).filter(step => step.status === 'done').length;
+  }
+
+  private request(step: MigrationStep): Observable<unknown> {
+    const { target } = this.compareForm.getRawValue();
+    const path = `${target}/${step.path}`;
+    switch (step.method) {
+      case 'POST':
+        return this.crudService.create(step.body, {}, path);
+      case 'PATCH':
+        return this.crudService.patch(path, step.body);
+      case 'DELETE':
+        return this.crudService.delete(path);
+    }
+  }
+
+  private updateSteps(): void {
+    this.steps = buildMigration(this.diffs ?? [], this.selected);
+    this.results = [];
+  }
+
+  private reset(): void {
+    this.diffs = null;
+    this.applied = null;
+    this.selected = new Set();
+    this.steps = [];
+    this.results = [];
+  }
+}
@@ -0,0 +1,168 @@
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+import {
+  buildMigration,
+  diffSchemas,
+  fieldKey,
+  relationshipKey,
+  selectableKeys,
+  tableKey,
+} from './schema-diff';
+
+function table(
+  name: string,
+  field: Array<Record<string, unknown>>,
+  related: Array<Record<string, unknown>> = []
+): TableDetailsType {
+  return { name, label: name, field, related } as unknown as TableDetailsType;
+}
+
+const source = [
+  table(
+    'orders',
+    [
+      { name: 'id', type: 'id', allowNull: false },
+      { name: 'total', type: 'decimal', allowNull: true, default: '0' },
+      { name: 'note', type: 'string', length: 255, allowNull: true },
+    ],
+    [
+      {
+        name: 'orders_by_customer',
+        type: 'belongs_to',
+        field: 'customer_id',
+        refTable: 'customers',
+        refField: 'id',
+        isVirtual: true,
+      },
+    ]
+  ),
+  table(
+    'invoices',
+    [{ name: 'id', type: 'id' }],
+    [
+      {
+        name: 'invoices_by_orders',
+        type: 'belongs_to',
+        field: 'order_id',
+        refTable: 'orders',
+        refField: 'id',
+        isVirtual: true,
+      },
+      {
+        name: 'invoices_by_fk',
+        type: 'belongs_to',
+        field: 'fk_id',
+        refTable: 'orders',
+        refField: 'id',
+        isVirtual: false,
+      },
+    ]
+  ),
+];
+
+const target = [
+  table(
+    'orders',
+    [
+      { name: 'id', type: 'id', allowNull: false },
+      { name: 'total', type: 'integer', allowNull: true, default: null },
+      { name: 'legacy', type: 'string' },
+    ],
+    [
+      {
+        name: 'orders_by_legacy',
+        type: 'belongs_to',
+        field: 'legacy',
+        refTable: 'customers',
+        refField: 'id',
+        isVirtual: false,
+      },
+    ]
+  ),
+  table('audit', [{ name: 'id', type: 'id' }]),
+];
+
+describe('diffSchemas', () => {
+  const diffs = diffSchemas(source, target);
+
+  it('lists added, removed and changed tables in name order', () => {
+    expect(diffs.map(d => [d.name, d.status])).toEqual([
+      ['audit', 'removed'],
+      ['invoices', 'added'],
+      ['orders', 'changed'],
+    ]);
+  });
+
+  it('compares field properties', () => {
+    const orders = diffs.find(d => d.name === 'orders')!;
+    expect(orders.fields.map(f => [f.name, f.status])).toEqual([
+      ['legacy', 'removed'],
+      ['note', 'added'],
+      ['total', 'changed'],
+    ]);
+    expect(orders.fields[2].changes).toEqual([
+      { property: 'type', source: 'decimal', target: 'integer' },
+      { property: 'default', source: '0', target: null },
+    ]);
+  });
+
+  it('only lets virtual relationships be applied', () => {
+    const orders = diffs.find(d => d.name === 'orders')!;
+    expect(
+      orders.relationships.map(r => [r.name, r.status, r.applicable])
+    ).toEqual([
+      ['orders_by_customer', 'added', true],
+      ['orders_by_legacy', 'removed', false],
+    ]);
+  });
+
+  it('skips identical tables', () => {
+    expect(diffSchemas(target, target)).toEqual([]);
+  });
+});
+
+describe('buildMigration', () => {
+  const diffs = diffSchemas(source, target);
+
+  it('creates, then updates, then deletes', () => {
+    const steps = buildMigration(diffs, new Set(selectableKeys(diffs)));
+    expect(steps.map(s => `${s.method} ${s.path}`)).toEqual([
+      'POST _schema',
+      'PATCH _schema/orders',
+      'DELETE _schema/orders/_field/legacy',
+      'DELETE _schema/audit',
+    ]);
+  });
+
+  it('keeps only virtual relationships on new tables', () => {
+    const steps = buildMigration(diffs, new Set([tableKey('invoices')]));
+    const body = steps[0].body as { resource: TableDetailsType[] };
+    expect(body.resource[0].related.map(r => r.name)).toEqual([
+      'invoices_by_orders',
+    ]);
+  });
+
+  it('sends only the selected fields and relationships', () => {
+    const steps = buildMigration(
+      diffs,
+      new Set([
+        fieldKey('orders', 'total'),
+        relationshipKey('orders', 'orders_by_customer'),
+      ])
+    );
+    expect(steps).toEqual([
+      {
+        method: 'PATCH',
+        path: '_schema/orders',
+        body: {
+          name: 'orders',
+          field: [source[0].field[1]],
+          related: [source[0].related[0]],
+        },
+      },
+    ]);
+  });
+
+  it('returns nothing when nothing is selected', () => {
+    expect(buildMigration(diffs, new Set())).toEqual([]);
+  });
+});
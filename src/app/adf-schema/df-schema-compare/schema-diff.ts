@@ -0,0 +1,269 @@
+import {
+  TableDetailsType,
+  TableField,
+  TableRelated,
+} from '../df-table-details/df-table-details.types';
+
+/**
+ * Status of an item in the target compared to the source: `added` exists
+ * only in the source, `removed` only in the target.
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export const COMPARED_FIELD_PROPERTIES: Array<keyof TableField> = [
+  'type',
+  'length',
+  'allowNull',
+  'default',
+];
+
+export const COMPARED_RELATIONSHIP_PROPERTIES: Array<keyof TableRelated> = [
+  'type',
+  'field',
+  'refTable',
+  'refField',
+  'junctionTable',
+  'junctionField',
+  'junctionRefField',
+];
+
+export interface PropertyChange {
+  property: string;
+  source: unknown;
+  target: unknown;
+}
+
+export interface FieldDiff {
+  key: string;
+  name: string;
+  status: DiffStatus;
+  changes: PropertyChange[];
+  source?: TableField;
+}
+
+export interface RelationshipDiff {
+  key: string;
+  name: string;
+  status: DiffStatus;
+  changes: PropertyChange[];
+  source?: TableRelated;
+  /** Only virtual relationships can be written, the rest follow foreign keys */
+  applicable: boolean;
+}
+
+export interface TableDiff {
+  key: string;
+  name: string;
+  status: DiffStatus;
+  fields: FieldDiff[];
+  relationships: RelationshipDiff[];
+  source?: TableDetailsType;
+}
+
+export interface MigrationStep {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  /** Path relative to the target service */
+  path: string;
+  body?: unknown;
+}
+
+export function tableKey(table: string): string {
+  return table;
+}
+
+export function fieldKey(table: string, field: string): string {
+  return `${table}/field/${field}`;
+}
+
+export function relationshipKey(table: string, relationship: string): string {
+  return `${table}/related/${relationship}`;
+}
+
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+function compareProperties<T>(
+  source: T,
+  target: T,
+  properties: Array<keyof T>
+): PropertyChange[] {
+  return properties
+    .filter(
+      property =>
+        JSON.stringify(normalize(source[property])) !==
+        JSON.stringify(normalize(target[property]))
+    )
+    .map(property => ({
+      property: String(property),
+      source: normalize(source[property]),
+      target: normalize(target[property]),
+    }));
+}
+
+function diffByName<T extends { name: string }, D>(
+  source: T[],
+  target: T[],
+  build: (name: string, status: DiffStatus, source?: T, target?: T) => D | null
+): D[] {
+  const targets = new Map(target.map(item => [item.name, item]));
+  const sources = new Map(source.map(item => [item.name, item]));
+  const names = Array.from(
+    new Set([...sources.keys(), ...targets.keys()])
+  ).sort((a, b) => a.localeCompare(b));
+  return names
+    .map(name => {
+      const s = sources.get(name);
+      const t = targets.get(name);
+      return build(name, s ? (t ? 'changed' : 'added') : 'removed', s, t);
+    })
+    .filter((diff): diff is D => diff !== null);
+}
+
+export function diffSchemas(
+  source: TableDetailsType[],
+  target: TableDetailsType[]
+): TableDiff[] {
+  return diffByName(source, target, (name, status, s, t) => {
+    if (status !== 'changed') {
+      return {
+        key: tableKey(name),
+        name,
+        status,
+        fields: [],
+        relationships: [],
+        source: s,
+      };
+    }
+    const fields = diffByName<TableField, FieldDiff>(
+      s?.field ?? [],
+      t?.field ?? [],
+      (field, fieldStatus, sf, tf) => {
+        const changes =
+          sf && tf ? compareProperties(sf, tf, COMPARED_FIELD_PROPERTIES) : [];
+        if (fieldStatus === 'changed' && !changes.length) return null;
+        return {
+          key: fieldKey(name, field),
+          name: field,
+          status: fieldStatus,
+          changes,
+          source: sf,
+        };
+      }
+    );
+    const relationships = diffByName<TableRelated, RelationshipDiff>(
+      s?.related ?? [],
+      t?.related ?? [],
+      (relationship, relStatus, sr, tr) => {
+        const changes =
+          sr && tr
+            ? compareProperties(sr, tr, COMPARED_RELATIONSHIP_PROPERTIES)
+            : [];
+        if (relStatus === 'changed' && !changes.length) return null;
+        return {
+          key: relationshipKey(name, relationship),
+          name: relationship,
+          status: relStatus,
+          changes,
+          source: sr,
+          applicable: !!(sr ?? tr)?.isVirtual,
+        };
+      }
+    );
+    if (!fields.length && !relationships.length) return null;
+    return {
+      key: tableKey(name),
+      name,
+      status,
+      fields,
+      relationships,
+      source: s,
+    };
+  });
+}
+
+/** Every key that can be applied, used to select all changes at once */
+export function selectableKeys(diffs: TableDiff[]): string[] {
+  return diffs.flatMap(diff =>
+    diff.status === 'changed'
+      ? [
+          ...diff.fields.map(field => field.key),
+          ...diff.relationships
+            .filter(relationship => relationship.applicable)
+            .map(relationship => relationship.key),
+        ]
+      : [diff.key]
+  );
+}
+
+/**
+ * `_schema` requests that bring the target in line with the selected
+ * changes. New tables are created first so relationships pointing at them
+ * resolve, and removals run last.
+ */
+export function buildMigration(
+  diffs: TableDiff[],
+  selected: Set<string>
+): MigrationStep[] {
+  const creates: MigrationStep[] = [];
+  const updates: MigrationStep[] = [];
+  const deletes: MigrationStep[] = [];
+
+  for (const diff of diffs) {
+    if (diff.status === 'added' && selected.has(diff.key) && diff.source) {
+      creates.push({
+        method: 'POST',
+        path: '_schema',
+        body: {
+          resource: [
+            {
+              ...diff.source,
+              related: (diff.source.related ?? []).filter(r => r.isVirtual),
+            },
+          ],
+        },
+      });
+    } else if (diff.status === 'removed' && selected.has(diff.key)) {
+      deletes.push({ method: 'DELETE', path: `_schema/${diff.name}` });
+    } else if (diff.status === 'changed') {
+      const fields = diff.fields.filter(f => selected.has(f.key));
+      const relationships = diff.relationships.filter(
+        r => r.applicable && selected.has(r.key)
+      );
+      const field = fields
+        .filter(f => f.status !== 'removed')
+        .map(f => f.source);
+      const related = relationships
+        .filter(r => r.status !== 'removed')
+        .map(r => r.source);
+      if (field.length || related.length) {
+        updates.push({
+          method: 'PATCH',
+          path: `_schema/${diff.name}`,
+          body: {
+            name: diff.name,
+            ...(field.length ? { field } : {}),
+            ...(related.length ? { related } : {}),
+          },
+        });
+      }
+      fields
+        .filter(f => f.status === 'removed')
+        .forEach(f =>
+          deletes.unshift({
+            method: 'DELETE',
+            path: `_schema/${diff.name}/_field/${f.name}`,
+          })
+        );
+      relationships
+        .filter(r => r.status === 'removed')
+        .forEach(r =>
+          deletes.unshift({
+            method: 'DELETE',
+            path: `_schema/${diff.name}/_related/${r.name}`,
+          })
+        );
+    }
+  }
+  return [...creates, ...updates, ...deletes];
+}
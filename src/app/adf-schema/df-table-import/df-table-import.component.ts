@@ -0,0 +1,290 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import {
+  FormArray,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faArrowLeft, faUpload } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { concatMap, from, map, of, switchMap, tap } from 'rxjs';
+import { BASE_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { readAsText } from 'src/app/shared/utilities/file';
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+import {
+  FIELD_NAME_PATTERN,
+  InferredField,
+  SampleRecord,
+  inferFields,
+  parseSample,
+  tableNameFromFile,
+  toRow,
+} from '../utilities/sample-data';
+
+const IMPORT_BATCH_SIZE = 100;
+const PREVIEW_ROWS = 5;
+
+export const IMPORT_FIELD_TYPES = [
+  'string',
+  'text',
+  'integer',
+  'decimal',
+  'float',
+  'double',
+  'boolean',
+  'date',
+  'time',
+  'datetime',
+  'timestamp',
+  'binary',
+];
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-table-import',
+  templateUrl: './df-table-import.component.html',
+  styleUrls: ['./df-table-import.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressBarModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatStepperModule,
+    MatTooltipModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfTableImportComponent implements OnInit {
+  faArrowLeft = faArrowLeft;
+  faUpload = faUpload;
+  fieldTypes = IMPORT_FIELD_TYPES;
+  isDarkMode = this.themeService.darkMode$;
+
+  dbName = '';
+  fileName = '';
+  records: SampleRecord[] = [];
+  parseError: string | null = null;
+
+  sampleForm = this.formBuilder.group({
+    loaded: [false, Validators.requiredTrue],
+  });
+  tableForm: FormGroup;
+
+  creating = false;
+  imported = 0;
+  createError: string | null = null;
+
+  constructor(
+    @Inject(BASE_SERVICE_TOKEN)
+    private crudService: DfBaseCrudService,
+    private formBuilder: FormBuilder,
+    private activatedRoute: ActivatedRoute,
+    private router: Router,
+    private themeService: DfThemeService
+  ) {
+    this.tableForm = this.formBuilder.group({
+      name: ['', [Validators.required, Validators.pattern(FIELD_NAME_PATTERN)]],
+      label: [''],
+      addIdField: [false],
+      importRows: [true],
+      fields: this.formBuilder.array([]),
+    });
+  }
+
+  ngOnInit(): void {
+    this.dbName = this.activatedRoute.snapshot.paramMap.get('name') ?? '';
+    this.tableForm
+      .get('addIdField')
+      ?.valueChanges.pipe(untilDestroyed(this))
+      .subscribe(addId => {
+        if (addId) {
+          this.fields.controls.forEach(field =>
+            field.patchValue({ isPrimaryKey: false })
+          );
+        }
+      });
+  }
+
+  get fields(): FormArray<FormGroup> {
+    return this.tableForm.get('fields') as FormArray<FormGroup>;
+  }
+
+  get previewRows(): SampleRecord[] {
+    return this.records.slice(0, PREVIEW_ROWS);
+  }
+
+  get previewColumns(): string[] {
+    return this.records.length ? Object.keys(this.records[0]) : [];
+  }
+
+  get includedFields(): InferredField[] {
+    return this.fields
+      .getRawValue()
+      .filter(field => field['include']) as InferredField[];
+  }
+
+  /** The generated id column would clash with a sample column of the same name */
+  get idConflict(): boolean {
+    return (
+      !!this.tableForm.value.addIdField &&
+      this.includedFields.some(field => field.name === 'id')
+    );
+  }
+
+  goBack(): void {
+    this.router.navigate(['..'], { relativeTo: this.activatedRoute });
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    readAsText(file).subscribe(text => {
+      input.value = '';
+      this.fileName = file.name;
+      try {
+        this.records = parseSample(text, file.name);
+        if (!this.records.length) throw new Error('The file has no rows');
+        this.parseError = null;
+        this.loadProposal();
+      } catch (e) {
+        this.records = [];
+        this.parseError = e instanceof Error ? e.message : String(e);
+        this.sampleForm.patchValue({ loaded: false });
+      }
+    });
+  }
+
+  togglePrimaryKey(index: number): void {
+    const selected = this.fields.at(index).value.isPrimaryKey;
+    this.fields.controls.forEach((field, i) => {
+      if (i !== index) field.patchValue({ isPrimaryKey: false });
+    });
+    if (selected) {
+      this.fields.at(index).patchValue({ allowNull: false, include: true });
+      this.tableForm.patchValue({ addIdField: false });
+    }
+  }
+
+  create(): void {
+    if (this.tableForm.invalid || this.idConflict || this.creating) return;
+    const { name, label, addIdField, importRows } = this.tableForm.value;
+    const fields = this.includedFields;
+    const table = {
+      name,
+      label: label || name,
+      field: [
+        ...(addIdField ? [{ name: 'id', label: 'Id', type: 'id' }] : []),
+        ...fields.map(field => ({
+          name: field.name,
+          label: field.name,
+          type: field.type,
+          length: field.type === 'string' ? field.length : null,
+          precision: field.type === 'decimal' ? field.precision : null,
+          scale: field.type === 'decimal' ? field.scale : null,
+          allowNull: field.allowNull,
+          isPrimaryKey: field.isPrimaryKey,
+          required: false,
+        })),
+      ],
+    };
+
+    this.creating = true;
+    this.imported = 0;
+    this.createError = null;
+    this.crudService
+      .create<GenericListResponse<TableDetailsType>>(
+        { resource: [table] },
+        { snackbarSuccess: 'schema.alerts.createSuccess' },
+        `${this.dbName}/_schema`
+      )
+      .pipe(
+        switchMap(() => (importRows ? this.importRows(name, fields) : of(0)))
+      )
+      .subscribe({
+        complete: () => {
+          this.creating = false;
+          this.router.navigate(['..', name], {
+            relativeTo: this.activatedRoute,
+          });
+        },
+        error: err => {
+          this.creating = false;
+          this.createError =
+            err?.error?.error?.message || 'Failed to create table';
+        },
+      });
+  }
+
+  /** Inserts the sample in batches so large files don't hit request size limits */
+  private importRows(table: string, fields: InferredField[]) {
+    const rows = this.records.map(record => toRow(record, fields));
+    const batches = [];
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      batches.push(rows.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+    return from(batches).pipe(
+      concatMap(batch =>
+        this.crudService
+          .create({ resource: batch }, {}, `${this.dbName}/_table/${table}`)
+          .pipe(map(() => batch.length))
+      ),
+      tap(count => (this.imported += count))
+    );
+  }
+
+  private loadProposal(): void {
+    const proposal = inferFields(this.records);
+    this.fields.clear();
+    proposal.forEach(field =>
+      this.fields.push(
+        this.formBuilder.group({
+          include: [true],
+          source: [field.source],
+          name: [
+            field.name,
+            [Validators.required, Validators.pattern(FIELD_NAME_PATTERN)],
+          ],
+          type: [field.type, Validators.required],
+          length: [field.length],
+          precision: [field.precision],
+          scale: [field.scale],
+          allowNull: [field.allowNull],
+          isPrimaryKey: [field.isPrimaryKey],
+        })
+      )
+    );
+    this.tableForm.patchValue({
+      name: tableNameFromFile(this.fileName),
+      label: '',
+      addIdField: !proposal.some(field => field.isPrimaryKey),
+    });
+    this.sampleForm.patchValue({ loaded: true });
+  }
+}
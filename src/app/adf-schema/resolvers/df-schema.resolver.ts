@@ -2,6 +2,7 @@ import { ActivatedRouteSnapshot, ResolveFn } from '@angular/router';
 import { GenericListResponse } from 'src/app/shared/types/generic-http';
 import { inject } from '@angular/core';
 import { BASE_SERVICE_TOKEN } from '../../shared/constants/tokens';
+import { fetchFullSchema } from '../utilities/full-schema';
 
 import {
   TableDetailsType,
@@ -17,6 +18,13 @@ export const schemaResolver: ResolveFn<
   });
 };
 
+export const erDiagramResolver: ResolveFn<Array<TableDetailsType>> = (
+  route: ActivatedRouteSnapshot
+) => {
+  const name = route.paramMap.get('name') ?? '';
+  return fetchFullSchema(inject(BASE_SERVICE_TOKEN), name);
+};
+
 export const DfTableDetailsResolver: ResolveFn<TableDetailsType> = (
   route: ActivatedRouteSnapshot
 ) => {
@@ -0,0 +1,45 @@
+import { Observable, forkJoin, map, of, switchMap } from 'rxjs';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { TableDetailsType } from '../df-table-details/df-table-details.types';
+
+const SCHEMA_CHUNK_SIZE = 50;
+
+/**
+ * Full schema of every table in a service, fetched in batches through the
+ * `ids` parameter so large databases don't need one request per table.
+ */
+export function fetchFullSchema(
+  crudService: DfBaseCrudService,
+  serviceName: string,
+  refresh = false
+): Observable<Array<TableDetailsType>> {
+  return crudService
+    .get<GenericListResponse<{ name: string }>>(`${serviceName}/_schema`, {
+      fields: 'name',
+      refresh,
+    })
+    .pipe(
+      switchMap(tables => {
+        const names = tables.resource.map(table => table.name);
+        if (!names.length) {
+          return of([]);
+        }
+        const chunks = [];
+        for (let i = 0; i < names.length; i += SCHEMA_CHUNK_SIZE) {
+          chunks.push(names.slice(i, i + SCHEMA_CHUNK_SIZE));
+        }
+        return forkJoin(
+          chunks.map(chunk =>
+            crudService.get<GenericListResponse<TableDetailsType>>(
+              `${serviceName}/_schema`,
+              {
+                additionalParams: [{ key: 'ids', value: chunk.join(',') }],
+                refresh,
+              }
+            )
+          )
+        ).pipe(map(responses => responses.flatMap(r => r.resource)));
+      })
+    );
+}
@@ -0,0 +1,155 @@
+import {
+  csvToRecords,
+  inferFields,
+  parseCsv,
+  parseJsonSample,
+  parseSample,
+  tableNameFromFile,
+  toRow,
+} from './sample-data';
+
+describe('parseCsv', () => {
+  it('handles quoted values, escaped quotes and CRLF line breaks', () => {
+    expect(
+      parseCsv('id,name\r\n1,"Smith, ""Jo"""\r\n2,"two\nlines"\r\n')
+    ).toEqual([
+      ['id', 'name'],
+      ['1', 'Smith, "Jo"'],
+      ['2', 'two\nlines'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('a;b\n1;2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('strips a byte order mark and skips blank lines', () => {
+    expect(parseCsv('\ufeffa,b\n\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('csvToRecords', () => {
+  it('keys rows by the header and turns empty cells into null', () => {
+    expect(
+      csvToRecords([
+        ['a', 'b'],
+        ['1', ''],
+      ])
+    ).toEqual([{ a: '1', b: null }]);
+  });
+});
+
+describe('parseJsonSample', () => {
+  it('accepts arrays, resource envelopes and single objects', () => {
+    expect(parseJsonSample('[{"a":1}]')).toEqual([{ a: 1 }]);
+    expect(parseJsonSample('{"resource":[{"a":1}]}')).toEqual([{ a: 1 }]);
+    expect(parseJsonSample('{"a":1}')).toEqual([{ a: 1 }]);
+  });
+
+  it('rejects lists of scalars', () => {
+    expect(() => parseJsonSample('[1,2]')).toThrow();
+  });
+});
+
+describe('parseSample', () => {
+  it('picks the parser from the file name or content', () => {
+    expect(parseSample('a\n1', 'data.csv')).toEqual([{ a: '1' }]);
+    expect(parseSample('[{"a":1}]', 'data.txt')).toEqual([{ a: 1 }]);
+  });
+});
+
+describe('inferFields', () => {
+  const records = parseSample(
+    [
+      'ID,Full Name,price,active,created,born,starts,notes,customerId',
+      '1,Ann,9.99,true,2024-01-02 10:00:00,1990-05-01,09:30,,10',
+      '2,Bob,12.5,FALSE,2024-01-03T11:00:00Z,1985-12-31,17:45:10,hi,10',
+    ].join('\n'),
+    'people.csv'
+  );
+  const fields = inferFields(records);
+  const field = (name: string) => fields.find(f => f.name === name)!;
+
+  it('proposes snake_case names', () => {
+    expect(fields.map(f => f.name)).toEqual([
+      'id',
+      'full_name',
+      'price',
+      'active',
+      'created',
+      'born',
+      'starts',
+      'notes',
+      'customer_id',
+    ]);
+  });
+
+  it('infers types with sizes', () => {
+    expect(field('id').type).toBe('integer');
+    expect(field('full_name')).toEqual(
+      expect.objectContaining({ type: 'string', length: 50 })
+    );
+    expect(field('price')).toEqual(
+      expect.objectContaining({ type: 'decimal', precision: 4, scale: 2 })
+    );
+    expect(field('active').type).toBe('boolean');
+    expect(field('created').type).toBe('datetime');
+    expect(field('born').type).toBe('date');
+    expect(field('starts').type).toBe('time');
+  });
+
+  it('allows null where the sample has gaps', () => {
+    expect(field('notes').allowNull).toBe(true);
+    expect(field('full_name').allowNull).toBe(false);
+  });
+
+  it('picks a unique integer id column as the primary key', () => {
+    expect(fields.filter(f => f.isPrimaryKey).map(f => f.name)).toEqual(['id']);
+  });
+
+  it('uses text for long strings and nested values', () => {
+    const [long, nested] = inferFields([
+      { long: 'x'.repeat(300), nested: { a: 1 } },
+    ]);
+    expect(long.type).toBe('text');
+    expect(nested.type).toBe('text');
+  });
+
+  it('deduplicates names', () => {
+    expect(inferFields([{ 'a b': 1, a_b: 2 }]).map(f => f.name)).toEqual([
+      'a_b',
+      'a_b_2',
+    ]);
+  });
+});
+
+describe('toRow', () => {
+  it('converts values to the chosen types', () => {
+    expect(
+      toRow({ ID: '7', ok: 'TRUE', meta: { a: 1 }, note: '' }, [
+        { source: 'ID', name: 'id', type: 'integer' },
+        { source: 'ok', name: 'ok', type: 'boolean' },
+        { source: 'meta', name: 'meta', type: 'text' },
+        { source: 'note', name: 'note', type: 'string' },
+      ])
+    ).toEqual({ id: 7, ok: true, meta: '{"a":1}', note: null });
+  });
+});
+
+describe('tableNameFromFile', () => {
+  it('derives a table name from the file name', () => {
+    expect(tableNameFromFile('Sales Report 2024.csv')).toBe(
+      'sales_report_2024'
+    );
+  });
+});
@@ -0,0 +1,251 @@
+export type SampleRecord = Record<string, unknown>;
+
+export interface InferredField {
+  /** Key of the column in the sample */
+  source: string;
+  name: string;
+  type: string;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+  allowNull: boolean;
+  isPrimaryKey: boolean;
+}
+
+const INTEGER = /^-?\d+$/;
+const DECIMAL = /^-?\d*\.\d+$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+const DATETIME =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const MAX_INTEGER = 2147483647;
+/**
+ * Request bodies are converted to snake_case on the way out, so proposed
+ * names are kept in that form for imported rows to match their columns.
+ */
+export const FIELD_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/;
+const STRING_LENGTHS = [50, 100, 255];
+
+/**
+ * Splits CSV text into rows, handling quoted values with embedded
+ * delimiters, quotes and line breaks. The delimiter is guessed from the
+ * header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\ufeff/, '');
+  const header = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+/** CSV rows as records keyed by the header, with empty cells as null */
+export function csvToRecords(rows: string[][]): SampleRecord[] {
+  const [header, ...data] = rows;
+  if (!header) return [];
+  return data.map(row =>
+    header.reduce<SampleRecord>((record, key, i) => {
+      const value = row[i] ?? '';
+      record[key] = value === '' ? null : value;
+      return record;
+    }, {})
+  );
+}
+
+/** Accepts an array of objects, a `{ resource: [...] }` envelope or a single object */
+export function parseJsonSample(text: string): SampleRecord[] {
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.resource)
+      ? parsed.resource
+      : [parsed];
+  if (!records.every(isRecord)) {
+    throw new Error('Expected a list of objects');
+  }
+  return records;
+}
+
+export function parseSample(text: string, filename: string): SampleRecord[] {
+  return /\.json$/i.test(filename) || /^\s*[[{]/.test(text)
+    ? parseJsonSample(text)
+    : csvToRecords(parseCsv(text));
+}
+
+function isRecord(value: unknown): value is SampleRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/** snake_case column name, deduplicated against earlier columns */
+function fieldName(source: string, used: Set<string>): string {
+  const base =
+    source
+      .trim()
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .replace(/^(\d)/, '_$1') || 'column';
+  let name = base;
+  for (let i = 2; used.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+  used.add(name);
+  return name;
+}
+
+function inferType(
+  values: unknown[]
+): Pick<InferredField, 'type' | 'length' | 'precision' | 'scale'> {
+  const none = { length: null, precision: null, scale: null };
+  if (!values.length) {
+    return { type: 'string', ...none, length: 255 };
+  }
+  if (values.some(v => typeof v === 'object')) {
+    return { type: 'text', ...none };
+  }
+  const strings = values.map(v => String(v).trim());
+  if (strings.every(v => /^(true|false)$/i.test(v))) {
+    return { type: 'boolean', ...none };
+  }
+  if (
+    strings.every(v => INTEGER.test(v) && Math.abs(Number(v)) <= MAX_INTEGER)
+  ) {
+    return { type: 'integer', ...none };
+  }
+  if (strings.every(v => INTEGER.test(v) || DECIMAL.test(v))) {
+    const digits = strings.map(v => v.replace('-', '').split('.'));
+    const scale = Math.max(
+      ...digits.map(([, fraction]) => fraction?.length ?? 0)
+    );
+    const whole = Math.max(...digits.map(([integer]) => integer.length));
+    return {
+      type: 'decimal',
+      length: null,
+      precision: Math.max(whole + scale, 1),
+      scale,
+    };
+  }
+  if (strings.every(v => DATE.test(v))) {
+    return { type: 'date', ...none };
+  }
+  if (strings.every(v => TIME.test(v))) {
+    return { type: 'time', ...none };
+  }
+  if (strings.every(v => DATE.test(v) || DATETIME.test(v))) {
+    return { type: 'datetime', ...none };
+  }
+  const longest = Math.max(...strings.map(v => v.length));
+  const length = STRING_LENGTHS.find(l => longest <= l);
+  return length
+    ? { type: 'string', ...none, length }
+    : { type: 'text', ...none };
+}
+
+/**
+ * Proposes a field per column of the sample. A column named `id` (or
+ * failing that, ending in `id`) with unique integers becomes the primary key.
+ */
+export function inferFields(records: SampleRecord[]): InferredField[] {
+  const columns: string[] = [];
+  for (const record of records) {
+    Object.keys(record).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  }
+
+  const used = new Set<string>();
+  const fields = columns.map<InferredField>(source => {
+    const values = records.map(r => r[source]).filter(v => !isEmpty(v));
+    return {
+      source,
+      name: fieldName(source, used),
+      ...inferType(values),
+      allowNull: values.length < records.length,
+      isPrimaryKey: false,
+    };
+  });
+
+  const isKeyCandidate = (field: InferredField) =>
+    field.type === 'integer' &&
+    !field.allowNull &&
+    new Set(records.map(r => String(r[field.source]))).size === records.length;
+  const primaryKey =
+    fields.find(f => f.name === 'id' && isKeyCandidate(f)) ??
+    fields.find(f => /id$/.test(f.name) && isKeyCandidate(f));
+  if (primaryKey) {
+    primaryKey.isPrimaryKey = true;
+  }
+  return fields;
+}
+
+/** Sample record converted to the proposed fields, ready to insert */
+export function toRow(
+  record: SampleRecord,
+  fields: Array<Pick<InferredField, 'source' | 'name' | 'type'>>
+): SampleRecord {
+  return fields.reduce<SampleRecord>((row, field) => {
+    const value = record[field.source];
+    if (isEmpty(value)) {
+      row[field.name] = null;
+    } else if (field.type === 'integer') {
+      row[field.name] = Number(value);
+    } else if (field.type === 'boolean') {
+      row[field.name] = String(value).toLowerCase() === 'true';
+    } else if (typeof value === 'object') {
+      row[field.name] = JSON.stringify(value);
+    } else {
+      row[field.name] = value;
+    }
+    return row;
+  }, {});
+}
+
+/** Table name derived from an uploaded file name */
+export function tableNameFromFile(filename: string): string {
+  return fieldName(filename.replace(/\.[^.]+$/, ''), new Set());
+}
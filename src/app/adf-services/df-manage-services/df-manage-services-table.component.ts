@@ -3,7 +3,10 @@ import { Component, Inject, OnInit } from '@angular/core';
 import { MatDialog } from '@angular/material/dialog';
 import { ActivatedRoute, Router } from '@angular/router';
 import { TranslocoService } from '@ngneat/transloco';
-import { SERVICES_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import {
+  CACHE_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
 import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
 import {
   DfManageTableComponent,
@@ -14,8 +17,40 @@ import { Service, ServiceRow, ServiceType } from 'src/app/shared/types/service';
 import { getFilterQuery } from 'src/app/shared/utilities/filter-queries';
 import { UntilDestroy } from '@ngneat/until-destroy';
 import { DfDuplicateDialogComponent } from 'src/app/shared/components/df-duplicate-dialog/df-duplicate-dialog.component';
-import { faCopy } from '@fortawesome/free-solid-svg-icons';
-import { catchError, throwError } from 'rxjs';
+import {
+  faBroom,
+  faClone,
+  faCopy,
+  faDownload,
+  faToggleOff,
+  faToggleOn,
+  faTrashCan,
+} from '@fortawesome/free-solid-svg-icons';
+import {
+  Observable,
+  catchError,
+  filter,
+  forkJoin,
+  map,
+  switchMap,
+  throwError,
+} from 'rxjs';
+import { DfBulkResultsDialogComponent } from 'src/app/shared/components/df-bulk-results-dialog/df-bulk-results-dialog.component';
+import { BulkResult } from 'src/app/shared/types/table';
+import { runBulk } from 'src/app/shared/utilities/bulk';
+import { saveRawAsFile } from 'src/app/shared/utilities/file';
+import {
+  DfServiceDeleteDialogComponent,
+  ServiceDeleteDialogData,
+  ServiceDeleteDialogResult,
+} from '../df-service-delete-dialog/df-service-delete-dialog.component';
+import { DfServiceUsageService } from '../services/df-service-usage.service';
+import {
+  DfServiceCloneDialogComponent,
+  ServiceCloneDialogData,
+} from '../df-service-clone-dialog/df-service-clone-dialog.component';
+import { DfServiceCloneService } from '../services/df-service-clone.service';
+import { ClonePlan } from '../utilities/service-clone';
 @UntilDestroy({ checkProperties: true })
 @Component({
   selector: 'df-manage-services-table',
@@ -33,6 +68,11 @@ export class DfManageServicesTableComponent
 {
   serviceTypes: Array<ServiceType> = [];
   system = false;
+  /** Failures are reported per service in the results dialog instead */
+  private bulkOptions = {
+    snackbarError: undefined,
+    additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+  };
   constructor(
     router: Router,
     activatedRoute: ActivatedRoute,
@@ -40,7 +80,10 @@ export class DfManageServicesTableComponent
     translateService: TranslocoService,
     @Inject(SERVICES_SERVICE_TOKEN)
     private serviceService: DfBaseCrudService,
-    dialog: MatDialog
+    dialog: MatDialog,
+    private usageService: DfServiceUsageService,
+    @Inject(CACHE_SERVICE_TOKEN) override cacheService: DfBaseCrudService,
+    private cloneService: DfServiceCloneService
   ) {
     super(router, activatedRoute, liveAnnouncer, translateService, dialog);
   }
@@ -58,6 +101,39 @@ export class DfManageServicesTableComponent
         false;
       this.serviceTypes = data?.serviceTypes;
       this.allowCreate = !this.system;
+      this.bulkActions = [
+        ...(this.system
+          ? []
+          : [
+              {
+                label: 'services.bulk.activate',
+                function: (rows: ServiceRow[]) => this.setActive(rows, true),
+                icon: faToggleOn,
+              },
+              {
+                label: 'services.bulk.deactivate',
+                function: (rows: ServiceRow[]) => this.setActive(rows, false),
+                icon: faToggleOff,
+              },
+              {
+                label: 'delete',
+                function: (rows: ServiceRow[]) => this.bulkDelete(rows),
+                icon: faTrashCan,
+                disabled: (rows: ServiceRow[]) =>
+                  rows.some(row => row.deletable === false),
+              },
+            ]),
+        {
+          label: 'services.bulk.export',
+          function: (rows: ServiceRow[]) => this.exportServices(rows),
+          icon: faDownload,
+        },
+        {
+          label: 'services.bulk.clearCache',
+          function: (rows: ServiceRow[]) => this.clearCache(rows),
+          icon: faBroom,
+        },
+      ];
       if (this.system) {
         this.actions = {
           default: this.actions.default,
@@ -77,16 +153,30 @@ export class DfManageServicesTableComponent
           },
           icon: faCopy,
         };
+        const deepCloneAction = {
+          label: 'services.deepClone.action',
+          function: (row: ServiceRow) => this.deepCloneService(row),
+          ariaLabel: {
+            key: 'services.deepClone.ariaLabel',
+            param: 'name',
+          },
+          icon: faClone,
+        };
 
         if (this.actions.additional) {
-          // Insert duplicate action before delete action
+          // Insert duplicate actions before delete action
           const deleteIndex = this.actions.additional.findIndex(
             action => action.label === 'delete'
           );
           if (deleteIndex !== -1) {
-            this.actions.additional.splice(deleteIndex, 0, duplicateAction);
+            this.actions.additional.splice(
+              deleteIndex,
+              0,
+              duplicateAction,
+              deepCloneAction
+            );
           } else {
-            this.actions.additional.push(duplicateAction);
+            this.actions.additional.push(duplicateAction, deepCloneAction);
           }
         }
       }
@@ -149,14 +239,149 @@ export class DfManageServicesTableComponent
 
   filterQuery = getFilterQuery('services');
 
+  override confirmDelete(row: ServiceRow): void {
+    this.confirmDeleteWithCleanUp([row], row =>
+      this.deleteService(row)
+    ).subscribe(({ cleanUp }) => {
+      this.refreshTable();
+      this.reportCleanUp(cleanUp);
+    });
+  }
+
+  /**
+   * Shows what references the services and, once confirmed, deletes them.
+   * The references of the services that were deleted are then removed if
+   * asked to. Emits the delete and clean up results.
+   */
+  private confirmDeleteWithCleanUp(
+    rows: ServiceRow[],
+    deleteService: (row: ServiceRow) => Observable<unknown>
+  ): Observable<{ deleted: BulkResult[]; cleanUp: BulkResult[] }> {
+    return this.dialog
+      .open<
+        DfServiceDeleteDialogComponent,
+        ServiceDeleteDialogData,
+        ServiceDeleteDialogResult
+      >(DfServiceDeleteDialogComponent, {
+        width: '600px',
+        data: { services: rows.map(row => ({ id: row.id, name: row.name })) },
+      })
+      .afterClosed()
+      .pipe(
+        filter((result): result is ServiceDeleteDialogResult => !!result),
+        switchMap(result =>
+          this.usageService.deleteAndCleanUp(
+            rows,
+            result.cleanUp ? result.usages : null,
+            deleteService
+          )
+        )
+      );
+  }
+
+  /** Lists the references that were left behind, if any */
+  private reportCleanUp(results: BulkResult[]): void {
+    if (results.every(result => result.success)) return;
+    this.dialog.open(DfBulkResultsDialogComponent, {
+      width: '500px',
+      data: { title: 'services.usages.cleanUpIncomplete', results },
+    });
+  }
+
   override deleteRow(row: ServiceRow): void {
+    this.deleteService(row).subscribe(() => {
+      this.refreshTable();
+    });
+  }
+
+  private deleteService(row: ServiceRow) {
+    return this.serviceService.delete(row.id, {
+      snackbarSuccess: 'admins.alerts.deleteSuccess',
+    });
+  }
+
+  setActive(rows: ServiceRow[], active: boolean): void {
+    this.runBulk(
+      rows,
+      row =>
+        this.serviceService.patch(
+          row.id,
+          { isActive: active },
+          this.bulkOptions
+        ),
+      active ? 'services.bulk.activate' : 'services.bulk.deactivate'
+    );
+  }
+
+  /** Lists the references left behind alongside the deleted services */
+  bulkDelete(rows: ServiceRow[]): void {
+    this.confirmDeleteWithCleanUp(rows, row =>
+      this.serviceService.delete(row.id, this.bulkOptions)
+    ).subscribe(({ deleted, cleanUp }) => {
+      this.selection.clear();
+      this.refreshTable();
+      this.dialog.open(DfBulkResultsDialogComponent, {
+        width: '500px',
+        data: {
+          title: 'services.bulk.deleteTitle',
+          results: [...deleted, ...cleanUp.filter(result => !result.success)],
+        },
+      });
+    });
+  }
+
+  clearCache(rows: ServiceRow[]): void {
+    this.runBulk(
+      rows,
+      row => this.cacheService.delete(row.name, this.bulkOptions),
+      'services.bulk.clearCache'
+    );
+  }
+
+  /** Saves the selected services without their ids */
+  exportServices(rows: ServiceRow[]): void {
     this.serviceService
-      .delete(row.id, { snackbarSuccess: 'admins.alerts.deleteSuccess' })
-      .subscribe(() => {
-        this.refreshTable();
+      .getAll<GenericListResponse<Service>>({
+        filter: `id in (${rows.map(row => row.id).join(',')})`,
+        related: 'service_doc_by_service_id',
+        limit: rows.length,
+        includeCount: false,
+      })
+      .subscribe(({ resource }) => {
+        const services = resource.map(service => ({
+          name: service.name,
+          label: service.label,
+          description: service.description,
+          isActive: service.isActive,
+          type: service.type,
+          config: service.config,
+          serviceDocByServiceId: service.serviceDocByServiceId,
+        }));
+        saveRawAsFile(
+          JSON.stringify(services, null, 2),
+          'services.json',
+          'json'
+        );
       });
   }
 
+  private runBulk(
+    rows: ServiceRow[],
+    request: (row: ServiceRow) => Observable<unknown>,
+    title: string
+  ): void {
+    runBulk(rows, row => row.name, request).subscribe(
+      (results: BulkResult[]) => {
+        this.selection.clear();
+        this.refreshTable();
+        this.dialog.open(DfBulkResultsDialogComponent, {
+          width: '500px',
+          data: { title, results },
+        });
+      }
+    );
+  }
+
   refreshTable(
     limit?: number | undefined,
     offset?: number | undefined,
@@ -269,4 +494,50 @@ export class DfManageServicesTableComponent
           });
       });
   }
+
+  /**
+   * Copies the service together with its event scripts, role access,
+   * rate limits and virtual relationships after previewing them.
+   */
+  deepCloneService(row: ServiceRow): void {
+    forkJoin({
+      service: this.serviceService.get<Service>(row.id),
+      names: this.serviceService
+        .getAll<GenericListResponse<Service>>({
+          fields: 'name',
+          limit: 0,
+          includeCount: false,
+        })
+        .pipe(map(services => services.resource.map(s => s.name))),
+    })
+      .pipe(
+        switchMap(({ service, names }) =>
+          this.dialog
+            .open<
+              DfServiceCloneDialogComponent,
+              ServiceCloneDialogData,
+              ClonePlan
+            >(DfServiceCloneDialogComponent, {
+              width: '600px',
+              data: {
+                service,
+                existingNames: names,
+                isDatabase:
+                  this.serviceTypes?.find(type => type.name === service.type)
+                    ?.group === 'Database',
+              },
+            })
+            .afterClosed()
+        ),
+        filter((plan): plan is ClonePlan => !!plan),
+        switchMap(plan => this.cloneService.execute(plan))
+      )
+      .subscribe(results => {
+        this.refreshTable();
+        this.dialog.open(DfBulkResultsDialogComponent, {
+          width: '500px',
+          data: { title: 'services.deepClone.resultsTitle', results },
+        });
+      });
+  }
 }
@@ -0,0 +1,192 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { AsyncPipe, JsonPipe, NgFor, NgIf } from '@angular/common';
+import {
+  FormControl,
+  FormGroup,
+  FormsModule,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faPlay, faPlug } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { Observable, concatMap, of, tap } from 'rxjs';
+import { ApiKeysService } from 'src/app/adf-api-docs/services/api-keys.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { ApiKeyInfo } from 'src/app/shared/types/api-keys';
+import {
+  DfMcpPlaygroundService,
+  McpExchange,
+  McpSession,
+} from '../services/df-mcp-playground.service';
+import {
+  McpTool,
+  ToolField,
+  toolArguments,
+  toolFields,
+} from '../utilities/mcp-playground';
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-mcp-playground',
+  templateUrl: './df-mcp-playground.component.html',
+  styleUrls: ['./df-mcp-playground.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    JsonPipe,
+    FormsModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatExpansionModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfMcpPlaygroundComponent implements OnChanges {
+  @Input() serviceId: number;
+  @Input() serviceName: string;
+
+  faPlay = faPlay;
+  faPlug = faPlug;
+  isDarkMode = this.themeService.darkMode$;
+
+  apiKeys: ApiKeyInfo[] = [];
+  /** Null calls with the admin's own session */
+  apiKey: string | null = null;
+  session: McpSession | null = null;
+  tools: McpTool[] = [];
+  selectedTool: McpTool | null = null;
+  fields: ToolField[] = [];
+  form = new FormGroup<Record<string, FormControl>>({});
+  exchanges: McpExchange[] = [];
+  busy = false;
+  argumentError: string | null = null;
+
+  constructor(
+    private playgroundService: DfMcpPlaygroundService,
+    private apiKeysService: ApiKeysService,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnChanges(): void {
+    this.session = null;
+    this.tools = [];
+    this.selectTool(null);
+    if (this.serviceId) {
+      this.apiKeysService
+        .getApiKeysForService(this.serviceId)
+        .pipe(untilDestroyed(this))
+        .subscribe(keys => (this.apiKeys = keys));
+    }
+  }
+
+  /** Runs the initialize handshake, then lists the tools */
+  connect(): void {
+    const session: McpSession = {
+      endpoint: this.playgroundService.endpoint(this.serviceName),
+      apiKey: this.apiKey,
+    };
+    this.session = null;
+    this.tools = [];
+    this.selectTool(null);
+    this.run(
+      this.playgroundService.initialize(session).pipe(
+        concatMap(init => {
+          if (init.error) return of(init);
+          this.log(init);
+          session.sessionId = init.sessionId;
+          return this.playgroundService.initialized(session).pipe(
+            tap(exchange => this.log(exchange)),
+            concatMap(() => this.playgroundService.listTools(session))
+          );
+        })
+      ),
+      exchange => {
+        this.session = session;
+        this.tools = exchange.message?.result?.tools ?? [];
+      }
+    );
+  }
+
+  selectTool(tool: McpTool | null): void {
+    this.selectedTool = tool;
+    this.fields = toolFields(tool?.inputSchema);
+    this.argumentError = null;
+    this.form = new FormGroup<Record<string, FormControl>>(
+      Object.fromEntries(
+        this.fields.map(field => [
+          field.name,
+          new FormControl(
+            field.type === 'json' && field.default !== undefined
+              ? JSON.stringify(field.default, null, 2)
+              : (field.default ?? null),
+            field.required && field.type !== 'boolean'
+              ? Validators.required
+              : []
+          ),
+        ])
+      )
+    );
+  }
+
+  callTool(): void {
+    if (!this.session || !this.selectedTool || this.form.invalid) return;
+    let args: Record<string, unknown>;
+    try {
+      args = toolArguments(this.fields, this.form.getRawValue());
+    } catch (e) {
+      this.argumentError = (e as Error).message;
+      return;
+    }
+    this.argumentError = null;
+    this.run(
+      this.playgroundService.callTool(
+        this.session,
+        this.selectedTool.name,
+        args
+      )
+    );
+  }
+
+  pretty(text: string): string {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch (e) {
+      return text;
+    }
+  }
+
+  private run(
+    request: Observable<McpExchange>,
+    done?: (exchange: McpExchange) => void
+  ): void {
+    this.busy = true;
+    request.pipe(untilDestroyed(this)).subscribe(exchange => {
+      this.busy = false;
+      this.log(exchange);
+      if (done && !exchange.error) {
+        done(exchange);
+      }
+    });
+  }
+
+  private log(exchange: McpExchange): void {
+    this.exchanges = [exchange, ...this.exchanges];
+  }
+}
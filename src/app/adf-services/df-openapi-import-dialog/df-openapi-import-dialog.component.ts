@@ -0,0 +1,178 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import {
+  API_DOCS_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { GenericListResponse } from 'src/app/shared/types/generic-http';
+import { Service } from 'src/app/shared/types/service';
+import { readAsText } from 'src/app/shared/utilities/file';
+import {
+  GeneratedTool,
+  OpenApiOperation,
+  generateTools,
+  listOperations,
+  specBaseUrl,
+} from '../utilities/openapi-tools';
+
+export interface OpenApiImportDialogData {
+  /** The MCP service the tools are for, left out of the spec sources */
+  serviceId: number;
+  /** Names of the custom tools the service already has */
+  existingNames: string[];
+}
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-openapi-import-dialog',
+  templateUrl: './df-openapi-import-dialog.component.html',
+  styleUrls: ['./df-openapi-import-dialog.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    FormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    TranslocoPipe,
+  ],
+})
+export class DfOpenApiImportDialogComponent implements OnInit {
+  services: Array<Pick<Service, 'id' | 'name' | 'label'>> = [];
+  serviceName: string | null = null;
+  fileName: string | null = null;
+  loading = false;
+  error: string | null = null;
+  operations: OpenApiOperation[] = [];
+  selected = new Set<string>();
+  baseUrl = '';
+  isDarkMode = this.themeService.darkMode$;
+
+  constructor(
+    public dialogRef: MatDialogRef<
+      DfOpenApiImportDialogComponent,
+      GeneratedTool[]
+    >,
+    @Inject(MAT_DIALOG_DATA) public data: OpenApiImportDialogData,
+    @Inject(SERVICES_SERVICE_TOKEN) private servicesService: DfBaseCrudService,
+    @Inject(API_DOCS_SERVICE_TOKEN) private apiDocsService: DfBaseCrudService,
+    private themeService: DfThemeService
+  ) {}
+
+  ngOnInit(): void {
+    this.servicesService
+      .getAll<GenericListResponse<Service>>({
+        fields: 'id,name,label',
+        sort: 'name',
+        limit: 0,
+        includeCount: false,
+      })
+      .pipe(untilDestroyed(this))
+      .subscribe(({ resource }) => {
+        this.services = resource.filter(
+          service => service.id !== this.data.serviceId
+        );
+      });
+  }
+
+  loadFromService(name: string): void {
+    this.fileName = null;
+    this.loading = true;
+    this.apiDocsService
+      .get<Record<string, any>>(name, {
+        snackbarError: undefined,
+        additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+      })
+      .pipe(untilDestroyed(this))
+      .subscribe({
+        next: spec => this.useSpec(spec),
+        error: err => this.fail(err?.error?.error?.message ?? err?.message),
+      });
+  }
+
+  loadFromFile(event: Event): void {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    this.serviceName = null;
+    this.fileName = file.name;
+    this.loading = true;
+    readAsText(file)
+      .pipe(untilDestroyed(this))
+      .subscribe(text => {
+        try {
+          this.useSpec(JSON.parse(text));
+        } catch (e) {
+          this.fail((e as Error).message);
+        }
+      });
+  }
+
+  get allSelected(): boolean {
+    return (
+      !!this.operations.length && this.selected.size === this.operations.length
+    );
+  }
+
+  toggle(key: string, checked: boolean): void {
+    if (checked) {
+      this.selected.add(key);
+    } else {
+      this.selected.delete(key);
+    }
+  }
+
+  toggleAll(checked: boolean): void {
+    this.selected = new Set(
+      checked ? this.operations.map(operation => operation.key) : []
+    );
+  }
+
+  import(): void {
+    this.dialogRef.close(
+      generateTools(
+        this.operations.filter(operation => this.selected.has(operation.key)),
+        this.baseUrl.replace(/\/$/, ''),
+        this.data.existingNames
+      )
+    );
+  }
+
+  private useSpec(spec: Record<string, any>): void {
+    this.loading = false;
+    this.operations = listOperations(spec);
+    this.selected = new Set();
+    this.baseUrl = specBaseUrl(spec, window.location.origin);
+    this.error = this.operations.length
+      ? null
+      : 'services.openApiImport.noOperations';
+  }
+
+  private fail(message: string): void {
+    this.loading = false;
+    this.operations = [];
+    this.selected = new Set();
+    this.error = message || 'services.openApiImport.loadFailed';
+  }
+}
@@ -0,0 +1,111 @@
+import { Component, Inject } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+import {
+  AbstractControl,
+  FormControl,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { DfServiceCloneService } from '../services/df-service-clone.service';
+import { ClonePlan, CloneSourceService } from '../utilities/service-clone';
+
+export interface ServiceCloneDialogData {
+  service: CloneSourceService;
+  existingNames: string[];
+  /** Database services also get their virtual relationships copied */
+  isDatabase: boolean;
+}
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-service-clone-dialog',
+  templateUrl: './df-service-clone-dialog.component.html',
+  styleUrls: ['./df-service-clone-dialog.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    TranslocoPipe,
+  ],
+})
+export class DfServiceCloneDialogComponent {
+  nameControl = new FormControl('', {
+    nonNullable: true,
+    validators: [
+      Validators.required,
+      Validators.pattern(/^[a-z0-9_-]+$/i),
+      (control: AbstractControl): ValidationErrors | null =>
+        this.data.existingNames.includes(control.value)
+          ? { nameExists: true }
+          : null,
+    ],
+  });
+  plan: ClonePlan | null = null;
+  loading = false;
+
+  constructor(
+    public dialogRef: MatDialogRef<DfServiceCloneDialogComponent, ClonePlan>,
+    @Inject(MAT_DIALOG_DATA) public data: ServiceCloneDialogData,
+    private cloneService: DfServiceCloneService
+  ) {}
+
+  get count(): number {
+    return this.plan
+      ? 1 +
+          this.plan.scripts.length +
+          this.plan.roles.length +
+          this.plan.limits.length +
+          this.plan.relationships.length
+      : 0;
+  }
+
+  preview(): void {
+    if (this.nameControl.invalid) return;
+    this.loading = true;
+    this.cloneService
+      .plan(this.data.service, this.nameControl.value, this.data.isDatabase)
+      .pipe(untilDestroyed(this))
+      .subscribe({
+        next: plan => {
+          this.plan = plan;
+          this.loading = false;
+          this.nameControl.disable();
+        },
+        error: () => (this.loading = false),
+      });
+  }
+
+  /** Goes back to choosing the name */
+  edit(): void {
+    this.plan = null;
+    this.nameControl.enable();
+  }
+
+  onClone(): void {
+    if (this.plan) {
+      this.dialogRef.close(this.plan);
+    }
+  }
+
+  relationshipNames(related: ClonePlan['relationships'][number]): string {
+    return related.related.map(r => r.name ?? r.alias).join(', ');
+  }
+}
@@ -0,0 +1,116 @@
+import { Component, Input } from '@angular/core';
+import { AsyncPipe, DecimalPipe, NgFor, NgIf } from '@angular/common';
+import { FormGroup } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faCircleCheck,
+  faCircleXmark,
+  faPlug,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import {
+  ConnectionTestResult,
+  DfConnectionTestService,
+} from '../services/df-connection-test.service';
+import { maskedKeys } from '../utilities/service-history';
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-service-connection-test',
+  templateUrl: './df-service-connection-test.component.html',
+  styleUrls: ['./df-service-connection-test.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    DecimalPipe,
+    MatButtonModule,
+    MatProgressSpinnerModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfServiceConnectionTestComponent {
+  /** The service details form, tested with its current values */
+  @Input() form: FormGroup;
+  /** Group of the selected service type */
+  @Input() group: string | undefined;
+  /** Saved config of the service being edited, overlaid by the form values */
+  @Input() baseConfig: Record<string, unknown> | undefined;
+  /** Saved name of the service being edited */
+  @Input() serviceName: string | undefined;
+
+  faCircleCheck = faCircleCheck;
+  faCircleXmark = faCircleXmark;
+  faPlug = faPlug;
+  isDarkMode = this.themeService.darkMode$;
+
+  testing = false;
+  result: ConnectionTestResult | null = null;
+  /** Masked secrets to re-enter before the edited config can be tested */
+  maskedFields: string[] = [];
+
+  constructor(
+    private connectionTestService: DfConnectionTestService,
+    private themeService: DfThemeService
+  ) {}
+
+  get supported(): boolean {
+    return this.connectionTestService.supports(this.group);
+  }
+
+  get canTest(): boolean {
+    const config = this.form?.get('config');
+    return !!this.form?.get('type')?.value && !!config && config.valid;
+  }
+
+  get passed(): boolean {
+    return (
+      !!this.result &&
+      !this.result.error &&
+      this.result.checks.every(check => check.success)
+    );
+  }
+
+  /**
+   * Tests the form values through a temporary service. Secrets of a saved
+   * service only come back masked, so while any is unchanged the saved
+   * service is tested as is, unless other config fields were edited, in
+   * which case the masked secrets have to be re-entered first.
+   */
+  test(): void {
+    if (!this.group || !this.canTest || this.testing) return;
+    const { type, config, storageServiceId } = this.form.getRawValue();
+    const testConfig = {
+      ...(this.baseConfig ?? {}),
+      ...config,
+      ...(type === 'excel' ? { storage_service_id: storageServiceId } : {}),
+    };
+    const masked = maskedKeys(testConfig);
+    const testSaved =
+      masked.length > 0 &&
+      !!this.serviceName &&
+      !!this.form.get('config')?.pristine;
+    this.maskedFields = testSaved ? [] : masked;
+    this.result = null;
+    if (this.maskedFields.length) return;
+    this.testing = true;
+    (testSaved && this.serviceName
+      ? this.connectionTestService.testSaved(this.serviceName, this.group)
+      : this.connectionTestService.test(
+          { type, config: testConfig },
+          this.group
+        )
+    )
+      .pipe(untilDestroyed(this))
+      .subscribe(result => {
+        this.testing = false;
+        this.result = result;
+      });
+  }
+}
@@ -0,0 +1,94 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { NgIf } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import {
+  MAT_DIALOG_DATA,
+  MatDialogModule,
+  MatDialogRef,
+} from '@angular/material/dialog';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { DfServiceUsageService } from '../services/df-service-usage.service';
+import { DfServiceUsagesComponent } from '../df-service-usages/df-service-usages.component';
+import { forkJoin } from 'rxjs';
+import {
+  ServiceUsage,
+  mergeUsages,
+  usageCount,
+} from '../utilities/service-usage';
+
+export interface ServiceDeleteDialogData {
+  /** One service, or the selection of a bulk delete */
+  services: Array<{ id: number; name: string }>;
+}
+
+export interface ServiceDeleteDialogResult {
+  /** Remove the references to the services once they are deleted */
+  cleanUp: boolean;
+  /** Usage of each service, in the order of the dialog data */
+  usages: ServiceUsage[];
+}
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-service-delete-dialog',
+  templateUrl: './df-service-delete-dialog.component.html',
+  standalone: true,
+  imports: [
+    NgIf,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    TranslocoPipe,
+    DfServiceUsagesComponent,
+  ],
+})
+export class DfServiceDeleteDialogComponent implements OnInit {
+  usage: ServiceUsage | null = null;
+  private usages: ServiceUsage[] = [];
+  cleanUp = false;
+  acknowledged = false;
+
+  constructor(
+    public dialogRef: MatDialogRef<
+      DfServiceDeleteDialogComponent,
+      ServiceDeleteDialogResult
+    >,
+    @Inject(MAT_DIALOG_DATA) public data: ServiceDeleteDialogData,
+    private usageService: DfServiceUsageService
+  ) {}
+
+  ngOnInit(): void {
+    forkJoin(
+      this.data.services.map(service => this.usageService.getUsage(service))
+    )
+      .pipe(untilDestroyed(this))
+      .subscribe(usages => {
+        this.usages = usages;
+        this.usage = mergeUsages(usages);
+      });
+  }
+
+  get bulk(): boolean {
+    return this.data.services.length > 1;
+  }
+
+  get count(): number {
+    return this.usage ? usageCount(this.usage) : 0;
+  }
+
+  get canDelete(): boolean {
+    return !!this.usage && (!this.count || this.cleanUp || this.acknowledged);
+  }
+
+  onDelete(): void {
+    if (!this.usage || !this.canDelete) return;
+    this.dialogRef.close({
+      cleanUp: !!this.count && this.cleanUp,
+      usages: this.usages,
+    });
+  }
+}
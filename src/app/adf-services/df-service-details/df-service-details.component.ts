@@ -25,7 +25,7 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatSlideToggleModule } from '@angular/material/slide-toggle';
 import { MatTabsModule } from '@angular/material/tabs';
 import { ActivatedRoute, Router } from '@angular/router';
-import { TranslocoPipe } from '@ngneat/transloco';
+import { TranslocoPipe, TranslocoService } from '@ngneat/transloco';
 import { DfArrayFieldComponent } from 'src/app/shared/components/df-field-array/df-array-field.component';
 import { DfDynamicFieldComponent } from 'src/app/shared/components/df-dynamic-field/df-dynamic-field.component';
 import { DfAceEditorComponent } from 'src/app/shared/components/df-ace-editor/df-ace-editor.component';
@@ -62,6 +62,7 @@ import {
   catchError,
   mergeMap,
   of,
+  startWith,
   throwError,
   tap,
 } from 'rxjs';
@@ -91,6 +92,7 @@ import {
   MatStepper,
   MatStepperModule,
 } from '@angular/material/stepper';
+import { STEPPER_GLOBAL_OPTIONS } from '@angular/cdk/stepper';
 import { MatRadioModule } from '@angular/material/radio';
 import { MatCardModule } from '@angular/material/card';
 import { TitleCasePipe } from '@angular/common';
@@ -98,6 +100,32 @@ import { MatDividerModule } from '@angular/material/divider';
 import { DfSystemService } from 'src/app/shared/services/df-system.service';
 import { DfPaywallModal } from 'src/app/shared/components/df-paywall-modal/df-paywall-modal.component';
 import { DfAnalyticsService } from 'src/app/shared/services/df-analytics.service';
+import { DfServiceConnectionTestComponent } from '../df-service-connection-test/df-service-connection-test.component';
+import { DfServiceUsagesComponent } from '../df-service-usages/df-service-usages.component';
+import { DfServiceHistoryComponent } from '../df-service-history/df-service-history.component';
+import { DfMcpPlaygroundComponent } from '../df-mcp-playground/df-mcp-playground.component';
+import {
+  DfOpenApiImportDialogComponent,
+  OpenApiImportDialogData,
+} from '../df-openapi-import-dialog/df-openapi-import-dialog.component';
+import { GeneratedTool } from '../utilities/openapi-tools';
+import { mcpServiceTools } from '../utilities/mcp-tools';
+import { DfServiceHistoryService } from '../services/df-service-history.service';
+import { DfServiceUsageService } from '../services/df-service-usage.service';
+import {
+  NAME_USAGE_KINDS,
+  ServiceUsage,
+  usageCount,
+} from '../utilities/service-usage';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import {
+  ConfigCondition,
+  ConfigError,
+  configConditions,
+  configErrors,
+  configValidators,
+  isConditionMet,
+} from 'src/app/shared/utilities/config-rules';
 
 type UnsavedToolChoice = 'save' | 'discard' | 'cancel';
 
@@ -167,6 +195,13 @@ interface ServiceResponse {
     DfSecurityConfigComponent,
     MatMenuModule,
     MatDialogModule,
+    DfServiceConnectionTestComponent,
+    DfServiceUsagesComponent,
+    DfServiceHistoryComponent,
+    DfMcpPlaygroundComponent,
+  ],
+  providers: [
+    { provide: STEPPER_GLOBAL_OPTIONS, useValue: { showError: true } },
   ],
 })
 export class DfServiceDetailsComponent implements OnInit {
@@ -185,8 +220,12 @@ export class DfServiceDetailsComponent implements OnInit {
   faTrashCan = faTrashCan;
   faPlus = faPlus;
   serviceData: Service;
+  usage: ServiceUsage | null = null;
+  usageLoading = false;
+  private renameConfirmed = false;
   selectedServiceTypeLable: string;
   configSchema: Array<ConfigSchema>;
+  configConditions: Record<string, ConfigCondition> = {};
   images: Array<ImageObject>;
   search = '';
   serviceDefinition: string;
@@ -261,7 +300,12 @@ export class DfServiceDetailsComponent implements OnInit {
   editingToolIndex: number | null = null;
   customToolForm!: FormGroup;
   availableLookups: Array<{ name: string }> = [];
-  availableScmServices: Array<{ id: number; name: string; label: string; type: string }> = [];
+  availableScmServices: Array<{
+    id: number;
+    name: string;
+    label: string;
+    type: string;
+  }> = [];
   @ViewChild('functionEditor') functionEditor: DfAceEditorComponent;
   @ViewChild('headersEditor') headersEditor: DfAceEditorComponent;
   @ViewChild('unsavedToolDialog')
@@ -287,7 +331,10 @@ export class DfServiceDetailsComponent implements OnInit {
     private currentServiceService: DfCurrentServiceService,
     private snackBar: MatSnackBar,
     private systemService: DfSystemService,
-    private analyticsService: DfAnalyticsService
+    private analyticsService: DfAnalyticsService,
+    private usageService: DfServiceUsageService,
+    private historyService: DfServiceHistoryService,
+    private translocoService: TranslocoService
   ) {
     this.serviceForm = this.fb.group({
       type: ['', Validators.required],
@@ -860,13 +907,12 @@ export class DfServiceDetailsComponent implements OnInit {
                   )
                   .map((s: any) => {
                     const category = dbTypes.has(s.type) ? 'Database' : 'File';
-                    const prefix = this.sanitizeApiName(s.name);
                     return {
                       name: s.name,
                       label: s.label || s.name,
                       type: s.type,
                       category,
-                      tools: this.buildToolList(prefix, category),
+                      tools: mcpServiceTools(s.name, category),
                       expanded: false,
                     };
                   });
@@ -886,132 +932,6 @@ export class DfServiceDetailsComponent implements OnInit {
       });
   }
 
-  private buildToolList(
-    prefix: string,
-    category: string
-  ): { name: string; title: string; description: string }[] {
-    if (category === 'Database') {
-      return [
-        {
-          name: `${prefix}_get_tables`,
-          title: 'List Tables',
-          description: 'Get tables available in the database',
-        },
-        {
-          name: `${prefix}_get_table_schema`,
-          title: 'Get Table Schema',
-          description: 'Retrieve the schema of a specific table',
-        },
-        {
-          name: `${prefix}_get_table_data`,
-          title: 'Get Table Data',
-          description:
-            'Retrieve table data with filtering, pagination, and sorting',
-        },
-        {
-          name: `${prefix}_create_records`,
-          title: 'Create Records',
-          description: 'Create one or more records in a table',
-        },
-        {
-          name: `${prefix}_update_records`,
-          title: 'Update Records',
-          description: 'Update (patch) records in a table',
-        },
-        {
-          name: `${prefix}_delete_records`,
-          title: 'Delete Records',
-          description: 'Delete records from a table',
-        },
-        {
-          name: `${prefix}_get_table_fields`,
-          title: 'Get Table Fields',
-          description: 'Retrieve field definitions for a table',
-        },
-        {
-          name: `${prefix}_get_table_relationships`,
-          title: 'Get Table Relationships',
-          description: 'Retrieve relationships definition for a table',
-        },
-        {
-          name: `${prefix}_get_stored_procedures`,
-          title: 'List Stored Procedures',
-          description: 'Get stored procedures available in the database',
-        },
-        {
-          name: `${prefix}_call_stored_procedure`,
-          title: 'Call Stored Procedure',
-          description: 'Call a stored procedure',
-        },
-        {
-          name: `${prefix}_get_stored_functions`,
-          title: 'List Stored Functions',
-          description: 'Get stored functions available in the database',
-        },
-        {
-          name: `${prefix}_call_stored_function`,
-          title: 'Call Stored Function',
-          description: 'Call a stored function',
-        },
-        {
-          name: `${prefix}_get_database_resources`,
-          title: 'List Database Resources',
-          description: 'Get all resources available in the database service',
-        },
-        {
-          name: `${prefix}_get_api_spec`,
-          title: 'Get API Spec',
-          description:
-            'Get the OpenAPI specification for this database service',
-        },
-        {
-          name: `${prefix}_get_data_model`,
-          title: 'Get Data Model',
-          description:
-            'Get a condensed data model showing all tables and columns',
-        },
-        {
-          name: `${prefix}_aggregate_data`,
-          title: 'Aggregate Data',
-          description:
-            'Compute server-side aggregations (SUM, COUNT, AVG, MIN, MAX)',
-        },
-      ];
-    }
-    return [
-      {
-        name: `${prefix}_list_files`,
-        title: 'List Files',
-        description: 'List files and folders in a path',
-      },
-      {
-        name: `${prefix}_get_file`,
-        title: 'Get File Content',
-        description: 'Get the content of a file',
-      },
-      {
-        name: `${prefix}_create_file`,
-        title: 'Create File',
-        description: 'Create a new file with the given content',
-      },
-      {
-        name: `${prefix}_get_file_properties`,
-        title: 'Get File Properties',
-        description: 'Get properties/metadata of a file or folder',
-      },
-      {
-        name: `${prefix}_create_folder`,
-        title: 'Create Folder',
-        description: 'Create a new folder',
-      },
-      {
-        name: `${prefix}_delete_file`,
-        title: 'Delete File or Folder',
-        description: 'Delete a file or folder',
-      },
-    ];
-  }
-
   isToolEnabled(toolName: string): boolean {
     return !this.disabledTools.has(toolName);
   }
@@ -1052,14 +972,6 @@ export class DfServiceDetailsComponent implements OnInit {
     }
   }
 
-  private sanitizeApiName(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]/g, '_')
-      .replace(/_+/g, '_')
-      .replace(/^_|_$/g, '');
-  }
-
   // Custom tools management
   get customToolParameters(): FormArray {
     return this.customToolForm.get('parameters') as FormArray;
@@ -1122,6 +1034,27 @@ export class DfServiceDetailsComponent implements OnInit {
     });
   }
 
+  importCustomTools() {
+    this.dialog
+      .open<
+        DfOpenApiImportDialogComponent,
+        OpenApiImportDialogData,
+        GeneratedTool[]
+      >(DfOpenApiImportDialogComponent, {
+        width: '800px',
+        data: {
+          serviceId: this.serviceData.id,
+          existingNames: this.customTools.map(tool => tool.name),
+        },
+      })
+      .afterClosed()
+      .subscribe(tools => {
+        if (tools?.length) {
+          this.customTools.push(...tools);
+        }
+      });
+  }
+
   deleteCustomTool(index: number) {
     this.customTools.splice(index, 1);
   }
@@ -1226,8 +1159,11 @@ export class DfServiceDetailsComponent implements OnInit {
       })
       .subscribe({
         next: (res: any) => {
-          this.availableScmServices = (res?.resource ?? res?.services ?? [])
-            .filter((s: any) => s.id && s.name);
+          this.availableScmServices = (
+            res?.resource ??
+            res?.services ??
+            []
+          ).filter((s: any) => s.id && s.name);
         },
         error: () => {
           this.availableScmServices = [];
@@ -1251,7 +1187,10 @@ export class DfServiceDetailsComponent implements OnInit {
 
     const service = this.availableScmServices.find(s => s.id === serviceId);
     if (!service) {
-      this.snackbarService.openSnackBar('Selected SCM service not found.', 'error');
+      this.snackbarService.openSnackBar(
+        'Selected SCM service not found.',
+        'error'
+      );
       return;
     }
 
@@ -1265,7 +1204,10 @@ export class DfServiceDetailsComponent implements OnInit {
         next: (content: string) => {
           this.customToolForm.get('function')?.setValue(content);
           this.liveFunctionValue = content;
-          this.snackbarService.openSnackBar('Function loaded from repository.', 'success');
+          this.snackbarService.openSnackBar(
+            'Function loaded from repository.',
+            'success'
+          );
         },
         error: (err: any) => {
           this.snackbarService.openSnackBar(
@@ -1289,6 +1231,61 @@ export class DfServiceDetailsComponent implements OnInit {
     console.log('Form values:', this.serviceForm.value);
   }
 
+  loadUsage() {
+    if (this.usage || this.usageLoading) return;
+    this.usageLoading = true;
+    this.usageService.getUsage(this.serviceData).subscribe(usage => {
+      this.usage = usage;
+      this.usageLoading = false;
+    });
+  }
+
+  /**
+   * Event scripts and MCP tools refer to the service by name, so warn
+   * before a rename leaves them behind.
+   */
+  confirmRename(proceed: () => void) {
+    const confirm = (usage: ServiceUsage) => {
+      this.usage = usage;
+      if (!usageCount(usage, NAME_USAGE_KINDS)) {
+        proceed();
+        return;
+      }
+      this.dialog
+        .open(DfConfirmDialogComponent, {
+          data: {
+            title: 'services.usages.renameTitle',
+            message: 'services.usages.renameConfirm',
+          },
+        })
+        .afterClosed()
+        .subscribe(result => {
+          if (result) proceed();
+        });
+    };
+    if (this.usage) {
+      confirm(this.usage);
+    } else {
+      this.usageService.getUsage(this.serviceData).subscribe(confirm);
+    }
+  }
+
+  /** Config fields the schema marks as passwords */
+  get secretFields(): string[] {
+    return (this.configSchema ?? [])
+      .filter(field => field.type === 'password')
+      .map(field => field.name);
+  }
+
+  onHistoryRestored() {
+    this.router.navigate(['../'], { relativeTo: this.activatedRoute });
+  }
+
+  get serviceTypeGroup(): string | undefined {
+    const type = this.serviceForm.getRawValue().type;
+    return this.serviceTypes?.find(st => st.name === type)?.group;
+  }
+
   updateServiceTypeFlags(type: string) {
     // Reset all flags
     this.isNetworkService = false;
@@ -1313,13 +1310,9 @@ export class DfServiceDetailsComponent implements OnInit {
     if (this.configSchema && this.configSchema.length > 0) {
       const config = this.fb.group({});
       this.configSchema.forEach(control => {
-        const validator = [];
-        if (control.required) {
-          validator.push(Validators.required);
-        }
         config?.addControl(
           control.name,
-          new FormControl(control.default, validator)
+          new FormControl(control.default, configValidators(control))
         );
       });
       if (this.isFile && value === 'local_file') {
@@ -1353,7 +1346,76 @@ export class DfServiceDetailsComponent implements OnInit {
         this.serviceDefinitionType = '0'; // Default to JSON
       }
       this.serviceForm.addControl('config', config);
+      this.watchConfigConditions(config);
+    }
+  }
+
+  /**
+   * Disables the config fields whose condition isn't met, which hides them
+   * and skips their validation while keeping their values.
+   */
+  private watchConfigConditions(config: FormGroup) {
+    this.configConditions = configConditions(this.configSchema);
+    const fields = new Set(
+      Object.values(this.configConditions).map(condition => condition.field)
+    );
+    fields.forEach(field => {
+      const control = config.get(field);
+      control?.valueChanges
+        .pipe(startWith(control.value))
+        .subscribe(() => this.applyConfigConditions(config));
+    });
+  }
+
+  private applyConfigConditions(config: FormGroup) {
+    const values = config.getRawValue();
+    Object.entries(this.configConditions).forEach(([name, condition]) => {
+      const control = config.get(name);
+      const met = isConditionMet(condition, values);
+      if (met && control?.disabled) {
+        control.enable({ emitEvent: false });
+      } else if (!met && control?.enabled) {
+        control.disable({ emitEvent: false });
+      }
+    });
+  }
+
+  isConfigFieldVisible(name: string) {
+    return (
+      !this.configConditions[name] || !!this.getConfigControl(name)?.enabled
+    );
+  }
+
+  /** Errors of the fields a wizard step edits, once they have been changed */
+  stepErrors(step: 'details' | 'options'): ConfigError[] {
+    const changed = (names: string[], group = this.serviceForm) =>
+      Object.fromEntries(
+        names
+          .map(name => [name, group.get(name)] as const)
+          .filter(([, control]) => control?.dirty || control?.touched)
+      );
+    if (step === 'details') {
+      return configErrors(changed(['name', 'label', 'description']), {
+        name: this.translocoService.translate(
+          'services.controls.namespace.label'
+        ),
+        label: this.translocoService.translate('services.controls.label.label'),
+        description: this.translocoService.translate(
+          'services.controls.description.label'
+        ),
+      });
+    }
+    const config = this.serviceForm.get('config') as FormGroup | null;
+    if (!config) {
+      return [];
     }
+    return configErrors(
+      changed(
+        this.viewSchema.map(item => item.name),
+        config
+      ),
+      Object.fromEntries(this.viewSchema.map(item => [item.name, item.label]))
+    );
   }
 
   get subscriptionRequired() {
@@ -1439,7 +1501,9 @@ export class DfServiceDetailsComponent implements OnInit {
 
   get viewSchema() {
     const result = this.configSchema?.filter(
-      control => !['storageServiceId', 'storagePath'].includes(control.name)
+      control =>
+        !['storageServiceId', 'storagePath'].includes(control.name) &&
+        this.isConfigFieldVisible(control.name)
     );
 
     return result || [];
@@ -1607,6 +1671,18 @@ export class DfServiceDetailsComponent implements OnInit {
     }
 
     const formattedName = this.formatServiceName(data.name);
+    if (
+      this.edit &&
+      formattedName !== this.serviceData.name &&
+      !this.renameConfirmed
+    ) {
+      this.confirmRename(() => {
+        this.renameConfirmed = true;
+        this.save(Cache, Continue);
+        this.renameConfirmed = false;
+      });
+      return;
+    }
     this.serviceForm.patchValue({ name: formattedName });
     type Params = {
       snackbarError?: string;
@@ -1794,6 +1870,16 @@ export class DfServiceDetailsComponent implements OnInit {
           snackbarSuccess: 'services.updateSuccessMsg',
         })
         .subscribe(() => {
+          this.historyService.record(this.serviceData, this.secretFields);
+          // The page stays open, so the next save replaces this definition
+          this.serviceData = {
+            ...this.serviceData,
+            name: editPayload.name,
+            label: editPayload.label,
+            description: editPayload.description,
+            isActive: editPayload.isActive,
+            config: editPayload.config,
+          } as Service;
           if (data.type.toLowerCase().includes('saml')) {
             this.router.navigate(['../'], { relativeTo: this.activatedRoute });
           } else {
@@ -0,0 +1,110 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+} from '@angular/core';
+import { AsyncPipe, DatePipe, NgFor, NgIf } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import { faClockRotateLeft } from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { UntilDestroy, untilDestroyed } from '@ngneat/until-destroy';
+import { filter, switchMap } from 'rxjs';
+import { DfConfirmDialogComponent } from 'src/app/shared/components/df-confirm-dialog/df-confirm-dialog.component';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import { DfServiceHistoryService } from '../services/df-service-history.service';
+import {
+  DiffLine,
+  ServiceSnapshot,
+  VersionedService,
+  diffLines,
+  maskSecrets,
+  stableStringify,
+} from '../utilities/service-history';
+
+@UntilDestroy({ checkProperties: true })
+@Component({
+  selector: 'df-service-history',
+  templateUrl: './df-service-history.component.html',
+  styleUrls: ['./df-service-history.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    DatePipe,
+    MatButtonModule,
+    MatDialogModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfServiceHistoryComponent implements OnChanges {
+  /** The saved service as it is now */
+  @Input() service: VersionedService;
+  /** Config fields to mask besides the ones named like secrets */
+  @Input() secretFields: string[] = [];
+  @Output() restored = new EventEmitter<void>();
+
+  faClockRotateLeft = faClockRotateLeft;
+  isDarkMode = this.themeService.darkMode$;
+
+  history: ServiceSnapshot[] = [];
+  selected: ServiceSnapshot | null = null;
+  diff: DiffLine[] = [];
+
+  constructor(
+    private historyService: DfServiceHistoryService,
+    private themeService: DfThemeService,
+    private dialog: MatDialog
+  ) {}
+
+  ngOnChanges(): void {
+    this.load();
+  }
+
+  load(): void {
+    this.history = this.service
+      ? this.historyService.list(this.service.id)
+      : [];
+    this.select(this.history[0] ?? null);
+  }
+
+  select(snapshot: ServiceSnapshot | null): void {
+    this.selected = snapshot;
+    this.diff = snapshot
+      ? diffLines(
+          stableStringify(snapshot.config),
+          stableStringify(
+            maskSecrets(this.service.config ?? {}, this.secretFields)
+          )
+        )
+      : [];
+  }
+
+  get changedLines(): number {
+    return this.diff.filter(line => line.status !== 'same').length;
+  }
+
+  restore(snapshot: ServiceSnapshot): void {
+    this.dialog
+      .open(DfConfirmDialogComponent, {
+        data: {
+          title: 'services.history.restoreTitle',
+          message: 'services.history.restoreConfirm',
+        },
+      })
+      .afterClosed()
+      .pipe(
+        filter(Boolean),
+        switchMap(() =>
+          this.historyService.restore(this.service, snapshot, this.secretFields)
+        ),
+        untilDestroyed(this)
+      )
+      .subscribe(() => this.restored.emit());
+  }
+}
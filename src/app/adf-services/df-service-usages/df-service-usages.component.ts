@@ -0,0 +1,41 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { DfThemeService } from 'src/app/shared/services/df-theme.service';
+import {
+  ServiceUsage,
+  USAGE_KINDS,
+  usageCount,
+} from '../utilities/service-usage';
+
+@Component({
+  selector: 'df-service-usages',
+  templateUrl: './df-service-usages.component.html',
+  styleUrls: ['./df-service-usages.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    RouterLink,
+    MatProgressSpinnerModule,
+    TranslocoPipe,
+  ],
+})
+export class DfServiceUsagesComponent {
+  @Input() usage: ServiceUsage | null = null;
+  @Input() loading = false;
+  /** Emits when one of the links is followed */
+  @Output() navigate = new EventEmitter<string>();
+
+  kinds = USAGE_KINDS;
+  isDarkMode = this.themeService.darkMode$;
+
+  constructor(private themeService: DfThemeService) {}
+
+  get empty(): boolean {
+    return !!this.usage && !usageCount(this.usage);
+  }
+}
@@ -0,0 +1,100 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import {
+  ConnectionTestResult,
+  DfConnectionTestService,
+} from './df-connection-test.service';
+
+describe('DfConnectionTestService', () => {
+  let service: DfConnectionTestService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(DfConnectionTestService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('only supports groups with health check endpoints', () => {
+    expect(service.supports('Database')).toBe(true);
+    expect(service.supports('File')).toBe(true);
+    expect(service.supports('Remote Service')).toBe(false);
+    expect(service.supports(undefined)).toBe(false);
+  });
+
+  it('checks each endpoint through a temporary service and deletes it', () => {
+    let result: ConnectionTestResult | undefined;
+    service
+      .test({ type: 'mysql', config: { host: 'db' } }, 'Database')
+      .subscribe(r => (result = r));
+
+    const create = httpMock.expectOne('/api/v2/system/service');
+    expect(create.request.method).toBe('POST');
+    const name = create.request.body.resource[0].name;
+    expect(create.request.body.resource[0].config).toEqual({ host: 'db' });
+    expect(create.request.body.resource[0].isActive).toBe(true);
+    create.flush({ resource: [{ id: 7 }] });
+
+    httpMock.expectOne(`/api/v2/${name}/_schema`).flush('{"resource":[]}');
+    httpMock.expectOne(`/api/v2/${name}/_table`).flush(
+      JSON.stringify({
+        error: { message: 'SQLSTATE[HY000] [2002] refused' },
+      }),
+      { status: 500, statusText: 'Server Error' }
+    );
+    httpMock.expectOne('/api/v2/system/service/7').flush({});
+
+    expect(result?.error).toBeUndefined();
+    expect(result?.checks.map(c => [c.endpoint, c.success, c.error])).toEqual([
+      ['/_schema', true, undefined],
+      ['/_table', false, 'SQLSTATE[HY000] [2002] refused'],
+    ]);
+  });
+
+  it('tests a saved service through its own endpoints', () => {
+    let result: ConnectionTestResult | undefined;
+    service.testSaved('db', 'Database').subscribe(r => (result = r));
+
+    httpMock.expectOne('/api/v2/db/_schema').flush('{"resource":[]}');
+    httpMock.expectOne('/api/v2/db/_table').flush('{"resource":[]}');
+    httpMock.expectNone('/api/v2/system/service');
+
+    expect(result?.checks.every(c => c.success)).toBe(true);
+  });
+
+  it('deletes the service when the test is cancelled before it exists', () => {
+    const subscription = service
+      .test({ type: 'mysql', config: {} }, 'Database')
+      .subscribe();
+    const create = httpMock.expectOne('/api/v2/system/service');
+    subscription.unsubscribe();
+
+    expect(create.cancelled).toBe(false);
+    create.flush({ resource: [{ id: 9 }] });
+    httpMock.expectOne('/api/v2/system/service/9').flush({});
+  });
+
+  it('reports the error when the service cannot be created', () => {
+    let result: ConnectionTestResult | undefined;
+    service
+      .test({ type: 'mysql', config: {} }, 'Database')
+      .subscribe(r => (result = r));
+
+    httpMock
+      .expectOne('/api/v2/system/service')
+      .flush(
+        { error: { message: 'Host is required' } },
+        { status: 400, statusText: 'Bad Request' }
+      );
+
+    expect(result).toEqual({ error: 'Host is required', checks: [] });
+  });
+});
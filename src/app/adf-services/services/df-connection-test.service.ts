@@ -0,0 +1,112 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import {
+  Observable,
+  ReplaySubject,
+  catchError,
+  finalize,
+  map,
+  of,
+  share,
+  switchMap,
+} from 'rxjs';
+import { URLS } from 'src/app/shared/constants/urls';
+import {
+  DfEndpointProbeService,
+  EndpointCheck,
+  SKIP_ERROR_HEADER,
+  errorMessage,
+} from 'src/app/shared/services/df-endpoint-probe.service';
+
+export interface ConnectionTestResult {
+  /** Set when the temporary service itself could not be created */
+  error?: string;
+  checks: EndpointCheck[];
+}
+
+export interface ConnectionTestService {
+  type: string;
+  config: Record<string, unknown>;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfConnectionTestService {
+  constructor(
+    private http: HttpClient,
+    private probeService: DfEndpointProbeService
+  ) {}
+
+  /** Whether there are endpoints to check for services of the group */
+  supports(group: string | undefined): boolean {
+    return this.probeService.supports(group);
+  }
+
+  /**
+   * Calls the health check endpoints of a saved service with its stored
+   * config, for when the form only has the masked values of its secrets.
+   */
+  testSaved(name: string, group: string): Observable<ConnectionTestResult> {
+    return this.probeService
+      .checkGroup(name, group)
+      .pipe(map(checks => ({ checks })));
+  }
+
+  /**
+   * Creates a throwaway service with the given config, calls the health
+   * check endpoints of its group through it and deletes it again. It has to
+   * be active for DreamFactory to route requests to it. The create request
+   * is kept alive when the caller unsubscribes early, so the service is
+   * deleted even if it is only created after that.
+   */
+  test(
+    service: ConnectionTestService,
+    group: string
+  ): Observable<ConnectionTestResult> {
+    const name = `df_connection_test_${Date.now().toString(36)}`;
+    const created = this.http
+      .post<{ resource: Array<{ id: number }> }>(
+        URLS.SYSTEM_SERVICE,
+        {
+          resource: [
+            {
+              name,
+              label: 'Connection test',
+              description: 'Temporary service created to test a connection',
+              type: service.type,
+              isActive: true,
+              config: service.config,
+            },
+          ],
+        },
+        { headers: SKIP_ERROR_HEADER }
+      )
+      .pipe(
+        map(response => response.resource[0].id),
+        share({
+          connector: () => new ReplaySubject<number>(1),
+          resetOnError: false,
+          resetOnComplete: false,
+          resetOnRefCountZero: false,
+        })
+      );
+    return created.pipe(
+      switchMap(() => this.testSaved(name, group)),
+      catchError((err: HttpErrorResponse) =>
+        of({ error: errorMessage(err), checks: [] })
+      ),
+      finalize(() =>
+        created
+          .pipe(
+            switchMap(id =>
+              this.http.delete(`${URLS.SYSTEM_SERVICE}/${id}`, {
+                headers: SKIP_ERROR_HEADER,
+              })
+            )
+          )
+          .subscribe({ error: () => undefined })
+      )
+    );
+  }
+}
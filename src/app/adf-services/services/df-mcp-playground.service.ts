@@ -0,0 +1,165 @@
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable, catchError, map, of } from 'rxjs';
+import {
+  API_KEY_HEADER,
+  SESSION_TOKEN_HEADER,
+} from 'src/app/shared/constants/http-headers';
+import { BASE_URL } from 'src/app/shared/constants/urls';
+import { DfUserDataService } from 'src/app/shared/services/df-user-data.service';
+import {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCP_PROTOCOL_VERSION,
+  parseRpcResponse,
+} from '../utilities/mcp-playground';
+
+const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+export interface McpSession {
+  endpoint: string;
+  /** Calls as the key's role when set, else with the admin's session */
+  apiKey: string | null;
+  sessionId?: string;
+}
+
+export interface McpExchange {
+  method: string;
+  request: JsonRpcRequest;
+  status: number;
+  /** Round trip in milliseconds */
+  duration: number;
+  /** Raw response body */
+  response: string;
+  message: JsonRpcResponse | null;
+  error?: string;
+  sessionId?: string;
+}
+
+/**
+ * Talks JSON-RPC to an MCP service the way an LLM client would. Requests go
+ * to an absolute URL so the app's interceptors leave the credentials and
+ * the casing of tool arguments alone.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DfMcpPlaygroundService {
+  private nextId = 1;
+
+  constructor(
+    private http: HttpClient,
+    private userDataService: DfUserDataService
+  ) {}
+
+  endpoint(serviceName: string): string {
+    return `${window.location.origin}${BASE_URL}/${serviceName}`;
+  }
+
+  initialize(session: McpSession): Observable<McpExchange> {
+    return this.send(session, 'initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'dreamfactory-admin-playground', version: '1.0.0' },
+    });
+  }
+
+  initialized(session: McpSession): Observable<McpExchange> {
+    return this.send(session, 'notifications/initialized', undefined, true);
+  }
+
+  listTools(session: McpSession): Observable<McpExchange> {
+    return this.send(session, 'tools/list', {});
+  }
+
+  callTool(
+    session: McpSession,
+    name: string,
+    args: Record<string, unknown>
+  ): Observable<McpExchange> {
+    return this.send(session, 'tools/call', { name, arguments: args });
+  }
+
+  private send(
+    session: McpSession,
+    method: string,
+    params?: Record<string, unknown>,
+    notification = false
+  ): Observable<McpExchange> {
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      ...(notification ? {} : { id: this.nextId++ }),
+      method,
+      ...(params ? { params } : {}),
+    };
+    const start = performance.now();
+    const exchange = (status: number, response: string) => ({
+      method,
+      request,
+      status,
+      duration: Math.round(performance.now() - start),
+      response,
+    });
+    return this.http
+      .post(session.endpoint, request, {
+        headers: this.headers(session),
+        observe: 'response',
+        responseType: 'text',
+      })
+      .pipe(
+        map((response: HttpResponse<string>) => {
+          const body = response.body ?? '';
+          const result: McpExchange = {
+            ...exchange(response.status, body),
+            message: null,
+            sessionId: response.headers.get(MCP_SESSION_HEADER) ?? undefined,
+          };
+          try {
+            result.message = parseRpcResponse(
+              body,
+              response.headers.get('Content-Type'),
+              request.id
+            );
+            result.error = result.message?.error?.message;
+          } catch (e) {
+            result.error = (e as Error).message;
+          }
+          return result;
+        }),
+        catchError((err: HttpErrorResponse) =>
+          of({
+            ...exchange(
+              err.status,
+              typeof err.error === 'string'
+                ? err.error
+                : JSON.stringify(err.error ?? null)
+            ),
+            message: null,
+            error: err.message,
+          })
+        )
+      );
+  }
+
+  private headers(session: McpSession): HttpHeaders {
+    let headers = new HttpHeaders({
+      Accept: 'application/json, text/event-stream',
+      'Content-Type': 'application/json',
+      'MCP-Protocol-Version': MCP_PROTOCOL_VERSION,
+    });
+    if (session.apiKey) {
+      headers = headers.set(API_KEY_HEADER, session.apiKey);
+    } else if (this.userDataService.token) {
+      headers = headers.set(SESSION_TOKEN_HEADER, this.userDataService.token);
+    }
+    if (session.sessionId) {
+      headers = headers.set(MCP_SESSION_HEADER, session.sessionId);
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,175 @@
+import { Inject, Injectable } from '@angular/core';
+import { TranslocoService } from '@ngneat/transloco';
+import {
+  Observable,
+  catchError,
+  concat,
+  forkJoin,
+  map,
+  of,
+  switchMap,
+  toArray,
+} from 'rxjs';
+import { fetchFullSchema } from 'src/app/adf-schema/utilities/full-schema';
+import {
+  BASE_SERVICE_TOKEN,
+  EVENT_SCRIPT_SERVICE_TOKEN,
+  LIMIT_SERVICE_TOKEN,
+  ROLE_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import {
+  GenericCreateResponse,
+  GenericListResponse,
+  RequestOptions,
+} from 'src/app/shared/types/generic-http';
+import { BulkResult } from 'src/app/shared/types/table';
+import { runBulk } from 'src/app/shared/utilities/bulk';
+import {
+  ClonePlan,
+  CloneSourceService,
+  CloneSources,
+  bindClonePlan,
+  buildClonePlan,
+} from '../utilities/service-clone';
+
+/** Failures are collected per item instead of showing snackbars */
+const CLONE_OPTIONS = {
+  snackbarError: undefined,
+  additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfServiceCloneService {
+  constructor(
+    @Inject(SERVICES_SERVICE_TOKEN) private servicesService: DfBaseCrudService,
+    @Inject(EVENT_SCRIPT_SERVICE_TOKEN)
+    private eventScriptService: DfBaseCrudService,
+    @Inject(ROLE_SERVICE_TOKEN) private roleService: DfBaseCrudService,
+    @Inject(LIMIT_SERVICE_TOKEN) private limitService: DfBaseCrudService,
+    @Inject(BASE_SERVICE_TOKEN) private baseService: DfBaseCrudService,
+    private translocoService: TranslocoService
+  ) {}
+
+  /**
+   * Loads everything bound to the service and returns what a deep clone
+   * named `name` would create. Virtual relationships are only looked up
+   * for database services.
+   */
+  plan(
+    source: CloneSourceService,
+    name: string,
+    isDatabase: boolean
+  ): Observable<ClonePlan> {
+    return forkJoin({
+      scripts: this.list<CloneSources['scripts'][number]>(
+        this.eventScriptService,
+        { filter: `name like "${source.name}.%"` }
+      ),
+      roles: this.list<CloneSources['roles'][number]>(this.roleService, {
+        fields: 'id,name',
+        related: 'role_service_access_by_role_id',
+      }),
+      limits: this.list<CloneSources['limits'][number]>(this.limitService, {
+        filter: `service_id=${source.id}`,
+      }),
+      tables: isDatabase
+        ? fetchFullSchema(this.baseService, source.name).pipe(
+            // TableRelated spells the id `refServiceID`, the API sends
+            // `refServiceId` like TableRelatedType
+            map(tables => tables as unknown as CloneSources['tables']),
+            catchError(() => of([]))
+          )
+        : of([]),
+    }).pipe(map(sources => buildClonePlan(source, name, sources)));
+  }
+
+  /**
+   * Creates the service, then the items of the plan bound to its id. The
+   * items are created one by one so a failure doesn't stop the rest.
+   */
+  execute(plan: ClonePlan): Observable<BulkResult[]> {
+    const label = (kind: string, name: string) =>
+      `${this.translocoService.translate(
+        `services.deepClone.kinds.${kind}`
+      )}: ${name}`;
+    return this.servicesService
+      .create<GenericCreateResponse>(
+        { resource: [plan.service] },
+        CLONE_OPTIONS
+      )
+      .pipe(
+        switchMap(response => {
+          const bound = bindClonePlan(plan, response.resource[0].id);
+          return concat(
+            of([{ name: label('service', plan.service.name), success: true }]),
+            runBulk(
+              bound.scripts,
+              script => label('scripts', script.name),
+              script =>
+                this.eventScriptService.create(
+                  script,
+                  CLONE_OPTIONS,
+                  script.name
+                )
+            ),
+            runBulk(
+              bound.roles,
+              role => label('roles', role.name),
+              role =>
+                this.roleService.patch(
+                  role.id,
+                  { id: role.id, roleServiceAccessByRoleId: role.access },
+                  CLONE_OPTIONS
+                )
+            ),
+            runBulk(
+              bound.limits,
+              limit => label('limits', limit.name),
+              limit =>
+                this.limitService.create({ resource: [limit] }, CLONE_OPTIONS)
+            ),
+            runBulk(
+              bound.relationships,
+              table => label('relationships', table.table),
+              table =>
+                this.baseService.patch(
+                  `${plan.service.name}/_schema/${table.table}`,
+                  { name: table.table, related: table.related },
+                  CLONE_OPTIONS
+                )
+            )
+          ).pipe(
+            toArray(),
+            map(results => results.flat())
+          );
+        }),
+        catchError(err =>
+          of([
+            {
+              name: label('service', plan.service.name),
+              success: false,
+              error: err?.error?.error?.message ?? err?.message,
+            },
+          ])
+        )
+      );
+  }
+
+  private list<T>(
+    crudService: DfBaseCrudService,
+    options: Partial<RequestOptions>
+  ): Observable<T[]> {
+    return crudService
+      .getAll<GenericListResponse<T>>({
+        limit: 0,
+        includeCount: false,
+        ...CLONE_OPTIONS,
+        ...options,
+      })
+      .pipe(map(response => response.resource ?? []));
+  }
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { DfServiceHistoryService } from './df-service-history.service';
+import { SECRET_MASK } from '../utilities/service-history';
+
+describe('DfServiceHistoryService', () => {
+  let service: DfServiceHistoryService;
+  let httpMock: HttpTestingController;
+  const db = {
+    id: 3,
+    name: 'db',
+    label: 'DB',
+    description: '',
+    type: 'mysql',
+    isActive: true,
+    config: { host: 'old', password: 'secret' },
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(DfServiceHistoryService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('records masked snapshots newest first and skips duplicates', () => {
+    service.record(db);
+    service.record(db);
+    service.record({ ...db, config: { host: 'newer', password: 'secret' } });
+
+    const history = service.list(3);
+    expect(history.map(s => s.config)).toEqual([
+      { host: 'newer', password: SECRET_MASK },
+      { host: 'old', password: SECRET_MASK },
+    ]);
+    expect(service.list(4)).toEqual([]);
+  });
+
+  it('restores a snapshot with the current secrets', () => {
+    service.record(db);
+    const [snapshot] = service.list(3);
+    const current = { ...db, config: { host: 'new', password: 'rotated' } };
+
+    service.restore(current, snapshot).subscribe();
+
+    const request = httpMock.expectOne('/api/v2/system/service/3');
+    expect(request.request.method).toBe('PUT');
+    expect(request.request.body.config).toEqual({
+      host: 'old',
+      password: 'rotated',
+    });
+    request.flush({ id: 3 });
+
+    expect(service.list(3)[0].config['host']).toBe('new');
+  });
+});
@@ -0,0 +1,100 @@
+import { Inject, Injectable } from '@angular/core';
+import { Observable, tap } from 'rxjs';
+import { SERVICES_SERVICE_TOKEN } from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import {
+  ServiceSnapshot,
+  VersionedService,
+  maskSecrets,
+  restoreSecrets,
+  stableStringify,
+} from '../utilities/service-history';
+
+const HISTORY_KEY_PREFIX = 'serviceHistory.';
+const MAX_SNAPSHOTS = 25;
+
+/**
+ * Keeps the definitions a service had before each save in local storage,
+ * newest first, with secrets masked.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DfServiceHistoryService {
+  constructor(
+    @Inject(SERVICES_SERVICE_TOKEN) private servicesService: DfBaseCrudService
+  ) {}
+
+  list(serviceId: number): ServiceSnapshot[] {
+    try {
+      return JSON.parse(
+        localStorage.getItem(HISTORY_KEY_PREFIX + serviceId) || '[]'
+      );
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /** Snapshots the definition that is about to be replaced */
+  record(service: VersionedService, secretFields: string[] = []): void {
+    const snapshot: ServiceSnapshot = {
+      savedAt: new Date().toISOString(),
+      name: service.name,
+      label: service.label,
+      description: service.description,
+      type: service.type,
+      isActive: service.isActive,
+      config: maskSecrets(service.config ?? {}, secretFields),
+    };
+    const history = this.list(service.id);
+    const [latest] = history;
+    if (latest && this.sameDefinition(latest, snapshot)) {
+      return;
+    }
+    this.save(service.id, [snapshot, ...history].slice(0, MAX_SNAPSHOTS));
+  }
+
+  clear(serviceId: number): void {
+    localStorage.removeItem(HISTORY_KEY_PREFIX + serviceId);
+  }
+
+  /**
+   * Puts an earlier version back through `update()`, keeping the current
+   * secrets for the masked ones. The current version is recorded first so
+   * the restore can itself be undone.
+   */
+  restore(
+    current: VersionedService,
+    snapshot: ServiceSnapshot,
+    secretFields: string[] = []
+  ): Observable<unknown> {
+    const payload = {
+      ...current,
+      name: snapshot.name,
+      label: snapshot.label,
+      description: snapshot.description,
+      isActive: snapshot.isActive,
+      config: restoreSecrets(snapshot.config, current.config),
+    };
+    return this.servicesService
+      .update(current.id, payload, {
+        snackbarError: 'server',
+        snackbarSuccess: 'services.history.restored',
+      })
+      .pipe(tap(() => this.record(current, secretFields)));
+  }
+
+  private sameDefinition(a: ServiceSnapshot, b: ServiceSnapshot): boolean {
+    return (
+      stableStringify({ ...a, savedAt: null }) ===
+      stableStringify({ ...b, savedAt: null })
+    );
+  }
+
+  private save(serviceId: number, history: ServiceSnapshot[]): void {
+    localStorage.setItem(
+      HISTORY_KEY_PREFIX + serviceId,
+      JSON.stringify(history)
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import {
+  APP_SERVICE_TOKEN,
+  EVENT_SCRIPT_SERVICE_TOKEN,
+  LIMIT_SERVICE_TOKEN,
+  ROLE_SERVICE_TOKEN,
+  SCHEDULER_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfServiceUsageService } from './df-service-usage.service';
+import { ServiceUsage } from '../utilities/service-usage';
+
+const crudService = () => ({
+  getAll: jest.fn().mockReturnValue(of({ resource: [] })),
+  patch: jest.fn().mockReturnValue(of({})),
+  delete: jest.fn().mockReturnValue(of({})),
+});
+
+const usageOf = (limitId: number): ServiceUsage => ({
+  roles: [],
+  apps: [],
+  limits: [{ id: limitId, name: `limit ${limitId}`, route: '/limits' }],
+  tasks: [],
+  scripts: [],
+  mcp: [],
+});
+
+describe('DfServiceUsageService', () => {
+  let service: DfServiceUsageService;
+  let limitService: ReturnType<typeof crudService>;
+
+  beforeEach(() => {
+    limitService = crudService();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ROLE_SERVICE_TOKEN, useValue: crudService() },
+        { provide: APP_SERVICE_TOKEN, useValue: crudService() },
+        { provide: LIMIT_SERVICE_TOKEN, useValue: limitService },
+        { provide: SCHEDULER_SERVICE_TOKEN, useValue: crudService() },
+        { provide: EVENT_SCRIPT_SERVICE_TOKEN, useValue: crudService() },
+        { provide: SERVICES_SERVICE_TOKEN, useValue: crudService() },
+      ],
+    });
+    service = TestBed.inject(DfServiceUsageService);
+  });
+
+  it('cleans up after the services are deleted', () => {
+    const order: string[] = [];
+    limitService.delete.mockImplementation((id: number) => {
+      order.push(`limit ${id}`);
+      return of({});
+    });
+    let result: unknown;
+    service
+      .deleteAndCleanUp([{ name: 'db' }], [usageOf(4)], ({ name }) => {
+        order.push(name);
+        return of({});
+      })
+      .subscribe(r => (result = r));
+
+    expect(order).toEqual(['db', 'limit 4']);
+    expect(result).toEqual({
+      deleted: [{ name: 'db', success: true }],
+      cleanUp: [{ name: 'limit 4', success: true }],
+    });
+  });
+
+  it('leaves the references of services that failed to delete', () => {
+    let result: unknown;
+    service
+      .deleteAndCleanUp(
+        [{ name: 'db' }, { name: 'files' }],
+        [usageOf(4), usageOf(5)],
+        ({ name }) =>
+          name === 'db' ? throwError(() => new Error('In use')) : of({})
+      )
+      .subscribe(r => (result = r));
+
+    expect(limitService.delete).toHaveBeenCalledTimes(1);
+    expect(limitService.delete).toHaveBeenCalledWith(5, expect.anything());
+    expect(result).toEqual({
+      deleted: [
+        { name: 'db', success: false, error: 'In use' },
+        { name: 'files', success: true },
+      ],
+      cleanUp: [{ name: 'limit 5', success: true }],
+    });
+  });
+
+  it('does not clean up when nothing was deleted or clean up was not asked', () => {
+    service
+      .deleteAndCleanUp([{ name: 'db' }], [usageOf(4)], () =>
+        throwError(() => new Error('In use'))
+      )
+      .subscribe();
+    service.deleteAndCleanUp([{ name: 'db' }], null, () => of({})).subscribe();
+
+    expect(limitService.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { Inject, Injectable } from '@angular/core';
+import { Observable, catchError, forkJoin, map, of, switchMap } from 'rxjs';
+import {
+  APP_SERVICE_TOKEN,
+  EVENT_SCRIPT_SERVICE_TOKEN,
+  LIMIT_SERVICE_TOKEN,
+  ROLE_SERVICE_TOKEN,
+  SCHEDULER_SERVICE_TOKEN,
+  SERVICES_SERVICE_TOKEN,
+} from 'src/app/shared/constants/tokens';
+import { DfBaseCrudService } from 'src/app/shared/services/df-base-crud.service';
+import {
+  GenericListResponse,
+  RequestOptions,
+} from 'src/app/shared/types/generic-http';
+import { BulkResult } from 'src/app/shared/types/table';
+import { runBulk } from 'src/app/shared/utilities/bulk';
+import {
+  ServiceUsage,
+  UsageItem,
+  UsageSources,
+  findUsages,
+  mergeUsages,
+} from '../utilities/service-usage';
+
+const SILENT: Partial<RequestOptions> = {
+  snackbarError: undefined,
+  additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfServiceUsageService {
+  constructor(
+    @Inject(ROLE_SERVICE_TOKEN) private roleService: DfBaseCrudService,
+    @Inject(APP_SERVICE_TOKEN) private appService: DfBaseCrudService,
+    @Inject(LIMIT_SERVICE_TOKEN) private limitService: DfBaseCrudService,
+    @Inject(SCHEDULER_SERVICE_TOKEN)
+    private schedulerService: DfBaseCrudService,
+    @Inject(EVENT_SCRIPT_SERVICE_TOKEN)
+    private eventScriptService: DfBaseCrudService,
+    @Inject(SERVICES_SERVICE_TOKEN) private servicesService: DfBaseCrudService
+  ) {}
+
+  /** Everything that references the service, by id or by name */
+  getUsage(service: { id: number; name: string }): Observable<ServiceUsage> {
+    return forkJoin({
+      roles: this.list<UsageSources['roles'][number]>(this.roleService, {
+        fields: 'id,name',
+        related: 'role_service_access_by_role_id',
+      }),
+      apps: this.list<UsageSources['apps'][number]>(this.appService, {
+        fields: 'id,name,role_id',
+      }),
+      limits: this.list<UsageSources['limits'][number]>(this.limitService, {
+        fields: 'id,name,service_id,rate,period',
+        filter: `service_id=${service.id}`,
+      }),
+      tasks: this.list<UsageSources['tasks'][number]>(this.schedulerService, {
+        fields: 'id,name,service_id,verb,component',
+        filter: `service_id=${service.id}`,
+      }),
+      scripts: this.list<UsageSources['scripts'][number]>(
+        this.eventScriptService,
+        { fields: 'name', filter: `name like "${service.name}.%"` }
+      ),
+      services: this.list<UsageSources['services'][number]>(
+        this.servicesService,
+        { fields: 'id,name,config' }
+      ),
+    }).pipe(map(sources => findUsages(service, sources)));
+  }
+
+  /**
+   * Removes the references left dangling by deleting the service: role access rows, limits, scheduler tasks, event scripts and
+   * disabled MCP tools. Apps only reach the service through their role.
+   * Keeps going when a reference can't be removed, with a result per item
+   * so the ones left behind can be reported.
+   */
+  cleanUp(usage: ServiceUsage): Observable<BulkResult[]> {
+    const steps: Array<{ item: UsageItem; request: Observable<unknown> }> = [
+      ...usage.roles.map(role => ({
+        item: role,
+        request: this.roleService.patch(
+          role.id,
+          {
+            id: role.id,
+            roleServiceAccessByRoleId: role.accessIds.map(id => ({
+              id,
+              roleId: null,
+            })),
+          },
+          SILENT
+        ),
+      })),
+      ...usage.limits.map(limit => ({
+        item: limit,
+        request: this.limitService.delete(limit.id, SILENT),
+      })),
+      ...usage.tasks.map(task => ({
+        item: task,
+        request: this.schedulerService.delete(task.id, SILENT),
+      })),
+      ...usage.scripts.map(script => ({
+        item: script,
+        request: this.eventScriptService.delete(script.name, SILENT),
+      })),
+      ...usage.mcp
+        .filter(mcp => mcp.toolNames.length)
+        .map(mcp => ({
+          item: mcp,
+          request: this.servicesService.patch(
+            mcp.id,
+            {
+              config: {
+                ...mcp.config,
+                disabledTools: (
+                  (mcp.config['disabledTools'] ?? []) as string[]
+                ).filter(tool => !mcp.toolNames.includes(tool)),
+              },
+            },
+            SILENT
+          ),
+        })),
+    ];
+    return runBulk(
+      steps,
+      step => step.item.name,
+      step => step.request
+    );
+  }
+
+  /**
+   * Deletes the services one after another, then cleans up the usages of
+   * the ones that were deleted. References to a service that is still there
+   * are left alone. `usages` holds the usage of each service, in order.
+   */
+  deleteAndCleanUp<T extends { name: string }>(
+    services: T[],
+    usages: ServiceUsage[] | null,
+    deleteService: (service: T) => Observable<unknown>
+  ): Observable<{ deleted: BulkResult[]; cleanUp: BulkResult[] }> {
+    return runBulk(services, service => service.name, deleteService).pipe(
+      switchMap(deleted => {
+        const left = (usages ?? []).filter((_, i) => deleted[i]?.success);
+        return (left.length ? this.cleanUp(mergeUsages(left)) : of([])).pipe(
+          map(cleanUp => ({ deleted, cleanUp }))
+        );
+      })
+    );
+  }
+
+  /** Lists everything, treating resources the admin can't read as empty */
+  private list<T>(
+    crudService: DfBaseCrudService,
+    options: Partial<RequestOptions>
+  ): Observable<T[]> {
+    return crudService
+      .getAll<GenericListResponse<T>>({
+        limit: 0,
+        includeCount: false,
+        additionalHeaders: [{ key: 'skip-error', value: 'true' }],
+        ...options,
+      })
+      .pipe(
+        map(response => response.resource ?? []),
+        catchError(() => of([]))
+      );
+  }
+}
@@ -0,0 +1,83 @@
+import { parseRpcResponse, toolArguments, toolFields } from './mcp-playground';
+
+describe('parseRpcResponse', () => {
+  it('parses plain JSON responses', () => {
+    expect(
+      parseRpcResponse(
+        '{"jsonrpc":"2.0","id":1,"result":{"tools":[]}}',
+        'application/json'
+      )
+    ).toEqual({ jsonrpc: '2.0', id: 1, result: { tools: [] } });
+  });
+
+  it('picks the answer to the request from an event stream', () => {
+    const body = [
+      'event: message',
+      'data: {"jsonrpc":"2.0","method":"notifications/progress"}',
+      '',
+      'event: message',
+      'data: {"jsonrpc":"2.0","id":4,"result":{"content":[]}}',
+      '',
+    ].join('\n');
+    expect(parseRpcResponse(body, 'text/event-stream', 4)?.result).toEqual({
+      content: [],
+    });
+  });
+
+  it('returns null for empty bodies', () => {
+    expect(parseRpcResponse('', 'application/json')).toBeNull();
+  });
+});
+
+describe('toolFields', () => {
+  it('maps schema properties to form fields', () => {
+    const fields = toolFields({
+      type: 'object',
+      required: ['table'],
+      properties: {
+        table: { type: 'string', description: 'Table name' },
+        limit: { type: 'integer', default: 10 },
+        order: { type: 'string', enum: ['asc', 'desc'] },
+        count: { type: ['boolean', 'null'] },
+        filter: { type: 'object' },
+      },
+    });
+    expect(fields.map(f => [f.name, f.type, f.required, f.integer])).toEqual([
+      ['table', 'string', true, false],
+      ['limit', 'number', false, true],
+      ['order', 'enum', false, false],
+      ['count', 'boolean', false, false],
+      ['filter', 'json', false, false],
+    ]);
+    expect(toolFields(undefined)).toEqual([]);
+  });
+});
+
+describe('toolArguments', () => {
+  const fields = toolFields({
+    properties: {
+      table: { type: 'string' },
+      limit: { type: 'integer' },
+      count: { type: 'boolean' },
+      filter: { type: 'object' },
+    },
+  });
+
+  it('converts values and leaves out empty fields', () => {
+    expect(
+      toolArguments(fields, {
+        table: 'users',
+        limit: '5',
+        count: false,
+        filter: '',
+      })
+    ).toEqual({ table: 'users', limit: 5, count: false });
+    expect(toolArguments(fields, { filter: '{"id": 1}' })).toEqual({
+      filter: { id: 1 },
+    });
+  });
+
+  it('throws with the name of a field holding invalid JSON', () => {
+    expect(() => toolArguments(fields, { filter: '{' })).toThrow('filter');
+  });
+});
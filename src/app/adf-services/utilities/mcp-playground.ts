@@ -0,0 +1,137 @@
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse<T = any> {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+}
+
+export type ToolFieldType = 'string' | 'number' | 'boolean' | 'enum' | 'json';
+
+export interface ToolField {
+  name: string;
+  type: ToolFieldType;
+  /** Integer fields are numbers that reject fractions */
+  integer: boolean;
+  required: boolean;
+  description?: string;
+  options: unknown[];
+  default?: unknown;
+}
+
+/**
+ * Reads a JSON-RPC response that came back either as plain JSON or as a
+ * server-sent event stream, which streamable HTTP servers may answer with.
+ * For streams the message answering `id` wins, else the last one.
+ */
+export function parseRpcResponse(
+  body: string,
+  contentType: string | null,
+  id?: number
+): JsonRpcResponse | null {
+  if (!body.trim()) {
+    return null;
+  }
+  if (!contentType?.includes('text/event-stream')) {
+    return JSON.parse(body);
+  }
+  const messages = body
+    .split(/\r?\n\r?\n/)
+    .map(event =>
+      event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n')
+    )
+    .filter(Boolean)
+    .map(data => JSON.parse(data) as JsonRpcResponse);
+  return (
+    messages.find(message => id !== undefined && message.id === id) ??
+    messages[messages.length - 1] ??
+    null
+  );
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type)
+    ? schema.type.find(type => type !== 'null')
+    : schema.type;
+}
+
+/** One form field per top level property of the tool's input schema */
+export function toolFields(schema: JsonSchema | undefined): ToolField[] {
+  const required = schema?.required ?? [];
+  return Object.entries(schema?.properties ?? {}).map(([name, property]) => {
+    const type = schemaType(property);
+    return {
+      name,
+      type: property.enum?.length
+        ? 'enum'
+        : type === 'string' || type === 'boolean'
+          ? type
+          : type === 'number' || type === 'integer'
+            ? 'number'
+            : 'json',
+      integer: type === 'integer',
+      required: required.includes(name),
+      description: property.description,
+      options: property.enum ?? [],
+      default: property.default,
+    };
+  });
+}
+
+/**
+ * Turns form values into tool arguments, leaving out empty optional fields.
+ * Throws with the field name when a JSON field doesn't parse.
+ */
+export function toolArguments(
+  fields: ToolField[],
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  fields.forEach(field => {
+    const value = values[field.name];
+    if (value === null || value === undefined || value === '') {
+      return;
+    }
+    if (field.type === 'number') {
+      args[field.name] = Number(value);
+    } else if (field.type === 'json' && typeof value === 'string') {
+      try {
+        args[field.name] = JSON.parse(value);
+      } catch (e) {
+        throw new Error(field.name);
+      }
+    } else {
+      args[field.name] = value;
+    }
+  });
+  return args;
+}
@@ -0,0 +1,32 @@
+import {
+  MCP_DATABASE_TOOLS,
+  isMcpServiceTool,
+  mcpServiceTools,
+  sanitizeApiName,
+} from './mcp-tools';
+
+describe('sanitizeApiName', () => {
+  it('sanitizes the service name the way tool names are generated', () => {
+    expect(sanitizeApiName('My-DB')).toBe('my_db');
+    expect(sanitizeApiName('__files..v2__')).toBe('files_v2');
+  });
+});
+
+describe('mcpServiceTools', () => {
+  it('prefixes the tools of the category with the service name', () => {
+    const tools = mcpServiceTools('My-DB', 'Database');
+    expect(tools.length).toBe(MCP_DATABASE_TOOLS.length);
+    expect(tools[0].name).toBe('my_db_get_tables');
+    expect(mcpServiceTools('files', 'File')[0].name).toBe('files_list_files');
+  });
+});
+
+describe('isMcpServiceTool', () => {
+  it('only matches tools generated for that exact service', () => {
+    expect(isMcpServiceTool('db_get_tables', 'db')).toBe(true);
+    expect(isMcpServiceTool('db_prod_get_tables', 'db')).toBe(false);
+    expect(isMcpServiceTool('db_2_list_files', 'db')).toBe(false);
+    expect(isMcpServiceTool('db_prod_get_tables', 'db_prod')).toBe(true);
+    expect(isMcpServiceTool('db_custom', 'db')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+export interface McpToolInfo {
+  /** Appended to the sanitized service name to form the tool name */
+  suffix: string;
+  title: string;
+  description: string;
+}
+
+export const MCP_DATABASE_TOOLS: McpToolInfo[] = [
+  {
+    suffix: 'get_tables',
+    title: 'List Tables',
+    description: 'Get tables available in the database',
+  },
+  {
+    suffix: 'get_table_schema',
+    title: 'Get Table Schema',
+    description: 'Retrieve the schema of a specific table',
+  },
+  {
+    suffix: 'get_table_data',
+    title: 'Get Table Data',
+    description: 'Retrieve table data with filtering, pagination, and sorting',
+  },
+  {
+    suffix: 'create_records',
+    title: 'Create Records',
+    description: 'Create one or more records in a table',
+  },
+  {
+    suffix: 'update_records',
+    title: 'Update Records',
+    description: 'Update (patch) records in a table',
+  },
+  {
+    suffix: 'delete_records',
+    title: 'Delete Records',
+    description: 'Delete records from a table',
+  },
+  {
+    suffix: 'get_table_fields',
+    title: 'Get Table Fields',
+    description: 'Retrieve field definitions for a table',
+  },
+  {
+    suffix: 'get_table_relationships',
+    title: 'Get Table Relationships',
+    description: 'Retrieve relationships definition for a table',
+  },
+  {
+    suffix: 'get_stored_procedures',
+    title: 'List Stored Procedures',
+    description: 'Get stored procedures available in the database',
+  },
+  {
+    suffix: 'call_stored_procedure',
+    title: 'Call Stored Procedure',
+    description: 'Call a stored procedure',
+  },
+  {
+    suffix: 'get_stored_functions',
+    title: 'List Stored Functions',
+    description: 'Get stored functions available in the database',
+  },
+  {
+    suffix: 'call_stored_function',
+    title: 'Call Stored Function',
+    description: 'Call a stored function',
+  },
+  {
+    suffix: 'get_database_resources',
+    title: 'List Database Resources',
+    description: 'Get all resources available in the database service',
+  },
+  {
+    suffix: 'get_api_spec',
+    title: 'Get API Spec',
+    description: 'Get the OpenAPI specification for this database service',
+  },
+  {
+    suffix: 'get_data_model',
+    title: 'Get Data Model',
+    description: 'Get a condensed data model showing all tables and columns',
+  },
+  {
+    suffix: 'aggregate_data',
+    title: 'Aggregate Data',
+    description: 'Compute server-side aggregations (SUM, COUNT, AVG, MIN, MAX)',
+  },
+];
+
+export const MCP_FILE_TOOLS: McpToolInfo[] = [
+  {
+    suffix: 'list_files',
+    title: 'List Files',
+    description: 'List files and folders in a path',
+  },
+  {
+    suffix: 'get_file',
+    title: 'Get File Content',
+    description: 'Get the content of a file',
+  },
+  {
+    suffix: 'create_file',
+    title: 'Create File',
+    description: 'Create a new file with the given content',
+  },
+  {
+    suffix: 'get_file_properties',
+    title: 'Get File Properties',
+    description: 'Get properties/metadata of a file or folder',
+  },
+  {
+    suffix: 'create_folder',
+    title: 'Create Folder',
+    description: 'Create a new folder',
+  },
+  {
+    suffix: 'delete_file',
+    title: 'Delete File or Folder',
+    description: 'Delete a file or folder',
+  },
+];
+
+/** The service name as it appears in its generated MCP tool names */
+export function sanitizeApiName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/** The MCP tools generated for a database or file service */
+export function mcpServiceTools(
+  serviceName: string,
+  category: 'Database' | 'File'
+): Array<{ name: string; title: string; description: string }> {
+  const prefix = sanitizeApiName(serviceName);
+  const tools = category === 'Database' ? MCP_DATABASE_TOOLS : MCP_FILE_TOOLS;
+  return tools.map(({ suffix, title, description }) => ({
+    name: `${prefix}_${suffix}`,
+    title,
+    description,
+  }));
+}
+
+/**
+ * Whether the tool name is one generated for the service. Matching the full
+ * name keeps `db` from claiming the tools of `db_prod`.
+ */
+export function isMcpServiceTool(tool: string, serviceName: string): boolean {
+  const prefix = `${sanitizeApiName(serviceName)}_`;
+  return (
+    tool.startsWith(prefix) &&
+    [...MCP_DATABASE_TOOLS, ...MCP_FILE_TOOLS].some(
+      info => tool === `${prefix}${info.suffix}`
+    )
+  );
+}
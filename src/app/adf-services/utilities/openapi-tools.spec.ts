@@ -0,0 +1,118 @@
+import {
+  generateTools,
+  listOperations,
+  specBaseUrl,
+  toolName,
+} from './openapi-tools';
+
+describe('openapi-tools', () => {
+  const spec = {
+    openapi: '3.0.0',
+    servers: [{ url: '/api/v2/weather' }],
+    components: {
+      parameters: {
+        Units: { name: 'units', in: 'query', schema: { type: 'string' } },
+      },
+      schemas: {
+        Alert: {
+          type: 'object',
+          required: ['city'],
+          properties: {
+            city: { type: 'string', description: 'City name' },
+            threshold: { type: 'number' },
+          },
+        },
+      },
+    },
+    paths: {
+      '/forecast/{city}': {
+        parameters: [{ name: 'city', in: 'path', schema: { type: 'string' } }],
+        get: {
+          operationId: 'getForecast',
+          summary: 'Get the forecast',
+          parameters: [
+            { $ref: '#/components/parameters/Units' },
+            {
+              name: 'days',
+              in: 'query',
+              required: true,
+              schema: { type: 'integer' },
+            },
+          ],
+        },
+      },
+      '/alerts': {
+        post: {
+          summary: 'Create an alert',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Alert' },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  it('lists operations with path, query and body parameters', () => {
+    const [forecast, alerts] = listOperations(spec);
+    expect(forecast.key).toBe('GET /forecast/{city}');
+    expect(
+      forecast.parameters.map(p => [p.name, p.in, p.type, p.required])
+    ).toEqual([
+      ['city', 'path', 'string', true],
+      ['units', 'query', 'string', false],
+      ['days', 'query', 'integer', true],
+    ]);
+    expect(alerts.hasBody).toBe(true);
+    expect(
+      alerts.parameters.map(p => [p.name, p.in, p.type, p.required])
+    ).toEqual([
+      ['city', 'body', 'string', true],
+      ['threshold', 'body', 'number', false],
+    ]);
+  });
+
+  it('resolves the base url against the origin', () => {
+    expect(specBaseUrl(spec, 'https://df.example.com')).toBe(
+      'https://df.example.com/api/v2/weather'
+    );
+    expect(
+      specBaseUrl(
+        { host: 'api.example.com', basePath: '/v1', schemes: ['http'] },
+        'https://df.example.com'
+      )
+    ).toBe('http://api.example.com/v1');
+  });
+
+  it('names tools from the operation id or the method and path', () => {
+    const [forecast, alerts] = listOperations(spec);
+    expect(toolName(forecast)).toBe('get_forecast');
+    expect(toolName(alerts)).toBe('post_alerts');
+  });
+
+  it('generates custom tools without clashing with existing names', () => {
+    const tools = generateTools(
+      listOperations(spec),
+      'https://df.example.com/api/v2/weather',
+      ['get_forecast']
+    );
+    expect(tools.map(t => [t.name, t.httpMethod, t.url, t.headers])).toEqual([
+      [
+        'get_forecast_2',
+        'GET',
+        'https://df.example.com/api/v2/weather/forecast/{city}',
+        {},
+      ],
+      [
+        'post_alerts',
+        'POST',
+        'https://df.example.com/api/v2/weather/alerts',
+        { 'Content-Type': 'application/json' },
+      ],
+    ]);
+    expect(tools[1].description).toBe('Create an alert');
+  });
+});
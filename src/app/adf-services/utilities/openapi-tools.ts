@@ -0,0 +1,216 @@
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Parameter types the custom tool form offers */
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ToolParameter {
+  name: string;
+  type: ToolParameterType;
+  in: 'query' | 'path' | 'body' | 'header';
+  required: boolean;
+  description: string;
+}
+
+export interface OpenApiOperation {
+  /** `METHOD path`, unique within the document */
+  key: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters: ToolParameter[];
+  hasBody: boolean;
+}
+
+export interface GeneratedTool {
+  toolType: 'api';
+  name: string;
+  description: string;
+  httpMethod: string;
+  url: string;
+  parameters: ToolParameter[];
+  headers: Record<string, string>;
+  function: string;
+  enabled: boolean;
+  storageServiceId: null;
+  scmRepository: string;
+  scmReference: string;
+  storagePath: string;
+}
+
+type Spec = Record<string, any>;
+
+/** Follows local `#/...` references, giving up on anything else */
+function resolve(spec: Spec, value: any, depth = 0): any {
+  if (!value || typeof value !== 'object' || !value.$ref || depth > 10) {
+    return value;
+  }
+  const ref: string = value.$ref;
+  if (!ref.startsWith('#/')) {
+    return {};
+  }
+  const target = ref
+    .slice(2)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => node?.[part], spec as any);
+  return resolve(spec, target ?? {}, depth + 1);
+}
+
+function parameterType(schema: any): ToolParameterType {
+  const type = Array.isArray(schema?.type)
+    ? schema.type.find((t: string) => t !== 'null')
+    : schema?.type;
+  return type === 'number' || type === 'integer' || type === 'boolean'
+    ? type
+    : 'string';
+}
+
+/** Body properties become body parameters, the way the tool form takes them */
+function bodyParameters(spec: Spec, schema: any): ToolParameter[] {
+  const resolved = resolve(spec, schema);
+  const required: string[] = resolved?.required ?? [];
+  const properties = resolved?.properties;
+  if (!properties) {
+    return resolved
+      ? [
+          {
+            name: 'body',
+            type: 'string',
+            in: 'body',
+            required: true,
+            description: resolved.description ?? 'Request body as JSON',
+          },
+        ]
+      : [];
+  }
+  return Object.entries(properties).map(([name, property]) => {
+    const prop = resolve(spec, property);
+    return {
+      name,
+      type: parameterType(prop),
+      in: 'body' as const,
+      required: required.includes(name),
+      description: prop?.description ?? '',
+    };
+  });
+}
+
+/** Operations of an OpenAPI 3 or Swagger 2 document, in document order */
+export function listOperations(spec: Spec): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+  Object.entries(spec?.['paths'] ?? {}).forEach(([path, rawItem]) => {
+    const item = resolve(spec, rawItem) ?? {};
+    HTTP_METHODS.filter(method => item[method]).forEach(method => {
+      const operation = item[method];
+      const declared = [
+        ...(item.parameters ?? []),
+        ...(operation.parameters ?? []),
+      ].map(p => resolve(spec, p));
+      // Operation parameters override path parameters of the same name
+      const byName = new Map<string, any>();
+      declared.forEach(p => byName.set(`${p.in}:${p.name}`, p));
+
+      const parameters: ToolParameter[] = [];
+      let hasBody = false;
+      byName.forEach(p => {
+        if (p.in === 'body') {
+          hasBody = true;
+          parameters.push(...bodyParameters(spec, p.schema));
+        } else if (['query', 'path', 'header'].includes(p.in)) {
+          parameters.push({
+            name: p.name,
+            type: parameterType(p.schema ?? p),
+            in: p.in,
+            required: p.in === 'path' || !!p.required,
+            description: p.description ?? '',
+          });
+        }
+      });
+      const requestBody = resolve(spec, operation.requestBody);
+      const json = requestBody?.content?.['application/json'];
+      if (json) {
+        hasBody = true;
+        parameters.push(...bodyParameters(spec, json.schema));
+      }
+
+      operations.push({
+        key: `${method.toUpperCase()} ${path}`,
+        method: method.toUpperCase(),
+        path,
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        parameters,
+        hasBody,
+      });
+    });
+  });
+  return operations;
+}
+
+/** Where the operations live, made absolute against `origin` */
+export function specBaseUrl(spec: Spec, origin: string): string {
+  const server: string | undefined = spec?.['servers']?.[0]?.url;
+  const base =
+    server ??
+    (spec?.['host']
+      ? `${spec['schemes']?.[0] ?? 'https'}://${spec['host']}${
+          spec['basePath'] ?? ''
+        }`
+      : (spec?.['basePath'] ?? ''));
+  return /^https?:\/\//.test(base)
+    ? base.replace(/\/$/, '')
+    : `${origin}${base.startsWith('/') ? '' : '/'}${base}`.replace(/\/$/, '');
+}
+
+/** Tool names MCP clients accept: letters, digits and underscores */
+export function toolName(operation: OpenApiOperation): string {
+  const raw =
+    operation.operationId ||
+    `${operation.method}_${operation.path.replace(/[{}]/g, '')}`;
+  return raw
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * Custom tool definitions for the operations. Names taken by `existing`
+ * tools, or by earlier operations, get a numeric suffix.
+ */
+export function generateTools(
+  operations: OpenApiOperation[],
+  baseUrl: string,
+  existing: string[] = []
+): GeneratedTool[] {
+  const taken = new Set(existing);
+  return operations.map((operation): GeneratedTool => {
+    const base = toolName(operation) || 'tool';
+    let name = base;
+    for (let i = 2; taken.has(name); i++) {
+      name = `${base}_${i}`;
+    }
+    taken.add(name);
+    return {
+      toolType: 'api',
+      name,
+      description: [operation.summary, operation.description]
+        .filter((text, i, all) => text && all.indexOf(text) === i)
+        .join('\n\n'),
+      httpMethod: operation.method,
+      url: `${baseUrl}${operation.path}`,
+      parameters: operation.parameters,
+      headers: operation.hasBody ? { 'Content-Type': 'application/json' } : {},
+      function: '',
+      enabled: true,
+      storageServiceId: null,
+      scmRepository: '',
+      scmReference: '',
+      storagePath: '',
+    };
+  });
+}
@@ -0,0 +1,118 @@
+import { LimitType } from 'src/app/shared/types/limit';
+import { RoleServiceAccessType } from 'src/app/shared/types/roles';
+import { TableRelatedType } from 'src/app/shared/types/schema';
+import { ScriptObject } from 'src/app/shared/types/scripts';
+import {
+  CloneSources,
+  bindClonePlan,
+  buildClonePlan,
+  cloneName,
+  renameScript,
+} from './service-clone';
+
+const source = {
+  id: 5,
+  name: 'db',
+  label: 'Dev DB',
+  description: 'Development database',
+  isActive: true,
+  type: 'mysql',
+  config: { host: 'dev' },
+};
+
+const sources: CloneSources = {
+  scripts: [
+    { name: 'db._table.get.pre_process', type: 'nodejs', content: 'x' },
+    { name: 'dbx._table.get.pre_process', type: 'nodejs', content: 'y' },
+  ] as ScriptObject[],
+  roles: [
+    {
+      id: 1,
+      name: 'reader',
+      roleServiceAccessByRoleId: [
+        { id: 10, serviceId: 5, component: '_table/*', verbMask: 1 },
+        { id: 11, serviceId: 6, component: '*', verbMask: 31 },
+      ] as RoleServiceAccessType[],
+    },
+    {
+      id: 2,
+      name: 'other',
+      roleServiceAccessByRoleId: [
+        { id: 12, serviceId: 6, component: '*', verbMask: 31 },
+      ] as RoleServiceAccessType[],
+    },
+  ],
+  limits: [
+    { id: 3, name: 'db limit', serviceId: 5, rate: 10, period: 'minute' },
+    { id: 4, name: 'global', serviceId: null, rate: 10, period: 'minute' },
+  ] as LimitType[],
+  tables: [
+    {
+      name: 'orders',
+      related: [
+        { name: 'customer', isVirtual: true, refServiceId: 5 },
+        { name: 'lines', isVirtual: false, refServiceId: 5 },
+        { name: 'crm', isVirtual: true, refServiceId: 9 },
+      ] as TableRelatedType[],
+    },
+    { name: 'customers', related: [] },
+  ],
+};
+
+describe('renameScript and cloneName', () => {
+  it('renames items bound to the service', () => {
+    expect(renameScript('db._table.get.pre_process', 'db', 'qa_db')).toBe(
+      'qa_db._table.get.pre_process'
+    );
+    expect(renameScript('dbx._table', 'db', 'qa_db')).toBe('dbx._table');
+    expect(cloneName('db limit', 'db', 'qa_db')).toBe('qa_db limit');
+    expect(cloneName('Hourly', 'db', 'qa_db')).toBe('Hourly (qa_db)');
+  });
+});
+
+describe('buildClonePlan', () => {
+  it('collects what is bound to the source service', () => {
+    const plan = buildClonePlan(source, 'qa_db', sources);
+    expect(plan.service).toEqual({
+      name: 'qa_db',
+      label: 'Dev DB',
+      description: 'Development database',
+      isActive: true,
+      type: 'mysql',
+      config: { host: 'dev' },
+    });
+    expect(plan.scripts.map(script => script.name)).toEqual([
+      'qa_db._table.get.pre_process',
+    ]);
+    expect(plan.roles).toEqual([
+      {
+        id: 1,
+        name: 'reader',
+        access: [
+          expect.objectContaining({ serviceId: 5, component: '_table/*' }),
+        ],
+      },
+    ]);
+    expect(plan.limits.map(limit => [limit.name, limit.rate])).toEqual([
+      ['qa_db limit', '10'],
+    ]);
+    expect(plan.relationships).toEqual([
+      {
+        table: 'orders',
+        related: [
+          expect.objectContaining({ name: 'customer' }),
+          expect.objectContaining({ name: 'crm' }),
+        ],
+      },
+    ]);
+  });
+
+  it('points the copies at the new service when bound', () => {
+    const plan = bindClonePlan(buildClonePlan(source, 'qa_db', sources), 8);
+    expect(plan.roles[0].access[0].serviceId).toBe(8);
+    expect(plan.limits[0].serviceId).toBe(8);
+    expect(
+      plan.relationships[0].related.map(related => related.refServiceId)
+    ).toEqual([8, 9]);
+  });
+});
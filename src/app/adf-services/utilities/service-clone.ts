@@ -0,0 +1,163 @@
+import { CreateLimitPayload, LimitType } from 'src/app/shared/types/limit';
+import { RoleServiceAccessType } from 'src/app/shared/types/roles';
+import { TableRelatedType } from 'src/app/shared/types/schema';
+import { ScriptObject } from 'src/app/shared/types/scripts';
+
+export interface CloneSourceService {
+  id: number;
+  name: string;
+  label: string;
+  description: string;
+  isActive?: boolean;
+  type: string;
+  config?: Record<string, any> | null;
+}
+
+export interface CloneSources {
+  scripts: ScriptObject[];
+  roles: Array<{
+    id: number;
+    name: string;
+    roleServiceAccessByRoleId?: RoleServiceAccessType[];
+  }>;
+  limits: LimitType[];
+  /** Tables of database services, with their relationships */
+  tables: Array<{ name: string; related?: TableRelatedType[] }>;
+}
+
+export type CloneAccess = Pick<
+  RoleServiceAccessType,
+  'serviceId' | 'component' | 'verbMask' | 'requestorMask' | 'filterOp'
+> & { filters: any[] };
+
+export interface ClonePlan {
+  /** Id of the service being cloned, replaced by the new id when binding */
+  sourceId: number;
+  service: Omit<CloneSourceService, 'id'>;
+  scripts: ScriptObject[];
+  roles: Array<{ id: number; name: string; access: CloneAccess[] }>;
+  limits: CreateLimitPayload[];
+  relationships: Array<{ table: string; related: TableRelatedType[] }>;
+}
+
+/** Event scripts are named after the service they are bound to */
+export function renameScript(name: string, from: string, to: string): string {
+  return name.startsWith(`${from}.`) ? `${to}${name.slice(from.length)}` : name;
+}
+
+/** Keeps the names of copied items unique while showing where they came from */
+export function cloneName(name: string, from: string, to: string): string {
+  return name.includes(from) ? name.split(from).join(to) : `${name} (${to})`;
+}
+
+function rebind<T extends number | null | undefined>(
+  id: T,
+  from: number,
+  to: number
+): T {
+  return (id === from ? to : id) as T;
+}
+
+/**
+ * Everything a deep clone creates: the service itself, its event scripts
+ * renamed to the new service, the role access rows and rate limits that
+ * point at it and the virtual relationships of its tables. Ids still
+ * refer to the source until the plan is bound to the new service.
+ */
+export function buildClonePlan(
+  source: CloneSourceService,
+  name: string,
+  sources: CloneSources
+): ClonePlan {
+  return {
+    sourceId: source.id,
+    service: {
+      name,
+      label: source.label || name,
+      description: source.description,
+      isActive: source.isActive,
+      type: source.type,
+      config: source.config ? { ...source.config } : {},
+    },
+    scripts: sources.scripts
+      .filter(script => script.name.startsWith(`${source.name}.`))
+      .map(script => ({
+        name: renameScript(script.name, source.name, name),
+        type: script.type,
+        content: script.content,
+        isActive: script.isActive,
+        allowEventModification: script.allowEventModification,
+        storageServiceId: script.storageServiceId,
+        scmRepository: script.scmRepository,
+        scmReference: script.scmReference,
+        storagePath: script.storagePath,
+        config: script.config,
+      })),
+    roles: sources.roles
+      .map(role => ({
+        id: role.id,
+        name: role.name,
+        access: (role.roleServiceAccessByRoleId ?? [])
+          .filter(access => access.serviceId === source.id)
+          .map(access => ({
+            serviceId: access.serviceId,
+            component: access.component,
+            verbMask: access.verbMask,
+            requestorMask: access.requestorMask,
+            filters: access.filters ?? [],
+            filterOp: access.filterOp,
+          })),
+      }))
+      .filter(role => role.access.length),
+    limits: sources.limits
+      .filter(limit => limit.serviceId === source.id)
+      .map(limit => ({
+        cacheData: {},
+        description: limit.description ?? null,
+        endpoint: limit.endpoint,
+        isActive: limit.isActive,
+        name: cloneName(limit.name, source.name, name),
+        period: limit.period,
+        rate: String(limit.rate),
+        roleId: limit.roleId,
+        serviceId: limit.serviceId,
+        type: limit.type,
+        userId: limit.userId,
+        verb: limit.verb,
+      })),
+    relationships: sources.tables
+      .map(table => ({
+        table: table.name,
+        related: (table.related ?? []).filter(related => related.isVirtual),
+      }))
+      .filter(table => table.related.length),
+  };
+}
+
+/** Points everything in the plan that referred to the source at `serviceId` */
+export function bindClonePlan(plan: ClonePlan, serviceId: number): ClonePlan {
+  const from = plan.sourceId;
+  return {
+    ...plan,
+    sourceId: serviceId,
+    roles: plan.roles.map(role => ({
+      ...role,
+      access: role.access.map(access => ({
+        ...access,
+        serviceId: rebind(access.serviceId, from, serviceId),
+      })),
+    })),
+    limits: plan.limits.map(limit => ({
+      ...limit,
+      serviceId: rebind(limit.serviceId, from, serviceId),
+    })),
+    relationships: plan.relationships.map(table => ({
+      ...table,
+      related: table.related.map(related => ({
+        ...related,
+        refServiceId: rebind(related.refServiceId, from, serviceId),
+        junctionServiceId: rebind(related.junctionServiceId, from, serviceId),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  SECRET_MASK,
+  diffLines,
+  maskSecrets,
+  maskedKeys,
+  restoreSecrets,
+  stableStringify,
+} from './service-history';
+
+describe('maskSecrets', () => {
+  it('masks secret keys at any depth and schema password fields', () => {
+    expect(
+      maskSecrets(
+        {
+          host: 'db',
+          password: 'hunter2',
+          passphrase: 'open sesame',
+          options: { apiKey: 'abc', empty: '' },
+          headers: [{ name: 'x', token: 't' }],
+        },
+        ['passphrase']
+      )
+    ).toEqual({
+      host: 'db',
+      password: SECRET_MASK,
+      passphrase: SECRET_MASK,
+      options: { apiKey: SECRET_MASK, empty: '' },
+      headers: [{ name: 'x', token: SECRET_MASK }],
+    });
+  });
+
+  it('matches snake case schema fields against camel-cased config keys', () => {
+    expect(
+      maskSecrets({ signPassphrase: 'open sesame', host: 'db' }, [
+        'sign_passphrase',
+      ])
+    ).toEqual({ signPassphrase: SECRET_MASK, host: 'db' });
+  });
+});
+
+describe('restoreSecrets', () => {
+  it('keeps the current value of masked secrets', () => {
+    expect(
+      restoreSecrets(
+        {
+          host: 'old',
+          password: SECRET_MASK,
+          headers: [{ token: SECRET_MASK }],
+          removed: SECRET_MASK,
+        },
+        { host: 'new', password: 'current', headers: [{ token: 't' }] }
+      )
+    ).toEqual({ host: 'old', password: 'current', headers: [{ token: 't' }] });
+  });
+});
+
+describe('maskedKeys', () => {
+  it('lists the keys whose value is still masked', () => {
+    expect(
+      maskedKeys({ host: 'db', password: SECRET_MASK, privateKey: 'k' })
+    ).toEqual(['password']);
+    expect(maskedKeys()).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('pairs removed and added lines as changes', () => {
+    const before = stableStringify({ c: 3, a: 1, b: 2 });
+    const after = stableStringify({ a: 1, b: 5, bb: 0, c: 3 });
+    expect(
+      diffLines(before, after).filter(line => line.status !== 'same')
+    ).toEqual([
+      { status: 'changed', left: '  "b": 2,', right: '  "b": 5,' },
+      { status: 'added', left: undefined, right: '  "bb": 0,' },
+    ]);
+  });
+
+  it('reports no changes for equal texts', () => {
+    const text = stableStringify({ b: 1, a: [1, 2] });
+    expect(diffLines(text, text).every(line => line.status === 'same')).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { snakeToCamelString } from 'src/app/shared/utilities/case';
+
+export const SECRET_MASK = '**********';
+
+/** Config keys treated as secrets even when the schema doesn't say so */
+const SECRET_KEY = /password|secret|token|api_?key|private_?key|credential/i;
+
+/** The parts of a service definition that are versioned */
+export interface VersionedService {
+  id: number;
+  name: string;
+  label: string;
+  description: string;
+  type: string;
+  isActive?: boolean;
+  config?: Record<string, any> | null;
+}
+
+export interface ServiceSnapshot {
+  /** ISO timestamp of the save that replaced this version */
+  savedAt: string;
+  name: string;
+  label: string;
+  description: string;
+  type: string;
+  isActive?: boolean;
+  config: Record<string, any>;
+}
+
+export type DiffLineStatus = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  status: DiffLineStatus;
+  left?: string;
+  right?: string;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Replaces the values of secret keys, at any depth, with a mask. Schema
+ * fields are named in snake case while loaded configs are camel-cased, so
+ * either form of a secret field's name matches.
+ */
+export function maskSecrets<T>(value: T, secretFields: string[] = []): T {
+  const fields = secretFields.flatMap(field => [
+    field,
+    snakeToCamelString(field),
+  ]);
+  return maskKeys(value, fields);
+}
+
+function maskKeys<T>(value: T, secretFields: string[]): T {
+  if (Array.isArray(value)) {
+    return value.map(item => maskKeys(item, secretFields)) as T;
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, val]) => [
+      key,
+      (secretFields.includes(key) || SECRET_KEY.test(key)) &&
+      typeof val === 'string' &&
+      val
+        ? SECRET_MASK
+        : maskKeys(val, secretFields),
+    ])
+  ) as T;
+}
+
+/**
+ * Puts the current values back in place of masked secrets so restoring an
+ * earlier version doesn't overwrite them with the mask.
+ */
+export function restoreSecrets(snapshot: unknown, current: unknown): any {
+  if (snapshot === SECRET_MASK) {
+    return current;
+  }
+  if (Array.isArray(snapshot)) {
+    return snapshot.map((item, i) =>
+      restoreSecrets(item, Array.isArray(current) ? current[i] : undefined)
+    );
+  }
+  if (!isObject(snapshot)) {
+    return snapshot;
+  }
+  return Object.fromEntries(
+    Object.entries(snapshot)
+      .map(([key, val]) => [
+        key,
+        restoreSecrets(val, isObject(current) ? current[key] : undefined),
+      ])
+      .filter(([, val]) => val !== undefined)
+  );
+}
+
+/** Top-level keys of a config whose value is still the secret mask */
+export function maskedKeys(config: Record<string, unknown> = {}): string[] {
+  return Object.keys(config).filter(key => config[key] === SECRET_MASK);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map(key => [key, sortKeys(value[key])])
+  );
+}
+
+/** JSON with sorted keys, so equal configs print the same */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(sortKeys(value ?? {}), null, 2);
+}
+
+/**
+ * Line by line diff of two texts for side-by-side display. Runs of removed
+ * lines followed by added ones are paired up as changed lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      lines.push({
+        status:
+          left !== undefined && right !== undefined
+            ? 'changed'
+            : left !== undefined
+              ? 'removed'
+              : 'added',
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      lines.push({ status: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+  return lines;
+}
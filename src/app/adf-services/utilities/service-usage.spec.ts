@@ -0,0 +1,118 @@
+import {
+  NAME_USAGE_KINDS,
+  UsageSources,
+  findUsages,
+  mergeUsages,
+  usageCount,
+} from './service-usage';
+
+describe('findUsages', () => {
+  const sources: UsageSources = {
+    roles: [
+      {
+        id: 1,
+        name: 'reader',
+        roleServiceAccessByRoleId: [
+          { id: 10, serviceId: 5, component: '_table/*' },
+          { id: 11, serviceId: 6, component: '*' },
+        ],
+      },
+      {
+        id: 2,
+        name: 'other',
+        roleServiceAccessByRoleId: [{ id: 12, serviceId: 6, component: '' }],
+      },
+    ],
+    apps: [
+      { id: 3, name: 'web', roleId: 1 },
+      { id: 4, name: 'mobile', roleId: 2 },
+      { id: 5, name: 'cli', roleId: null },
+    ],
+    limits: [
+      { id: 7, name: 'db limit', serviceId: 5, rate: 10, period: 'minute' },
+      { id: 8, name: 'global', serviceId: null },
+    ],
+    tasks: [
+      {
+        id: 9,
+        name: 'nightly',
+        serviceId: 5,
+        verb: 'GET',
+        component: '_table',
+      },
+    ],
+    scripts: [{ name: 'db.get.pre_process' }, { name: 'db2.get.pre_process' }],
+    services: [
+      { id: 5, name: 'db', config: { disabledTools: ['db_get_tables'] } },
+      {
+        id: 20,
+        name: 'mcp',
+        config: {
+          disabledTools: [
+            'db_get_tables',
+            'db2_get_tables',
+            'db_prod_get_tables',
+          ],
+          customTools: [{ name: 'lookup', storageServiceId: 5 }],
+        },
+      },
+      { id: 21, name: 'mcp2', config: { disabledTools: ['db2_get_tables'] } },
+      { id: 22, name: 'plain', config: null },
+    ],
+  };
+
+  it('finds everything referencing the service by id', () => {
+    const usage = findUsages({ id: 5, name: 'db' }, sources);
+    expect(usage.roles).toEqual([
+      {
+        id: 1,
+        name: 'reader',
+        route: '/api-connections/role-based-access/1',
+        detail: '_table/*',
+        accessIds: [10],
+      },
+    ]);
+    expect(usage.apps.map(app => [app.name, app.detail])).toEqual([
+      ['web', 'reader'],
+    ]);
+    expect(usage.limits.map(limit => [limit.id, limit.detail])).toEqual([
+      [7, '10/minute'],
+    ]);
+    expect(usage.tasks.map(task => [task.id, task.detail])).toEqual([
+      [9, 'GET _table'],
+    ]);
+  });
+
+  it('finds event scripts and MCP tools by name', () => {
+    const usage = findUsages({ id: 5, name: 'db' }, sources);
+    expect(usage.scripts.map(script => script.name)).toEqual([
+      'db.get.pre_process',
+    ]);
+    expect(usage.mcp.map(mcp => [mcp.id, mcp.toolNames, mcp.detail])).toEqual([
+      [20, ['db_get_tables'], 'db_get_tables, lookup'],
+    ]);
+    expect(usageCount(usage)).toBe(6);
+    expect(usageCount(usage, NAME_USAGE_KINDS)).toBe(2);
+  });
+
+  it('returns empty lists for an unreferenced service', () => {
+    expect(usageCount(findUsages({ id: 99, name: 'unused' }, sources))).toBe(0);
+  });
+
+  it('merges the usages of several services', () => {
+    const usage = mergeUsages([
+      findUsages({ id: 5, name: 'db' }, sources),
+      findUsages({ id: 6, name: 'db2' }, sources),
+    ]);
+    expect(usage.roles.map(role => [role.id, role.accessIds])).toEqual([
+      [1, [10, 11]],
+      [2, [12]],
+    ]);
+    expect(usage.apps.map(app => app.id)).toEqual([3, 4]);
+    expect(usage.mcp.map(mcp => [mcp.id, mcp.toolNames])).toEqual([
+      [20, ['db_get_tables', 'db2_get_tables']],
+      [21, ['db2_get_tables']],
+    ]);
+    expect(usage.scripts.length).toBe(2);
+  });
+});
@@ -0,0 +1,200 @@
+import { ROUTES } from 'src/app/shared/types/routes';
+import { isMcpServiceTool } from './mcp-tools';
+
+export interface UsageItem {
+  id: number | string;
+  name: string;
+  /** Absolute route of the item's details page */
+  route: string;
+  detail?: string;
+}
+
+export interface RoleUsage extends UsageItem {
+  /** Access rows of the role that point at the service */
+  accessIds: number[];
+}
+
+export interface McpUsage extends UsageItem {
+  config: Record<string, any>;
+  /** Disabled tool names generated for the service */
+  toolNames: string[];
+}
+
+export interface ServiceUsage {
+  roles: RoleUsage[];
+  apps: UsageItem[];
+  limits: UsageItem[];
+  tasks: UsageItem[];
+  scripts: UsageItem[];
+  mcp: McpUsage[];
+}
+
+export type UsageKind = keyof ServiceUsage;
+
+export const USAGE_KINDS: UsageKind[] = [
+  'roles',
+  'apps',
+  'limits',
+  'tasks',
+  'scripts',
+  'mcp',
+];
+
+/** Usages that refer to the service by name and break when it is renamed */
+export const NAME_USAGE_KINDS: UsageKind[] = ['scripts', 'mcp'];
+
+export interface UsageSources {
+  roles: Array<{
+    id: number;
+    name: string;
+    roleServiceAccessByRoleId?: Array<{
+      id: number;
+      serviceId: number | null;
+      component: string;
+    }>;
+  }>;
+  apps: Array<{ id: number; name: string; roleId?: number | null }>;
+  limits: Array<{
+    id: number;
+    name: string;
+    serviceId: number | null;
+    rate?: number;
+    period?: string;
+  }>;
+  tasks: Array<{
+    id: number;
+    name: string;
+    serviceId: number;
+    verb?: string;
+    component?: string;
+  }>;
+  scripts: Array<{ name: string }>;
+  services: Array<{
+    id: number;
+    name: string;
+    config?: Record<string, any> | null;
+  }>;
+}
+
+export function usageCount(usage: ServiceUsage, kinds = USAGE_KINDS): number {
+  return kinds.reduce((sum, kind) => sum + usage[kind].length, 0);
+}
+
+export function findUsages(
+  service: { id: number; name: string },
+  sources: UsageSources
+): ServiceUsage {
+  const roles = sources.roles
+    .map(role => {
+      const access = (role.roleServiceAccessByRoleId ?? []).filter(
+        a => a.serviceId === service.id
+      );
+      return {
+        id: role.id,
+        name: role.name,
+        route: `/${ROUTES.API_CONNECTIONS}/${ROUTES.ROLE_BASED_ACCESS}/${role.id}`,
+        detail: access.map(a => a.component || '*').join(', '),
+        accessIds: access.map(a => a.id),
+      };
+    })
+    .filter(role => role.accessIds.length);
+
+  const roleNames = new Map(roles.map(role => [role.id, role.name]));
+  const apps = sources.apps
+    .filter(app => app.roleId && roleNames.has(app.roleId))
+    .map(app => ({
+      id: app.id,
+      name: app.name,
+      route: `/${ROUTES.API_CONNECTIONS}/${ROUTES.API_KEYS}/${app.id}`,
+      detail: roleNames.get(app.roleId as number),
+    }));
+
+  const limits = sources.limits
+    .filter(limit => limit.serviceId === service.id)
+    .map(limit => ({
+      id: limit.id,
+      name: limit.name,
+      route: `/${ROUTES.API_SECURITY}/${ROUTES.RATE_LIMITING}/${limit.id}`,
+      detail: limit.rate ? `${limit.rate}/${limit.period}` : undefined,
+    }));
+
+  const tasks = sources.tasks
+    .filter(task => task.serviceId === service.id)
+    .map(task => ({
+      id: task.id,
+      name: task.name,
+      route: `/${ROUTES.SYSTEM_SETTINGS}/${ROUTES.SCHEDULER}/${task.id}`,
+      detail: [task.verb, task.component].filter(Boolean).join(' '),
+    }));
+
+  const scripts = sources.scripts
+    .filter(script => script.name.startsWith(`${service.name}.`))
+    .map(script => ({
+      id: script.name,
+      name: script.name,
+      route: `/${ROUTES.API_CONNECTIONS}/${ROUTES.EVENT_SCRIPTS}/${script.name}`,
+    }));
+
+  const mcp = sources.services
+    .filter(s => s.id !== service.id)
+    .map(s => {
+      const config = s.config ?? {};
+      const toolNames = ((config['disabledTools'] ?? []) as string[]).filter(
+        tool => isMcpServiceTool(tool, service.name)
+      );
+      const customTools = (
+        (config['customTools'] ?? []) as Array<{
+          name: string;
+          storageServiceId?: number | null;
+        }>
+      ).filter(tool => tool.storageServiceId === service.id);
+      return {
+        id: s.id,
+        name: s.name,
+        route: `/${ROUTES.AI}/${s.id}`,
+        detail: [...toolNames, ...customTools.map(t => t.name)].join(', '),
+        config,
+        toolNames,
+        customTools: customTools.length,
+      };
+    })
+    .filter(s => s.toolNames.length || s.customTools)
+    .map(({ customTools, ...usage }) => usage);
+
+  return { roles, apps, limits, tasks, scripts, mcp };
+}
+
+/** Joins the usages of several services, listing each referencing item once */
+export function mergeUsages(usages: ServiceUsage[]): ServiceUsage {
+  const byId = <T extends UsageItem>(
+    items: T[],
+    merge: (a: T, b: T) => T
+  ): T[] => {
+    const merged = new Map<T['id'], T>();
+    items.forEach(item => {
+      const seen = merged.get(item.id);
+      merged.set(item.id, seen ? merge(seen, item) : item);
+    });
+    return Array.from(merged.values());
+  };
+  const detail = (a?: string, b?: string) =>
+    [a, b].filter(Boolean).join(', ') || undefined;
+  const all = <K extends UsageKind>(kind: K) =>
+    usages.flatMap(usage => usage[kind]) as ServiceUsage[K];
+  return {
+    roles: byId(all('roles'), (a, b) => ({
+      ...a,
+      detail: detail(a.detail, b.detail),
+      accessIds: [...a.accessIds, ...b.accessIds],
+    })),
+    apps: byId(all('apps'), a => a),
+    limits: all('limits'),
+    tasks: all('tasks'),
+    scripts: all('scripts'),
+    mcp: byId(all('mcp'), (a, b) => ({
+      ...a,
+      detail: detail(a.detail, b.detail),
+      toolNames: [...a.toolNames, ...b.toolNames],
+    })),
+  };
+}
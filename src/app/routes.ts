@@ -15,6 +15,7 @@ import {
 } from './adf-roles/resolvers/role.resolver';
 import { limitsResolver } from './adf-limits/resolvers/limits.resolver';
 import { serviceReportsResolver } from './adf-reports/resolvers/service-report.resolver';
+import { packageManifestResolver } from './adf-packages/resolvers/df-package.resolver';
 import { DfProfileService } from './adf-profile/services/df-profile.service';
 import { DfPasswordService } from './adf-user-management/services/df-password.service';
 import { profileResolver } from './adf-profile/resolvers/profile.resolver';
@@ -31,6 +32,7 @@ import {
   DfTableFieldResolver,
   DfTableRelationshipsEditResolver,
   schemaResolver,
+  erDiagramResolver,
 } from './adf-schema/resolvers/df-schema.resolver';
 import { DfGlobalLookupKeysResolver } from './adf-config/resolvers/df-global-lookup-keys.resolver';
 import { ServiceRoutes } from './adf-services/routes';
@@ -288,6 +290,18 @@ export const routes: Routes = [
         ],
         providers: [provideTranslocoScope('apiDocs')],
       },
+      {
+        path: ROUTES.SERVICE_HEALTH,
+        loadComponent: () =>
+          import('./adf-api-docs/df-service-health/df-service-health.component').then(
+            m => m.DfServiceHealthComponent
+          ),
+        resolve: {
+          data: servicesResolver(0, 'is_active=true'),
+          serviceTypes: serviceTypesResolver,
+        },
+        providers: [provideTranslocoScope('apiDocs')],
+      },
       {
         path: ROUTES.DATA_EXPLORER,
         loadComponent: () =>
@@ -532,6 +546,15 @@ export const routes: Routes = [
           ),
         resolve: { data: serviceReportsResolver },
       },
+      {
+        path: ROUTES.PACKAGES,
+        loadComponent: () =>
+          import('./adf-packages/df-package-manager/df-package-manager.component').then(
+            m => m.DfPackageManagerComponent
+          ),
+        resolve: { data: packageManifestResolver },
+        providers: [provideTranslocoScope('packages')],
+      },
       {
         path: ROUTES.DF_PLATFORM_APIS,
         children: ServiceRoutes,
@@ -601,13 +624,40 @@ export const routes: Routes = [
               {
                 path: '',
                 loadComponent: () =>
-                  import('./adf-schema/df-manage-tables-table/df-manage-tables-table.component').then(
-                    m => m.DfManageTablesTableComponent
+                  import('./adf-schema/df-manage-tables/df-manage-tables.component').then(
+                    m => m.DfManageTablesComponent
                   ),
                 resolve: {
                   data: schemaResolver,
                 },
               },
+              {
+                path: ROUTES.ER_DIAGRAM,
+                loadComponent: () =>
+                  import('./adf-schema/df-er-diagram/df-er-diagram.component').then(
+                    m => m.DfErDiagramComponent
+                  ),
+                resolve: {
+                  data: erDiagramResolver,
+                },
+              },
+              {
+                path: ROUTES.SCHEMA_COMPARE,
+                loadComponent: () =>
+                  import('./adf-schema/df-schema-compare/df-schema-compare.component').then(
+                    m => m.DfSchemaCompareComponent
+                  ),
+                resolve: {
+                  services: servicesResolver(0),
+                },
+              },
+              {
+                path: ROUTES.IMPORT,
+                loadComponent: () =>
+                  import('./adf-schema/df-table-import/df-table-import.component').then(
+                    m => m.DfTableImportComponent
+                  ),
+              },
               {
                 path: ROUTES.CREATE,
                 children: [
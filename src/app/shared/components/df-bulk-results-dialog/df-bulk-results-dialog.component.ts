@@ -0,0 +1,44 @@
+import { Component, Inject } from '@angular/core';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
+import {
+  faCircleCheck,
+  faCircleXmark,
+} from '@fortawesome/free-solid-svg-icons';
+import { TranslocoPipe } from '@ngneat/transloco';
+import { DfThemeService } from '../../services/df-theme.service';
+import { BulkResult } from '../../types/table';
+
+export interface BulkResultsDialogData {
+  title: string;
+  results: Array<BulkResult>;
+}
+
+@Component({
+  selector: 'df-bulk-results-dialog',
+  templateUrl: './df-bulk-results-dialog.component.html',
+  styleUrls: ['./df-bulk-results-dialog.component.scss'],
+  standalone: true,
+  imports: [
+    NgIf,
+    NgFor,
+    AsyncPipe,
+    MatDialogModule,
+    MatButtonModule,
+    FontAwesomeModule,
+    TranslocoPipe,
+  ],
+})
+export class DfBulkResultsDialogComponent {
+  faCircleCheck = faCircleCheck;
+  faCircleXmark = faCircleXmark;
+  isDarkMode = this.themeService.darkMode$;
+  succeeded = this.data.results.filter(result => result.success).length;
+
+  constructor(
+    @Inject(MAT_DIALOG_DATA) public data: BulkResultsDialogData,
+    private themeService: DfThemeService
+  ) {}
+}
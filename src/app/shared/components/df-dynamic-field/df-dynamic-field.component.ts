@@ -36,6 +36,7 @@ import {
   DfFileSelectorComponent,
   SelectedFile,
 } from '../df-file-selector/df-file-selector.component';
+import { ConfigError, configErrors } from '../../utilities/config-rules';
 
 @UntilDestroy({ checkProperties: true })
 @Component({
@@ -69,7 +70,7 @@ export class DfDynamicFieldComponent implements OnInit, DoCheck, AfterViewInit {
   private pendingFilePath: string | null = null;
 
   onChange: (value: any) => void;
-  onTouched: () => void;
+  onTouched: () => void = () => undefined;
 
   constructor(
     @Optional() @Self() public controlDir: NgControl,
@@ -109,6 +110,15 @@ export class DfDynamicFieldComponent implements OnInit, DoCheck, AfterViewInit {
     ) {
       this.control.addValidators(Validators.required);
     }
+    // Show the errors of the rules applied to the outer control
+    const errors = this.controlDir.control?.errors ?? null;
+    if (JSON.stringify(errors) !== JSON.stringify(this.control.errors)) {
+      this.control.setErrors(errors);
+    }
+  }
+
+  get error(): ConfigError | undefined {
+    return configErrors({ [this.schema.name]: this.controlDir.control })[0];
   }
 
   ngAfterViewInit(): void {
@@ -124,4 +124,30 @@ describe('DfManageTableComponent', () => {
 
     expect(openSpy).toHaveBeenCalled();
   });
+
+  it('should only show the selection column when there are bulk actions', () => {
+    expect(component.displayedColumns).not.toContain('select');
+
+    component.bulkActions = [{ label: 'delete', function: jest.fn() }];
+
+    expect(component.displayedColumns[0]).toBe('select');
+  });
+
+  it('should toggle the selection of all rows and pass it to bulk actions', () => {
+    const rows = [
+      { id: 1, name: 'one', description: '', isActive: true },
+      { id: 2, name: 'two', description: '', isActive: false },
+    ];
+    const bulkFunction = jest.fn();
+    component.dataSource.data = rows;
+
+    component.toggleAllRows();
+    expect(component.isAllSelected()).toBe(true);
+
+    component.runBulkAction({ label: 'delete', function: bulkFunction });
+    expect(bulkFunction).toHaveBeenCalledWith(rows);
+
+    component.toggleAllRows();
+    expect(component.selection.hasValue()).toBe(false);
+  });
 });
@@ -1,4 +1,5 @@
 import { LiveAnnouncer } from '@angular/cdk/a11y';
+import { SelectionModel } from '@angular/cdk/collections';
 import {
   AfterViewInit,
   Component,
@@ -38,8 +39,14 @@ import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
+import { MatCheckboxModule } from '@angular/material/checkbox';
 import { UntilDestroy } from '@ngneat/until-destroy';
-import { Actions, AdditonalAction, Column } from 'src/app/shared/types/table';
+import {
+  Actions,
+  AdditonalAction,
+  BulkAction,
+  Column,
+} from 'src/app/shared/types/table';
 import { DfThemeService } from 'src/app/shared/services/df-theme.service';
 import { DfSystemConfigDataService } from 'src/app/shared/services/df-system-config-data.service';
 
@@ -58,6 +65,7 @@ export const DfManageTableModules = [
   MatFormFieldModule,
   MatInputModule,
   MatSortModule,
+  MatCheckboxModule,
 ];
 
 @UntilDestroy({ checkProperties: true })
@@ -112,6 +120,9 @@ export abstract class DfManageTableComponent<T>
     ],
   };
   cacheService: any;
+  /** Lists opt in to row selection by providing bulk actions */
+  bulkActions: Array<BulkAction<T>> = [];
+  selection = new SelectionModel<T>(true, []);
 
   constructor(
     protected router: Router,
@@ -145,6 +156,7 @@ export abstract class DfManageTableComponent<T>
       this.currentFilter.valueChanges
         .pipe(debounceTime(1000), distinctUntilChanged())
         .subscribe(filter => {
+          this.selection.clear();
           filter
             ? this.refreshTable(currentPageSize, 0, this.filterQuery(filter))
             : this.refreshTable();
@@ -186,7 +198,29 @@ export abstract class DfManageTableComponent<T>
   }
 
   get displayedColumns() {
-    return this.columns.map(c => c.columnDef);
+    const columns = this.columns.map(c => c.columnDef);
+    return this.bulkActions.length ? ['select', ...columns] : columns;
+  }
+
+  isAllSelected(): boolean {
+    const rows = this.dataSource.data;
+    return !!rows.length && rows.every(row => this.selection.isSelected(row));
+  }
+
+  toggleAllRows(): void {
+    if (this.isAllSelected()) {
+      this.selection.clear();
+    } else {
+      this.selection.select(...this.dataSource.data);
+    }
+  }
+
+  isBulkActionDisabled(action: BulkAction<T>): boolean {
+    return !!action.disabled && action.disabled(this.selection.selected);
+  }
+
+  runBulkAction(action: BulkAction<T>): void {
+    action.function([...this.selection.selected]);
   }
 
   // get defaultPageSize() {
@@ -31,6 +31,7 @@ export enum URLS {
   SYSTEM_CACHE = `${BASE_URL}/system/cache`,
   EMAIL_TEMPLATES = `${BASE_URL}/system/email_template`,
   LOOKUP_KEYS = `${BASE_URL}/system/lookup`,
+  PACKAGE = `${BASE_URL}/system/package`,
   FILES = `${BASE_URL}/files`,
   LOGS = `${BASE_URL}/logs`,
 }
@@ -70,6 +70,22 @@ describe('caseInterceptor', () => {
     req.flush(raw, { headers: { 'Content-Type': 'application/json' } });
   });
 
+  it('leaves /system/package manifests untouched in both directions', done => {
+    const manifest = {
+      service: { myDb: { _schema: ['orderItems'] }, system: { role: ['x'] } },
+    };
+    http.post('/api/v2/system/package', manifest).subscribe((body: any) => {
+      expect(body).toEqual({ is_public: true, service: { my_files: [] } });
+      done();
+    });
+    const req = httpMock.expectOne('/api/v2/system/package');
+    expect(req.request.body).toEqual(manifest);
+    req.flush(
+      { is_public: true, service: { my_files: [] } },
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  });
+
   it('converts camelCase request bodies to snake_case', () => {
     http
       .post('/api/v2/system/service', { isActive: true, apiKey: 'x' })
@@ -79,6 +95,23 @@ describe('caseInterceptor', () => {
     req.flush({});
   });
 
+  it('sends table records with their column names verbatim', () => {
+    const record = { CustomerID: 7, Name: 'Acme', first_name: 'Ann' };
+    http
+      .post('/api/v2/db/_table/Customers', { resource: [record] })
+      .subscribe();
+    http.patch('/api/v2/db/_table/Customers/7', record).subscribe();
+
+    const create = httpMock.expectOne(
+      req => req.method === 'POST' && req.url === '/api/v2/db/_table/Customers'
+    );
+    expect(create.request.body).toEqual({ resource: [record] });
+    create.flush({});
+    const update = httpMock.expectOne('/api/v2/db/_table/Customers/7');
+    expect(update.request.body).toEqual(record);
+    update.flush({});
+  });
+
   it('does not transform requests that fall outside /api', () => {
     http.get('/dreamfactory/dist/assets/i18n/en.json').subscribe();
     const req = httpMock.expectOne('/dreamfactory/dist/assets/i18n/en.json');
@@ -24,11 +24,23 @@ export const caseInterceptor: HttpInterceptorFn = (
   // bogus names and the script lookup drift from what the backend expects.
   const isSystemEventRequest = /\/system\/event(\?|$|\/)/.test(req.url);
 
-  const skipResponseTransform = isApiDocsRequest || isSystemEventRequest;
+  // Skip case transformation for /system/package in both directions. Package
+  // manifests are keyed by service names, which must round-trip verbatim
+  // for an export to find the services it was asked for.
+  const isPackageRequest = /\/system\/package(\?|$|\/)/.test(req.url);
+
+  // Skip the request transform for table records. Their keys are column
+  // names, which may be mixed case (`CustomerID`) and are sent verbatim.
+  const isTableRecordRequest = /\/_table\/[^?]/.test(req.url);
+
+  const skipRequestTransform =
+    isApiDocsRequest || isPackageRequest || isTableRecordRequest;
+  const skipResponseTransform =
+    isApiDocsRequest || isSystemEventRequest || isPackageRequest;
 
   if (req.url.startsWith('/api') && !(req.body instanceof FormData)) {
     const transformedRequest = req.clone({
-      body: isApiDocsRequest ? req.body : mapCamelToSnake(req.body),
+      body: skipRequestTransform ? req.body : mapCamelToSnake(req.body),
     });
     return next(transformedRequest).pipe(
       map(event => {
@@ -0,0 +1,94 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  from,
+  map,
+  of,
+  takeWhile,
+  toArray,
+} from 'rxjs';
+import { healthCheckEndpointsInfo } from 'src/app/adf-api-docs/constants/health-check-endpoints';
+import { BASE_URL } from '../constants/urls';
+
+export interface EndpointCheck {
+  endpoint: string;
+  title: string;
+  success: boolean;
+  /** Round trip in milliseconds */
+  latency: number;
+  error?: string;
+}
+
+/** Keeps the error interceptor from showing failures the caller reports */
+export const SKIP_ERROR_HEADER = { 'skip-error': 'true' };
+
+/** The driver's message from the error body, which is text for text requests */
+export function errorMessage(err: HttpErrorResponse): string {
+  let body = err?.error;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch (e) {
+      return body || err.message;
+    }
+  }
+  return body?.error?.message || err?.message || 'Unknown error';
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DfEndpointProbeService {
+  constructor(private http: HttpClient) {}
+
+  /** Whether there are endpoints to check for services of the group */
+  supports(group: string | undefined): boolean {
+    return !!group && !!healthCheckEndpointsInfo[group]?.length;
+  }
+
+  /**
+   * Calls the health check endpoints of the group through the service, one
+   * after another. With `stopAtFailure` the endpoints after the first
+   * failing one are left out.
+   */
+  checkGroup(
+    service: string,
+    group: string,
+    stopAtFailure = false
+  ): Observable<EndpointCheck[]> {
+    return from(healthCheckEndpointsInfo[group] ?? []).pipe(
+      concatMap(info => this.check(service, info.endpoint, info.title)),
+      takeWhile(check => !stopAtFailure || check.success, true),
+      toArray()
+    );
+  }
+
+  private check(
+    service: string,
+    endpoint: string,
+    title: string
+  ): Observable<EndpointCheck> {
+    const start = performance.now();
+    const latency = () => Math.round(performance.now() - start);
+    return this.http
+      .get(`${BASE_URL}/${service}${endpoint}`, {
+        headers: SKIP_ERROR_HEADER,
+        responseType: 'text',
+      })
+      .pipe(
+        map(() => ({ endpoint, title, success: true, latency: latency() })),
+        catchError((err: HttpErrorResponse) =>
+          of({
+            endpoint,
+            title,
+            success: false,
+            latency: latency(),
+            error: errorMessage(err),
+          })
+        )
+      );
+  }
+}
@@ -2,7 +2,7 @@ import { RoleType } from './role';
 import { ServiceType } from './service';
 import { UserProfile } from './user';
 
-interface CacheLimitType {
+export interface CacheLimitType {
   id: number;
   key: string;
   max: number;
@@ -29,6 +29,7 @@ export enum ROUTES {
   SCRIPTS = 'scripts',
   EVENT_SCRIPTS = 'event-scripts',
   API_DOCS = 'api-docs',
+  SERVICE_HEALTH = 'service-health',
   DATA_EXPLORER = 'data-explorer',
   API_SECURITY = 'api-security',
   RATE_LIMITING = 'rate-limiting',
@@ -42,6 +43,8 @@ export enum ROUTES {
   ADMIN_SETTINGS = 'admin-settings',
   ADMINS = 'admins',
   SCHEMA = 'schema',
+  ER_DIAGRAM = 'er-diagram',
+  SCHEMA_COMPARE = 'compare',
   USERS = 'users',
   FILES = 'files',
   LAUNCHPAD = 'launchpad',
@@ -24,3 +24,16 @@ export interface Actions<T> {
   default: DefaultAction<T> | null;
   additional: Array<AdditonalAction<T>> | null;
 }
+
+export interface BulkAction<T> {
+  label: string;
+  function: (rows: Array<T>) => void;
+  icon?: IconDefinition;
+  disabled?: (rows: Array<T>) => boolean;
+}
+
+export interface BulkResult {
+  name: string;
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,29 @@
+import { of, throwError } from 'rxjs';
+import { BulkResult } from '../types/table';
+import { runBulk } from './bulk';
+
+describe('runBulk', () => {
+  it('collects a result per item and keeps going after failures', () => {
+    let results: Array<BulkResult> = [];
+    runBulk(
+      [1, 2, 3],
+      item => `item ${item}`,
+      item =>
+        item === 2
+          ? throwError(() => ({ error: { error: { message: 'Not found' } } }))
+          : of(item)
+    ).subscribe(r => (results = r));
+
+    expect(results).toEqual([
+      { name: 'item 1', success: true },
+      { name: 'item 2', success: false, error: 'Not found' },
+      { name: 'item 3', success: true },
+    ]);
+  });
+
+  it('emits an empty list for no items', () => {
+    let results: Array<BulkResult> | undefined;
+    runBulk([], String, () => of(null)).subscribe(r => (results = r));
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  Observable,
+  catchError,
+  concatMap,
+  from,
+  map,
+  of,
+  toArray,
+} from 'rxjs';
+import { BulkResult } from '../types/table';
+
+/**
+ * Runs the request for each item one after another, collecting a result per
+ * item instead of stopping at the first failure.
+ */
+export function runBulk<T>(
+  items: Array<T>,
+  name: (item: T) => string,
+  request: (item: T) => Observable<unknown>
+): Observable<Array<BulkResult>> {
+  return from(items).pipe(
+    concatMap(item =>
+      request(item).pipe(
+        map(() => ({ name: name(item), success: true })),
+        catchError(err =>
+          of({
+            name: name(item),
+            success: false,
+            error: err?.error?.error?.message ?? err?.message,
+          })
+        )
+      )
+    ),
+    toArray()
+  );
+}
@@ -0,0 +1,154 @@
+import { FormControl } from '@angular/forms';
+import { ConfigSchema } from '../types/service';
+import {
+  configConditions,
+  configErrors,
+  configValidators,
+  isConditionMet,
+} from './config-rules';
+
+const field = (overrides: Partial<ConfigSchema>) =>
+  ({
+    name: 'field',
+    label: 'Field',
+    type: 'string',
+    ...overrides,
+  }) as ConfigSchema;
+
+const errorsOf = (item: ConfigSchema, value: unknown) =>
+  new FormControl(value, configValidators(item)).errors;
+
+describe('configValidators', () => {
+  it('applies length, range and pattern rules', () => {
+    const port = field({
+      type: 'integer',
+      validation: { int: { range: { min: 1, max: 65535 } } },
+    });
+    expect(errorsOf(port, 0)).toEqual({ min: { min: 1, actual: 0 } });
+    expect(errorsOf(port, '8.5')).toEqual({ integer: true });
+    expect(errorsOf(port, 3306)).toBeNull();
+
+    const name = field({ length: 3 });
+    expect(errorsOf(name, 'abcd')).toEqual({
+      maxlength: { requiredLength: 3, actualLength: 4 },
+    });
+
+    const host = field({
+      validation: JSON.stringify({
+        match: { regexp: '/^[a-z.]+$/i', on_fail: 'Letters and dots only' },
+      }),
+    });
+    expect(errorsOf(host, 'DB.local')).toBeNull();
+    expect(errorsOf(host, 'db:1')).toEqual({
+      pattern: { message: 'Letters and dots only' },
+    });
+  });
+
+  it('checks picklist values and leaves empty optional values alone', () => {
+    const charset = field({ picklist: 'utf8\nlatin1' });
+    expect(errorsOf(charset, 'ascii')).toEqual({ picklist: true });
+    expect(errorsOf(charset, 'latin1')).toBeNull();
+    expect(errorsOf(charset, '')).toBeNull();
+    expect(
+      errorsOf(field({ required: true, validation: ['email'] }), '')
+    ).toEqual({ required: true });
+  });
+});
+
+describe('configConditions', () => {
+  const schema = [
+    field({ name: 'host' }),
+    field({ name: 'ssl', type: 'boolean' }),
+    field({ name: 'ssl_ca' }),
+    field({ name: 'client_cert_path' }),
+    field({
+      name: 'driver',
+      type: 'picklist',
+      values: [{ name: 'odbc' }, { name: 'pdo' }],
+    }),
+    field({ name: 'odbc_dsn' }),
+  ];
+
+  it('makes SSL settings depend on the toggle and options on the driver', () => {
+    const conditions = configConditions(schema);
+    expect(conditions).toEqual({
+      ssl_ca: { field: 'ssl' },
+      client_cert_path: { field: 'ssl' },
+      odbc_dsn: { field: 'driver', values: ['odbc'] },
+    });
+    expect(isConditionMet(conditions['ssl_ca'], { ssl: false })).toBe(false);
+    expect(isConditionMet(conditions['ssl_ca'], { ssl: true })).toBe(true);
+    expect(isConditionMet(conditions['odbc_dsn'], { driver: 'pdo' })).toBe(
+      false
+    );
+    expect(isConditionMet(undefined, {})).toBe(true);
+  });
+
+  it('matches the camel-cased schema of the service form', () => {
+    const camelSchema = [
+      field({ name: 'host' }),
+      field({ name: 'useSsl', type: 'boolean' }),
+      field({ name: 'sslCa' }),
+      field({ name: 'privateKey' }),
+      field({
+        name: 'driver',
+        type: 'picklist',
+        values: [{ name: 'odbc' }, { name: 'pdo' }],
+      }),
+      field({ name: 'odbcDsn' }),
+      field({
+        name: 'pdoOptions',
+        dependsOn: { field: 'use_ssl' },
+      } as Partial<ConfigSchema>),
+    ];
+    const conditions = configConditions(camelSchema);
+    expect(conditions).toEqual({
+      sslCa: { field: 'useSsl' },
+      privateKey: { field: 'useSsl' },
+      odbcDsn: { field: 'driver', values: ['odbc'] },
+      pdoOptions: { field: 'useSsl' },
+    });
+    expect(isConditionMet(conditions['sslCa'], { useSsl: true })).toBe(true);
+    expect(isConditionMet(conditions['odbcDsn'], { driver: 'pdo' })).toBe(
+      false
+    );
+  });
+});
+
+describe('configErrors', () => {
+  it('lists the failed rules of enabled controls', () => {
+    const name = new FormControl(
+      '',
+      configValidators(field({ required: true }))
+    );
+    const hidden = new FormControl(
+      '',
+      configValidators(field({ required: true }))
+    );
+    hidden.disable();
+    const host = new FormControl(
+      'x',
+      configValidators(
+        field({
+          validation: { match: { regexp: '^\\d+$', on_fail: 'Digits' } },
+        })
+      )
+    );
+    expect(configErrors({ name, hidden, host }, { name: 'Name' })).toEqual([
+      {
+        field: 'name',
+        label: 'Name',
+        key: 'validation.required',
+        params: {},
+        message: undefined,
+      },
+      {
+        field: 'host',
+        label: 'host',
+        key: 'validation.pattern',
+        params: { message: 'Digits' },
+        message: 'Digits',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  AbstractControl,
+  ValidationErrors,
+  ValidatorFn,
+  Validators,
+} from '@angular/forms';
+import { ConfigSchema } from '../types/service';
+import { camelToSnakeString } from './case';
+
+/** A field is shown while the field it depends on has one of the values */
+export interface ConfigCondition {
+  field: string;
+  /** Any truthy value when omitted */
+  values?: unknown[];
+}
+
+export interface ConfigError {
+  field: string;
+  label: string;
+  /** Translation key under `validation` */
+  key: string;
+  params: Record<string, unknown>;
+  /** The `on_fail` message of the schema, shown instead of the key */
+  message?: string;
+}
+
+/** Boolean fields that turn the SSL/TLS settings of a connection on */
+const SSL_TOGGLES = ['ssl', 'use_ssl', 'ssl_enabled', 'tls', 'use_tls'];
+
+const SSL_FIELD = /^(ssl|tls)_|cert|private_key|pass_?phrase/;
+
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+/**
+ * The `validation` of a schema field is an object keyed by rule, a JSON
+ * string of it, or a list of rule names.
+ */
+function parseValidation(validation: unknown): Record<string, any> {
+  if (typeof validation === 'string') {
+    try {
+      return parseValidation(JSON.parse(validation));
+    } catch (e) {
+      return {};
+    }
+  }
+  if (Array.isArray(validation)) {
+    return Object.fromEntries(validation.map(rule => [rule, {}]));
+  }
+  return validation && typeof validation === 'object'
+    ? (validation as Record<string, any>)
+    : {};
+}
+
+/** Regular expressions are stored with PHP style delimiters */
+function toRegExp(pattern: string): RegExp | null {
+  const delimited = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  try {
+    return delimited
+      ? new RegExp(delimited[1], delimited[2].replace(/[^gimsuy]/g, ''))
+      : new RegExp(pattern);
+  } catch (e) {
+    return null;
+  }
+}
+
+function allowedValues(item: ConfigSchema): string[] {
+  if (typeof item.picklist === 'string') {
+    return item.picklist
+      .split(/\r?\n|,/)
+      .map(value => value.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(item.picklist)) {
+    return item.picklist.map(String);
+  }
+  return (item.values ?? []).map(value =>
+    typeof value === 'object' ? String(value.name) : String(value)
+  );
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && !value.length)
+  );
+}
+
+/** Adds the schema's failure message to the errors of a validator */
+function withMessage(validator: ValidatorFn, message?: string): ValidatorFn {
+  return control => {
+    const errors = validator(control);
+    if (!errors || !message) {
+      return errors;
+    }
+    return Object.fromEntries(
+      Object.entries(errors).map(([key, value]) => [
+        key,
+        { ...(typeof value === 'object' ? value : {}), message },
+      ])
+    );
+  };
+}
+
+function rule(key: string, test: (value: any) => boolean): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null =>
+    isEmpty(control.value) || test(control.value) ? null : { [key]: true };
+}
+
+/** Validators for the `required`, `length`, `picklist` and `validation` of a field */
+export function configValidators(item: ConfigSchema): ValidatorFn[] {
+  const validators: ValidatorFn[] = [];
+  const validation = parseValidation(item.validation);
+  const has = (key: string) => key in validation;
+  const onFail = (key: string): string | undefined =>
+    validation[key]?.on_fail || undefined;
+
+  if (item.required) {
+    validators.push(Validators.required);
+  }
+  if (has('not_empty') || has('not_null')) {
+    validators.push(
+      withMessage(
+        Validators.required,
+        onFail('not_empty') ?? onFail('not_null')
+      )
+    );
+  }
+  if (
+    item.length &&
+    ['string', 'text', 'password'].includes(item.type) &&
+    !has('match')
+  ) {
+    validators.push(Validators.maxLength(item.length));
+  }
+  if (has('not_zero')) {
+    validators.push(
+      withMessage(
+        rule('notZero', value => Number(value) !== 0),
+        onFail('not_zero')
+      )
+    );
+  }
+  if (has('email')) {
+    validators.push(withMessage(Validators.email, onFail('email')));
+  }
+  if (has('url')) {
+    validators.push(
+      withMessage(
+        rule('url', value => URL_PATTERN.test(String(value))),
+        onFail('url')
+      )
+    );
+  }
+  ['int', 'float'].filter(has).forEach(key => {
+    validators.push(
+      withMessage(
+        rule(key === 'int' ? 'integer' : 'number', value =>
+          key === 'int' ? /^-?\d+$/.test(String(value)) : !isNaN(Number(value))
+        ),
+        onFail(key)
+      )
+    );
+    const range = validation[key]?.range ?? {};
+    if (range.min !== undefined) {
+      validators.push(withMessage(Validators.min(range.min), onFail(key)));
+    }
+    if (range.max !== undefined) {
+      validators.push(withMessage(Validators.max(range.max), onFail(key)));
+    }
+  });
+  if (has('match')) {
+    const pattern = toRegExp(
+      validation['match']?.regexp ?? validation['match']?.pattern ?? ''
+    );
+    if (pattern) {
+      validators.push(
+        withMessage(
+          rule('pattern', value => {
+            pattern.lastIndex = 0;
+            return pattern.test(String(value));
+          }),
+          onFail('match')
+        )
+      );
+    }
+  }
+  const values = allowedValues(item);
+  if (
+    values.length &&
+    (item.picklist || has('picklist') || has('multi_picklist'))
+  ) {
+    validators.push(
+      withMessage(
+        rule('picklist', value =>
+          (Array.isArray(value) ? value : [value]).every(v =>
+            values.includes(String(v))
+          )
+        ),
+        onFail('picklist') ?? onFail('multi_picklist')
+      )
+    );
+  }
+  return validators;
+}
+
+/**
+ * The fields of a schema that are only relevant depending on another
+ * field: an explicit `dependsOn` of the field, SSL settings that need the
+ * SSL toggle on and options named after a driver, e.g. `odbc_dsn` only
+ * applies while `driver` is `odbc`. Names are matched in snake case, so the
+ * camel-cased schema of the service form works as well, and the conditions
+ * are keyed by the names the schema uses.
+ */
+export function configConditions(
+  schema: ConfigSchema[]
+): Record<string, ConfigCondition> {
+  const conditions: Record<string, ConfigCondition> = {};
+  const snakeName = (item: ConfigSchema) => camelToSnakeString(item.name);
+  const named = (name: string) =>
+    schema.find(item => snakeName(item) === camelToSnakeString(name));
+  const sslToggle = schema.find(
+    item => item.type === 'boolean' && SSL_TOGGLES.includes(snakeName(item))
+  );
+  const driver = schema.find(
+    item => snakeName(item) === 'driver' && item.type === 'picklist'
+  );
+  const drivers = driver ? allowedValues(driver) : [];
+
+  schema.forEach(item => {
+    const name = snakeName(item);
+    const dependsOn = (item as ConfigSchema & { dependsOn?: ConfigCondition })
+      .dependsOn;
+    const driverName = drivers.find(value => name.startsWith(`${value}_`));
+    if (dependsOn?.field) {
+      conditions[item.name] = {
+        ...dependsOn,
+        field: named(dependsOn.field)?.name ?? dependsOn.field,
+      };
+    } else if (sslToggle && item !== sslToggle && SSL_FIELD.test(name)) {
+      conditions[item.name] = { field: sslToggle.name };
+    } else if (driver && driverName) {
+      conditions[item.name] = { field: driver.name, values: [driverName] };
+    }
+  });
+  return conditions;
+}
+
+export function isConditionMet(
+  condition: ConfigCondition | undefined,
+  config: Record<string, unknown> | null | undefined
+): boolean {
+  if (!condition) {
+    return true;
+  }
+  const value = config?.[condition.field];
+  return condition.values
+    ? condition.values.some(allowed => String(allowed) === String(value))
+    : !!value;
+}
+
+/** One entry per failed rule of the invalid, enabled controls */
+export function configErrors(
+  controls: Record<string, AbstractControl | null | undefined>,
+  labels: Record<string, string> = {}
+): ConfigError[] {
+  return Object.entries(controls).flatMap(([field, control]) =>
+    control && control.enabled && control.errors
+      ? Object.entries(control.errors).map(([key, value]) => ({
+          field,
+          label: labels[field] ?? field,
+          key: `validation.${key === 'maxlength' ? 'maxLength' : key}`,
+          params: typeof value === 'object' ? value : {},
+          message: typeof value === 'object' ? value.message : undefined,
+        }))
+      : []
+  );
+}
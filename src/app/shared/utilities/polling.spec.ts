@@ -0,0 +1,64 @@
+import { BehaviorSubject } from 'rxjs';
+import { pollWhileVisible } from './polling';
+
+describe('pollWhileVisible', () => {
+  let document: Document & { hidden: boolean };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    document = Object.assign(new EventTarget(), { hidden: false }) as never;
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const setHidden = (hidden: boolean) => {
+    document.hidden = hidden;
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  it('polls on the interval and pauses while hidden', () => {
+    let runs = 0;
+    let lastRun = Date.now();
+    const subscription = pollWhileVisible(
+      document,
+      new BehaviorSubject(10),
+      () => lastRun
+    ).subscribe(() => {
+      runs++;
+      lastRun = Date.now();
+    });
+
+    jest.advanceTimersByTime(10000);
+    expect(runs).toBe(1);
+
+    setHidden(true);
+    jest.advanceTimersByTime(30000);
+    expect(runs).toBe(1);
+
+    setHidden(false);
+    jest.advanceTimersByTime(0);
+    expect(runs).toBe(2);
+
+    subscription.unsubscribe();
+  });
+
+  it('schedules the next run from the last one when the interval changes', () => {
+    let runs = 0;
+    const lastRun = Date.now();
+    const seconds$ = new BehaviorSubject(60);
+    const subscription = pollWhileVisible(
+      document,
+      seconds$,
+      () => lastRun
+    ).subscribe(() => runs++);
+
+    jest.advanceTimersByTime(20000);
+    seconds$.next(30);
+    jest.advanceTimersByTime(9999);
+    expect(runs).toBe(0);
+    jest.advanceTimersByTime(1);
+    expect(runs).toBe(1);
+
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  EMPTY,
+  Observable,
+  combineLatest,
+  distinctUntilChanged,
+  fromEvent,
+  map,
+  startWith,
+  switchMap,
+  timer,
+} from 'rxjs';
+
+/**
+ * Emits every `seconds` while the document is visible. Becoming visible
+ * again or changing the interval schedules the next run relative to
+ * `lastRun`, so a run missed while hidden happens right away.
+ */
+export function pollWhileVisible(
+  document: Document,
+  seconds$: Observable<number>,
+  lastRun: () => number
+): Observable<number> {
+  const visible$ = fromEvent(document, 'visibilitychange').pipe(
+    map(() => !document.hidden),
+    startWith(!document.hidden),
+    distinctUntilChanged()
+  );
+  return combineLatest([visible$, seconds$]).pipe(
+    switchMap(([visible, seconds]) =>
+      visible
+        ? timer(
+            Math.max(0, lastRun() + seconds * 1000 - Date.now()),
+            seconds * 1000
+          )
+        : EMPTY
+    )
+  );
+}
@@ -34,6 +34,19 @@ describe('Route Utilities', () => {
     ]);
   });
 
+  it('should allow the package manager with the packages tab', () => {
+    const navs = [
+      { path: '/package-manager', route: ROUTES.PACKAGES },
+      { path: '/scheduler', route: ROUTES.SCHEDULER },
+    ];
+
+    const result = accessibleRoutes(navs, ['packages']);
+
+    expect(result).toEqual([
+      { path: '/package-manager', route: ROUTES.PACKAGES },
+    ]);
+  });
+
   it('should generate breadcrumbs based on the current URL', () => {
     const routes: Routes = [{ path: 'test', children: [{ path: 'child' }] }];
 
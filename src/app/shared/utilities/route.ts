@@ -87,7 +87,11 @@ export function accessibleRoutes(
         );
         break;
       case 'apidocs':
-        allowed.push(ROUTES.API_DOCS, ROUTES.DATA_EXPLORER);
+        allowed.push(
+          ROUTES.API_DOCS,
+          ROUTES.SERVICE_HEALTH,
+          ROUTES.DATA_EXPLORER
+        );
         break;
       case 'schema/data':
         allowed.push(ROUTES.SCHEMA);
@@ -113,6 +117,9 @@ export function accessibleRoutes(
       case 'scheduler':
         allowed.push(ROUTES.SCHEDULER);
         break;
+      case 'packages':
+        allowed.push(ROUTES.PACKAGES);
+        break;
     }
   });
   return navs.filter(nav => {
@@ -0,0 +1,34 @@
+/**
+ * @jest-environment node
+ */
+import { createZip, findZipEntry, inflateEntry } from './zip';
+
+describe('findZipEntry', () => {
+  const encoder = new TextEncoder();
+  const zip = createZip(
+    [
+      { name: 'system/role.json', data: encoder.encode('[]') },
+      { name: 'package.json', data: encoder.encode('{"service":{}}') },
+    ],
+    'application/zip'
+  );
+
+  it('finds a stored entry through the central directory', done => {
+    zip.arrayBuffer().then(buffer => {
+      const entry = findZipEntry(buffer, 'package.json');
+      expect(entry?.method).toBe(0);
+      inflateEntry(entry!).subscribe(text => {
+        expect(JSON.parse(text)).toEqual({ service: {} });
+        done();
+      });
+    });
+  });
+
+  it('returns null for missing entries and non-zip data', done => {
+    zip.arrayBuffer().then(buffer => {
+      expect(findZipEntry(buffer, 'missing.json')).toBeNull();
+      expect(findZipEntry(new ArrayBuffer(64), 'package.json')).toBeNull();
+      done();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Observable, from, map, of, switchMap, throwError } from 'rxjs';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed (stored) ZIP archive. Good enough for container
+ * formats such as XLSX without pulling in a compression library.
+ */
+export function createZip(entries: ZipEntry[], type: string): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, STORED, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true); // version needed
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type });
+}
+
+export interface ZipEntryData {
+  /** Compression method, 0 stored or 8 deflated */
+  method: number;
+  data: Uint8Array;
+}
+
+/**
+ * Locates a file in a ZIP archive through its central directory. Only the
+ * raw (possibly compressed) bytes are returned, see `inflateEntry`.
+ */
+export function findZipEntry(
+  buffer: ArrayBuffer,
+  name: string
+): ZipEntryData | null {
+  const view = new DataView(buffer);
+  // The end record sits at the end, followed by an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) break;
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const local = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(
+      new Uint8Array(buffer, offset + 46, nameLength)
+    );
+    if (entryName === name || entryName.endsWith(`/${name}`)) {
+      if (view.getUint32(local, true) !== LOCAL_FILE_HEADER) return null;
+      const start =
+        local +
+        30 +
+        view.getUint16(local + 26, true) +
+        view.getUint16(local + 28, true);
+      return { method, data: new Uint8Array(buffer, start, size) };
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+export function inflateEntry(entry: ZipEntryData): Observable<string> {
+  if (entry.method === STORED) {
+    return of(new TextDecoder().decode(entry.data));
+  }
+  if (entry.method !== DEFLATED) {
+    return throwError(
+      () => new Error(`Unsupported compression method ${entry.method}`)
+    );
+  }
+  const stream = new Blob([entry.data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return from(new Response(stream).text());
+}
+
+/** Text content of a file in the archive, or null if it isn't there */
+export function readZipText(
+  file: Blob,
+  name: string
+): Observable<string | null> {
+  return from(file.arrayBuffer()).pipe(
+    map(buffer => findZipEntry(buffer, name)),
+    switchMap(entry => (entry ? inflateEntry(entry) : of(null)))
+  );
+}